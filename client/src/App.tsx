@@ -3,15 +3,19 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 import ContextBuilder from "@/pages/context-builder";
+import AuthPage from "@/pages/auth-page";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={ContextBuilder} />
-      <Route path="/context-builder" component={ContextBuilder} />
+      <Route path="/auth" component={AuthPage} />
+      <ProtectedRoute path="/" component={ContextBuilder} />
+      <ProtectedRoute path="/context-builder" component={ContextBuilder} />
       {/* Fallback to context builder for any other route */}
-      <Route component={ContextBuilder} />
+      <ProtectedRoute component={ContextBuilder} />
     </Switch>
   );
 }
@@ -19,10 +23,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
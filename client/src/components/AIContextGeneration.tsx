@@ -6,6 +6,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { isSourceConnectionType, type LlmUsageSummary } from "@shared/schema";
 
 interface AnalysisJob {
   id: string;
@@ -14,6 +15,7 @@ interface AnalysisJob {
   progress: number;
   result?: string;
   error?: string;
+  lastError?: string | null;
 }
 
 interface TableDescription {
@@ -64,13 +66,13 @@ export default function AIContextGeneration() {
   const { data: connections = [] } = useQuery({
     queryKey: ['/api/connections'],
     queryFn: async () => {
-      const response = await fetch('/api/connections?userId=default-user');
+      const response = await fetch('/api/connections');
       return response.json();
     }
   });
 
-  const postgresConnection = connections.find((c: any) => c.type === 'postgresql' && c.status === 'connected');
-  const geminiConnection = connections.find((c: any) => c.type === 'gemini' && c.status === 'connected');
+  const postgresConnection = connections.find((c: any) => isSourceConnectionType(c.type) && c.status === 'connected');
+  const geminiConnection = connections.find((c: any) => (c.type === 'llm' || c.type === 'gemini') && c.status === 'connected');
 
   const { data: databases = [] } = useQuery({
     queryKey: ['/api/databases', postgresConnection?.id],
@@ -132,6 +134,29 @@ export default function AIContextGeneration() {
   const latestContextJob = contextJobs[0];
   const latestJoinJob = joinJobs[0];
 
+  // LLM spend for the latest run and for the database overall
+  const { data: latestJobUsage } = useQuery<LlmUsageSummary | null>({
+    queryKey: ['/api/databases', database?.id, 'jobs', latestContextJob?.id, 'llm-usage'],
+    queryFn: async () => {
+      const response = await fetch(`/api/databases/${database.id}/jobs/${latestContextJob!.id}`);
+      if (!response.ok) throw new Error('Failed to fetch job');
+      const job = await response.json();
+      return job.llmUsage ?? null;
+    },
+    enabled: !!database && !!latestContextJob,
+    refetchInterval: latestContextJob?.status === 'running' ? 2000 : false
+  });
+
+  const { data: databaseUsage } = useQuery<LlmUsageSummary>({
+    queryKey: ['/api/databases', database?.id, 'llm-usage', latestContextJob?.status],
+    queryFn: async () => {
+      const response = await fetch(`/api/databases/${database.id}/llm-usage`);
+      if (!response.ok) throw new Error('Failed to fetch LLM usage');
+      return response.json();
+    },
+    enabled: !!database
+  });
+
   // Parse results when jobs complete
   if (latestContextJob?.status === 'completed' && latestContextJob.result && !contextResults) {
     console.log('Parsing context job result:', latestContextJob.result);
@@ -200,19 +225,21 @@ export default function AIContextGeneration() {
     }
   }
 
+  const formatTokens = (tokens: number): string =>
+    tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}K` : String(tokens);
+
+  const formatCost = (usd: number): string =>
+    usd > 0 && usd < 0.01 ? `<$0.01` : `$${usd.toFixed(2)}`;
+
   const getTokenUsage = (): string => {
-    // Rough estimation based on number of tables and their complexity
-    if (!database) return "0K";
-    
-    // This would be calculated based on actual API usage
-    const estimatedTokens = contextResults ? "47K" : "0K";
-    return estimatedTokens;
+    if (!latestJobUsage) return "0";
+    return formatTokens(latestJobUsage.inputTokens + latestJobUsage.outputTokens);
   };
 
   if (!geminiConnection) {
     return (
       <div className="text-center py-8">
-        <p className="text-muted-foreground">Please configure and test your Gemini API connection first.</p>
+        <p className="text-muted-foreground">Please configure and test your LLM provider connection first.</p>
       </div>
     );
   }
@@ -231,7 +258,7 @@ export default function AIContextGeneration() {
         <h2 className="text-2xl font-semibold" data-testid="ai-context-title">AI Context Generation</h2>
         <div className="flex items-center space-x-3">
           <div className="text-sm text-muted-foreground" data-testid="token-usage">
-            Token usage: {getTokenUsage()} / 8K per call
+            Tokens (latest run): {getTokenUsage()}
           </div>
           <Button 
             onClick={() => generateContext.mutate()}
@@ -477,6 +504,74 @@ export default function AIContextGeneration() {
         </Card>
       </div>
 
+      {/* LLM Spend */}
+      <Card className="mt-6" data-testid="llm-spend-card">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <i className="fas fa-coins mr-2"></i>
+            LLM Spend
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!latestJobUsage && !databaseUsage?.calls && !databaseUsage?.reusedCalls ? (
+            <div className="text-center py-4 text-muted-foreground text-sm">
+              No LLM calls recorded yet
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                <div className="p-3 bg-accent rounded-lg">
+                  <div className="text-xs text-muted-foreground">Latest run cost</div>
+                  <div className="text-lg font-semibold" data-testid="llm-spend-job-cost">
+                    {formatCost(latestJobUsage?.estimatedCost ?? 0)}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {latestJobUsage?.calls ?? 0} calls, {formatTokens(latestJobUsage?.inputTokens ?? 0)} in / {formatTokens(latestJobUsage?.outputTokens ?? 0)} out
+                  </div>
+                </div>
+                <div className="p-3 bg-accent rounded-lg">
+                  <div className="text-xs text-muted-foreground">Reuse savings (latest run)</div>
+                  <div className="text-lg font-semibold text-emerald-600" data-testid="llm-spend-job-savings">
+                    {formatCost(latestJobUsage?.estimatedSavings ?? 0)}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {latestJobUsage?.reusedCalls ?? 0} calls served from existing context
+                  </div>
+                </div>
+                <div className="p-3 bg-accent rounded-lg">
+                  <div className="text-xs text-muted-foreground">Average latency</div>
+                  <div className="text-lg font-semibold">{latestJobUsage?.avgLatencyMs ?? 0}ms</div>
+                  <div className="text-xs text-muted-foreground">
+                    {latestJobUsage?.failedCalls ?? 0} failed calls
+                  </div>
+                </div>
+                <div className="p-3 bg-accent rounded-lg">
+                  <div className="text-xs text-muted-foreground">Database total</div>
+                  <div className="text-lg font-semibold" data-testid="llm-spend-database-cost">
+                    {formatCost(databaseUsage?.estimatedCost ?? 0)}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatCost(databaseUsage?.estimatedSavings ?? 0)} saved by reuse
+                  </div>
+                </div>
+              </div>
+              {latestJobUsage && latestJobUsage.byModel.length > 0 && (
+                <div className="space-y-1">
+                  {latestJobUsage.byModel.map(model => (
+                    <div key={`${model.provider}:${model.model}`} className="flex justify-between text-xs">
+                      <span className="text-muted-foreground">{model.provider} / {model.model || 'unknown model'}</span>
+                      <span>
+                        {model.calls} calls, {formatTokens(model.inputTokens + model.outputTokens)} tokens, {formatCost(model.estimatedCost)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* AI Processing Log */}
       <Card className="mt-6">
         <CardHeader>
@@ -491,7 +586,7 @@ export default function AIContextGeneration() {
               {latestContextJob?.status === 'running' && (
                 <>
                   <div className="text-blue-600">[{new Date().toLocaleTimeString()}] Started AI context & question generation</div>
-                  <div className="text-blue-600">[{new Date().toLocaleTimeString()}] Gemini API calls in progress...</div>
+                  <div className="text-blue-600">[{new Date().toLocaleTimeString()}] LLM calls in progress...</div>
                   <div className="text-blue-600">[{new Date().toLocaleTimeString()}] Progress: {latestContextJob.progress}%</div>
                 </>
               )}
@@ -510,6 +605,11 @@ export default function AIContextGeneration() {
               {latestJoinJob?.status === 'completed' && (
                 <div className="text-emerald-600">[{new Date().toLocaleTimeString()}] Join analysis completed - {joinResults.length} relationships found</div>
               )}
+              {latestContextJob?.lastError && latestContextJob.status !== 'failed' && (
+                <div className="text-amber-600" data-testid="ai-processing-last-error">
+                  [{new Date().toLocaleTimeString()}] Warning: {latestContextJob.lastError}
+                </div>
+              )}
               {(latestContextJob?.status === 'failed' || latestJoinJob?.status === 'failed') && (
                 <div className="text-red-600">
                   [{new Date().toLocaleTimeString()}] Error: {latestContextJob?.error || latestJoinJob?.error}
@@ -71,7 +71,7 @@ export default function CSVUpload({ databaseId, onUploadComplete, className, 'da
   const { data: connections = [] } = useQuery({
     queryKey: ['/api/connections'],
     queryFn: async () => {
-      const response = await fetch('/api/connections?userId=default-user');
+      const response = await fetch('/api/connections');
       return response.json();
     }
   });
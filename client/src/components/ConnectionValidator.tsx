@@ -3,9 +3,14 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { useAuth, connectionRole } from "@/hooks/use-auth";
+import { isSourceConnectionType, roleAtLeast, type LLMProviderName, type SourceConnectionType } from "@shared/schema";
 
 interface ConnectionStatus {
   postgresql: string;
@@ -17,21 +22,177 @@ interface ConnectionValidatorProps {
   onConnectionStatus: (status: ConnectionStatus) => void;
 }
 
+const SOURCE_ENGINES: Record<SourceConnectionType, { label: string; defaultPort: string; fileBased: boolean }> = {
+  postgresql: { label: "PostgreSQL", defaultPort: "5432", fileBased: false },
+  mysql: { label: "MySQL", defaultPort: "3306", fileBased: false },
+  sqlite: { label: "SQLite", defaultPort: "", fileBased: true },
+  duckdb: { label: "DuckDB", defaultPort: "", fileBased: true }
+};
+
+const LLM_PROVIDER_OPTIONS: Record<LLMProviderName, { label: string; needsApiKey: boolean; needsBaseUrl: boolean; modelPlaceholder: string; embeddingModelPlaceholder: string }> = {
+  gemini: { label: "Google Gemini", needsApiKey: true, needsBaseUrl: false, modelPlaceholder: "gemini-2.5-pro", embeddingModelPlaceholder: "text-embedding-004" },
+  openai: { label: "OpenAI-compatible", needsApiKey: true, needsBaseUrl: true, modelPlaceholder: "gpt-4o-mini", embeddingModelPlaceholder: "text-embedding-3-small" },
+  ollama: { label: "Ollama (local)", needsApiKey: false, needsBaseUrl: true, modelPlaceholder: "llama3.1", embeddingModelPlaceholder: "nomic-embed-text" },
+  mock: { label: "Offline mock", needsApiKey: false, needsBaseUrl: false, modelPlaceholder: "", embeddingModelPlaceholder: "" }
+};
+
 interface Connection {
   id: string;
+  userId: string;
+  workspaceId: string | null;
   name: string;
   type: string;
+  config: Record<string, any>; // Secrets arrive masked
   status: string;
   lastTested?: string;
+  llmConnectionId?: string | null;
+}
+
+// Counts returned by /api/connections/:id/dependents
+interface ConnectionDependents {
+  databases: number;
+  tables: number;
+  columns: number;
+  foreignKeys: number;
+  smeQuestions: number;
+  contextItems: number;
+  enumValues: number;
+  analysisJobs: number;
+  personas: number;
+  embeddings: number;
+  evalCases: number;
+  llmCalls: number;
+  references: number;
+}
+
+const DEPENDENT_LABELS: Array<[Exclude<keyof ConnectionDependents, 'references'>, string]> = [
+  ['databases', 'databases'],
+  ['tables', 'tables'],
+  ['columns', 'columns'],
+  ['foreignKeys', 'foreign keys'],
+  ['smeQuestions', 'SME questions and answers'],
+  ['contextItems', 'context items'],
+  ['enumValues', 'enum values'],
+  ['analysisJobs', 'analysis jobs'],
+  ['personas', 'personas'],
+  ['embeddings', 'search embeddings'],
+  ['evalCases', 'evaluation cases'],
+  ['llmCalls', 'recorded LLM calls']
+];
+
+type ConnectionForm = 'postgresql' | 'gemini' | 'neo4j';
+
+// Masked secrets come back blank so saving keeps them; ${ENV_VAR} references are shown as-is
+function editableSecret(value: unknown): string {
+  return typeof value === 'string' && value.startsWith('${') ? value : '';
+}
+
+function DeleteConnectionDialog({ connection, onClose }: { connection: Connection; onClose: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [cascade, setCascade] = useState(false);
+  const [clearGraph, setClearGraph] = useState(false);
+
+  const { data: dependents, isLoading } = useQuery<ConnectionDependents>({
+    queryKey: ['/api/connections', connection.id, 'dependents'],
+    queryFn: async () => {
+      const response = await fetch(`/api/connections/${connection.id}/dependents`);
+      if (!response.ok) throw new Error('Failed to count dependents');
+      return response.json();
+    }
+  });
+
+  const hasDatabases = (dependents?.databases ?? 0) > 0;
+
+  const deleteConnection = useMutation({
+    mutationFn: async () => {
+      const params = new URLSearchParams({ cascade: String(cascade), clearGraph: String(cascade && clearGraph) });
+      const response = await apiRequest('DELETE', `/api/connections/${connection.id}?${params}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Connection deleted", description: connection.name });
+      queryClient.invalidateQueries({ queryKey: ['/api/connections'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/databases'] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete connection", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Delete {connection.name}?</DialogTitle>
+          <DialogDescription>The saved connection settings and credentials are removed.</DialogDescription>
+        </DialogHeader>
+        {isLoading || !dependents ? (
+          <p className="text-sm text-muted-foreground">Counting what depends on this connection...</p>
+        ) : (
+          <div className="space-y-3 text-sm" data-testid="connection-dependents">
+            {hasDatabases ? (
+              <>
+                <p>Everything profiled from it will be deleted as well:</p>
+                <ul className="ml-4 space-y-1 text-muted-foreground">
+                  {DEPENDENT_LABELS.filter(([key]) => dependents[key] > 0).map(([key, label]) => (
+                    <li key={key}>• {dependents[key]} {label}</li>
+                  ))}
+                </ul>
+                <label className="flex items-center space-x-2">
+                  <Checkbox checked={cascade} onCheckedChange={(checked) => setCascade(checked === true)} data-testid="checkbox-delete-cascade" />
+                  <span>Delete these too</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <Checkbox
+                    checked={clearGraph}
+                    onCheckedChange={(checked) => setClearGraph(checked === true)}
+                    disabled={!cascade}
+                    data-testid="checkbox-delete-clear-graph"
+                  />
+                  <span>Also clear their knowledge graph in Neo4j</span>
+                </label>
+              </>
+            ) : (
+              <p className="text-muted-foreground">No databases have been profiled from this connection.</p>
+            )}
+            {dependents.references > 0 && (
+              <p className="text-amber-600">
+                {dependents.references} connection(s), database(s) or workspace(s) use it as their LLM or graph target and will fall back to their defaults.
+              </p>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            variant="destructive"
+            onClick={() => deleteConnection.mutate()}
+            disabled={!dependents || (hasDatabases && !cascade) || deleteConnection.isPending}
+            data-testid="button-confirm-delete-connection"
+          >
+            {deleteConnection.isPending ? "Deleting..." : "Delete"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
 }
 
 export default function ConnectionValidator({ onConnectionStatus }: ConnectionValidatorProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const workspaces = user?.workspaces ?? [];
+  const [workspaceId, setWorkspaceId] = useState<string | undefined>(undefined);
+  // Forms loaded from an existing connection save back to it instead of creating one
+  const [editingIds, setEditingIds] = useState<Partial<Record<ConnectionForm, string>>>({});
+  const [deletingConnection, setDeletingConnection] = useState<Connection | null>(null);
   
   const [connections, setConnections] = useState({
-    postgresql: { host: "", port: "5432", database: "", username: "", password: "" },
-    gemini: { apiKey: "" },
+    postgresql: { engine: "postgresql" as SourceConnectionType, host: "", port: "5432", database: "", username: "", password: "", filePath: "" },
+    gemini: { provider: "gemini" as LLMProviderName, apiKey: "", baseUrl: "", model: "", embeddingModel: "" },
     neo4j: { uri: "", username: "", password: "", database: "" }
   });
 
@@ -39,7 +200,7 @@ export default function ConnectionValidator({ onConnectionStatus }: ConnectionVa
   const { data: existingConnections = [] } = useQuery<Connection[]>({
     queryKey: ['/api/connections'],
     queryFn: async () => {
-      const response = await fetch('/api/connections?userId=default-user');
+      const response = await fetch('/api/connections');
       if (!response.ok) throw new Error('Failed to fetch connections');
       return response.json();
     }
@@ -50,7 +211,8 @@ export default function ConnectionValidator({ onConnectionStatus }: ConnectionVa
     mutationFn: async (data: { name: string; type: string; config: any }) => {
       const response = await apiRequest('POST', '/api/connections', {
         ...data,
-        userId: 'default-user'
+        // The server falls back to the user's first workspace
+        workspaceId
       });
       return response.json();
     },
@@ -63,6 +225,35 @@ export default function ConnectionValidator({ onConnectionStatus }: ConnectionVa
     }
   });
 
+  const updateConnection = useMutation({
+    mutationFn: async ({ id, config }: { id: string; config: any }) => {
+      const response = await apiRequest('PATCH', `/api/connections/${id}`, { config });
+      return response.json();
+    },
+    onSuccess: (connection: Connection) => {
+      setEditingIds(current => Object.fromEntries(Object.entries(current).filter(([, id]) => id !== connection.id)));
+      queryClient.invalidateQueries({ queryKey: ['/api/connections'] });
+      toast({ title: "Connection updated", description: "Test it again to confirm the new settings." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update connection", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const cloneConnection = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/connections/${id}/clone`, {});
+      return response.json();
+    },
+    onSuccess: (connection: Connection) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/connections'] });
+      toast({ title: "Connection cloned", description: connection.name });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to clone connection", description: error.message, variant: "destructive" });
+    }
+  });
+
   // Test connection mutation
   const testConnection = useMutation({
     mutationFn: async (connectionId: string) => {
@@ -82,8 +273,8 @@ export default function ConnectionValidator({ onConnectionStatus }: ConnectionVa
         
         // Update connection status
         onConnectionStatus({
-          postgresql: connection.type === 'postgresql' ? (result.success ? 'connected' : 'failed') : 'pending',
-          gemini: connection.type === 'gemini' ? (result.success ? 'connected' : 'failed') : 'pending',
+          postgresql: isSourceConnectionType(connection.type) ? (result.success ? 'connected' : 'failed') : 'pending',
+          gemini: connection.type === 'gemini' || connection.type === 'llm' ? (result.success ? 'connected' : 'failed') : 'pending',
           neo4j: connection.type === 'neo4j' ? (result.success ? 'connected' : 'failed') : 'pending'
         });
       }
@@ -98,22 +289,33 @@ export default function ConnectionValidator({ onConnectionStatus }: ConnectionVa
   const handleConnectionSave = async (type: 'postgresql' | 'gemini' | 'neo4j') => {
     const config = connections[type];
     let connectionConfig: any;
+    let connectionType: string = type;
 
     switch (type) {
       case 'postgresql':
-        const pgConfig = config as { host: string; port: string; database: string; username: string; password: string; };
-        connectionConfig = {
-          host: pgConfig.host,
-          port: parseInt(pgConfig.port),
-          database: pgConfig.database,
-          user: pgConfig.username,
-          password: pgConfig.password
-        };
+        const pgConfig = config as typeof connections.postgresql;
+        // The source card covers every supported engine; file-based ones only need a path
+        connectionType = pgConfig.engine;
+        connectionConfig = SOURCE_ENGINES[pgConfig.engine].fileBased
+          ? { filePath: pgConfig.filePath }
+          : {
+              host: pgConfig.host,
+              port: parseInt(pgConfig.port),
+              database: pgConfig.database,
+              user: pgConfig.username,
+              password: pgConfig.password
+            };
         break;
       case 'gemini':
-        const geminiConfig = config as { apiKey: string; };
+        const llmConfig = config as typeof connections.gemini;
+        const llmOption = LLM_PROVIDER_OPTIONS[llmConfig.provider];
+        connectionType = 'llm';
         connectionConfig = {
-          apiKey: geminiConfig.apiKey
+          provider: llmConfig.provider,
+          ...(llmOption.needsApiKey && llmConfig.apiKey ? { apiKey: llmConfig.apiKey } : {}),
+          ...(llmOption.needsBaseUrl && llmConfig.baseUrl ? { baseUrl: llmConfig.baseUrl } : {}),
+          ...(llmConfig.model ? { model: llmConfig.model } : {}),
+          ...(llmConfig.embeddingModel && llmConfig.provider !== 'mock' ? { embeddingModel: llmConfig.embeddingModel } : {})
         };
         break;
       case 'neo4j':
@@ -127,17 +329,139 @@ export default function ConnectionValidator({ onConnectionStatus }: ConnectionVa
         break;
     }
 
+    const editingId = editingIds[type];
+    if (editingId) {
+      updateConnection.mutate({ id: editingId, config: connectionConfig });
+      return;
+    }
+
     createConnection.mutate({
-      name: `${type}_connection`,
-      type,
+      name: `${connectionType}_connection`,
+      type: connectionType,
       config: connectionConfig
     });
   };
 
+  // Fill a form from a saved connection; secrets stay blank unless re-entered
+  const startEditing = (form: ConnectionForm, connection: Connection) => {
+    const config = connection.config ?? {};
+    setConnections(prev => {
+      switch (form) {
+        case 'postgresql':
+          return {
+            ...prev,
+            postgresql: {
+              engine: isSourceConnectionType(connection.type) ? connection.type : prev.postgresql.engine,
+              host: config.host ?? "",
+              port: config.port != null ? String(config.port) : prev.postgresql.port,
+              database: config.database ?? "",
+              username: config.user ?? "",
+              password: editableSecret(config.password),
+              filePath: config.filePath ?? ""
+            }
+          };
+        case 'gemini':
+          return {
+            ...prev,
+            gemini: {
+              provider: connection.type === 'gemini' ? 'gemini' : config.provider ?? prev.gemini.provider,
+              apiKey: editableSecret(config.apiKey),
+              baseUrl: config.baseUrl ?? "",
+              model: config.model ?? "",
+              embeddingModel: config.embeddingModel ?? ""
+            }
+          };
+        case 'neo4j':
+          return {
+            ...prev,
+            neo4j: { uri: config.uri ?? "", username: config.username ?? "", password: editableSecret(config.password), database: config.database ?? "" }
+          };
+      }
+    });
+    setEditingIds(current => ({ ...current, [form]: connection.id }));
+  };
+
+  const stopEditing = (form: ConnectionForm) => {
+    setEditingIds(current => ({ ...current, [form]: undefined }));
+  };
+
+  // Link the source connection to an LLM connection; databases on it generate context through that provider
+  const useLlmForSource = useMutation({
+    mutationFn: async ({ sourceId, llmConnectionId }: { sourceId: string; llmConnectionId: string }) => {
+      const response = await apiRequest('PUT', `/api/connections/${sourceId}/llm-connection`, { llmConnectionId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/connections'] });
+      toast({ title: "LLM provider assigned to source connection" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to assign LLM provider", description: error.message, variant: "destructive" });
+    }
+  });
+
   const getConnectionByType = (type: string) => {
+    if (type === 'postgresql') {
+      return existingConnections.find(c => isSourceConnectionType(c.type));
+    }
+    if (type === 'gemini') {
+      // Legacy Gemini-only connections still count as the LLM connection
+      return existingConnections.find(c => c.type === 'llm' || c.type === 'gemini');
+    }
     return existingConnections.find(c => c.type === type);
   };
 
+  const sourceEngine = SOURCE_ENGINES[connections.postgresql.engine];
+  const llmOption = LLM_PROVIDER_OPTIONS[connections.gemini.provider];
+  const sourceConnection = getConnectionByType('postgresql');
+  const llmConnection = getConnectionByType('gemini');
+
+  // Edit, clone and delete for the saved connection behind a form
+  const getConnectionActions = (form: ConnectionForm) => {
+    const connection = getConnectionByType(form);
+    const role = connectionRole(user ?? null, connection);
+    if (!connection || !role || !roleAtLeast(role, 'engineer')) return null;
+    const editing = editingIds[form] === connection.id;
+    return (
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {editing ? "Editing" : "Saved as"} <span className="font-medium">{connection.name}</span>
+          {editing && " (leave secrets blank to keep them)"}
+        </span>
+        <div className="flex space-x-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => editing ? stopEditing(form) : startEditing(form, connection)}
+            data-testid={`button-edit-${form}`}
+          >
+            {editing ? "Cancel edit" : "Edit"}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => cloneConnection.mutate(connection.id)}
+            disabled={cloneConnection.isPending}
+            data-testid={`button-clone-${form}`}
+          >
+            Clone
+          </Button>
+          {role === 'admin' && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-red-600"
+              onClick={() => setDeletingConnection(connection)}
+              data-testid={`button-delete-${form}`}
+            >
+              Delete
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
   const getStatusColor = (status?: string) => {
     switch (status) {
       case 'connected': return 'bg-emerald-500';
@@ -189,88 +513,146 @@ export default function ConnectionValidator({ onConnectionStatus }: ConnectionVa
 
   return (
     <div>
-      <h2 className="text-2xl font-semibold mb-6" data-testid="connection-title">Connection Configuration</h2>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-semibold" data-testid="connection-title">Connection Configuration</h2>
+        {workspaces.length > 1 && (
+          <div className="flex items-center space-x-2">
+            <Label className="text-sm text-muted-foreground">Save new connections to</Label>
+            <Select value={workspaceId ?? workspaces[0].id} onValueChange={setWorkspaceId}>
+              <SelectTrigger className="w-56" data-testid="select-connection-workspace">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {workspaces.map(workspace => (
+                  <SelectItem key={workspace.id} value={workspace.id}>{workspace.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
       
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        {/* PostgreSQL Connection */}
+        {/* Source Database Connection */}
         <Card data-testid="postgresql-connection-card">
           <CardHeader className="pb-4">
             <div className="flex items-center justify-between">
               <div className="flex items-center">
                 <i className="fas fa-database text-blue-500 mr-3"></i>
-                <CardTitle className="text-lg">PostgreSQL</CardTitle>
+                <CardTitle className="text-lg">Source Database</CardTitle>
               </div>
               <div className={`w-3 h-3 ${getStatusColor(getConnectionByType('postgresql')?.status)} rounded-full`}></div>
             </div>
           </CardHeader>
           <CardContent className="space-y-4">
             <div>
-              <Label className="text-sm font-medium text-muted-foreground">Host</Label>
-              <Input
-                type="text"
-                placeholder="localhost"
-                value={connections.postgresql.host}
-                onChange={(e) => setConnections(prev => ({
+              <Label className="text-sm font-medium text-muted-foreground">Engine</Label>
+              <Select
+                value={connections.postgresql.engine}
+                onValueChange={(value) => setConnections(prev => ({
                   ...prev,
-                  postgresql: { ...prev.postgresql, host: e.target.value }
+                  postgresql: {
+                    ...prev.postgresql,
+                    engine: value as SourceConnectionType,
+                    port: SOURCE_ENGINES[value as SourceConnectionType].defaultPort
+                  }
                 }))}
-                data-testid="input-postgresql-host"
-              />
+              >
+                <SelectTrigger data-testid="select-source-engine">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SOURCE_ENGINES).map(([value, engine]) => (
+                    <SelectItem key={value} value={value}>{engine.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
-            <div className="grid grid-cols-2 gap-2">
-              <div>
-                <Label className="text-sm font-medium text-muted-foreground">Port</Label>
-                <Input
-                  type="text"
-                  placeholder="5432"
-                  value={connections.postgresql.port}
-                  onChange={(e) => setConnections(prev => ({
-                    ...prev,
-                    postgresql: { ...prev.postgresql, port: e.target.value }
-                  }))}
-                  data-testid="input-postgresql-port"
-                />
-              </div>
+            {sourceEngine.fileBased ? (
               <div>
-                <Label className="text-sm font-medium text-muted-foreground">Database</Label>
+                <Label className="text-sm font-medium text-muted-foreground">File Path</Label>
                 <Input
                   type="text"
-                  placeholder="mydb"
-                  value={connections.postgresql.database}
+                  placeholder={connections.postgresql.engine === 'duckdb' ? "/data/warehouse.duckdb" : "/data/app.db"}
+                  value={connections.postgresql.filePath}
                   onChange={(e) => setConnections(prev => ({
                     ...prev,
-                    postgresql: { ...prev.postgresql, database: e.target.value }
+                    postgresql: { ...prev.postgresql, filePath: e.target.value }
                   }))}
-                  data-testid="input-postgresql-database"
+                  data-testid="input-source-filepath"
                 />
               </div>
-            </div>
-            <div>
-              <Label className="text-sm font-medium text-muted-foreground">Username</Label>
-              <Input
-                type="text"
-                placeholder="postgres"
-                value={connections.postgresql.username}
-                onChange={(e) => setConnections(prev => ({
-                  ...prev,
-                  postgresql: { ...prev.postgresql, username: e.target.value }
-                }))}
-                data-testid="input-postgresql-username"
-              />
-            </div>
-            <div>
-              <Label className="text-sm font-medium text-muted-foreground">Password</Label>
-              <Input
-                type="password"
-                placeholder="password"
-                value={connections.postgresql.password}
-                onChange={(e) => setConnections(prev => ({
-                  ...prev,
-                  postgresql: { ...prev.postgresql, password: e.target.value }
-                }))}
-                data-testid="input-postgresql-password"
-              />
-            </div>
+            ) : (
+              <>
+                <div>
+                  <Label className="text-sm font-medium text-muted-foreground">Host</Label>
+                  <Input
+                    type="text"
+                    placeholder="localhost"
+                    value={connections.postgresql.host}
+                    onChange={(e) => setConnections(prev => ({
+                      ...prev,
+                      postgresql: { ...prev.postgresql, host: e.target.value }
+                    }))}
+                    data-testid="input-postgresql-host"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label className="text-sm font-medium text-muted-foreground">Port</Label>
+                    <Input
+                      type="text"
+                      placeholder={sourceEngine.defaultPort}
+                      value={connections.postgresql.port}
+                      onChange={(e) => setConnections(prev => ({
+                        ...prev,
+                        postgresql: { ...prev.postgresql, port: e.target.value }
+                      }))}
+                      data-testid="input-postgresql-port"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-sm font-medium text-muted-foreground">Database</Label>
+                    <Input
+                      type="text"
+                      placeholder="mydb"
+                      value={connections.postgresql.database}
+                      onChange={(e) => setConnections(prev => ({
+                        ...prev,
+                        postgresql: { ...prev.postgresql, database: e.target.value }
+                      }))}
+                      data-testid="input-postgresql-database"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label className="text-sm font-medium text-muted-foreground">Username</Label>
+                  <Input
+                    type="text"
+                    placeholder={connections.postgresql.engine === 'mysql' ? "root" : "postgres"}
+                    value={connections.postgresql.username}
+                    onChange={(e) => setConnections(prev => ({
+                      ...prev,
+                      postgresql: { ...prev.postgresql, username: e.target.value }
+                    }))}
+                    data-testid="input-postgresql-username"
+                  />
+                </div>
+                <div>
+                  <Label className="text-sm font-medium text-muted-foreground">Password</Label>
+                  <Input
+                    type="password"
+                    placeholder="password or ${CONNECTION_SECRET_PG_PASSWORD}"
+                    value={connections.postgresql.password}
+                    onChange={(e) => setConnections(prev => ({
+                      ...prev,
+                      postgresql: { ...prev.postgresql, password: e.target.value }
+                    }))}
+                    data-testid="input-postgresql-password"
+                  />
+                </div>
+              </>
+            )}
             
             {getStatusBadge(getConnectionByType('postgresql')?.status)}
             
@@ -281,11 +663,11 @@ export default function ConnectionValidator({ onConnectionStatus }: ConnectionVa
                   e.stopPropagation();
                   handleConnectionSave('postgresql');
                 }}
-                disabled={createConnection.isPending}
+                disabled={createConnection.isPending || updateConnection.isPending}
                 className="flex-1"
                 data-testid="button-save-postgresql"
               >
-                {createConnection.isPending ? "Saving..." : "Save Connection"}
+                {createConnection.isPending || updateConnection.isPending ? "Saving..." : editingIds.postgresql ? "Update Connection" : "Save Connection"}
               </Button>
               {getConnectionByType('postgresql') && (
                 <Button
@@ -302,40 +684,118 @@ export default function ConnectionValidator({ onConnectionStatus }: ConnectionVa
                 </Button>
               )}
             </div>
+            {getConnectionActions('postgresql')}
           </CardContent>
         </Card>
 
-        {/* Gemini API Connection */}
+        {/* LLM Provider Connection */}
         <Card data-testid="gemini-connection-card">
           <CardHeader className="pb-4">
             <div className="flex items-center justify-between">
               <div className="flex items-center">
                 <i className="fas fa-brain text-purple-500 mr-3"></i>
-                <CardTitle className="text-lg">Gemini API</CardTitle>
+                <CardTitle className="text-lg">LLM Provider</CardTitle>
               </div>
-              <div className={`w-3 h-3 ${getStatusColor(getConnectionByType('gemini')?.status)} rounded-full`}></div>
+              <div className={`w-3 h-3 ${getStatusColor(llmConnection?.status)} rounded-full`}></div>
             </div>
           </CardHeader>
           <CardContent className="space-y-4">
             <div>
-              <Label className="text-sm font-medium text-muted-foreground">API Key</Label>
-              <Input
-                type="password"
-                placeholder="AIza***************"
-                value={connections.gemini.apiKey}
-                onChange={(e) => setConnections(prev => ({
+              <Label className="text-sm font-medium text-muted-foreground">Provider</Label>
+              <Select
+                value={connections.gemini.provider}
+                onValueChange={(value) => setConnections(prev => ({
                   ...prev,
-                  gemini: { ...prev.gemini, apiKey: e.target.value }
+                  gemini: { ...prev.gemini, provider: value as LLMProviderName }
                 }))}
-                data-testid="input-gemini-apikey"
-              />
+              >
+                <SelectTrigger data-testid="select-llm-provider">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(LLM_PROVIDER_OPTIONS) as LLMProviderName[]).map(provider => (
+                    <SelectItem key={provider} value={provider}>{LLM_PROVIDER_OPTIONS[provider].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
+            {llmOption.needsBaseUrl && (
+              <div>
+                <Label className="text-sm font-medium text-muted-foreground">Base URL</Label>
+                <Input
+                  type="text"
+                  placeholder={connections.gemini.provider === 'ollama' ? "http://localhost:11434" : "https://api.openai.com/v1"}
+                  value={connections.gemini.baseUrl}
+                  onChange={(e) => setConnections(prev => ({
+                    ...prev,
+                    gemini: { ...prev.gemini, baseUrl: e.target.value }
+                  }))}
+                  data-testid="input-llm-baseurl"
+                />
+              </div>
+            )}
+            {llmOption.needsApiKey && (
+              <div>
+                <Label className="text-sm font-medium text-muted-foreground">API Key</Label>
+                <Input
+                  type="password"
+                  placeholder={connections.gemini.provider === 'gemini' ? "AIza***************" : "sk-***************"}
+                  value={connections.gemini.apiKey}
+                  onChange={(e) => setConnections(prev => ({
+                    ...prev,
+                    gemini: { ...prev.gemini, apiKey: e.target.value }
+                  }))}
+                  data-testid="input-gemini-apikey"
+                />
+              </div>
+            )}
+            {connections.gemini.provider !== 'mock' && (
+              <div>
+                <Label className="text-sm font-medium text-muted-foreground">Model (optional)</Label>
+                <Input
+                  type="text"
+                  placeholder={llmOption.modelPlaceholder}
+                  value={connections.gemini.model}
+                  onChange={(e) => setConnections(prev => ({
+                    ...prev,
+                    gemini: { ...prev.gemini, model: e.target.value }
+                  }))}
+                  data-testid="input-llm-model"
+                />
+              </div>
+            )}
+            {connections.gemini.provider !== 'mock' && (
+              <div>
+                <Label className="text-sm font-medium text-muted-foreground">Embedding model (optional)</Label>
+                <Input
+                  type="text"
+                  placeholder={llmOption.embeddingModelPlaceholder}
+                  value={connections.gemini.embeddingModel}
+                  onChange={(e) => setConnections(prev => ({
+                    ...prev,
+                    gemini: { ...prev.gemini, embeddingModel: e.target.value }
+                  }))}
+                  data-testid="input-llm-embedding-model"
+                />
+                <p className="text-xs text-muted-foreground mt-1">Leave empty to use the built-in local embedder for semantic search</p>
+              </div>
+            )}
             
-            {getStatusBadge(getConnectionByType('gemini')?.status)}
+            {getStatusBadge(llmConnection?.status)}
             
             <div className="text-xs text-muted-foreground">
-              <p>Token limit: 8K per call</p>
-              <p>Estimated cost: $0.12/1K tokens</p>
+              {connections.gemini.provider === 'mock' ? (
+                <p>Deterministic offline answers for CI and air-gapped setups</p>
+              ) : (
+                <p>Token limit: 8K per call</p>
+              )}
+              {sourceConnection && llmConnection && (
+                <p>
+                  {sourceConnection.llmConnectionId === llmConnection.id
+                    ? "Used by the source connection"
+                    : "Source connection uses the server default"}
+                </p>
+              )}
             </div>
             
             <div className="flex space-x-2">
@@ -345,18 +805,18 @@ export default function ConnectionValidator({ onConnectionStatus }: ConnectionVa
                   e.stopPropagation();
                   handleConnectionSave('gemini');
                 }}
-                disabled={createConnection.isPending}
+                disabled={createConnection.isPending || updateConnection.isPending}
                 className="flex-1"
                 data-testid="button-save-gemini"
               >
-                {createConnection.isPending ? "Saving..." : "Save API Key"}
+                {createConnection.isPending || updateConnection.isPending ? "Saving..." : editingIds.gemini ? "Update Provider" : "Save Provider"}
               </Button>
-              {getConnectionByType('gemini') && (
+              {llmConnection && (
                 <Button
                   onClick={(e) => {
                     e.preventDefault();
                     e.stopPropagation();
-                    testConnection.mutate(getConnectionByType('gemini')!.id);
+                    testConnection.mutate(llmConnection.id);
                   }}
                   disabled={testConnection.isPending}
                   variant="outline"
@@ -365,7 +825,22 @@ export default function ConnectionValidator({ onConnectionStatus }: ConnectionVa
                   {testConnection.isPending ? "Testing..." : "Test"}
                 </Button>
               )}
+              {llmConnection && sourceConnection && sourceConnection.llmConnectionId !== llmConnection.id && (
+                <Button
+                  onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    useLlmForSource.mutate({ sourceId: sourceConnection.id, llmConnectionId: llmConnection.id });
+                  }}
+                  disabled={useLlmForSource.isPending}
+                  variant="outline"
+                  data-testid="button-use-llm-for-source"
+                >
+                  Use for Source
+                </Button>
+              )}
             </div>
+            {getConnectionActions('gemini')}
           </CardContent>
         </Card>
 
@@ -411,7 +886,7 @@ export default function ConnectionValidator({ onConnectionStatus }: ConnectionVa
               <Label className="text-sm font-medium text-muted-foreground">Password</Label>
               <Input
                 type="password"
-                placeholder="password"
+                placeholder="password or ${CONNECTION_SECRET_NEO4J_PASSWORD}"
                 value={connections.neo4j.password}
                 onChange={(e) => setConnections(prev => ({
                   ...prev,
@@ -435,11 +910,11 @@ export default function ConnectionValidator({ onConnectionStatus }: ConnectionVa
                   e.stopPropagation();
                   handleConnectionSave('neo4j');
                 }}
-                disabled={createConnection.isPending}
+                disabled={createConnection.isPending || updateConnection.isPending}
                 className="flex-1"
                 data-testid="button-save-neo4j"
               >
-                {createConnection.isPending ? "Saving..." : "Save Connection"}
+                {createConnection.isPending || updateConnection.isPending ? "Saving..." : editingIds.neo4j ? "Update Connection" : "Save Connection"}
               </Button>
               {getConnectionByType('neo4j') && (
                 <Button
@@ -456,9 +931,14 @@ export default function ConnectionValidator({ onConnectionStatus }: ConnectionVa
                 </Button>
               )}
             </div>
+            {getConnectionActions('neo4j')}
           </CardContent>
         </Card>
       </div>
+
+      {deletingConnection && (
+        <DeleteConnectionDialog connection={deletingConnection} onClose={() => setDeletingConnection(null)} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,379 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isSourceConnectionType, type AgentPersona, type EvalCase, type EvalRun, type EvalRunDetail } from "@shared/schema";
+
+const DEFAULT_PROVIDER = "default";
+const AUTO_PERSONA = "auto";
+
+const scoreChartConfig = {
+  score: { label: "Score (%)", color: "hsl(var(--primary))" }
+} satisfies ChartConfig;
+
+function runScore(run: EvalRun): number {
+  return run.totalCases ? Math.round(((run.passedCases ?? 0) / run.totalCases) * 100) : 0;
+}
+
+export default function EvaluationHarness() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [question, setQuestion] = useState("");
+  const [expectedSql, setExpectedSql] = useState("");
+  const [casePersonaId, setCasePersonaId] = useState(AUTO_PERSONA);
+  const [llmConnectionId, setLlmConnectionId] = useState(DEFAULT_PROVIDER);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+
+  // Get database
+  const { data: connections = [] } = useQuery({
+    queryKey: ['/api/connections'],
+    queryFn: async () => {
+      const response = await fetch('/api/connections');
+      return response.json();
+    }
+  });
+
+  const postgresConnection = connections.find((c: any) => isSourceConnectionType(c.type) && c.status === 'connected');
+  const llmConnections = connections.filter((c: any) => c.type === 'llm' || c.type === 'gemini');
+
+  const { data: databases = [] } = useQuery({
+    queryKey: ['/api/databases', postgresConnection?.id],
+    queryFn: async () => {
+      if (!postgresConnection) return [];
+      const response = await fetch(`/api/databases?connectionId=${postgresConnection.id}`);
+      return response.json();
+    },
+    enabled: !!postgresConnection
+  });
+
+  const database = databases[0];
+
+  const { data: personas = [] } = useQuery<AgentPersona[]>({
+    queryKey: ['/api/databases', database?.id, 'personas'],
+    queryFn: async () => {
+      if (!database) return [];
+      const response = await fetch(`/api/databases/${database.id}/personas`);
+      return response.json();
+    },
+    enabled: !!database
+  });
+
+  const { data: cases = [] } = useQuery<EvalCase[]>({
+    queryKey: ['/api/databases', database?.id, 'eval', 'cases'],
+    queryFn: async () => {
+      const response = await fetch(`/api/databases/${database.id}/eval/cases`);
+      if (!response.ok) throw new Error('Failed to fetch evaluation cases');
+      return response.json();
+    },
+    enabled: !!database
+  });
+
+  // Runs poll while one is in progress
+  const { data: runs = [] } = useQuery<EvalRun[]>({
+    queryKey: ['/api/databases', database?.id, 'eval', 'runs'],
+    queryFn: async () => {
+      const response = await fetch(`/api/databases/${database.id}/eval/runs`);
+      if (!response.ok) throw new Error('Failed to fetch evaluation runs');
+      return response.json();
+    },
+    enabled: !!database,
+    refetchInterval: (query) => (query.state.data as EvalRun[] | undefined)?.some(run => run.status === 'running') ? 2000 : false
+  });
+
+  const activeRunId = selectedRunId ?? runs[0]?.id ?? null;
+  const activeRun = runs.find(run => run.id === activeRunId);
+
+  const { data: runDetail } = useQuery<EvalRunDetail>({
+    queryKey: ['/api/eval/runs', activeRunId, activeRun?.completedCases, activeRun?.status],
+    queryFn: async () => {
+      const response = await fetch(`/api/eval/runs/${activeRunId}`);
+      if (!response.ok) throw new Error('Failed to fetch evaluation run');
+      return response.json();
+    },
+    enabled: !!activeRunId
+  });
+
+  const createCase = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/databases/${database.id}/eval/cases`, {
+        question: question.trim(),
+        expectedSql: expectedSql.trim(),
+        ...(casePersonaId !== AUTO_PERSONA ? { personaId: casePersonaId } : {})
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setQuestion("");
+      setExpectedSql("");
+      queryClient.invalidateQueries({ queryKey: ['/api/databases', database?.id, 'eval', 'cases'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to add case", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const deleteCase = useMutation({
+    mutationFn: async (caseId: string) => {
+      await apiRequest('DELETE', `/api/eval/cases/${caseId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/databases', database?.id, 'eval', 'cases'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete case", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const startRun = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/databases/${database.id}/eval/runs`,
+        llmConnectionId !== DEFAULT_PROVIDER ? { llmConnectionId } : {});
+      return response.json() as Promise<EvalRun>;
+    },
+    onSuccess: (run) => {
+      setSelectedRunId(run.id);
+      toast({ title: "Evaluation started", description: `${run.totalCases} cases on ${run.provider}` });
+      queryClient.invalidateQueries({ queryKey: ['/api/databases', database?.id, 'eval', 'runs'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to start evaluation", description: error.message, variant: "destructive" });
+    }
+  });
+
+  if (!database) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-muted-foreground">Please configure a source database and build its context first.</p>
+      </div>
+    );
+  }
+
+  const caseQuestion = (caseId: string) => cases.find(evalCase => evalCase.id === caseId)?.question ?? caseId;
+  const chartData = runs
+    .filter(run => run.status === 'completed')
+    .slice()
+    .reverse()
+    .map((run, index) => ({ run: `#${index + 1}`, score: runScore(run) }));
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-2xl font-semibold" data-testid="evaluation-title">Evaluation</h2>
+        <p className="text-sm text-muted-foreground">
+          Golden questions with expected SQL, scored against the SQL generated from the current context
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <i className="fas fa-clipboard-check mr-2"></i>
+              Golden Questions ({cases.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-muted-foreground">Question</Label>
+              <Textarea
+                value={question}
+                onChange={(e) => setQuestion(e.target.value)}
+                placeholder="e.g. How many orders were refunded in 2024?"
+                rows={2}
+                data-testid="textarea-eval-question"
+              />
+              <Label className="text-sm font-medium text-muted-foreground">Expected SQL</Label>
+              <Textarea
+                value={expectedSql}
+                onChange={(e) => setExpectedSql(e.target.value)}
+                placeholder="SELECT count(*) FROM public.orders WHERE status = 'REFUNDED' ..."
+                rows={3}
+                className="font-mono text-xs"
+                data-testid="textarea-eval-expected-sql"
+              />
+              <div className="flex items-center space-x-2">
+                <Select value={casePersonaId} onValueChange={setCasePersonaId}>
+                  <SelectTrigger className="w-56" data-testid="select-eval-persona">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTO_PERSONA}>Best matching persona</SelectItem>
+                    {personas.map(persona => (
+                      <SelectItem key={persona.id} value={persona.id}>{persona.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={() => createCase.mutate()}
+                  disabled={!question.trim() || !expectedSql.trim() || createCase.isPending}
+                  data-testid="button-add-eval-case"
+                >
+                  {createCase.isPending ? "Adding..." : "Add Case"}
+                </Button>
+              </div>
+            </div>
+
+            <ScrollArea className="max-h-80">
+              <div className="space-y-2">
+                {cases.map(evalCase => (
+                  <div key={evalCase.id} className="p-3 border rounded-lg" data-testid={`eval-case-${evalCase.id}`}>
+                    <div className="flex items-start justify-between">
+                      <p className="text-sm font-medium">{evalCase.question}</p>
+                      <button
+                        className="ml-2 text-muted-foreground hover:text-destructive"
+                        onClick={() => deleteCase.mutate(evalCase.id)}
+                        title="Delete case"
+                      >
+                        <i className="fas fa-trash"></i>
+                      </button>
+                    </div>
+                    {evalCase.expectedSql && (
+                      <pre className="mt-1 text-xs text-muted-foreground whitespace-pre-wrap font-mono">{evalCase.expectedSql}</pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center">
+                <i className="fas fa-chart-line mr-2"></i>
+                Runs
+              </CardTitle>
+              <div className="flex items-center space-x-2">
+                <Select value={llmConnectionId} onValueChange={setLlmConnectionId}>
+                  <SelectTrigger className="w-48" data-testid="select-eval-provider">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_PROVIDER}>Database's provider</SelectItem>
+                    {llmConnections.map((connection: any) => (
+                      <SelectItem key={connection.id} value={connection.id}>{connection.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={() => startRun.mutate()}
+                  disabled={cases.length === 0 || startRun.isPending || runs.some(run => run.status === 'running')}
+                  data-testid="button-start-eval-run"
+                >
+                  <i className="fas fa-play mr-2"></i>
+                  Run
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {chartData.length > 1 && (
+              <ChartContainer config={scoreChartConfig} className="h-40 w-full aspect-auto">
+                <LineChart data={chartData} margin={{ left: 0, right: 12, top: 8, bottom: 0 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="run" tickLine={false} axisLine={false} />
+                  <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Line dataKey="score" type="monotone" stroke="var(--color-score)" strokeWidth={2} dot />
+                </LineChart>
+              </ChartContainer>
+            )}
+
+            <ScrollArea className="max-h-56">
+              <div className="space-y-1">
+                {runs.map(run => (
+                  <button
+                    key={run.id}
+                    onClick={() => setSelectedRunId(run.id)}
+                    className={`w-full flex items-center justify-between p-2 rounded text-sm text-left ${
+                      run.id === activeRunId ? 'bg-primary/10' : 'hover:bg-accent'
+                    }`}
+                    data-testid={`eval-run-${run.id}`}
+                  >
+                    <span>
+                      {run.startedAt ? new Date(run.startedAt).toLocaleString() : ''}
+                      <span className="text-muted-foreground"> · {run.provider}</span>
+                    </span>
+                    <span className="font-medium">
+                      {run.status === 'running'
+                        ? `${run.completedCases}/${run.totalCases}...`
+                        : run.status === 'failed' ? 'failed' : `${run.passedCases}/${run.totalCases} (${runScore(run)}%)`}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+          </CardContent>
+        </Card>
+      </div>
+
+      {runDetail && (
+        <Card className="mt-6" data-testid="eval-run-detail">
+          <CardHeader>
+            <CardTitle className="text-lg">Run results</CardTitle>
+            <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+              {runDetail.run.contextSnapshot && (
+                <span>
+                  Context: {runDetail.run.contextSnapshot.answeredSmeQuestions} SME answers,{' '}
+                  {runDetail.run.contextSnapshot.validatedJoins} validated joins,{' '}
+                  {runDetail.run.contextSnapshot.personas} personas
+                  {runDetail.run.contextSnapshot.graphConnected ? ', graph' : ''}
+                </span>
+              )}
+              {runDetail.baselineRunId ? (
+                <span>
+                  vs previous run: <span className="text-red-600">{runDetail.regressions.length} regressions</span>,{' '}
+                  <span className="text-emerald-600">{runDetail.fixes.length} fixes</span>
+                </span>
+              ) : (
+                <span>No earlier run to compare against</span>
+              )}
+              {runDetail.run.error && <span className="text-destructive">{runDetail.run.error}</span>}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {runDetail.results.map(result => (
+                <div
+                  key={result.id}
+                  className={`p-3 border rounded-lg ${result.passed ? 'border-emerald-200' : 'border-red-200'}`}
+                  data-testid={`eval-result-${result.caseId}`}
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <div className="flex items-center space-x-2">
+                      <i className={`fas ${result.passed ? 'fa-check text-emerald-600' : 'fa-times text-red-600'}`}></i>
+                      <span className="text-sm font-medium">{caseQuestion(result.caseId)}</span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {runDetail.regressions.includes(result.caseId) && (
+                        <Badge variant="secondary" className="bg-red-100 text-red-800">Regression</Badge>
+                      )}
+                      {runDetail.fixes.includes(result.caseId) && (
+                        <Badge variant="secondary" className="bg-emerald-100 text-emerald-800">Fixed</Badge>
+                      )}
+                      <Badge variant="outline">{result.status.replace(/_/g, ' ')}</Badge>
+                    </div>
+                  </div>
+                  {result.mismatch && <p className="text-xs text-muted-foreground">{result.mismatch}</p>}
+                  {result.generatedSql && (
+                    <pre className="mt-1 text-xs bg-muted p-2 rounded whitespace-pre-wrap font-mono">{result.generatedSql}</pre>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
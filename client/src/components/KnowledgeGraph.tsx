@@ -3,9 +3,12 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import PersonaSuggestions from "@/components/PersonaSuggestions";
+import { isSourceConnectionType } from "@shared/schema";
 
 interface GraphStats {
   personaCount: number;
@@ -22,22 +25,42 @@ interface AgentPersona {
   keywords?: string[];
 }
 
+interface PersonaTableAssignment {
+  personaId: string;
+  tableId: string;
+}
+
+interface GraphTarget {
+  connectionId: string;
+  source: 'database' | 'workspace' | 'instance';
+}
+
+const GRAPH_TARGET_SOURCES: Record<GraphTarget['source'], string> = {
+  database: 'chosen for this database',
+  workspace: 'workspace default',
+  instance: 'instance default'
+};
+
+// Select value for "no choice here, use the workspace or instance default"
+const INHERIT_GRAPH_TARGET = '__inherit__';
+
 export default function KnowledgeGraph() {
   const { toast } = useToast();
   const [graphStats, setGraphStats] = useState<GraphStats | null>(null);
+  const [editingPersonaId, setEditingPersonaId] = useState<string | null>(null);
+  const [draftTableIds, setDraftTableIds] = useState<string[]>([]);
 
   // Get connections
   const { data: connections = [] } = useQuery({
     queryKey: ['/api/connections'],
     queryFn: async () => {
-      const response = await fetch('/api/connections?userId=default-user');
+      const response = await fetch('/api/connections');
       return response.json();
     }
   });
 
-  const postgresConnection = connections.find((c: any) => c.type === 'postgresql' && c.status === 'connected');
+  const postgresConnection = connections.find((c: any) => isSourceConnectionType(c.type) && c.status === 'connected');
   const neo4jConnections = connections.filter((c: any) => c.type === 'neo4j');
-  const connectedNeo4j = neo4jConnections.find((c: any) => c.status === 'connected');
 
   const { data: databases = [] } = useQuery({
     queryKey: ['/api/databases', postgresConnection?.id],
@@ -75,6 +98,74 @@ export default function KnowledgeGraph() {
 
   const selectedTables = tables.filter((t: any) => t.isSelected);
 
+  // The Neo4j connection this database's graph lives in, and where that choice comes from
+  const { data: graphTarget } = useQuery<GraphTarget | null>({
+    queryKey: ['/api/databases', database?.id, 'graph-target'],
+    queryFn: async () => {
+      const response = await fetch(`/api/databases/${database.id}/graph-target`);
+      return response.json();
+    },
+    enabled: !!database
+  });
+
+  const graphTargetConnection = neo4jConnections.find((c: any) => c.id === graphTarget?.connectionId);
+
+  const saveGraphTarget = useMutation({
+    mutationFn: async (graphConnectionId: string | null) => {
+      const response = await apiRequest('PUT', `/api/databases/${database.id}/graph-connection`, { graphConnectionId });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Graph target updated", description: "Build the graph to populate the new target." });
+      queryClient.invalidateQueries({ queryKey: ['/api/databases', database?.id, 'graph-target'] });
+      setGraphStats(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update graph target", description: error.message, variant: "destructive" });
+    }
+  });
+
+  // Fetch persona-to-table assignments
+  const { data: assignments = [] } = useQuery<PersonaTableAssignment[]>({
+    queryKey: ['/api/databases', database?.id, 'persona-tables'],
+    queryFn: async () => {
+      if (!database) return [];
+      const response = await fetch(`/api/databases/${database.id}/persona-tables`);
+      return response.json();
+    },
+    enabled: !!database
+  });
+
+  const getPersonaTables = (personaId: string) => {
+    const tableIds = new Set(assignments.filter(a => a.personaId === personaId).map(a => a.tableId));
+    return selectedTables.filter((t: any) => tableIds.has(t.id));
+  };
+
+  // Replace a persona's table set
+  const savePersonaTables = useMutation({
+    mutationFn: async ({ personaId, tableIds }: { personaId: string; tableIds: string[] }) => {
+      const response = await apiRequest('PUT', `/api/agent-personas/${personaId}/tables`, { tableIds });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Persona tables updated", description: "Rebuild the graph to apply the new assignments." });
+      queryClient.invalidateQueries({ queryKey: ['/api/databases', database?.id, 'persona-tables'] });
+      setEditingPersonaId(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update persona tables", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const startEditing = (personaId: string) => {
+    setEditingPersonaId(personaId);
+    setDraftTableIds(getPersonaTables(personaId).map((t: any) => t.id));
+  };
+
+  const toggleDraftTable = (tableId: string, checked: boolean) => {
+    setDraftTableIds(current => checked ? [...current, tableId] : current.filter(id => id !== tableId));
+  };
+
   // Build knowledge graph mutation
   const buildGraph = useMutation({
     mutationFn: async () => {
@@ -108,12 +199,12 @@ export default function KnowledgeGraph() {
     }
   };
 
-  // Auto-fetch graph stats when database and Neo4j are available
+  // Auto-fetch graph stats when database and its graph target are available
   useEffect(() => {
-    if (database && connectedNeo4j) {
+    if (database && graphTarget) {
       fetchGraphStats();
     }
-  }, [database, connectedNeo4j]);
+  }, [database, graphTarget]);
 
   const getPersonaColor = (index: number) => {
     const colors = ['purple', 'blue', 'green', 'amber', 'pink'];
@@ -145,7 +236,7 @@ export default function KnowledgeGraph() {
           <Button 
             variant="outline"
             onClick={fetchGraphStats}
-            disabled={!connectedNeo4j}
+            disabled={!graphTarget}
             data-testid="button-view-graph"
           >
             <i className="fas fa-eye mr-2"></i>
@@ -153,7 +244,7 @@ export default function KnowledgeGraph() {
           </Button>
           <Button 
             onClick={handleBuildGraph}
-            disabled={buildGraph.isPending || selectedTables.length === 0}
+            disabled={buildGraph.isPending || selectedTables.length === 0 || !graphTarget}
             data-testid="button-build-graph"
             title="Creates a comprehensive Neo4j knowledge graph from your database schema, AI-generated context, and SME-validated insights"
           >
@@ -192,27 +283,42 @@ export default function KnowledgeGraph() {
               <label className="text-sm font-medium text-muted-foreground block mb-2">
                 Neo4j Connection
               </label>
-              <div className="w-full p-3 bg-gray-50 border border-gray-200 rounded-md" data-testid="auto-neo4j-connection">
-                <div className="flex items-center text-sm">
-                  <i className="fas fa-magic mr-2 text-blue-500"></i>
-                  <span className="text-gray-700">Automatically selected based on environment</span>
+              <Select
+                value={graphTarget?.source === 'database' ? graphTarget.connectionId : INHERIT_GRAPH_TARGET}
+                onValueChange={(value) => saveGraphTarget.mutate(value === INHERIT_GRAPH_TARGET ? null : value)}
+                disabled={saveGraphTarget.isPending}
+              >
+                <SelectTrigger data-testid="select-graph-target">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={INHERIT_GRAPH_TARGET}>Use the workspace or instance default</SelectItem>
+                  {neo4jConnections.map((c: any) => (
+                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {graphTarget && (
+                <div className="flex items-center mt-2 text-xs text-green-600" data-testid="graph-target">
+                  <i className="fas fa-check-circle mr-1"></i>
+                  <span>
+                    Using {graphTargetConnection?.name ?? graphTarget.connectionId} ({GRAPH_TARGET_SOURCES[graphTarget.source]})
+                  </span>
                 </div>
-                {connectedNeo4j && (
-                  <div className="flex items-center mt-1 text-xs text-green-600">
-                    <i className="fas fa-check-circle mr-1"></i>
-                    <span>Connected to: {connectedNeo4j.name}</span>
-                  </div>
-                )}
-              </div>
+              )}
             </div>
 
-            {!connectedNeo4j && (
+            {graphTarget === null && (
               <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
                 <div className="flex items-center">
                   <i className="fas fa-exclamation-triangle text-amber-600 mr-2"></i>
                   <div className="text-sm">
-                    <p className="font-medium text-amber-800">No connected Neo4j instance</p>
-                    <p className="text-amber-600">Please configure and test your Neo4j connection first.</p>
+                    <p className="font-medium text-amber-800">No graph target configured</p>
+                    <p className="text-amber-600">
+                      {neo4jConnections.length > 0
+                        ? "Choose a Neo4j connection above, or set a workspace default under Workspace & Team."
+                        : "Add and test a Neo4j connection first, then choose it here."}
+                    </p>
                   </div>
                 </div>
               </div>
@@ -245,7 +351,7 @@ export default function KnowledgeGraph() {
             ) : (
               <ScrollArea className="max-h-96">
                 <div className="space-y-4">
-                  {personas.slice(0, 3).map((persona, index) => {
+                  {personas.map((persona, index) => {
                     const color = getPersonaColor(index);
                     return (
                       <div 
@@ -253,15 +359,57 @@ export default function KnowledgeGraph() {
                         className={`p-4 bg-${color}-50 border border-${color}-200 rounded-lg`}
                         data-testid={`persona-structure-${index}`}
                       >
-                        <div className="flex items-center mb-3">
-                          <i className={`fas fa-user-cog text-${color}-600 mr-2`}></i>
-                          <span className={`font-medium text-${color}-800`}>{persona.name}</span>
+                        <div className="flex items-center justify-between mb-3">
+                          <div className="flex items-center">
+                            <i className={`fas fa-user-cog text-${color}-600 mr-2`}></i>
+                            <span className={`font-medium text-${color}-800`}>{persona.name}</span>
+                          </div>
+                          {editingPersonaId !== persona.id && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => startEditing(persona.id)}
+                              data-testid={`button-edit-persona-tables-${index}`}
+                            >
+                              <i className="fas fa-edit mr-1"></i>
+                              Tables
+                            </Button>
+                          )}
                         </div>
                         <p className={`text-sm text-${color}-700 mb-3`}>{persona.description}</p>
-                        
-                        {/* Sample table structure */}
+
+                        {editingPersonaId === persona.id ? (
+                          <div className="ml-4 space-y-2" data-testid={`persona-table-editor-${index}`}>
+                            {selectedTables.map((table: any) => (
+                              <label key={table.id} className="flex items-center space-x-2 text-sm">
+                                <Checkbox
+                                  checked={draftTableIds.includes(table.id)}
+                                  onCheckedChange={(checked) => toggleDraftTable(table.id, checked === true)}
+                                  data-testid={`checkbox-persona-table-${table.id}`}
+                                />
+                                <span>{table.schema}.{table.name}</span>
+                              </label>
+                            ))}
+                            <div className="flex space-x-2 pt-2">
+                              <Button
+                                size="sm"
+                                onClick={() => savePersonaTables.mutate({ personaId: persona.id, tableIds: draftTableIds })}
+                                disabled={savePersonaTables.isPending}
+                                data-testid={`button-save-persona-tables-${index}`}
+                              >
+                                {savePersonaTables.isPending ? "Saving..." : "Save"}
+                              </Button>
+                              <Button variant="outline" size="sm" onClick={() => setEditingPersonaId(null)}>
+                                Cancel
+                              </Button>
+                            </div>
+                          </div>
+                        ) : (
                         <div className="ml-4 space-y-2">
-                          {selectedTables.slice(0, 3).map((table: any, tableIndex: number) => (
+                          {getPersonaTables(persona.id).length === 0 && (
+                            <div className="text-xs text-muted-foreground">No tables assigned</div>
+                          )}
+                          {getPersonaTables(persona.id).slice(0, 3).map((table: any, tableIndex: number) => (
                             <div key={tableIndex} className={`p-2 bg-blue-50 border border-blue-200 rounded`}>
                               <div className="flex items-center">
                                 <i className="fas fa-table text-blue-600 mr-2"></i>
@@ -272,12 +420,13 @@ export default function KnowledgeGraph() {
                               </div>
                             </div>
                           ))}
-                          {selectedTables.length > 3 && (
+                          {getPersonaTables(persona.id).length > 3 && (
                             <div className="text-xs text-muted-foreground ml-2">
-                              ... and {selectedTables.length - 3} more tables
+                              ... and {getPersonaTables(persona.id).length - 3} more tables
                             </div>
                           )}
                         </div>
+                        )}
                       </div>
                     );
                   })}
@@ -364,7 +513,7 @@ export default function KnowledgeGraph() {
               </>
             )}
 
-            {connectedNeo4j && (
+            {graphTargetConnection?.status === 'connected' && (
               <div className="mt-6 p-4 bg-emerald-50 border border-emerald-200 rounded-lg">
                 <div className="flex items-center">
                   <i className="fas fa-database text-emerald-600 mr-2"></i>
@@ -379,6 +528,10 @@ export default function KnowledgeGraph() {
         </Card>
       </div>
 
+      {selectedTables.length > 0 && (
+        <PersonaSuggestions databaseId={database.id} tables={selectedTables} />
+      )}
+
       {/* Build Instructions */}
       {selectedTables.length === 0 && (
         <Card className="mt-6">
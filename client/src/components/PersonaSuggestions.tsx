@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { PersonaSuggestion, PersonaSuggestionResult } from "@shared/schema";
+
+interface SuggestionDraft extends PersonaSuggestion {
+  include: boolean;
+  keywordText: string;
+}
+
+interface PersonaSuggestionsProps {
+  databaseId: string;
+  tables: Array<{ id: string; name: string }>;
+}
+
+export default function PersonaSuggestions({ databaseId, tables }: PersonaSuggestionsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [drafts, setDrafts] = useState<SuggestionDraft[]>([]);
+  const [unclusteredTableIds, setUnclusteredTableIds] = useState<string[]>([]);
+
+  const tableName = (tableId: string) => tables.find(t => t.id === tableId)?.name ?? tableId;
+
+  const suggestPersonas = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/databases/${databaseId}/persona-suggestions`, {});
+      return response.json() as Promise<PersonaSuggestionResult>;
+    },
+    onSuccess: (result) => {
+      setDrafts(result.suggestions.map(suggestion => ({
+        ...suggestion,
+        include: true,
+        keywordText: suggestion.keywords.join(', ')
+      })));
+      setUnclusteredTableIds(result.unclusteredTableIds);
+      if (result.suggestions.length === 0) {
+        toast({
+          title: "No personas to suggest",
+          description: "Validate some joins between the selected tables first."
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Persona suggestion failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const acceptSuggestions = useMutation({
+    mutationFn: async (accepted: SuggestionDraft[]) => {
+      const response = await apiRequest('POST', `/api/databases/${databaseId}/persona-suggestions/accept`, {
+        personas: accepted.map(draft => ({
+          name: draft.name,
+          description: draft.description,
+          keywords: draft.keywordText.split(',').map(keyword => keyword.trim()).filter(Boolean),
+          tableIds: draft.tableIds
+        }))
+      });
+      return response.json();
+    },
+    onSuccess: (created: any[]) => {
+      toast({ title: "Personas saved", description: `${created.length} personas created. Rebuild the graph to include them.` });
+      queryClient.invalidateQueries({ queryKey: ['/api/databases', databaseId, 'personas'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/databases', databaseId, 'persona-tables'] });
+      setDrafts([]);
+      setUnclusteredTableIds([]);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save personas", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const updateDraft = (index: number, updates: Partial<SuggestionDraft>) => {
+    setDrafts(current => current.map((draft, i) => i === index ? { ...draft, ...updates } : draft));
+  };
+
+  const removeTable = (index: number, tableId: string) => {
+    const draft = drafts[index];
+    updateDraft(index, { tableIds: draft.tableIds.filter(id => id !== tableId) });
+  };
+
+  const accepted = drafts.filter(draft => draft.include && draft.name.trim() && draft.tableIds.length > 0);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center">
+              <i className="fas fa-lightbulb mr-2"></i>
+              Persona Suggestions
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Clusters tables along validated joins and names each cluster from AI context and SME answers
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => suggestPersonas.mutate()}
+            disabled={suggestPersonas.isPending}
+            data-testid="button-suggest-personas"
+          >
+            <i className="fas fa-magic mr-2"></i>
+            {suggestPersonas.isPending ? "Analyzing..." : "Suggest Personas"}
+          </Button>
+        </div>
+      </CardHeader>
+      {drafts.length > 0 && (
+        <CardContent>
+          <div className="space-y-4">
+            {drafts.map((draft, index) => (
+              <div
+                key={index}
+                className={`p-4 border rounded-lg ${draft.include ? 'border-purple-200 bg-purple-50' : 'border-gray-200 opacity-60'}`}
+                data-testid={`persona-suggestion-${index}`}
+              >
+                <div className="flex items-center space-x-3 mb-3">
+                  <Checkbox
+                    checked={draft.include}
+                    onCheckedChange={(checked) => updateDraft(index, { include: checked === true })}
+                    data-testid={`checkbox-include-suggestion-${index}`}
+                  />
+                  <Input
+                    value={draft.name}
+                    onChange={(e) => updateDraft(index, { name: e.target.value })}
+                    className="font-medium"
+                    data-testid={`input-suggestion-name-${index}`}
+                  />
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    cohesion {Math.round(draft.cohesion * 100)}%{draft.namedBy === 'heuristic' ? ' · unnamed by AI' : ''}
+                  </span>
+                </div>
+                <Textarea
+                  value={draft.description}
+                  onChange={(e) => updateDraft(index, { description: e.target.value })}
+                  className="mb-3 text-sm"
+                  rows={2}
+                  data-testid={`textarea-suggestion-description-${index}`}
+                />
+                <Input
+                  value={draft.keywordText}
+                  onChange={(e) => updateDraft(index, { keywordText: e.target.value })}
+                  placeholder="Comma-separated keywords"
+                  className="mb-3 text-sm"
+                  data-testid={`input-suggestion-keywords-${index}`}
+                />
+                <div className="flex flex-wrap gap-2">
+                  {draft.tableIds.map(tableId => (
+                    <span key={tableId} className="inline-flex items-center px-2 py-1 bg-blue-50 border border-blue-200 rounded text-xs text-blue-800">
+                      <i className="fas fa-table mr-1"></i>
+                      {tableName(tableId)}
+                      <button
+                        className="ml-2 text-blue-600 hover:text-blue-900"
+                        onClick={() => removeTable(index, tableId)}
+                        title="Remove from this persona"
+                      >
+                        <i className="fas fa-times"></i>
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            {unclusteredTableIds.length > 0 && (
+              <p className="text-xs text-muted-foreground" data-testid="text-unclustered-tables">
+                Not joined to other selected tables: {unclusteredTableIds.map(tableName).join(', ')}
+              </p>
+            )}
+
+            <div className="flex space-x-2">
+              <Button
+                onClick={() => acceptSuggestions.mutate(accepted)}
+                disabled={accepted.length === 0 || acceptSuggestions.isPending}
+                data-testid="button-accept-suggestions"
+              >
+                {acceptSuggestions.isPending ? "Saving..." : `Save ${accepted.length} Persona${accepted.length === 1 ? '' : 's'}`}
+              </Button>
+              <Button variant="outline" onClick={() => setDrafts([])}>
+                Discard
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDistanceToNow } from "date-fns";
+import type { AnalysisJob } from "@shared/schema";
+
+interface RefreshStatus {
+  schedule: string | null;
+  nextRunAt: string | null;
+  scheduleError: string | null;
+  lastRefreshedAt: string | null;
+  running: boolean;
+  lastJob: AnalysisJob | null;
+  tables: Array<{ id: string; name: string; profiledAt: string | null }>;
+}
+
+const PRESETS = [
+  { id: "manual", label: "Manual only", cron: "" },
+  { id: "hourly", label: "Hourly", cron: "0 * * * *" },
+  { id: "daily", label: "Daily at 02:00", cron: "0 2 * * *" },
+  { id: "weekdays", label: "Weekdays at 06:00", cron: "0 6 * * 1-5" },
+  { id: "weekly", label: "Weekly on Monday", cron: "0 2 * * 1" }
+];
+const CUSTOM = "custom";
+
+const ago = (date: string | null) => date ? formatDistanceToNow(new Date(date), { addSuffix: true }) : "never";
+
+interface RefreshScheduleProps {
+  databaseId: string;
+}
+
+export default function RefreshSchedule({ databaseId }: RefreshScheduleProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [schedule, setSchedule] = useState("");
+
+  const { data: status } = useQuery<RefreshStatus>({
+    queryKey: ['/api/databases', databaseId, 'refresh'],
+    queryFn: async () => {
+      const response = await fetch(`/api/databases/${databaseId}/refresh`);
+      if (!response.ok) throw new Error('Failed to fetch refresh status');
+      return response.json();
+    },
+    refetchInterval: (query) => (query.state.data as RefreshStatus | undefined)?.running ? 3000 : false
+  });
+
+  useEffect(() => {
+    setSchedule(status?.schedule ?? "");
+  }, [status?.schedule]);
+
+  const saveSchedule = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', `/api/databases/${databaseId}/refresh-schedule`, {
+        schedule: schedule.trim() || null
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Refresh schedule saved", description: schedule.trim() ? schedule.trim() : "Refreshes only run on demand" });
+      queryClient.invalidateQueries({ queryKey: ['/api/databases', databaseId, 'refresh'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Invalid schedule", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const refreshNow = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/databases/${databaseId}/refresh`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Refresh started", description: "Schema, statistics and joins are being re-analyzed" });
+      queryClient.invalidateQueries({ queryKey: ['/api/databases', databaseId, 'refresh'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Refresh failed to start", description: error.message, variant: "destructive" });
+    }
+  });
+
+  // Refreshed data shows up in the rest of the overview once the run finishes
+  const running = status?.running ?? false;
+  useEffect(() => {
+    if (!running && status?.lastJob?.status === 'completed') {
+      queryClient.invalidateQueries({ queryKey: ['/api/databases', databaseId, 'tables'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/databases', databaseId, 'schema-versions'] });
+    }
+  }, [running, status?.lastJob?.id, status?.lastJob?.status]);
+
+  const preset = PRESETS.find(p => p.cron === schedule.trim())?.id ?? CUSTOM;
+  const lastResult = status?.lastJob?.result as Record<string, any> | null | undefined;
+  // Tables are profiled during the run, so freshness is measured from when the last refresh started
+  const lastStartedAt = status?.lastJob?.startedAt;
+  const staleTables = (status?.tables ?? []).filter(table =>
+    !table.profiledAt || (lastStartedAt && new Date(table.profiledAt) < new Date(lastStartedAt)));
+
+  return (
+    <Card className="mt-6" data-testid="refresh-schedule">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <i className="fas fa-clock mr-2"></i>
+          Scheduled Refresh
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center space-x-2">
+          <Select value={preset} onValueChange={(id) => setSchedule(PRESETS.find(p => p.id === id)?.cron ?? schedule)}>
+            <SelectTrigger className="w-48" data-testid="select-refresh-preset">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PRESETS.map(p => (
+                <SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>
+              ))}
+              <SelectItem value={CUSTOM}>Custom</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            value={schedule}
+            onChange={(e) => setSchedule(e.target.value)}
+            placeholder="minute hour day month weekday"
+            className="w-56 font-mono text-sm"
+            data-testid="input-refresh-schedule"
+          />
+          <Button
+            variant="outline"
+            onClick={() => saveSchedule.mutate()}
+            disabled={saveSchedule.isPending || schedule.trim() === (status?.schedule ?? "")}
+            data-testid="button-save-refresh-schedule"
+          >
+            Save
+          </Button>
+          <Button
+            onClick={() => refreshNow.mutate()}
+            disabled={running || refreshNow.isPending}
+            data-testid="button-refresh-now"
+          >
+            <i className={`fas fa-sync-alt mr-2 ${running ? 'fa-spin' : ''}`}></i>
+            {running ? `Refreshing... ${status?.lastJob?.progress ?? 0}%` : "Refresh Now"}
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Last refreshed</p>
+            <p className="font-medium" data-testid="text-last-refreshed">{ago(status?.lastRefreshedAt ?? null)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Next scheduled run</p>
+            <p className="font-medium">{status?.nextRunAt ? new Date(status.nextRunAt).toLocaleString() : "Not scheduled"}</p>
+            {status?.scheduleError && <p className="text-xs text-destructive">{status.scheduleError}</p>}
+          </div>
+          <div>
+            <p className="text-muted-foreground">Tables not profiled by the last refresh</p>
+            <p className="font-medium">{staleTables.length} of {status?.tables.length ?? 0}</p>
+          </div>
+        </div>
+
+        {status?.lastJob && !running && (
+          <p className="text-xs text-muted-foreground" data-testid="text-last-refresh-result">
+            {status.lastJob.status === 'failed'
+              ? <span className="text-destructive">Last refresh failed: {status.lastJob.error}</span>
+              : lastResult && (
+                <>
+                  Last refresh: {lastResult.schemaChanges} schema change{lastResult.schemaChanges === 1 ? '' : 's'},{' '}
+                  {lastResult.tablesProfiled} table{lastResult.tablesProfiled === 1 ? '' : 's'} profiled,{' '}
+                  {lastResult.statisticalChanges} statistical change{lastResult.statisticalChanges === 1 ? '' : 's'} flagged,{' '}
+                  {lastResult.enumValuesAdded ?? 0} new and {lastResult.enumValuesDeprecated ?? 0} deprecated enum values
+                  {lastResult.smeQuestionIds?.length > 0 && ` (${lastResult.smeQuestionIds.length} new SME questions)`},{' '}
+                  {lastResult.joinsDiscovered} new join{lastResult.joinsDiscovered === 1 ? '' : 's'}
+                  {lastResult.tablesFailed?.length > 0 && <span className="text-destructive">; failed: {lastResult.tablesFailed.join(', ')}</span>}
+                </>
+              )}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,6 +9,7 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import CSVUpload from "@/components/CSVUpload";
 import { ChevronLeft, ChevronRight } from "lucide-react";
+import { isSourceConnectionType } from "@shared/schema";
 
 interface SmeQuestion {
   id: string;
@@ -20,6 +21,8 @@ interface SmeQuestion {
   response?: string;
   isAnswered: boolean;
   priority: string;
+  isStale?: boolean;
+  staleReason?: string | null;
 }
 
 interface SMEProgress {
@@ -34,7 +37,12 @@ interface SMEProgress {
   };
 }
 
-export default function SMEInterview() {
+interface SMEInterviewProps {
+  // Answering only: for SME reviewers, whose questions the server already limits to their tables
+  smeOnly?: boolean;
+}
+
+export default function SMEInterview({ smeOnly = false }: SMEInterviewProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [responses, setResponses] = useState<Record<string, string>>({});
@@ -45,12 +53,12 @@ export default function SMEInterview() {
   const { data: connections = [] } = useQuery({
     queryKey: ['/api/connections'],
     queryFn: async () => {
-      const response = await fetch('/api/connections?userId=default-user');
+      const response = await fetch('/api/connections');
       return response.json();
     }
   });
 
-  const postgresConnection = connections.find((c: any) => c.type === 'postgresql' && c.status === 'connected');
+  const postgresConnection = connections.find((c: any) => isSourceConnectionType(c.type) && c.status === 'connected');
 
   const { data: databases = [] } = useQuery({
     queryKey: ['/api/databases', postgresConnection?.id],
@@ -197,6 +205,8 @@ export default function SMEInterview() {
       case 'column': return 'fas fa-columns';
       case 'relationship': return 'fas fa-link';
       case 'ambiguity': return 'fas fa-question-circle';
+      case 'missing_context': return 'fas fa-puzzle-piece';
+      case 'statistical_change': return 'fas fa-chart-line';
       default: return 'fas fa-question';
     }
   };
@@ -212,26 +222,33 @@ export default function SMEInterview() {
   return (
     <div>
       <div className="flex items-center justify-between mb-6">
-        <h2 className="text-2xl font-semibold" data-testid="sme-interview-title">SME Interview & Validation</h2>
-        <div className="flex space-x-2">
-          <Button 
-            variant="outline"
-            onClick={() => discoverForeignKeys.mutate()}
-            disabled={discoverForeignKeys.isPending}
-            data-testid="button-discover-fks"
-          >
-            <i className={`fas ${discoverForeignKeys.isPending ? 'fa-spinner fa-spin' : 'fa-project-diagram'} mr-2`}></i>
-            {discoverForeignKeys.isPending ? 'Discovering...' : 'Discover Relationships'}
-          </Button>
-          <Button 
-            variant="outline"
-            onClick={exportCSV}
-            data-testid="button-export-csv"
-          >
-            <i className="fas fa-download mr-2"></i>
-            Export Q&A CSV
-          </Button>
+        <div>
+          <h2 className="text-2xl font-semibold" data-testid="sme-interview-title">SME Interview & Validation</h2>
+          {smeOnly && (
+            <p className="text-muted-foreground">Questions about {database.name} that are waiting for your business knowledge</p>
+          )}
         </div>
+        {!smeOnly && (
+          <div className="flex space-x-2">
+            <Button 
+              variant="outline"
+              onClick={() => discoverForeignKeys.mutate()}
+              disabled={discoverForeignKeys.isPending}
+              data-testid="button-discover-fks"
+            >
+              <i className={`fas ${discoverForeignKeys.isPending ? 'fa-spinner fa-spin' : 'fa-project-diagram'} mr-2`}></i>
+              {discoverForeignKeys.isPending ? 'Discovering...' : 'Discover Relationships'}
+            </Button>
+            <Button 
+              variant="outline"
+              onClick={exportCSV}
+              data-testid="button-export-csv"
+            >
+              <i className="fas fa-download mr-2"></i>
+              Export Q&A CSV
+            </Button>
+          </div>
+        )}
       </div>
 
       {/* Progress Overview */}
@@ -295,8 +312,14 @@ export default function SMEInterview() {
           <CardContent>
             {questions.length === 0 ? (
               <div className="text-center py-8 text-muted-foreground">
-                <p>No questions generated yet.</p>
-                <p className="text-sm">Click "Generate Questions" or use "Generate Context & Questions" from AI Context Generation to create SME interview questions.</p>
+                {smeOnly ? (
+                  <p>No questions are waiting for you.</p>
+                ) : (
+                  <>
+                    <p>No questions generated yet.</p>
+                    <p className="text-sm">Click "Generate Questions" or use "Generate Context & Questions" from AI Context Generation to create SME interview questions.</p>
+                  </>
+                )}
               </div>
             ) : (
               <div>
@@ -318,7 +341,7 @@ export default function SMEInterview() {
                             <div className="flex items-center">
                               <i className={`${getQuestionTypeIcon(question.questionType)} text-amber-600 mr-2`}></i>
                               <span className="font-medium text-sm text-amber-800">
-                                {question.questionType.charAt(0).toUpperCase() + question.questionType.slice(1)} Question
+                                {question.questionType.charAt(0).toUpperCase() + question.questionType.slice(1).replace(/_/g, ' ')} Question
                               </span>
                             </div>
                             <span className={`px-2 py-1 rounded text-xs ${getPriorityColor(question.priority)}`}>
@@ -406,8 +429,8 @@ export default function SMEInterview() {
           <CardContent>
             <ScrollArea className="max-h-96">
               <div className="space-y-4">
-                {/* Show answered questions */}
-                {questions.filter(q => q.isAnswered).slice(0, 3).map((question) => (
+                {/* Show answered questions, stale ones first so they get re-checked */}
+                {questions.filter(q => q.isAnswered).sort((a, b) => Number(!!b.isStale) - Number(!!a.isStale)).slice(0, 3).map((question) => (
                   <div 
                     key={question.id} 
                     className="p-4 bg-emerald-50 border border-emerald-200 rounded-lg"
@@ -415,9 +438,15 @@ export default function SMEInterview() {
                   >
                     <div className="flex items-center justify-between mb-3">
                       <span className="font-medium text-sm">{question.questionType} Question</span>
-                      <span className="bg-emerald-100 text-emerald-800 px-2 py-1 rounded text-xs">
-                        Validated
-                      </span>
+                      {question.isStale ? (
+                        <span className="bg-amber-100 text-amber-800 px-2 py-1 rounded text-xs" title={question.staleReason ?? undefined}>
+                          Stale
+                        </span>
+                      ) : (
+                        <span className="bg-emerald-100 text-emerald-800 px-2 py-1 rounded text-xs">
+                          Validated
+                        </span>
+                      )}
                     </div>
                     <div className="space-y-2">
                       <div>
@@ -503,7 +532,7 @@ export default function SMEInterview() {
         </Card>
 
         {/* CSV Upload Section */}
-        {database && (
+        {database && !smeOnly && (
           <CSVUpload 
             databaseId={database.id}
             onUploadComplete={(progress) => {
@@ -6,6 +6,7 @@ import { Slider } from "@/components/ui/slider";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { isSourceConnectionType } from "@shared/schema";
 
 interface Table {
   id: string;
@@ -25,12 +26,12 @@ export default function SamplingConfiguration() {
   const { data: connections = [] } = useQuery({
     queryKey: ['/api/connections'],
     queryFn: async () => {
-      const response = await fetch('/api/connections?userId=default-user');
+      const response = await fetch('/api/connections');
       return response.json();
     }
   });
 
-  const postgresConnection = connections.find((c: any) => c.type === 'postgresql' && c.status === 'connected');
+  const postgresConnection = connections.find((c: any) => isSourceConnectionType(c.type) && c.status === 'connected');
 
   const { data: databases = [] } = useQuery({
     queryKey: ['/api/databases', postgresConnection?.id],
@@ -8,16 +8,24 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { isSourceConnectionType, type SchemaChangeKind, type SchemaVersion } from "@shared/schema";
+import SemanticSearch from "./SemanticSearch";
+import RefreshSchedule from "./RefreshSchedule";
+import { formatDistanceToNow } from "date-fns";
 
 interface Table {
   id: string;
   name: string;
   schema: string;
   rowCount: number;
+  rowCountMethod?: 'estimated' | 'exact' | null;
+  exactRowCount?: boolean;
   columnCount: number;
   lastUpdated?: string;
   isSelected: boolean;
   sampleSize: number;
+  droppedAt?: string | null;
+  profiledAt?: string | null;
 }
 
 interface Database {
@@ -27,6 +35,44 @@ interface Database {
   connectionId: string;
 }
 
+const compactNumber = new Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 1 });
+
+function formatRowCount(table: Table): string {
+  switch (table.rowCountMethod) {
+    case 'estimated':
+      return `~${compactNumber.format(table.rowCount)} (estimated)`;
+    case 'exact':
+      return `${table.rowCount.toLocaleString()} (exact)`;
+    default:
+      return table.rowCount.toLocaleString();
+  }
+}
+
+const CHANGE_LABELS: Record<SchemaChangeKind, { label: string; icon: string; className: string }> = {
+  table_added: { label: 'Table added', icon: 'fa-plus', className: 'text-emerald-600' },
+  table_dropped: { label: 'Table dropped', icon: 'fa-minus', className: 'text-red-600' },
+  table_renamed: { label: 'Table renamed', icon: 'fa-i-cursor', className: 'text-blue-600' },
+  column_added: { label: 'Column added', icon: 'fa-plus', className: 'text-emerald-600' },
+  column_dropped: { label: 'Column dropped', icon: 'fa-minus', className: 'text-red-600' },
+  column_renamed: { label: 'Column renamed', icon: 'fa-i-cursor', className: 'text-blue-600' },
+  column_type_changed: { label: 'Type changed', icon: 'fa-exchange-alt', className: 'text-amber-600' },
+  column_nullability_changed: { label: 'Nullability changed', icon: 'fa-exchange-alt', className: 'text-amber-600' }
+};
+
+function describeChange(change: SchemaVersion['changes'][number]): string {
+  switch (change.kind) {
+    case 'table_renamed':
+      return `${change.from} → ${change.to}`;
+    case 'column_renamed':
+      return `${change.table}.${change.from} → ${change.to}`;
+    case 'column_type_changed':
+    case 'column_nullability_changed':
+      return `${change.table}.${change.column}: ${change.from} → ${change.to}`;
+    default:
+      return change.column ? `${change.table}.${change.column}` : change.table;
+  }
+}
+
 export default function SchemaOverview() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -36,18 +82,19 @@ export default function SchemaOverview() {
   const [currentDatabase, setCurrentDatabase] = useState<string>("");
   const [showSchemaDialog, setShowSchemaDialog] = useState(false);
   const [selectedSchemaForCreation, setSelectedSchemaForCreation] = useState<string>("");
+  const [expandedVersion, setExpandedVersion] = useState<string | null>(null);
 
   // Fetch connections to get PostgreSQL connection
   const { data: connections = [] } = useQuery({
     queryKey: ['/api/connections'],
     queryFn: async () => {
-      const response = await fetch('/api/connections?userId=default-user');
+      const response = await fetch('/api/connections');
       if (!response.ok) throw new Error('Failed to fetch connections');
       return response.json();
     }
   });
 
-  const postgresConnection = connections.find((c: any) => c.type === 'postgresql' && c.status === 'connected');
+  const postgresConnection = connections.find((c: any) => isSourceConnectionType(c.type) && c.status === 'connected');
 
   // Fetch available schemas for the PostgreSQL connection
   const { data: availableSchemas = [] } = useQuery({
@@ -89,6 +136,17 @@ export default function SchemaOverview() {
     enabled: !!database
   });
 
+  // Schema changelog, newest version first
+  const { data: schemaVersions = [] } = useQuery<SchemaVersion[]>({
+    queryKey: ['/api/databases', database?.id, 'schema-versions'],
+    queryFn: async () => {
+      const response = await fetch(`/api/databases/${database.id}/schema-versions`);
+      if (!response.ok) throw new Error('Failed to fetch schema versions');
+      return response.json();
+    },
+    enabled: !!database
+  });
+
   // Schema analysis mutation
   const analyzeSchema = useMutation({
     mutationFn: async (databaseId: string) => {
@@ -98,9 +156,11 @@ export default function SchemaOverview() {
     onSuccess: (data) => {
       toast({ 
         title: "Schema analysis completed", 
-        description: `Found ${data.totalTables} tables with ${data.totalColumns} columns` 
+        description: `Found ${data.totalTables} tables with ${data.totalColumns} columns` +
+          (data.schemaVersion ? `; ${data.changes.length} change${data.changes.length === 1 ? '' : 's'} recorded as v${data.schemaVersion.version}` : '; no changes')
       });
       queryClient.invalidateQueries({ queryKey: ['/api/databases', database?.id, 'tables'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/databases', database?.id, 'schema-versions'] });
     },
     onError: (error: Error) => {
       toast({ title: "Schema analysis failed", description: error.message, variant: "destructive" });
@@ -149,6 +209,20 @@ export default function SchemaOverview() {
     }
   });
 
+  // Row count mode mutation (estimate vs exact COUNT(*))
+  const updateRowCountMode = useMutation({
+    mutationFn: async ({ tableId, exact }: { tableId: string; exact: boolean }) => {
+      const response = await apiRequest('POST', `/api/tables/${tableId}/row-count`, { exact });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/databases', database?.id, 'tables'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Row count refresh failed", description: error.message, variant: "destructive" });
+    }
+  });
+
   const handleTableSelection = (tableId: string, isSelected: boolean) => {
     updateTableSelection.mutate({ tableId, isSelected });
     
@@ -191,8 +265,9 @@ export default function SchemaOverview() {
   });
 
   const uniqueSchemas = Array.from(new Set(tables.map(t => t.schema)));
-  const activeTables = tables.filter(t => t.rowCount > 0);
-  const totalColumns = tables.reduce((sum, t) => sum + t.columnCount, 0);
+  const currentTables = tables.filter(t => !t.droppedAt);
+  const activeTables = currentTables.filter(t => t.rowCount > 0);
+  const totalColumns = currentTables.reduce((sum, t) => sum + t.columnCount, 0);
   const selectedTablesCount = tables.filter(t => t.isSelected).length;
 
   if (!postgresConnection) {
@@ -222,7 +297,7 @@ export default function SchemaOverview() {
           {/* Statistics */}
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6 p-6 border-b border-border">
             <div className="text-center" data-testid="stat-total-tables">
-              <div className="text-2xl font-bold text-primary">{tables.length}</div>
+              <div className="text-2xl font-bold text-primary">{currentTables.length}</div>
               <div className="text-sm text-muted-foreground">Total Tables</div>
             </div>
             <div className="text-center" data-testid="stat-active-tables">
@@ -288,7 +363,7 @@ export default function SchemaOverview() {
                         checked={selectedTables.length === filteredTables.length}
                         onCheckedChange={(checked) => {
                           if (checked) {
-                            const newSelections = filteredTables.filter(t => !t.isSelected);
+                            const newSelections = filteredTables.filter(t => !t.isSelected && !t.droppedAt);
                             newSelections.forEach(t => handleTableSelection(t.id, true));
                           } else {
                             const currentSelections = filteredTables.filter(t => t.isSelected);
@@ -302,6 +377,7 @@ export default function SchemaOverview() {
                     <th className="text-left py-3 px-4 font-medium text-sm">Rows</th>
                     <th className="text-left py-3 px-4 font-medium text-sm">Columns</th>
                     <th className="text-left py-3 px-4 font-medium text-sm">Schema</th>
+                    <th className="text-left py-3 px-4 font-medium text-sm">Profiled</th>
                     <th className="text-left py-3 px-4 font-medium text-sm">Status</th>
                   </tr>
                 </thead>
@@ -312,6 +388,7 @@ export default function SchemaOverview() {
                         <Checkbox
                           checked={table.isSelected}
                           onCheckedChange={(checked) => handleTableSelection(table.id, !!checked)}
+                          disabled={!!table.droppedAt}
                           data-testid={`checkbox-table-${table.name}`}
                         />
                       </td>
@@ -321,23 +398,42 @@ export default function SchemaOverview() {
                           <span className="font-medium">{table.name}</span>
                         </div>
                       </td>
-                      <td className="py-3 px-4 text-sm" data-testid={`text-rows-${table.name}`}>
-                        {table.rowCount.toLocaleString()}
+                      <td className="py-3 px-4 text-sm">
+                        <div className="flex items-center gap-2">
+                          <span data-testid={`text-rows-${table.name}`}>{formatRowCount(table)}</span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-xs text-muted-foreground"
+                            onClick={() => updateRowCountMode.mutate({ tableId: table.id, exact: !table.exactRowCount })}
+                            disabled={updateRowCountMode.isPending}
+                            data-testid={`button-row-count-mode-${table.name}`}
+                          >
+                            {table.exactRowCount ? 'Use estimate' : 'Count exactly'}
+                          </Button>
+                        </div>
                       </td>
                       <td className="py-3 px-4 text-sm" data-testid={`text-columns-${table.name}`}>
                         {table.columnCount}
                       </td>
                       <td className="py-3 px-4 text-sm">{table.schema}</td>
+                      <td className="py-3 px-4 text-sm text-muted-foreground" data-testid={`text-profiled-${table.name}`}>
+                        {table.profiledAt ? formatDistanceToNow(new Date(table.profiledAt), { addSuffix: true }) : 'Never'}
+                      </td>
                       <td className="py-3 px-4">
-                        <span 
-                          className={`px-2 py-1 rounded text-xs ${
-                            table.rowCount > 0 
-                              ? 'bg-emerald-100 text-emerald-800' 
-                              : 'bg-amber-100 text-amber-800'
-                          }`}
-                        >
-                          {table.rowCount > 0 ? 'Active' : 'Empty'}
-                        </span>
+                        {table.droppedAt ? (
+                          <span className="px-2 py-1 rounded text-xs bg-red-100 text-red-800">Dropped</span>
+                        ) : (
+                          <span 
+                            className={`px-2 py-1 rounded text-xs ${
+                              table.rowCount > 0 
+                                ? 'bg-emerald-100 text-emerald-800' 
+                                : 'bg-amber-100 text-amber-800'
+                            }`}
+                          >
+                            {table.rowCount > 0 ? 'Active' : 'Empty'}
+                          </span>
+                        )}
                       </td>
                     </tr>
                   ))}
@@ -404,6 +500,72 @@ export default function SchemaOverview() {
         </CardContent>
       </Card>
 
+      {/* Schema Changelog */}
+      {schemaVersions.length > 0 && (
+        <Card className="mt-6" data-testid="schema-changelog">
+          <CardContent className="p-6">
+            <h3 className="text-lg font-semibold mb-4">
+              <i className="fas fa-history mr-2"></i>
+              Schema Changelog
+            </h3>
+            <div className="space-y-2">
+              {schemaVersions.map(version => {
+                const expanded = expandedVersion === version.id;
+                return (
+                  <div key={version.id} className="border rounded-lg" data-testid={`schema-version-${version.version}`}>
+                    <button
+                      className="w-full flex items-center justify-between p-3 text-left hover:bg-accent/50"
+                      onClick={() => setExpandedVersion(expanded ? null : version.id)}
+                    >
+                      <div className="flex items-center space-x-3">
+                        <span className="font-medium">v{version.version}</span>
+                        <span className="text-sm text-muted-foreground">
+                          {version.createdAt ? new Date(version.createdAt).toLocaleString() : ''}
+                        </span>
+                        <span className="text-sm">
+                          {version.changes.length} change{version.changes.length === 1 ? '' : 's'}
+                        </span>
+                      </div>
+                      <div className="flex items-center space-x-3 text-xs">
+                        {(version.staleContextItems ?? 0) > 0 && (
+                          <span className="px-2 py-1 rounded bg-amber-100 text-amber-800">
+                            {version.staleContextItems} stale descriptions
+                          </span>
+                        )}
+                        {(version.staleSmeAnswers ?? 0) > 0 && (
+                          <span className="px-2 py-1 rounded bg-amber-100 text-amber-800">
+                            {version.staleSmeAnswers} stale SME answers
+                          </span>
+                        )}
+                        <i className={`fas fa-chevron-${expanded ? 'up' : 'down'} text-muted-foreground`}></i>
+                      </div>
+                    </button>
+                    {expanded && (
+                      <ul className="px-3 pb-3 space-y-1">
+                        {version.changes.map((change, index) => {
+                          const label = CHANGE_LABELS[change.kind];
+                          return (
+                            <li key={index} className="flex items-center text-sm">
+                              <i className={`fas ${label.icon} ${label.className} w-4 mr-2`}></i>
+                              <span className="w-40 text-muted-foreground">{label.label}</span>
+                              <span className="font-mono text-xs">{describeChange(change)}</span>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {database && selectedTablesCount > 0 && <RefreshSchedule databaseId={database.id} />}
+
+      {database && selectedTablesCount > 0 && <SemanticSearch databaseId={database.id} />}
+
       {/* Schema Selection Dialog */}
       <Dialog open={showSchemaDialog} onOpenChange={setShowSchemaDialog}>
         <DialogContent className="sm:max-w-md">
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { EmbeddingEntityType, SemanticSearchResult } from "@shared/schema";
+
+const ENTITY_LABELS: Record<EmbeddingEntityType, { label: string; icon: string; className: string }> = {
+  table: { label: 'Table', icon: 'fa-table', className: 'bg-blue-100 text-blue-800' },
+  column: { label: 'Column', icon: 'fa-columns', className: 'bg-emerald-100 text-emerald-800' },
+  enum_value: { label: 'Value', icon: 'fa-list', className: 'bg-amber-100 text-amber-800' },
+  sme_answer: { label: 'SME Answer', icon: 'fa-user-check', className: 'bg-purple-100 text-purple-800' }
+};
+
+interface SemanticSearchProps {
+  databaseId: string;
+}
+
+export default function SemanticSearch({ databaseId }: SemanticSearchProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+
+  // Only searches on submit: the query is embedded server-side, possibly by a paid provider
+  const { data: results = [], isFetching, error } = useQuery<SemanticSearchResult[]>({
+    queryKey: ['/api/databases', databaseId, 'search', query],
+    queryFn: async () => {
+      const response = await fetch(`/api/databases/${databaseId}/search?q=${encodeURIComponent(query)}`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || 'Search failed');
+      }
+      return response.json();
+    },
+    enabled: !!query
+  });
+
+  const reindex = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/databases/${databaseId}/embeddings/reindex`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Search index updated",
+        description: `${data.embedded} embedded, ${data.unchanged} unchanged, ${data.removed} removed (${data.model})`
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/databases', databaseId, 'search'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Reindex failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center">
+              <i className="fas fa-search mr-2"></i>
+              Semantic Search
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Find tables, columns and values by meaning across AI descriptions and SME answers
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => reindex.mutate()}
+            disabled={reindex.isPending}
+            data-testid="button-reindex-embeddings"
+          >
+            <i className="fas fa-sync-alt mr-2"></i>
+            {reindex.isPending ? "Indexing..." : "Reindex"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="flex space-x-2 mb-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setQuery(input.trim());
+          }}
+        >
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="e.g. where are refunds recorded?"
+            data-testid="input-semantic-search"
+          />
+          <Button type="submit" disabled={!input.trim() || isFetching} data-testid="button-semantic-search">
+            {isFetching ? "Searching..." : "Search"}
+          </Button>
+        </form>
+
+        {error && (
+          <p className="text-sm text-destructive" data-testid="text-search-error">{(error as Error).message}</p>
+        )}
+
+        {query && !isFetching && !error && results.length === 0 && (
+          <p className="text-sm text-muted-foreground">No matches for "{query}".</p>
+        )}
+
+        <div className="space-y-2">
+          {results.map(result => {
+            const entity = ENTITY_LABELS[result.entityType];
+            return (
+              <div
+                key={`${result.entityType}:${result.entityId}`}
+                className="p-3 border rounded-lg"
+                data-testid={`search-result-${result.entityId}`}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="secondary" className={entity.className}>
+                      <i className={`fas ${entity.icon} mr-1`}></i>
+                      {entity.label}
+                    </Badge>
+                    <span className="font-medium font-mono text-sm">{result.label}</span>
+                  </div>
+                  <span className="text-xs text-muted-foreground">score {result.score.toFixed(2)}</span>
+                </div>
+                <p className="text-sm text-muted-foreground line-clamp-2">{result.content}</p>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -30,12 +30,25 @@ export default function Sidebar({ activeSection, onSectionChange, connectionStat
         { id: 'knowledge-graph', label: 'Knowledge Graph', icon: 'fas fa-project-diagram' },
       ]
     },
+    {
+      category: 'Validate',
+      items: [
+        { id: 'text-to-sql', label: 'Text-to-SQL', icon: 'fas fa-terminal' },
+        { id: 'evaluation', label: 'Evaluation', icon: 'fas fa-clipboard-check' },
+      ]
+    },
     {
       category: 'Export',
       items: [
         { id: 'csv-export', label: 'CSV Reports', icon: 'fas fa-file-csv' },
         { id: 'json-export', label: 'JSON Export', icon: 'fas fa-file-code' },
       ]
+    },
+    {
+      category: 'Settings',
+      items: [
+        { id: 'workspace', label: 'Workspace & Team', icon: 'fas fa-users' },
+      ]
     }
   ];
 
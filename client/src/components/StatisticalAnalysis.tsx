@@ -2,9 +2,20 @@ import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import {
+  isSourceConnectionType,
+  MASKING_STRATEGIES,
+  type ColumnDistribution,
+  type MaskingPolicy,
+  type MaskingStrategy,
+  type PiiCategory
+} from "@shared/schema";
 
 interface Column {
   id: string;
@@ -13,6 +24,7 @@ interface Column {
   cardinality?: number;
   nullPercentage?: string;
   distinctValues?: string;
+  distribution?: ColumnDistribution | null;
 }
 
 interface AnalysisJob {
@@ -24,6 +36,20 @@ interface AnalysisJob {
   error?: string;
 }
 
+interface MaskedColumn {
+  columnId: string;
+  tableName: string;
+  columnName: string;
+  piiCategory: PiiCategory | null;
+  piiConfidence: number | null;
+  maskingStrategy: MaskingStrategy | null;
+}
+
+interface MaskingPolicyResponse {
+  policy: MaskingPolicy;
+  columns: MaskedColumn[];
+}
+
 interface StatisticalSummary {
   totalTables: number;
   analyzedTables: number;
@@ -35,20 +61,86 @@ interface StatisticalSummary {
   patterns: string[];
 }
 
+function formatStat(value: number | null | undefined): string {
+  if (value === null || value === undefined) return '—';
+  return Number.isInteger(value) ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+function DistributionBars({ bars, testId }: { bars: Array<{ label: string; count: number }>; testId: string }) {
+  const maxCount = Math.max(...bars.map(bar => bar.count), 1);
+  return (
+    <div className="flex items-end h-16 gap-px" data-testid={testId}>
+      {bars.map((bar, index) => (
+        <div
+          key={index}
+          className="flex-1 bg-primary/70 rounded-t-sm min-h-[1px]"
+          style={{ height: `${(bar.count / maxCount) * 100}%` }}
+          title={`${bar.label}: ${bar.count.toLocaleString()}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+function ColumnDistributionView({ column }: { column: Column & { distribution: ColumnDistribution } }) {
+  const distribution = column.distribution;
+
+  if (distribution.kind === 'numeric') {
+    const { percentiles } = distribution;
+    return (
+      <div className="space-y-2">
+        <div className="grid grid-cols-4 gap-2 text-xs">
+          <div><span className="text-muted-foreground">Mean</span> {formatStat(distribution.mean)}</div>
+          <div><span className="text-muted-foreground">Std dev</span> {formatStat(distribution.stddev)}</div>
+          <div><span className="text-muted-foreground">Zeros</span> {formatStat(distribution.zeroCount)}</div>
+          <div><span className="text-muted-foreground">Negatives</span> {formatStat(distribution.negativeCount)}</div>
+        </div>
+        <div className="grid grid-cols-5 gap-2 text-xs">
+          {(['p1', 'p25', 'p50', 'p75', 'p99'] as const).map(key => (
+            <div key={key}><span className="text-muted-foreground">{key}</span> {formatStat(percentiles[key])}</div>
+          ))}
+        </div>
+        <DistributionBars
+          testId={`histogram-${column.name}`}
+          bars={distribution.histogram.map(bucket => ({
+            label: `${formatStat(bucket.lower)} – ${formatStat(bucket.upper)}`,
+            count: bucket.count
+          }))}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        <div><span className="text-muted-foreground">First seen</span> {distribution.firstSeen ?? '—'}</div>
+        <div><span className="text-muted-foreground">Last seen</span> {distribution.lastSeen ?? '—'}</div>
+      </div>
+      <DistributionBars
+        testId={`monthly-counts-${column.name}`}
+        bars={distribution.monthlyCounts.map(month => ({ label: month.month, count: month.count }))}
+      />
+    </div>
+  );
+}
+
 export default function StatisticalAnalysis() {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [currentAnalysis, setCurrentAnalysis] = useState<AnalysisJob | null>(null);
+  const [distributionTableId, setDistributionTableId] = useState<string>("");
 
   // Get database
   const { data: connections = [] } = useQuery({
     queryKey: ['/api/connections'],
     queryFn: async () => {
-      const response = await fetch('/api/connections?userId=default-user');
+      const response = await fetch('/api/connections');
       return response.json();
     }
   });
 
-  const postgresConnection = connections.find((c: any) => c.type === 'postgresql' && c.status === 'connected');
+  const postgresConnection = connections.find((c: any) => isSourceConnectionType(c.type) && c.status === 'connected');
 
   const { data: databases = [] } = useQuery({
     queryKey: ['/api/databases', postgresConnection?.id],
@@ -74,6 +166,22 @@ export default function StatisticalAnalysis() {
   });
 
   const selectedTables = tables.filter((t: any) => t.isSelected);
+  const distributionTable = selectedTables.find((t: any) => t.id === distributionTableId) ?? selectedTables[0];
+
+  // Numeric/temporal distribution profiles for the chosen table
+  const { data: distributionColumns = [] } = useQuery<Column[]>({
+    queryKey: ['/api/tables', distributionTable?.id, 'columns'],
+    queryFn: async () => {
+      if (!distributionTable) return [];
+      const response = await fetch(`/api/tables/${distributionTable.id}/columns`);
+      return response.json();
+    },
+    enabled: !!distributionTable
+  });
+
+  const profiledColumns = distributionColumns.filter(
+    (c): c is Column & { distribution: ColumnDistribution } => !!c.distribution
+  );
 
   // Fetch analysis jobs
   const { data: jobs = [] } = useQuery<AnalysisJob[]>({
@@ -98,6 +206,41 @@ export default function StatisticalAnalysis() {
     enabled: !!database
   });
 
+  // PII masking policy and the columns it masks
+  const { data: masking } = useQuery<MaskingPolicyResponse>({
+    queryKey: ['/api/databases', database?.id, 'masking-policy'],
+    queryFn: async () => {
+      const response = await fetch(`/api/databases/${database.id}/masking-policy`);
+      return response.json();
+    },
+    enabled: !!database
+  });
+
+  const updateMaskingPolicy = useMutation({
+    mutationFn: async (policy: MaskingPolicy) => {
+      const response = await apiRequest('PUT', `/api/databases/${database.id}/masking-policy`, policy);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/databases', database?.id, 'masking-policy'] });
+      toast({ title: "Masking policy saved", description: "Re-run analysis to re-mask stored distinct values" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save masking policy", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const setColumnOverride = (columnId: string, value: MaskingStrategy | 'none' | 'default') => {
+    if (!masking) return;
+    const columnOverrides = { ...(masking.policy.columnOverrides ?? {}) };
+    if (value === 'default') {
+      delete columnOverrides[columnId];
+    } else {
+      columnOverrides[columnId] = value;
+    }
+    updateMaskingPolicy.mutate({ ...masking.policy, columnOverrides });
+  };
+
   // Run statistical analysis mutation
   const runAnalysis = useMutation({
     mutationFn: async (tableId: string) => {
@@ -372,6 +515,127 @@ export default function StatisticalAnalysis() {
         </Card>
       </div>
 
+      {/* Column Distributions */}
+      <Card className="mt-6">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center">
+              <i className="fas fa-chart-area mr-2"></i>
+              Column Distributions
+            </CardTitle>
+            <Select value={distributionTable?.id ?? ""} onValueChange={setDistributionTableId}>
+              <SelectTrigger className="w-64" data-testid="select-distribution-table">
+                <SelectValue placeholder="Select a table" />
+              </SelectTrigger>
+              <SelectContent>
+                {selectedTables.map((table: any) => (
+                  <SelectItem key={table.id} value={table.id}>{table.schema}.{table.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {profiledColumns.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No numeric or date columns profiled for this table yet. Run analysis to compute distributions.
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {profiledColumns.map(column => (
+                <div key={column.id} className="p-3 border rounded-lg" data-testid={`distribution-${column.name}`}>
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="font-medium text-sm">{column.name}</span>
+                    <span className="text-xs text-muted-foreground">{column.dataType}</span>
+                  </div>
+                  <ColumnDistributionView column={column} />
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Sensitive Data */}
+      <Card className="mt-6">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center">
+              <i className="fas fa-user-shield mr-2"></i>
+              Sensitive Data
+            </CardTitle>
+            {masking && (
+              <div className="flex items-center space-x-4">
+                <div className="flex items-center space-x-2 text-sm">
+                  <Switch
+                    checked={masking.policy.enabled}
+                    onCheckedChange={(enabled) => updateMaskingPolicy.mutate({ ...masking.policy, enabled })}
+                    data-testid="switch-masking-enabled"
+                  />
+                  <span>Mask PII</span>
+                </div>
+                <Select
+                  value={masking.policy.defaultStrategy}
+                  onValueChange={(value) => updateMaskingPolicy.mutate({ ...masking.policy, defaultStrategy: value as MaskingStrategy })}
+                >
+                  <SelectTrigger className="w-40" data-testid="select-masking-strategy">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MASKING_STRATEGIES.map(strategy => (
+                      <SelectItem key={strategy} value={strategy}>{strategy}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!masking || masking.columns.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No personal data detected. Columns are classified during statistical analysis.
+            </div>
+          ) : (
+            <div className="space-y-2" data-testid="masked-columns">
+              {masking.columns.map(column => (
+                <div key={column.columnId} className="flex items-center justify-between p-2 border rounded-lg text-sm">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">{column.tableName}.{column.columnName}</span>
+                    {column.piiCategory && (
+                      <Badge variant="outline">
+                        {column.piiCategory}
+                        {column.piiConfidence !== null && ` · ${Math.round(column.piiConfidence * 100)}%`}
+                      </Badge>
+                    )}
+                    {column.maskingStrategy ? (
+                      <Badge data-testid={`badge-masked-${column.columnName}`}>masked: {column.maskingStrategy}</Badge>
+                    ) : (
+                      <Badge variant="destructive">unmasked</Badge>
+                    )}
+                  </div>
+                  <Select
+                    value={masking.policy.columnOverrides?.[column.columnId] ?? 'default'}
+                    onValueChange={(value) => setColumnOverride(column.columnId, value as MaskingStrategy | 'none' | 'default')}
+                  >
+                    <SelectTrigger className="w-36" data-testid={`select-override-${column.columnName}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">policy default</SelectItem>
+                      {MASKING_STRATEGIES.map(strategy => (
+                        <SelectItem key={strategy} value={strategy}>{strategy}</SelectItem>
+                      ))}
+                      <SelectItem value="none">don't mask</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Analysis Log */}
       {latestJob && (
         <Card className="mt-6">
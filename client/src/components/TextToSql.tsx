@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isSourceConnectionType, type AgentPersona, type TextToSqlResult, type TextToSqlStatus } from "@shared/schema";
+
+const AUTO_PERSONA = "auto";
+
+const STATUS_LABELS: Record<TextToSqlStatus, { label: string; className: string }> = {
+  succeeded: { label: "Succeeded", className: "bg-emerald-100 text-emerald-800" },
+  no_sql: { label: "No query written", className: "bg-amber-100 text-amber-800" },
+  rejected: { label: "Rejected (not read-only)", className: "bg-red-100 text-red-800" },
+  explain_failed: { label: "EXPLAIN failed", className: "bg-red-100 text-red-800" },
+  execution_failed: { label: "Execution failed", className: "bg-red-100 text-red-800" }
+};
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return "NULL";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+export default function TextToSql() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [question, setQuestion] = useState("");
+  const [personaId, setPersonaId] = useState(AUTO_PERSONA);
+  const [result, setResult] = useState<TextToSqlResult | null>(null);
+  const [showPlan, setShowPlan] = useState(false);
+
+  // Get database
+  const { data: connections = [] } = useQuery({
+    queryKey: ['/api/connections'],
+    queryFn: async () => {
+      const response = await fetch('/api/connections');
+      return response.json();
+    }
+  });
+
+  const postgresConnection = connections.find((c: any) => isSourceConnectionType(c.type) && c.status === 'connected');
+
+  const { data: databases = [] } = useQuery({
+    queryKey: ['/api/databases', postgresConnection?.id],
+    queryFn: async () => {
+      if (!postgresConnection) return [];
+      const response = await fetch(`/api/databases?connectionId=${postgresConnection.id}`);
+      return response.json();
+    },
+    enabled: !!postgresConnection
+  });
+
+  const database = databases[0];
+
+  const { data: personas = [] } = useQuery<AgentPersona[]>({
+    queryKey: ['/api/databases', database?.id, 'personas'],
+    queryFn: async () => {
+      if (!database) return [];
+      const response = await fetch(`/api/databases/${database.id}/personas`);
+      return response.json();
+    },
+    enabled: !!database
+  });
+
+  const generateSql = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/databases/${database.id}/text-to-sql`, {
+        question: question.trim(),
+        ...(personaId !== AUTO_PERSONA ? { personaId } : {})
+      });
+      return response.json() as Promise<TextToSqlResult>;
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      setShowPlan(false);
+      if (data.smeQuestionIds.length > 0) {
+        toast({
+          title: "Missing context recorded",
+          description: `${data.smeQuestionIds.length} question${data.smeQuestionIds.length === 1 ? '' : 's'} added to the SME interview`
+        });
+        queryClient.invalidateQueries({ queryKey: ['/api/databases', database?.id, 'sme-questions'] });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Text-to-SQL failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  if (!database) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-muted-foreground">Please configure a source database and build its context first.</p>
+      </div>
+    );
+  }
+
+  const status = result ? STATUS_LABELS[result.status] : null;
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-2xl font-semibold" data-testid="text-to-sql-title">Text-to-SQL Check</h2>
+        <p className="text-sm text-muted-foreground">
+          Ask a question; SQL is written from the persona's context, EXPLAINed and run read-only with a row limit
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-6 space-y-4">
+          <Textarea
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            placeholder="e.g. How many orders were refunded last month?"
+            rows={3}
+            data-testid="textarea-sql-question"
+          />
+          <div className="flex items-center space-x-2">
+            <Select value={personaId} onValueChange={setPersonaId}>
+              <SelectTrigger className="w-64" data-testid="select-sql-persona">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AUTO_PERSONA}>Best matching persona</SelectItem>
+                {personas.map(persona => (
+                  <SelectItem key={persona.id} value={persona.id}>{persona.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => generateSql.mutate()}
+              disabled={!question.trim() || generateSql.isPending}
+              data-testid="button-generate-sql"
+            >
+              <i className="fas fa-play mr-2"></i>
+              {generateSql.isPending ? "Generating..." : "Generate & Run"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && status && (
+        <Card className="mt-6" data-testid="text-to-sql-result">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center space-x-2">
+                <Badge variant="secondary" className={status.className} data-testid="badge-sql-status">{status.label}</Badge>
+                {result.persona && (
+                  <span className="text-sm font-normal text-muted-foreground">as {result.persona.name}</span>
+                )}
+              </CardTitle>
+              {result.plan && (
+                <Button variant="outline" size="sm" onClick={() => setShowPlan(!showPlan)}>
+                  {showPlan ? "Hide plan" : "Show plan"}
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {result.sql && (
+              <pre className="p-3 bg-muted rounded text-xs overflow-x-auto whitespace-pre-wrap" data-testid="text-generated-sql">{result.sql}</pre>
+            )}
+            {result.explanation && (
+              <p className="text-sm text-muted-foreground">{result.explanation}</p>
+            )}
+            {result.error && (
+              <p className="text-sm text-destructive" data-testid="text-sql-error">{result.error}</p>
+            )}
+            {result.smeQuestionIds.length > 0 && (
+              <p className="text-sm text-amber-700">
+                <i className="fas fa-puzzle-piece mr-1"></i>
+                Recorded {result.smeQuestionIds.length} missing-context question{result.smeQuestionIds.length === 1 ? '' : 's'} for the SME interview.
+              </p>
+            )}
+            {showPlan && result.plan && (
+              <pre className="p-3 bg-muted rounded text-xs overflow-x-auto" data-testid="text-query-plan">{result.plan.join('\n')}</pre>
+            )}
+
+            {result.result && (
+              <div>
+                <p className="text-xs text-muted-foreground mb-2">
+                  {result.result.rows.length} row{result.result.rows.length === 1 ? '' : 's'}
+                  {result.result.truncated ? ` (limited to ${result.result.rowLimit})` : ''} in {result.result.durationMs} ms
+                </p>
+                <ScrollArea className="max-h-96 border rounded">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {result.result.columns.map((column, index) => (
+                          <TableHead key={index} className="font-mono text-xs">{column}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.result.rows.map((row, rowIndex) => (
+                        <TableRow key={rowIndex}>
+                          {result.result!.columns.map((column, index) => (
+                            <TableCell key={index} className="font-mono text-xs">{formatCell(row[column])}</TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,465 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDistanceToNow } from "date-fns";
+import { isSourceConnectionType, WORKSPACE_ROLES, type AgentPersona, type SmeScope, type Workspace, type WorkspaceMembership, type WorkspaceRole } from "@shared/schema";
+
+interface WorkspaceMember {
+  userId: string;
+  username: string;
+  role: WorkspaceRole;
+  smeScope: SmeScope | null;
+  joinedAt: string | null;
+}
+
+const ROLE_LABELS: Record<WorkspaceRole, { label: string; description: string }> = {
+  admin: { label: "Admin", description: "Everything, including clearing the graph and managing members" },
+  engineer: { label: "Engineer", description: "Runs the pipeline: connections, profiling, context and graph builds" },
+  sme_reviewer: { label: "SME reviewer", description: "Only answers SME questions, optionally for chosen tables or personas" },
+  viewer: { label: "Viewer", description: "Read-only" }
+};
+
+// Select value for a workspace without its own graph target
+const INSTANCE_GRAPH_TARGET = '__instance__';
+
+interface ScopeEditorProps {
+  member: WorkspaceMember;
+  tables: Array<{ id: string; name: string }>;
+  personas: AgentPersona[];
+  onSave: (smeScope: SmeScope | null) => void;
+  onCancel: () => void;
+}
+
+function ScopeEditor({ member, tables, personas, onSave, onCancel }: ScopeEditorProps) {
+  const [tableIds, setTableIds] = useState<string[]>(member.smeScope?.tableIds ?? []);
+  const [personaIds, setPersonaIds] = useState<string[]>(member.smeScope?.personaIds ?? []);
+  const toggle = (ids: string[], id: string) => ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id];
+
+  return (
+    <div className="mt-2 p-3 bg-muted rounded-md space-y-3" data-testid={`scope-editor-${member.userId}`}>
+      <p className="text-xs text-muted-foreground">
+        {member.username} sees questions about the checked tables and the tables of the checked personas. Check nothing to show every question.
+      </p>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <p className="text-sm font-medium mb-1">Personas</p>
+          {personas.length === 0 && <p className="text-xs text-muted-foreground">No personas yet</p>}
+          {personas.map(persona => (
+            <label key={persona.id} className="flex items-center space-x-2 text-sm py-0.5">
+              <Checkbox checked={personaIds.includes(persona.id)} onCheckedChange={() => setPersonaIds(toggle(personaIds, persona.id))} />
+              <span>{persona.name}</span>
+            </label>
+          ))}
+        </div>
+        <div>
+          <p className="text-sm font-medium mb-1">Tables</p>
+          {tables.map(table => (
+            <label key={table.id} className="flex items-center space-x-2 text-sm py-0.5">
+              <Checkbox checked={tableIds.includes(table.id)} onCheckedChange={() => setTableIds(toggle(tableIds, table.id))} />
+              <span>{table.name}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="flex justify-end space-x-2">
+        <Button variant="ghost" size="sm" onClick={onCancel}>Cancel</Button>
+        <Button
+          size="sm"
+          onClick={() => onSave(tableIds.length === 0 && personaIds.length === 0 ? null : { tableIds, personaIds })}
+          data-testid={`button-save-scope-${member.userId}`}
+        >
+          Save scope
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function scopeSummary(scope: SmeScope | null): string {
+  if (!scope) return "all questions";
+  const parts = [];
+  if (scope.personaIds.length > 0) parts.push(`${scope.personaIds.length} persona${scope.personaIds.length === 1 ? '' : 's'}`);
+  if (scope.tableIds.length > 0) parts.push(`${scope.tableIds.length} table${scope.tableIds.length === 1 ? '' : 's'}`);
+  return parts.join(" and ");
+}
+
+export default function WorkspaceSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [selectedWorkspaceId, setSelectedWorkspaceId] = useState<string | null>(null);
+  const [newWorkspaceName, setNewWorkspaceName] = useState("");
+  const [newMember, setNewMember] = useState("");
+  const [newMemberRole, setNewMemberRole] = useState<WorkspaceRole>("viewer");
+  const [scopeMemberId, setScopeMemberId] = useState<string | null>(null);
+
+  const { data: workspaces = [] } = useQuery<WorkspaceMembership[]>({
+    queryKey: ['/api/workspaces'],
+    queryFn: async () => {
+      const response = await fetch('/api/workspaces');
+      if (!response.ok) throw new Error('Failed to fetch workspaces');
+      return response.json();
+    }
+  });
+
+  useEffect(() => {
+    if (!selectedWorkspaceId && workspaces.length > 0) {
+      setSelectedWorkspaceId(workspaces[0].id);
+    }
+  }, [workspaces, selectedWorkspaceId]);
+
+  const selectedWorkspace = workspaces.find(workspace => workspace.id === selectedWorkspaceId);
+  const isWorkspaceAdmin = selectedWorkspace?.role === 'admin';
+
+  // Scopes are picked from the tables and personas of the workspace's source database
+  const { data: connections = [] } = useQuery({
+    queryKey: ['/api/connections'],
+    queryFn: async () => {
+      const response = await fetch('/api/connections');
+      return response.json();
+    }
+  });
+
+  const workspaceNeo4jConnections = connections.filter((c: any) => c.type === 'neo4j' && c.workspaceId === selectedWorkspaceId);
+
+  const sourceConnection = connections.find((c: any) =>
+    isSourceConnectionType(c.type) && c.status === 'connected' && c.workspaceId === selectedWorkspaceId);
+
+  const { data: databases = [] } = useQuery({
+    queryKey: ['/api/databases', sourceConnection?.id],
+    queryFn: async () => {
+      if (!sourceConnection) return [];
+      const response = await fetch(`/api/databases?connectionId=${sourceConnection.id}`);
+      return response.json();
+    },
+    enabled: !!sourceConnection
+  });
+
+  const database = databases[0];
+
+  const { data: tables = [] } = useQuery<Array<{ id: string; name: string; isSelected: boolean }>>({
+    queryKey: ['/api/databases', database?.id, 'tables'],
+    queryFn: async () => {
+      const response = await fetch(`/api/databases/${database.id}/tables`);
+      return response.json();
+    },
+    enabled: !!database
+  });
+
+  const { data: personas = [] } = useQuery<AgentPersona[]>({
+    queryKey: ['/api/databases', database?.id, 'personas'],
+    queryFn: async () => {
+      const response = await fetch(`/api/databases/${database.id}/personas`);
+      return response.json();
+    },
+    enabled: !!database
+  });
+
+  const { data: members = [] } = useQuery<WorkspaceMember[]>({
+    queryKey: ['/api/workspaces', selectedWorkspaceId, 'members'],
+    queryFn: async () => {
+      const response = await fetch(`/api/workspaces/${selectedWorkspaceId}/members`);
+      if (!response.ok) throw new Error('Failed to fetch workspace members');
+      return response.json();
+    },
+    enabled: !!selectedWorkspaceId
+  });
+
+  const createWorkspace = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/workspaces', { name: newWorkspaceName.trim() });
+      return response.json() as Promise<Workspace>;
+    },
+    onSuccess: (workspace) => {
+      setNewWorkspaceName("");
+      setSelectedWorkspaceId(workspace.id);
+      queryClient.invalidateQueries({ queryKey: ['/api/workspaces'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+      toast({ title: "Workspace created", description: workspace.name });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create workspace", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const addMember = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/workspaces/${selectedWorkspaceId}/members`, {
+        username: newMember.trim(),
+        role: newMemberRole
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Member added", description: `${newMember.trim()} can now use this workspace's connections` });
+      setNewMember("");
+      queryClient.invalidateQueries({ queryKey: ['/api/workspaces', selectedWorkspaceId, 'members'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to add member", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const updateMember = useMutation({
+    mutationFn: async ({ userId, ...updates }: { userId: string; role?: WorkspaceRole; smeScope?: SmeScope | null }) => {
+      const response = await apiRequest('PATCH', `/api/workspaces/${selectedWorkspaceId}/members/${userId}`, updates);
+      return response.json();
+    },
+    onSuccess: (_result, { userId }) => {
+      setScopeMemberId(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/workspaces', selectedWorkspaceId, 'members'] });
+      if (userId === user?.id) {
+        queryClient.invalidateQueries({ queryKey: ['/api/workspaces'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update member", description: error.message, variant: "destructive" });
+    }
+  });
+
+  // Databases that don't choose their own Neo4j connection build their graph here
+  const updateGraphTarget = useMutation({
+    mutationFn: async (graphConnectionId: string | null) => {
+      const response = await apiRequest('PUT', `/api/workspaces/${selectedWorkspaceId}/graph-connection`, { graphConnectionId });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Default graph target updated" });
+      queryClient.invalidateQueries({ queryKey: ['/api/workspaces'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/databases'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update graph target", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const removeMember = useMutation({
+    mutationFn: async (userId: string) => {
+      const response = await apiRequest('DELETE', `/api/workspaces/${selectedWorkspaceId}/members/${userId}`);
+      return response.json();
+    },
+    onSuccess: (_result, userId) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/workspaces', selectedWorkspaceId, 'members'] });
+      if (userId === user?.id) {
+        // Leaving a workspace also drops its connections from view
+        setSelectedWorkspaceId(null);
+        queryClient.invalidateQueries({ queryKey: ['/api/workspaces'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/connections'] });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to remove member", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-2xl font-semibold" data-testid="workspace-title">Workspace & Team</h2>
+        <p className="text-muted-foreground">Connections belong to a workspace; every member can use them and everything profiled from them</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <i className="fas fa-layer-group mr-2"></i>
+              Workspaces
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="space-y-1">
+              {workspaces.map(workspace => (
+                <button
+                  key={workspace.id}
+                  onClick={() => setSelectedWorkspaceId(workspace.id)}
+                  className={`w-full text-left px-3 py-2 rounded-md text-sm ${
+                    workspace.id === selectedWorkspaceId ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'
+                  }`}
+                  data-testid={`button-workspace-${workspace.id}`}
+                >
+                  {workspace.name}
+                </button>
+              ))}
+            </div>
+            <div className="flex space-x-2">
+              <Input
+                value={newWorkspaceName}
+                onChange={(e) => setNewWorkspaceName(e.target.value)}
+                placeholder="New workspace"
+                data-testid="input-new-workspace"
+              />
+              <Button
+                onClick={() => createWorkspace.mutate()}
+                disabled={!newWorkspaceName.trim() || createWorkspace.isPending}
+                data-testid="button-create-workspace"
+              >
+                Create
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <i className="fas fa-users mr-2"></i>
+              {selectedWorkspace ? `Members of ${selectedWorkspace.name}` : "Members"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {selectedWorkspace && (
+              <>
+                <div className="divide-y divide-border">
+                  {members.map(member => (
+                    <div key={member.userId} className="py-2" data-testid={`member-${member.userId}`}>
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-2">
+                          <span className="font-medium">{member.username}</span>
+                          {member.userId === user?.id && <Badge variant="secondary">You</Badge>}
+                          {member.userId === selectedWorkspace.createdBy && <Badge variant="outline">Creator</Badge>}
+                          {member.role === 'sme_reviewer' && (
+                            <span className="text-xs text-muted-foreground">answers {scopeSummary(member.smeScope)}</span>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-3">
+                          {member.joinedAt && (
+                            <span className="text-xs text-muted-foreground">
+                              joined {formatDistanceToNow(new Date(member.joinedAt), { addSuffix: true })}
+                            </span>
+                          )}
+                          {isWorkspaceAdmin ? (
+                            <Select
+                              value={member.role}
+                              onValueChange={(role) => updateMember.mutate({ userId: member.userId, role: role as WorkspaceRole })}
+                            >
+                              <SelectTrigger className="w-36 h-8" data-testid={`select-role-${member.userId}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {WORKSPACE_ROLES.map(role => (
+                                  <SelectItem key={role} value={role}>{ROLE_LABELS[role].label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <Badge variant="outline" title={ROLE_LABELS[member.role].description}>{ROLE_LABELS[member.role].label}</Badge>
+                          )}
+                          {isWorkspaceAdmin && member.role === 'sme_reviewer' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setScopeMemberId(scopeMemberId === member.userId ? null : member.userId)}
+                              disabled={!database}
+                              title={database ? undefined : "Connect a source database to this workspace first"}
+                              data-testid={`button-scope-${member.userId}`}
+                            >
+                              Scope
+                            </Button>
+                          )}
+                          {(isWorkspaceAdmin || member.userId === user?.id) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeMember.mutate(member.userId)}
+                              disabled={members.length === 1 || removeMember.isPending}
+                              data-testid={`button-remove-member-${member.userId}`}
+                            >
+                              {member.userId === user?.id ? "Leave" : "Remove"}
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                      {scopeMemberId === member.userId && (
+                        <ScopeEditor
+                          member={member}
+                          tables={tables.filter(table => table.isSelected)}
+                          personas={personas}
+                          onSave={(smeScope) => updateMember.mutate({ userId: member.userId, smeScope })}
+                          onCancel={() => setScopeMemberId(null)}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+                {isWorkspaceAdmin && (
+                  <div className="flex space-x-2">
+                    <Input
+                      value={newMember}
+                      onChange={(e) => setNewMember(e.target.value)}
+                      placeholder="Username of a registered teammate"
+                      data-testid="input-new-member"
+                    />
+                    <Select value={newMemberRole} onValueChange={(role) => setNewMemberRole(role as WorkspaceRole)}>
+                      <SelectTrigger className="w-40" data-testid="select-new-member-role">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WORKSPACE_ROLES.map(role => (
+                          <SelectItem key={role} value={role}>{ROLE_LABELS[role].label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      onClick={() => addMember.mutate()}
+                      disabled={!newMember.trim() || addMember.isPending}
+                      data-testid="button-add-member"
+                    >
+                      <i className="fas fa-user-plus mr-2"></i>
+                      Add
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {selectedWorkspace && (
+          <Card className="md:col-span-3">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <i className="fas fa-project-diagram mr-2"></i>
+                Knowledge Graph
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                Default Neo4j connection for this workspace's databases. A database can choose its own on the Knowledge Graph page;
+                without either, the instance default is used.
+              </p>
+              <Select
+                value={selectedWorkspace.graphConnectionId ?? INSTANCE_GRAPH_TARGET}
+                onValueChange={(value) => updateGraphTarget.mutate(value === INSTANCE_GRAPH_TARGET ? null : value)}
+                disabled={!isWorkspaceAdmin || updateGraphTarget.isPending}
+              >
+                <SelectTrigger className="w-80" data-testid="select-workspace-graph-target">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={INSTANCE_GRAPH_TARGET}>Instance default</SelectItem>
+                  {workspaceNeo4jConnections.map((c: any) => (
+                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {isWorkspaceAdmin && workspaceNeo4jConnections.length === 0 && (
+                <p className="text-xs text-muted-foreground">Add a Neo4j connection to this workspace to choose it here.</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import type { Connection, WorkspaceMembership, WorkspaceRole } from "@shared/schema";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface SessionUser {
+  id: string;
+  username: string;
+  isAdmin: boolean;
+  workspaces: WorkspaceMembership[];
+}
+
+/**
+ * The user's role on a connection: through its workspace, or full control of a
+ * connection they saved before workspaces existed
+ */
+export function connectionRole(user: SessionUser | null, connection?: Pick<Connection, 'userId' | 'workspaceId'>): WorkspaceRole | null {
+  if (!user || !connection) return null;
+  if (!connection.workspaceId) {
+    return connection.userId === user.id ? 'admin' : null;
+  }
+  return user.workspaces.find(workspace => workspace.id === connection.workspaceId)?.role ?? null;
+}
+
+type LoginData = { username: string; password: string };
+type RegisterData = LoginData & { workspaceName?: string };
+
+type AuthContextType = {
+  user: SessionUser | null;
+  isLoading: boolean;
+  error: Error | null;
+  loginMutation: UseMutationResult<SessionUser, Error, LoginData>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+  registerMutation: UseMutationResult<SessionUser, Error, RegisterData>;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+// Server errors arrive as "401: {\"error\":\"...\"}"; show only the message
+function errorMessage(error: Error): string {
+  const json = error.message.slice(error.message.indexOf(':') + 1).trim();
+  try {
+    return JSON.parse(json).error ?? error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const { data: user, error, isLoading } = useQuery<SessionUser | null, Error>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const response = await apiRequest("POST", "/api/login", credentials);
+      return (await response.json()) as SessionUser;
+    },
+    onSuccess: (user: SessionUser) => {
+      queryClient.setQueryData(["/api/user"], user);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Sign in failed", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: RegisterData) => {
+      const response = await apiRequest("POST", "/api/register", credentials);
+      return (await response.json()) as SessionUser;
+    },
+    onSuccess: (user: SessionUser) => {
+      queryClient.setQueryData(["/api/user"], user);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Registration failed", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      // Nothing cached for the previous user should survive into the next session
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Sign out failed", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        error,
+        loginMutation,
+        logoutMutation,
+        registerMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
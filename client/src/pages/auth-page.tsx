@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { Redirect } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [login, setLogin] = useState({ username: "", password: "" });
+  const [register, setRegister] = useState({ username: "", password: "", workspaceName: "" });
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-6">
+      <div className="w-full max-w-md">
+        <div className="flex items-center space-x-4 mb-6">
+          <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center">
+            <i className="fas fa-flask text-primary-foreground text-sm"></i>
+          </div>
+          <div>
+            <h1 className="text-xl font-semibold">AlchemData Context Builder</h1>
+            <p className="text-sm text-muted-foreground">Sign in to reach your workspace's connections</p>
+          </div>
+        </div>
+
+        <Tabs defaultValue="login">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="login" data-testid="tab-login">Sign in</TabsTrigger>
+            <TabsTrigger value="register" data-testid="tab-register">Register</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="login">
+            <Card>
+              <CardHeader>
+                <CardTitle>Sign in</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form
+                  className="space-y-4"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    loginMutation.mutate(login);
+                  }}
+                >
+                  <div>
+                    <Label htmlFor="login-username">Username</Label>
+                    <Input
+                      id="login-username"
+                      value={login.username}
+                      onChange={(e) => setLogin({ ...login, username: e.target.value })}
+                      autoComplete="username"
+                      data-testid="input-login-username"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="login-password">Password</Label>
+                    <Input
+                      id="login-password"
+                      type="password"
+                      value={login.password}
+                      onChange={(e) => setLogin({ ...login, password: e.target.value })}
+                      autoComplete="current-password"
+                      data-testid="input-login-password"
+                    />
+                  </div>
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={loginMutation.isPending || !login.username || !login.password}
+                    data-testid="button-login"
+                  >
+                    {loginMutation.isPending ? "Signing in..." : "Sign in"}
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="register">
+            <Card>
+              <CardHeader>
+                <CardTitle>Create an account</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form
+                  className="space-y-4"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    registerMutation.mutate({
+                      username: register.username,
+                      password: register.password,
+                      workspaceName: register.workspaceName.trim() || undefined
+                    });
+                  }}
+                >
+                  <div>
+                    <Label htmlFor="register-username">Username</Label>
+                    <Input
+                      id="register-username"
+                      value={register.username}
+                      onChange={(e) => setRegister({ ...register, username: e.target.value })}
+                      autoComplete="username"
+                      data-testid="input-register-username"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="register-password">Password</Label>
+                    <Input
+                      id="register-password"
+                      type="password"
+                      value={register.password}
+                      onChange={(e) => setRegister({ ...register, password: e.target.value })}
+                      autoComplete="new-password"
+                      data-testid="input-register-password"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">At least 8 characters</p>
+                  </div>
+                  <div>
+                    <Label htmlFor="register-workspace">Workspace name (optional)</Label>
+                    <Input
+                      id="register-workspace"
+                      value={register.workspaceName}
+                      onChange={(e) => setRegister({ ...register, workspaceName: e.target.value })}
+                      placeholder={register.username ? `${register.username}'s workspace` : "Data team"}
+                      data-testid="input-register-workspace"
+                    />
+                  </div>
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={registerMutation.isPending || register.username.length < 3 || register.password.length < 8}
+                    data-testid="button-register"
+                  >
+                    {registerMutation.isPending ? "Creating account..." : "Create account"}
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+}
@@ -10,7 +10,12 @@ import StatisticalAnalysis from "@/components/StatisticalAnalysis";
 import AIContextGeneration from "@/components/AIContextGeneration";
 import SMEInterview from "@/components/SMEInterview";
 import KnowledgeGraph from "@/components/KnowledgeGraph";
+import TextToSql from "@/components/TextToSql";
+import EvaluationHarness from "@/components/EvaluationHarness";
+import WorkspaceSettings from "@/components/WorkspaceSettings";
 import Sidebar from "@/components/Sidebar";
+import { isSourceConnectionType } from "@shared/schema";
+import { useAuth, connectionRole } from "@/hooks/use-auth";
 
 // CSV Export Interface Component
 function CSVExportInterface() {
@@ -20,12 +25,12 @@ function CSVExportInterface() {
   const { data: connections = [] } = useQuery({
     queryKey: ['/api/connections'],
     queryFn: async () => {
-      const response = await fetch('/api/connections?userId=default-user');
+      const response = await fetch('/api/connections');
       return response.json();
     }
   });
 
-  const postgresConnection = connections.find((c: any) => c.type === 'postgresql' && c.status === 'connected');
+  const postgresConnection = connections.find((c: any) => isSourceConnectionType(c.type) && c.status === 'connected');
 
   const { data: databases = [] } = useQuery({
     queryKey: ['/api/databases', postgresConnection?.id],
@@ -148,12 +153,12 @@ function JSONExportInterface() {
   const { data: connections = [] } = useQuery({
     queryKey: ['/api/connections'],
     queryFn: async () => {
-      const response = await fetch('/api/connections?userId=default-user');
+      const response = await fetch('/api/connections');
       return response.json();
     }
   });
 
-  const postgresConnection = connections.find((c: any) => c.type === 'postgresql' && c.status === 'connected');
+  const postgresConnection = connections.find((c: any) => isSourceConnectionType(c.type) && c.status === 'connected');
 
   const { data: databases = [] } = useQuery({
     queryKey: ['/api/databases', postgresConnection?.id],
@@ -237,6 +242,19 @@ function JSONExportInterface() {
 }
 
 export default function ContextBuilder() {
+  const { user, logoutMutation } = useAuth();
+
+  // Same source connection the sections below work on; the role on it picks the layout
+  const { data: connections = [] } = useQuery({
+    queryKey: ['/api/connections'],
+    queryFn: async () => {
+      const response = await fetch('/api/connections');
+      return response.json();
+    }
+  });
+  const sourceConnection = connections.find((c: any) => isSourceConnectionType(c.type) && c.status === 'connected');
+  const smeOnly = connectionRole(user, sourceConnection) === 'sme_reviewer';
+
   const [activeSection, setActiveSection] = useState("connections");
   const [connectionStatus, setConnectionStatus] = useState({
     postgresql: "pending",
@@ -260,10 +278,16 @@ export default function ContextBuilder() {
         return <SMEInterview />;
       case "knowledge-graph":
         return <KnowledgeGraph />;
+      case "text-to-sql":
+        return <TextToSql />;
+      case "evaluation":
+        return <EvaluationHarness />;
       case "csv-export":
         return <CSVExportInterface />;
       case "json-export":
         return <JSONExportInterface />;
+      case "workspace":
+        return <WorkspaceSettings />;
       default:
         return <ConnectionValidator onConnectionStatus={setConnectionStatus} />;
     }
@@ -283,22 +307,38 @@ export default function ContextBuilder() {
           </div>
         </div>
         <div className="flex items-center space-x-3">
-          <span className="text-sm text-muted-foreground" data-testid="project-name">Project: MVP_Demo</span>
+          <span className="text-sm text-muted-foreground" data-testid="project-name">
+            {user?.workspaces.map(workspace => workspace.name).join(", ")}
+          </span>
           <div className="w-2 h-2 bg-emerald-500 rounded-full" data-testid="status-indicator"></div>
+          <span className="text-sm font-medium" data-testid="text-username">{user?.username}</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+            data-testid="button-logout"
+          >
+            <i className="fas fa-sign-out-alt mr-2"></i>
+            Sign out
+          </Button>
         </div>
       </header>
 
       <div className="flex h-screen">
-        <Sidebar 
-          activeSection={activeSection} 
-          onSectionChange={setActiveSection}
-          connectionStatus={connectionStatus}
-        />
+        {/* SME reviewers only answer questions, so they get neither the pipeline nor its controls */}
+        {!smeOnly && (
+          <Sidebar 
+            activeSection={activeSection} 
+            onSectionChange={setActiveSection}
+            connectionStatus={connectionStatus}
+          />
+        )}
         
         {/* Main Content */}
         <main className="flex-1 overflow-auto">
           <div className="p-6">
-            {renderMainContent()}
+            {smeOnly ? <SMEInterview smeOnly /> : renderMainContent()}
           </div>
         </main>
       </div>
@@ -0,0 +1,278 @@
+import type { Express, Request, RequestHandler } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { storage } from "./storage";
+import { accessControl, type AccessResource, type ResourceAccess } from "./services/access-control";
+import { insertUserSchema, roleAtLeast, type User as SelectUser, type WorkspaceRole } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+    interface Request {
+      // Set by requireAccess for the resource named in the path
+      access?: ResourceAccess;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+const registerSchema = insertUserSchema.extend({
+  username: z.string().trim().min(3).max(64),
+  password: z.string().min(8),
+  workspaceName: z.string().trim().min(1).optional()
+});
+
+const loginSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1)
+});
+
+/**
+ * The signed-in user without the password hash, plus their workspaces and roles
+ */
+async function toSessionUser(user: SelectUser) {
+  const workspaces = await storage.getWorkspacesByUserId(user.id);
+  return { id: user.id, username: user.username, isAdmin: !!user.isAdmin, workspaces };
+}
+
+/**
+ * Connections saved before accounts existed belong to "default-user" and no
+ * workspace, so nobody can reach them. They move into the instance admin's first
+ * workspace: at startup, and again when the first account registers.
+ */
+export async function adoptLegacyConnections(): Promise<void> {
+  const admin = (await storage.getUsers()).find(user => user.isAdmin);
+  if (!admin) return;
+  const workspace = (await storage.getWorkspacesByUserId(admin.id)).find(membership => membership.role === "admin");
+  if (!workspace) return;
+
+  const adopted = await storage.adoptLegacyConnections(workspace.id, admin.id);
+  if (adopted > 0) {
+    console.log(`📦 Moved ${adopted} connection(s) saved before workspaces into ${workspace.name}`);
+  }
+}
+
+/**
+ * Session-based login with passport-local. Registers /api/register, /api/login,
+ * /api/logout and /api/user, then requires a session on every other /api route,
+ * so it must run before the rest of the routes are registered.
+ */
+export function setupAuth(app: Express) {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error("SESSION_SECRET must be set to sign session cookies.");
+  }
+
+  adoptLegacyConnections().catch(error => {
+    console.error("Failed to move connections saved before workspaces:", error);
+  });
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: process.env.SESSION_SECRET,
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 7 * 24 * 60 * 60 * 1000
+    }
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username);
+      if (!user || !(await comparePasswords(password, user.password))) {
+        return done(null, false);
+      }
+      return done(null, user);
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      // A deleted user ends the session instead of failing every request
+      done(null, (await storage.getUser(id)) ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const { username, password, workspaceName } = registerSchema.parse(req.body);
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ error: "Username already exists" });
+      }
+
+      // The first account on a fresh instance administers it
+      const isAdmin = (await storage.getUsers()).length === 0;
+      const user = await storage.createUser({ username, password: await hashPassword(password), isAdmin });
+      // Everyone starts with a workspace of their own; teammates are added to it later
+      await storage.createWorkspace({ name: workspaceName ?? `${username}'s workspace`, createdBy: user.id });
+      console.log(`👤 Registered user ${username}${isAdmin ? ' (instance admin)' : ''}`);
+      if (isAdmin) {
+        await adoptLegacyConnections();
+      }
+
+      req.login(user, async (error) => {
+        if (error) return next(error);
+        res.status(201).json(await toSessionUser(user));
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Registration failed" });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid request", details: parsed.error.errors });
+    }
+
+    passport.authenticate("local", (error: unknown, user: SelectUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      req.login(user, async (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(await toSessionUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => res.sendStatus(200));
+    });
+  });
+
+  app.get("/api/user", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not signed in" });
+    }
+    res.json(await toSessionUser(req.user));
+  });
+
+  app.use("/api", (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not signed in" });
+    }
+    next();
+  });
+}
+
+const RESOURCE_LABELS: Record<AccessResource, string> = {
+  workspace: "workspace",
+  connection: "connection",
+  database: "database",
+  table: "table",
+  smeQuestion: "SME question",
+  persona: "persona",
+  evalCase: "evaluation case",
+  evalRun: "evaluation run",
+  job: "job"
+};
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  admin: "an admin",
+  engineer: "an engineer",
+  sme_reviewer: "an SME reviewer",
+  viewer: "a viewer"
+};
+
+function roleError(required: WorkspaceRole) {
+  return { error: `This action needs ${ROLE_LABELS[required]} role or higher in the workspace` };
+}
+
+/**
+ * Rejects the request unless the signed-in user can reach the resource named by
+ * the route parameter, in a role that allows the method: any member may read,
+ * writes need `writeRole` (engineer unless the prefix says otherwise). Ids that
+ * don't resolve to a resource are a 404 here, so no route runs unchecked.
+ */
+export function requireAccess(resource: AccessResource, options: { param?: string; writeRole?: WorkspaceRole } = {}): RequestHandler {
+  const { param = "id", writeRole = "engineer" } = options;
+  return async (req, res, next) => {
+    try {
+      const result = await accessControl.check(req.user!.id, resource, req.params[param]);
+      if (result.decision === "not_found") {
+        const label = RESOURCE_LABELS[resource];
+        return res.status(404).json({ error: `${label[0].toUpperCase()}${label.slice(1)} not found` });
+      }
+      if (result.decision === "forbidden") {
+        return res.status(403).json({ error: `You do not have access to this ${RESOURCE_LABELS[resource]}` });
+      }
+      const required: WorkspaceRole = req.method === "GET" || req.method === "HEAD" ? "viewer" : writeRole;
+      if (!roleAtLeast(result.access.role, required)) {
+        return res.status(403).json(roleError(required));
+      }
+      req.access = result.access;
+      next();
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Access check failed" });
+    }
+  };
+}
+
+/**
+ * Tightens a single route beyond its prefix's requireAccess, e.g. destructive
+ * operations that only workspace admins may run. Denies when no requireAccess
+ * ran for the route.
+ */
+export function requireRole(role: WorkspaceRole): RequestHandler {
+  return (req, res, next) => {
+    if (!req.access || !roleAtLeast(req.access.role, role)) {
+      return res.status(403).json(roleError(role));
+    }
+    next();
+  };
+}
+
+/**
+ * For maintenance of state shared by every workspace, such as the Neo4j graph
+ */
+export const requireInstanceAdmin: RequestHandler = (req, res, next) => {
+  if (!req.user?.isAdmin) {
+    return res.status(403).json({ error: "This action needs an instance admin" });
+  }
+  next();
+};
+
+/**
+ * For ids that arrive in a body or query string rather than the path
+ */
+export async function canAccess(req: Request, resource: AccessResource, id: string, role: WorkspaceRole = "viewer"): Promise<boolean> {
+  const result = await accessControl.check(req.user!.id, resource, id);
+  return result.decision === "allowed" && roleAtLeast(result.access.role, role);
+}
@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
-import { registerRoutes } from "./routes";
+import { registerRoutes, withOptionalGraph } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { refreshScheduler } from "./services/refresh-scheduler";
+import { redactSecrets } from "./services/credential-vault";
 
 const app = express();
 app.use(express.json());
@@ -22,7 +24,8 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        // Masks anything that looks like a credential, whichever route returned it
+        logLine += ` :: ${JSON.stringify(redactSecrets(capturedJsonResponse))}`;
       }
 
       if (logLine.length > 80) {
@@ -67,5 +70,10 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Set REFRESH_SCHEDULER_ENABLED=false on all but one instance when running several
+    if (process.env.REFRESH_SCHEDULER_ENABLED !== 'false') {
+      refreshScheduler.start(withOptionalGraph);
+    }
   });
 })();
@@ -2,18 +2,34 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import multer from 'multer';
 import { storage } from "./storage";
-import { postgresAnalyzer } from "./services/postgres-analyzer";
-import { neo4jService } from "./services/neo4j-service";
+import { setupAuth, requireAccess, requireRole, requireInstanceAdmin, canAccess } from "./auth";
+import { accessControl } from "./services/access-control";
+import { createSourceAdapter } from "./services/source-adapter";
+import { connectionManager } from "./services/connection-manager";
+import { Neo4jService } from "./services/neo4j-service";
+import { graphConnectionManager } from "./services/graph-connection-manager";
 import { geminiService } from "./services/gemini";
+import { createLLMProvider } from "./services/llm-provider";
+import { llmProviderRegistry } from "./services/llm-provider-registry";
+import { llmUsageService } from "./services/llm-usage";
 import { schemaAnalyzer } from "./services/schema-analyzer";
 import { statisticalAnalyzer } from "./services/statistical-analyzer";
 import { semanticAnalyzer } from "./services/semantic-analyzer";
 import { smeInterviewService } from "./services/sme-interview";
 import { neo4jBackfillService } from "./services/neo4j-backfill";
 import { neo4jDeduplicationService } from "./services/neo4j-deduplication";
-import { EnvironmentService } from "./services/environment-service";
+import { EnvironmentService, GraphTargetNotConfiguredError } from "./services/environment-service";
 import { incrementalJoinDiscovery } from "./services/incremental-join-discovery";
-import { insertConnectionSchema, insertDatabaseSchema, insertTableSchema, insertAgentPersonaSchema } from "@shared/schema";
+import { piiMasker } from "./services/pii-masker";
+import { personaSuggester } from "./services/persona-suggester";
+import { contextRetriever } from "./services/context-retriever";
+import { embeddingIndex } from "./services/embedding-index";
+import { textToSql, checkReadOnlySql } from "./services/text-to-sql";
+import { evaluationService } from "./services/evaluation";
+import { refreshScheduler, parseCron, nextCronRun } from "./services/refresh-scheduler";
+import { enumValueTracker } from "./services/enum-value-tracker";
+import { credentialVault, redactConnection } from "./services/credential-vault";
+import { insertConnectionSchema, insertDatabaseSchema, insertWorkspaceSchema, smeScopeSchema, roleAtLeast, WORKSPACE_ROLES, insertTableSchema, insertAgentPersonaSchema, insertEvalCaseSchema, isSourceConnectionType, maskingPolicySchema, DEFAULT_MASKING_POLICY, EMBEDDING_ENTITY_TYPES, type Column, type Table, type AgentPersona, type LLMConnectionConfig } from "@shared/schema";
 import { z } from "zod";
 
 // Helper function to create default personas when none exist
@@ -46,27 +62,11 @@ async function createDefaultPersonas(databaseId: string) {
     console.log('Creating default persona with data:', JSON.stringify(personaData, null, 2));
     
     const defaultPersona = await storage.createAgentPersona(personaData);
+    await storage.setPersonaTables(defaultPersona.id, tables.map(t => t.id));
     
     personas.push(defaultPersona);
     
-    // If we have many tables (>10), create domain-specific personas
-    if (tables.length > 10) {
-      // Group tables by common prefixes or keywords
-      const tableGroups = groupTablesByDomain(tables);
-      
-      for (const [domain, domainTables] of Object.entries(tableGroups)) {
-        if (domainTables.length >= 3) { // Only create personas for significant domains
-          const domainPersona = await storage.createAgentPersona({
-            name: `${domain.charAt(0).toUpperCase() + domain.slice(1)} Specialist`,
-            description: `Domain expert specializing in ${domain}-related data within ${database.name}. ` +
-                        `Manages ${domainTables.length} tables including ${domainTables.slice(0, 3).map(t => t.name).join(', ')}.`,
-            keywords: [domain, "specialist", ...domainTables.map(t => t.name).slice(0, 3)],
-            databaseId
-          });
-          personas.push(domainPersona);
-        }
-      }
-    }
+    // Domain personas come from POST /api/databases/:id/persona-suggestions, reviewed before saving
     
     console.log(`Created ${personas.length} default personas for database ${databaseId}`);
     return personas;
@@ -77,38 +77,84 @@ async function createDefaultPersonas(databaseId: string) {
   }
 }
 
-// Helper function to group tables by domain based on naming patterns
-function groupTablesByDomain(tables: any[]) {
-  const domains: Record<string, any[]> = {};
-  
-  for (const table of tables) {
-    const tableName = table.name.toLowerCase();
-    
-    // Extract domain from common prefixes or keywords
-    let domain = 'general';
-    
-    if (tableName.includes('user') || tableName.includes('account') || tableName.includes('profile')) {
-      domain = 'user';
-    } else if (tableName.includes('order') || tableName.includes('purchase') || tableName.includes('payment')) {
-      domain = 'commerce';
-    } else if (tableName.includes('product') || tableName.includes('inventory') || tableName.includes('catalog')) {
-      domain = 'product';
-    } else if (tableName.includes('log') || tableName.includes('audit') || tableName.includes('event')) {
-      domain = 'audit';
-    } else if (tableName.includes('config') || tableName.includes('setting') || tableName.includes('param')) {
-      domain = 'configuration';
+/**
+ * Selected tables owned by each persona, from persona_tables. Databases whose personas
+ * predate table assignments (none at all) keep the old behaviour of every persona
+ * owning every selected table.
+ */
+async function getPersonaTableMap(databaseId: string, personas: AgentPersona[]): Promise<Map<string, Table[]>> {
+  const selectedTables = await storage.getSelectedTables(databaseId);
+  const assignments = await storage.getPersonaTablesByDatabaseId(databaseId);
+  const personaTableMap = new Map<string, Table[]>();
+
+  if (assignments.length === 0) {
+    console.warn(`⚠️  No persona table assignments for database ${databaseId}; linking every persona to all selected tables`);
+    personas.forEach(persona => personaTableMap.set(persona.id, selectedTables));
+    return personaTableMap;
+  }
+
+  const tablesById = new Map(selectedTables.map(table => [table.id, table]));
+  for (const persona of personas) {
+    const personaTables = assignments
+      .filter(assignment => assignment.personaId === persona.id)
+      .map(assignment => tablesById.get(assignment.tableId))
+      .filter((table): table is Table => table !== undefined);
+    personaTableMap.set(persona.id, personaTables);
+  }
+  return personaTableMap;
+}
+
+/**
+ * Invert a persona -> tables map so each table is visited once, with every persona that owns it
+ */
+function groupTablesByOwner(personaTableMap: Map<string, Table[]>): Array<{ table: Table; personaIds: string[] }> {
+  const owners = new Map<string, { table: Table; personaIds: string[] }>();
+  for (const [personaId, personaTables] of Array.from(personaTableMap.entries())) {
+    for (const table of personaTables) {
+      const entry = owners.get(table.id) ?? { table, personaIds: [] };
+      entry.personaIds.push(personaId);
+      owners.set(table.id, entry);
     }
-    
-    if (!domains[domain]) domains[domain] = [];
-    domains[domain].push(table);
   }
-  
-  return domains;
+  return Array.from(owners.values());
+}
+
+/**
+ * Run `fn` with the database's graph when its Neo4j target is configured and
+ * reachable, or null otherwise. The graph is optional for read paths: without it
+ * they fall back to the catalog in Postgres.
+ */
+export async function withOptionalGraph<T>(fn: (graph: Neo4jService | null) => Promise<T>, databaseId?: string): Promise<T> {
+  const neo4jConnection = await EnvironmentService.getInstance().getGraphConnection(databaseId).catch(error => {
+    if (error instanceof GraphTargetNotConfiguredError) return undefined;
+    throw error;
+  });
+  return neo4jConnection ? graphConnectionManager.withGraph(neo4jConnection, fn) : fn(null);
+}
+
+// A missing graph target is configuration for the caller to fix, not a server fault
+function graphErrorStatus(error: unknown): number {
+  return error instanceof GraphTargetNotConfiguredError ? 409 : 500;
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize environment service for automatic Neo4j connection selection
   const environmentService = EnvironmentService.getInstance();
+
+  // Sessions and login first: every route below needs a signed-in user
+  setupAuth(app);
+
+  // Ownership: a resource is reachable only through a workspace that holds its connection.
+  // Members read; writes need an engineer unless noted, and destructive routes add requireRole('admin').
+  app.use("/api/workspaces/:id", requireAccess('workspace', { writeRole: 'viewer' })); // Member management checks roles per route
+  app.use("/api/connections/:id", requireAccess('connection'));
+  app.use("/api/databases/:id", requireAccess('database'));
+  app.use("/api/tables/:id", requireAccess('table'));
+  app.use("/api/sme-questions/:id", requireAccess('smeQuestion', { writeRole: 'sme_reviewer' }));
+  app.use("/api/agent-personas/:id", requireAccess('persona'));
+  app.use("/api/eval/cases/:id", requireAccess('evalCase'));
+  app.use("/api/eval/runs/:id", requireAccess('evalRun'));
+  app.use("/api/jobs/:id", requireAccess('job'));
   
   // Configure multer for CSV file uploads
   const csvUpload = multer({
@@ -125,18 +171,227 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Workspace routes
+  app.get("/api/workspaces", async (req, res) => {
+    try {
+      const workspaces = await storage.getWorkspacesByUserId(req.user!.id);
+      res.json(workspaces);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch workspaces" });
+    }
+  });
+
+  app.post("/api/workspaces", async (req, res) => {
+    try {
+      const { name } = insertWorkspaceSchema.extend({ name: z.string().trim().min(1) }).parse(req.body);
+      const workspace = await storage.createWorkspace({ name, createdBy: req.user!.id });
+      res.json(workspace);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to create workspace" });
+    }
+  });
+
+  app.get("/api/workspaces/:id/members", async (req, res) => {
+    try {
+      const members = await storage.getWorkspaceMembers(req.params.id);
+      res.json(members);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch workspace members" });
+    }
+  });
+
+  const workspaceMemberSchema = z.object({
+    role: z.enum(WORKSPACE_ROLES),
+    smeScope: smeScopeSchema.nullable()
+  });
+
+  // Admins add teammates by username; the teammate must have registered already
+  app.post("/api/workspaces/:id/members", requireRole('admin'), async (req, res) => {
+    try {
+      const { username, role, smeScope } = workspaceMemberSchema
+        .partial()
+        .extend({ username: z.string().trim().min(1) })
+        .parse(req.body);
+      const user = await storage.getUserByUsername(username);
+      if (!user) {
+        return res.status(404).json({ error: `No user named ${username}` });
+      }
+      if (await storage.getWorkspaceMember(req.params.id, user.id)) {
+        return res.status(409).json({ error: `${username} is already a member` });
+      }
+      await storage.addWorkspaceMember(req.params.id, user.id, role ?? 'viewer', smeScope ?? null);
+      res.json(await storage.getWorkspaceMembers(req.params.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to add workspace member" });
+    }
+  });
+
+  // Change a member's role, or which tables and personas an SME reviewer answers for
+  app.patch("/api/workspaces/:id/members/:userId", requireRole('admin'), async (req, res) => {
+    try {
+      const { id, userId } = req.params;
+      const updates = workspaceMemberSchema.partial().parse(req.body);
+      const members = await storage.getWorkspaceMembers(id);
+      const member = members.find(m => m.userId === userId);
+      if (!member) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      const remainingAdmins = members.filter(m => m.role === 'admin' && m.userId !== userId);
+      if (member.role === 'admin' && updates.role && updates.role !== 'admin' && remainingAdmins.length === 0) {
+        return res.status(400).json({ error: "A workspace must keep at least one admin" });
+      }
+      const updated = await storage.updateWorkspaceMember(id, userId, updates);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to update workspace member" });
+    }
+  });
+
+  // Admins remove anyone; every member may leave
+  app.delete("/api/workspaces/:id/members/:userId", async (req, res) => {
+    try {
+      const { id, userId } = req.params;
+      if (userId !== req.user!.id && (!req.access || !roleAtLeast(req.access.role, 'admin'))) {
+        return res.status(403).json({ error: "Only workspace admins can remove other members" });
+      }
+      const members = await storage.getWorkspaceMembers(id);
+      const member = members.find(m => m.userId === userId);
+      if (!member) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      if (member.role === 'admin' && !members.some(m => m.role === 'admin' && m.userId !== userId)) {
+        return res.status(400).json({ error: "A workspace must keep at least one admin" });
+      }
+      await storage.removeWorkspaceMember(id, userId);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to remove workspace member" });
+    }
+  });
+
+  // Instance admins: who may run maintenance on the shared knowledge graph
+  app.get("/api/admin/users", requireInstanceAdmin, async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(user => ({ id: user.id, username: user.username, isAdmin: !!user.isAdmin })));
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch users" });
+    }
+  });
+
+  app.put("/api/admin/users/:id", requireInstanceAdmin, async (req, res) => {
+    try {
+      const { isAdmin } = z.object({ isAdmin: z.boolean() }).parse(req.body);
+      const admins = (await storage.getUsers()).filter(user => user.isAdmin);
+      if (!isAdmin && admins.length === 1 && admins[0].id === req.params.id) {
+        return res.status(400).json({ error: "The instance must keep at least one admin" });
+      }
+      const user = await storage.setUserAdmin(req.params.id, isAdmin);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json({ id: user.id, username: user.username, isAdmin: !!user.isAdmin });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to update user" });
+    }
+  });
+
+  // Instance default graph target per environment, for databases and workspaces
+  // that don't choose one
+  app.get("/api/admin/graph-targets", requireInstanceAdmin, async (req, res) => {
+    res.json({ environment: environmentService.getEnvironment(), mapping: environmentService.getConnectionMapping() });
+  });
+
+  app.put("/api/admin/graph-targets", requireInstanceAdmin, async (req, res) => {
+    try {
+      const { environment, connectionId } = z.object({
+        environment: z.enum(['development', 'production']).default(environmentService.getEnvironment()),
+        connectionId: z.string().nullable()
+      }).parse(req.body);
+      if (connectionId && (await storage.getConnection(connectionId))?.type !== 'neo4j') {
+        return res.status(400).json({ error: "connectionId must reference a 'neo4j' connection" });
+      }
+
+      environmentService.updateConnectionMapping(environment, connectionId);
+      res.json({ environment: environmentService.getEnvironment(), mapping: environmentService.getConnectionMapping() });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to update graph targets" });
+    }
+  });
+
+  // Moves every connection's secrets onto the primary key in CONNECTION_SECRET_KEYS
+  // (or the keyfile), and encrypts any saved before encryption was set up. Once it
+  // reports no failures, retired keys can be removed from the configuration.
+  app.post("/api/admin/credentials/rotate", requireInstanceAdmin, async (req, res) => {
+    try {
+      credentialVault.reloadKeys();
+      const failures: { connectionId: string; name: string; error: string }[] = [];
+      let updated = 0;
+      let unchanged = 0;
+
+      for (const connection of await storage.getStoredConnections()) {
+        try {
+          const resealed = credentialVault.reseal(connection.config, connection.secrets);
+          if (!resealed) {
+            unchanged++;
+            continue;
+          }
+          await storage.updateConnectionSecrets(connection.id, resealed.config, resealed.secrets);
+          updated++;
+        } catch (error) {
+          failures.push({ connectionId: connection.id, name: connection.name, error: error instanceof Error ? error.message : "Re-encryption failed" });
+        }
+      }
+
+      console.log(`🔑 Rotated connection secrets to key ${credentialVault.primaryKeyId}: ${updated} updated, ${unchanged} unchanged, ${failures.length} failed`);
+      res.json({ keyId: credentialVault.primaryKeyId, updated, unchanged, failures });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to rotate connection secrets" });
+    }
+  });
+
   // Connection management routes
   app.post("/api/connections", async (req, res) => {
     try {
       const connectionData = insertConnectionSchema.parse(req.body);
-      const userId = req.body.userId || "default-user"; // In real app, get from auth
+      const { workspaceId: requestedWorkspaceId } = z.object({ workspaceId: z.string().optional() }).parse(req.body);
+      const workspaceIds = await accessControl.getWorkspaceIds(req.user!.id);
+      // Without an explicit workspace the connection goes to the user's first one
+      const workspaceId = requestedWorkspaceId ?? workspaceIds[0];
+      if (!workspaceId || !workspaceIds.includes(workspaceId)) {
+        return res.status(403).json({ error: "You are not a member of this workspace" });
+      }
+      const access = await accessControl.getWorkspaceAccess(req.user!.id, workspaceId);
+      if (!access || !roleAtLeast(access.role, 'engineer')) {
+        return res.status(403).json({ error: "Adding connections needs an engineer role or higher in the workspace" });
+      }
+      if (connectionData.type === 'llm') {
+        // Rejects unknown providers before anything is saved
+        createLLMProvider(connectionData.config as LLMConnectionConfig);
+      }
       
       const connection = await storage.createConnection({
         ...connectionData,
-        userId
+        userId: req.user!.id,
+        workspaceId
       });
       
-      res.json(connection);
+      res.json(redactConnection(connection));
     } catch (error) {
       res.status(400).json({ error: error instanceof Error ? error.message : "Invalid request" });
     }
@@ -144,14 +399,139 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/connections", async (req, res) => {
     try {
-      const userId = req.query.userId as string || "default-user";
-      const connections = await storage.getConnectionsByUserId(userId);
-      res.json(connections);
+      const workspaceIds = await accessControl.getWorkspaceIds(req.user!.id);
+      const connections = await storage.getAccessibleConnections(req.user!.id, workspaceIds);
+      res.json(connections.map(redactConnection));
     } catch (error) {
       res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch connections" });
     }
   });
 
+  const connectionUpdateSchema = z.object({
+    name: z.string().trim().min(1).optional(),
+    // Secret fields left blank or masked keep their stored value
+    config: z.record(z.unknown()).optional()
+  });
+
+  app.patch("/api/connections/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const updates = connectionUpdateSchema.parse(req.body);
+      const existing = await storage.getConnection(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Connection not found" });
+      }
+      if (updates.config && existing.type === 'llm') {
+        // Rejects unknown providers before anything is saved
+        createLLMProvider({ ...(existing.config as LLMConnectionConfig), ...updates.config } as LLMConnectionConfig);
+      }
+
+      const connection = await storage.updateConnection(id, updates);
+      if (!connection) {
+        return res.status(404).json({ error: "Connection not found" });
+      }
+      if (updates.config) {
+        // Pooled clients hold the old host and credentials
+        await connectionManager.evict(id);
+        await graphConnectionManager.evict(id);
+      }
+      console.log(`✏️  Updated connection ${connection.name} (${id})`);
+      res.json(redactConnection(connection));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid request" });
+    }
+  });
+
+  app.post("/api/connections/:id/clone", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { name } = z.object({ name: z.string().trim().min(1).optional() }).parse(req.body ?? {});
+      const source = await storage.getConnection(id);
+      if (!source) {
+        return res.status(404).json({ error: "Connection not found" });
+      }
+
+      const connection = await storage.cloneConnection(id, { name: name ?? `${source.name} (copy)`, userId: req.user!.id });
+      if (!connection) {
+        return res.status(404).json({ error: "Connection not found" });
+      }
+      console.log(`📋 Cloned connection ${source.name} (${id}) as ${connection.name} (${connection.id})`);
+      res.json(redactConnection(connection));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to clone connection" });
+    }
+  });
+
+  // What deleting a connection would remove, shown before the user confirms
+  app.get("/api/connections/:id/dependents", async (req, res) => {
+    try {
+      const { id } = req.params;
+      if (!(await storage.getConnection(id))) {
+        return res.status(404).json({ error: "Connection not found" });
+      }
+      res.json(await storage.getConnectionDependents(id));
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to count dependents" });
+    }
+  });
+
+  /**
+   * Deletes a connection. Without ?cascade=true it refuses while databases were
+   * profiled from it; with it, those databases and everything under them go too.
+   * ?clearGraph=true also clears each database's namespace in its Neo4j target,
+   * before anything is deleted so a graph failure leaves the catalog intact.
+   */
+  app.delete("/api/connections/:id", requireRole('admin'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const cascade = req.query.cascade === 'true';
+      const clearGraph = req.query.clearGraph === 'true';
+      const connection = await storage.getConnection(id);
+      if (!connection) {
+        return res.status(404).json({ error: "Connection not found" });
+      }
+
+      const dependents = await storage.getConnectionDependents(id);
+      if (dependents.databases > 0 && !cascade) {
+        return res.status(409).json({
+          error: `${connection.name} has ${dependents.databases} profiled database(s); delete with cascade to remove them too`,
+          dependents
+        });
+      }
+
+      const clearedNamespaces: string[] = [];
+      if (cascade && clearGraph) {
+        for (const database of await storage.getDatabasesByConnectionId(id)) {
+          const namespace = `database_${database.id}`;
+          try {
+            await graphConnectionManager.withGraphTarget(database.id, graph => graph.clearNamespace(namespace));
+            clearedNamespaces.push(namespace);
+          } catch (error) {
+            return res.status(graphErrorStatus(error)).json({
+              error: `Could not clear the graph for database ${database.name}, nothing was deleted: ${error instanceof Error ? error.message : error}`,
+              clearedNamespaces
+            });
+          }
+        }
+      }
+
+      await storage.deleteConnection(id, { cascade });
+      await connectionManager.evict(id);
+      await graphConnectionManager.evict(id);
+
+      console.log(`🗑️  Deleted connection ${connection.name} (${id})${cascade ? ` with ${dependents.databases} database(s)` : ''}${clearedNamespaces.length > 0 ? `, cleared ${clearedNamespaces.length} graph namespace(s)` : ''}`);
+      res.json({ success: true, deleted: dependents, clearedNamespaces });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to delete connection" });
+    }
+  });
+
   // Connection testing routes
   app.post("/api/connections/:id/test", async (req, res) => {
     try {
@@ -166,30 +546,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       switch (connection.type) {
         case 'postgresql':
-          const connected = await postgresAnalyzer.connect(connection.config as any);
+        case 'mysql':
+        case 'sqlite':
+        case 'duckdb':
+          // Test with a throwaway adapter so the pooled one for this connection is left alone
+          const adapter = createSourceAdapter(connection.type);
+          const connected = await adapter.connect(connection.config as any);
           if (connected) {
-            testResult = await postgresAnalyzer.testConnection();
-            await postgresAnalyzer.disconnect();
+            testResult = await adapter.testConnection();
+            await adapter.disconnect();
           } else {
             testResult = { success: false, error: "Failed to connect" };
           }
           break;
           
         case 'neo4j':
-          const neo4jConnected = await neo4jService.connect(connection.config as any);
-          if (neo4jConnected) {
-            testResult = await neo4jService.testConnection();
-            await neo4jService.disconnect();
-          } else {
-            testResult = { success: false, error: "Failed to connect" };
-          }
+          // A throwaway driver, like the source adapters above
+          testResult = await graphConnectionManager.testConnection(connection.config as any);
           break;
           
         case 'gemini':
-          // Test Gemini API by making a simple request
+        case 'llm':
+          // Send a trivial prompt through the configured provider
           try {
-            await geminiService.generateTableDescription("test", "test", []);
-            testResult = { success: true, latency: 100 };
+            const provider = createLLMProvider(llmProviderRegistry.toProviderConfig(connection));
+            const startTime = Date.now();
+            await provider.generate({ task: "connection_test", tier: "fast", prompt: "Reply with the single word OK." });
+            testResult = { success: true, latency: Date.now() - startTime };
           } catch (error) {
             testResult = { success: false, error: error instanceof Error ? error.message : "API test failed" };
           }
@@ -216,6 +599,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/databases", async (req, res) => {
     try {
       const databaseData = insertDatabaseSchema.parse(req.body);
+      if (!(await canAccess(req, 'connection', databaseData.connectionId, 'engineer'))) {
+        return res.status(403).json({ error: "Adding databases needs an engineer role or higher on this connection" });
+      }
       const database = await storage.createDatabase(databaseData);
       res.json(database);
     } catch (error) {
@@ -229,6 +615,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!connectionId) {
         return res.status(400).json({ error: "connectionId is required" });
       }
+      if (!(await canAccess(req, 'connection', connectionId))) {
+        return res.status(403).json({ error: "You do not have access to this connection" });
+      }
       
       const databases = await storage.getDatabasesByConnectionId(connectionId);
       res.json(databases);
@@ -237,7 +626,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get available schemas for a PostgreSQL connection
+  // Get available schemas for a source database connection
   app.get("/api/connections/:id/schemas", async (req, res) => {
     try {
       const { id } = req.params;
@@ -246,23 +635,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Connection not found" });
       }
       
-      if (connection.type !== 'postgresql') {
-        return res.status(400).json({ error: "Schema discovery only supported for PostgreSQL connections" });
+      if (!isSourceConnectionType(connection.type)) {
+        return res.status(400).json({ error: "Schema discovery only supported for source database connections" });
       }
 
-      const config = connection.config as any;
-      const connected = await postgresAnalyzer.connect(config);
-      if (!connected) {
-        return res.status(500).json({ error: "Failed to connect to PostgreSQL" });
-      }
-
-      try {
-        const schemas = await postgresAnalyzer.getSchemas();
-        res.json({ schemas });
-      } finally {
-        // Always disconnect to prevent connection leaks
-        await postgresAnalyzer.disconnect();
-      }
+      const schemas = await connectionManager.withConnection(connection, adapter => adapter.getSchemas());
+      res.json({ schemas });
     } catch (error) {
       res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch schemas" });
     }
@@ -279,6 +657,104 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Changelog of schema drift between analysis runs, newest first
+  app.get("/api/databases/:id/schema-versions", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const versions = await storage.getSchemaVersionsByDatabaseId(id);
+      res.json(versions);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch schema versions" });
+    }
+  });
+
+  // Scheduled re-profiling: cron schedule, freshness and the latest refresh job
+  app.get("/api/databases/:id/refresh", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const database = await storage.getDatabase(id);
+      if (!database) {
+        return res.status(404).json({ error: "Database not found" });
+      }
+
+      const [lastJob] = (await storage.getAnalysisJobs(id)).filter(job => job.type === 'refresh');
+      const tables = (await storage.getSelectedTables(id)).map(table => ({
+        id: table.id,
+        name: table.name,
+        profiledAt: table.profiledAt
+      }));
+      // Schedules saved before stricter validation may no longer parse; the scheduler skips them
+      let nextRunAt: Date | null = null;
+      let scheduleError: string | null = null;
+      if (database.refreshSchedule) {
+        try {
+          nextRunAt = nextCronRun(parseCron(database.refreshSchedule), new Date());
+        } catch (error) {
+          scheduleError = error instanceof Error ? error.message : String(error);
+        }
+      }
+      res.json({
+        schedule: database.refreshSchedule,
+        nextRunAt,
+        scheduleError,
+        lastRefreshedAt: database.lastRefreshedAt,
+        running: refreshScheduler.isRunning(id),
+        lastJob: lastJob ?? null,
+        tables
+      });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch refresh status" });
+    }
+  });
+
+  const refreshScheduleSchema = z.object({
+    schedule: z.string().trim().nullable().superRefine((schedule, ctx) => {
+      if (!schedule) return;
+      try {
+        parseCron(schedule);
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: error instanceof Error ? error.message : "Schedule must be a cron expression: minute hour day-of-month month day-of-week"
+        });
+      }
+    })
+  });
+
+  app.put("/api/databases/:id/refresh-schedule", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { schedule } = refreshScheduleSchema.parse(req.body);
+      const database = await storage.updateDatabaseRefresh(id, { refreshSchedule: schedule || null });
+      if (!database) {
+        return res.status(404).json({ error: "Database not found" });
+      }
+      res.json(database);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to update refresh schedule" });
+    }
+  });
+
+  // Run the scheduled refresh now; returns the background job
+  app.post("/api/databases/:id/refresh", async (req, res) => {
+    try {
+      const { id } = req.params;
+      if (!await storage.getDatabase(id)) {
+        return res.status(404).json({ error: "Database not found" });
+      }
+      if (refreshScheduler.isRunning(id)) {
+        return res.status(409).json({ error: "A refresh is already running for this database" });
+      }
+      const job = await refreshScheduler.startRefresh(id, 'manual', withOptionalGraph);
+      res.json(job);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to start refresh" });
+    }
+  });
+
   app.get("/api/databases/:id/tables", async (req, res) => {
     try {
       const { id } = req.params;
@@ -294,7 +770,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { id } = req.params;
       const { isSelected, sampleSize } = req.body;
-      
+
+      const table = await storage.getTable(id);
+      if (!table) {
+        return res.status(404).json({ error: "Table not found" });
+      }
+      // Gone from the source, so there is nothing left to profile
+      if (isSelected && table.droppedAt) {
+        return res.status(409).json({ error: `${table.name} was dropped from the source database and can't be selected` });
+      }
+
       await storage.updateTableSelection(id, isSelected, sampleSize);
       res.json({ success: true });
     } catch (error) {
@@ -302,6 +787,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Switch a table between estimated and exact row counts, then refresh the count
+  app.post("/api/tables/:id/row-count", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { exact } = req.body;
+
+      if (typeof exact === 'boolean') {
+        await storage.updateTableRowCount(id, { exactRowCount: exact });
+      }
+
+      const result = await schemaAnalyzer.refreshRowCount(id);
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to refresh row count" });
+    }
+  });
+
   app.post("/api/tables/:id/analyze-columns", async (req, res) => {
     try {
       const { id } = req.params;
@@ -337,6 +839,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/tables/:id/analyze-statistics", async (req, res) => {
     try {
       const { id } = req.params;
+      // Optional TABLESAMPLE SYSTEM percentage for very large tables
+      const { samplePercent } = req.body || {};
       
       // Create analysis job
       const table = await storage.getTable(id);
@@ -367,7 +871,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Run analysis in background
       statisticalAnalyzer.analyzeTable(id, (progress) => {
         storage.updateAnalysisJob(job.id, { progress });
-      }).then(result => {
+      }, { samplePercent }).then(result => {
         storage.updateAnalysisJob(job.id, {
           status: "completed",
           progress: 100,
@@ -393,6 +897,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.log(`[DEBUG] Hit database-level statistical analysis route for database: ${req.params.id}, method: ${req.method}`);
     try {
       const { id } = req.params;
+      const { samplePercent } = req.body || {};
       
       // Get all selected tables for this database
       const tables = await storage.getSelectedTables(id);
@@ -416,7 +921,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Run analysis for all selected tables in background
       const analyzeAllTables = async () => {
-        const results = [];
+        const results: any[] = [];
         let totalProgress = 0;
         
         // Get database connection info once
@@ -430,25 +935,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
           throw new Error('Connection not found');
         }
         
-        // Connect once for all tables
-        const connected = await postgresAnalyzer.connect(connection.config as any);
-        if (!connected) {
-          throw new Error('Failed to connect to PostgreSQL');
-        }
-        
-        try {
+        // Hold the pooled connection for the whole run so it isn't evicted between tables
+        await connectionManager.withConnection(connection, async () => {
           for (let i = 0; i < tables.length; i++) {
             const table = tables[i];
             
             try {
               console.log(`Analyzing table ${i + 1}/${tables.length}: ${table.name}`);
               
-              // Pass manageConnection: false since we're managing it here
               const result = await statisticalAnalyzer.analyzeTable(table.id, (columnProgress) => {
                 // Update progress: (completed tables + current table progress) / total tables
                 const overallProgress = Math.round(((i + (columnProgress / 100)) / tables.length) * 100);
                 storage.updateAnalysisJob(job.id, { progress: overallProgress });
-              }, false);
+              }, { samplePercent });
               
               results.push(result);
               totalProgress = Math.round(((i + 1) / tables.length) * 100);
@@ -459,10 +958,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               results.push({ error: error instanceof Error ? error.message : "Unknown error", tableId: table.id, tableName: table.name });
             }
           }
-        } finally {
-          // Disconnect once after all tables
-          await postgresAnalyzer.disconnect();
-        }
+        });
 
         return results;
       };
@@ -499,21 +995,207 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // AI context generation routes
-  app.post("/api/databases/:id/generate-context", async (req, res) => {
+  // PII masking policy and the columns it applies to
+  app.get("/api/databases/:id/masking-policy", async (req, res) => {
     try {
       const { id } = req.params;
-      
-      const job = await storage.createAnalysisJob({
-        databaseId: id,
-        type: "ai_context",
-        status: "running",
+      const database = await storage.getDatabase(id);
+      if (!database) {
+        return res.status(404).json({ error: "Database not found" });
+      }
+
+      const policy = database.maskingPolicy ?? DEFAULT_MASKING_POLICY;
+      const tables = await storage.getSelectedTables(id);
+      const columns = [];
+      for (const table of tables) {
+        for (const column of await storage.getColumnsByTableId(table.id)) {
+          if (!column.piiCategory && !policy.columnOverrides?.[column.id]) continue;
+          columns.push({
+            columnId: column.id,
+            tableName: table.name,
+            columnName: column.name,
+            piiCategory: column.piiCategory,
+            piiConfidence: column.piiConfidence ? parseFloat(column.piiConfidence) : null,
+            maskingStrategy: piiMasker.resolveStrategy(column, policy)
+          });
+        }
+      }
+
+      res.json({ policy, columns });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch masking policy" });
+    }
+  });
+
+  app.put("/api/databases/:id/masking-policy", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const policy = maskingPolicySchema.parse(req.body);
+      const database = await storage.updateDatabaseMaskingPolicy(id, policy);
+      if (!database) {
+        return res.status(404).json({ error: "Database not found" });
+      }
+
+      // Samples and exports pick the new policy up immediately; stored distinct values
+      // are re-masked the next time statistical analysis runs
+      res.json(database.maskingPolicy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid masking policy", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to update masking policy" });
+    }
+  });
+
+  // LLM provider selection: a database setting wins over its source connection's
+  const llmConnectionUpdateSchema = z.object({ llmConnectionId: z.string().nullable() });
+
+  async function validateLlmConnectionId(userId: string, llmConnectionId: string | null): Promise<string | null> {
+    if (!llmConnectionId) return null;
+    const llmConnection = await storage.getConnection(llmConnectionId);
+    if (!llmConnection || (llmConnection.type !== 'llm' && llmConnection.type !== 'gemini')) {
+      return "llmConnectionId must reference an 'llm' or 'gemini' connection";
+    }
+    // Attaching a connection lends out its credentials, so it takes the role that manages them
+    if (!(await accessControl.canUseConnection(userId, llmConnection, 'engineer'))) {
+      return "llmConnectionId must reference a connection you can manage (engineer role or higher in its workspace)";
+    }
+    return null;
+  }
+
+  app.put("/api/databases/:id/llm-connection", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { llmConnectionId } = llmConnectionUpdateSchema.parse(req.body);
+      const validationError = await validateLlmConnectionId(req.user!.id, llmConnectionId);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const database = await storage.updateDatabaseLlmConnection(id, llmConnectionId);
+      if (!database) {
+        return res.status(404).json({ error: "Database not found" });
+      }
+      res.json(database);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to update LLM connection" });
+    }
+  });
+
+  app.put("/api/connections/:id/llm-connection", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { llmConnectionId } = llmConnectionUpdateSchema.parse(req.body);
+      const validationError = await validateLlmConnectionId(req.user!.id, llmConnectionId);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const connection = await storage.updateConnectionLlmConnection(id, llmConnectionId);
+      if (!connection) {
+        return res.status(404).json({ error: "Connection not found" });
+      }
+      res.json(redactConnection(connection));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to update LLM connection" });
+    }
+  });
+
+  // Graph targets: which Neo4j connection holds a database's knowledge graph
+  const graphConnectionUpdateSchema = z.object({ graphConnectionId: z.string().nullable() });
+
+  async function validateGraphConnectionId(userId: string, graphConnectionId: string | null): Promise<string | null> {
+    if (!graphConnectionId) return null;
+    const graphConnection = await storage.getConnection(graphConnectionId);
+    if (!graphConnection || graphConnection.type !== 'neo4j') {
+      return "graphConnectionId must reference a 'neo4j' connection";
+    }
+    // Attaching a connection lends out its credentials, so it takes the role that manages them
+    if (!(await accessControl.canUseConnection(userId, graphConnection, 'engineer'))) {
+      return "graphConnectionId must reference a connection you can manage (engineer role or higher in its workspace)";
+    }
+    return null;
+  }
+
+  app.get("/api/databases/:id/graph-target", async (req, res) => {
+    try {
+      const { id } = req.params;
+      if (!(await storage.getDatabase(id))) {
+        return res.status(404).json({ error: "Database not found" });
+      }
+      // Null when neither the database, its workspace nor the instance names a target
+      res.json(await environmentService.resolveGraphTarget(id));
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to resolve graph target" });
+    }
+  });
+
+  app.put("/api/databases/:id/graph-connection", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { graphConnectionId } = graphConnectionUpdateSchema.parse(req.body);
+      const validationError = await validateGraphConnectionId(req.user!.id, graphConnectionId);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const database = await storage.updateDatabaseGraphConnection(id, graphConnectionId);
+      if (!database) {
+        return res.status(404).json({ error: "Database not found" });
+      }
+      res.json(database);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to update graph target" });
+    }
+  });
+
+  app.put("/api/workspaces/:id/graph-connection", requireRole('admin'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { graphConnectionId } = graphConnectionUpdateSchema.parse(req.body);
+      const validationError = await validateGraphConnectionId(req.user!.id, graphConnectionId);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      const workspace = await storage.updateWorkspaceGraphConnection(id, graphConnectionId);
+      if (!workspace) {
+        return res.status(404).json({ error: "Workspace not found" });
+      }
+      res.json(workspace);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to update graph target" });
+    }
+  });
+
+  // AI context generation routes
+  app.post("/api/databases/:id/generate-context", async (req, res) => {
+    try {
+      const { id } = req.params;
+      
+      const job = await storage.createAnalysisJob({
+        databaseId: id,
+        type: "ai_context",
+        status: "running",
         progress: 0,
         result: null,
         error: null,
         startedAt: new Date(),
         completedAt: null
       });
+      const llm = (await geminiService.forDatabase(id)).forJob(job.id);
 
       // Get selected tables
       const tables = await storage.getSelectedTables(id);
@@ -529,7 +1211,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           
           // Generate or reuse table description (checks Neo4j first to save LLM calls)
           const schema = `CREATE TABLE ${table.schema}.${table.name} (\n${columns.map(c => `  ${c.name} ${c.dataType}`).join(',\n')}\n);`;
-          const tableDesc = await geminiService.generateOrReuseTableDescription(
+          const tableLlm = llm.forTable(table.id);
+          const tableDesc = await tableLlm.generateOrReuseTableDescription(
             table.name, 
             schema, 
             sampleData,
@@ -545,11 +1228,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
             sampleValues: sampleData.map(row => row[c.name]).filter(v => v != null).slice(0, 10),
             cardinality: c.cardinality ?? undefined,
             nullPercentage: parseFloat(c.nullPercentage || '0'),
+            semanticType: c.semanticType ?? undefined,
+            semanticTypeConfidence: c.semanticTypeConfidence ? parseFloat(c.semanticTypeConfidence) : undefined,
             databaseId: id, // Keep as string for canonical key consistency
             tableSchema: table.schema
           }));
           
-          const columnDescs = await geminiService.generateOrReuseColumnDescriptions(
+          const columnDescs = await tableLlm.generateOrReuseColumnDescriptions(
             table.name, 
             columnData,
             req.query.forceRegenerate === 'true' // Support force regeneration via query param
@@ -628,8 +1313,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/databases/:id/sme-questions", async (req, res) => {
     try {
       const { id } = req.params;
+      if (!req.access) {
+        return res.status(403).json({ error: "You do not have access to this database" });
+      }
       const questions = await storage.getQuestionsByDatabaseId(id);
-      res.json(questions);
+      const scope = await accessControl.getSmeTableScope(req.access);
+      res.json(scope ? questions.filter(question => question.tableId && scope.has(question.tableId)) : questions);
     } catch (error) {
       res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch questions" });
     }
@@ -649,6 +1338,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!question) {
         return res.status(404).json({ error: "Question not found" });
       }
+      if (!req.access) {
+        return res.status(403).json({ error: "You do not have access to this SME question" });
+      }
+      const scope = await accessControl.getSmeTableScope(req.access);
+      if (scope && !(question.tableId && scope.has(question.tableId))) {
+        return res.status(403).json({ error: "This question is outside the tables you were asked to review" });
+      }
       
       // Save the answer
       await storage.answerSmeQuestion(id, response);
@@ -685,7 +1381,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/databases/:id/sme-progress", async (req, res) => {
     try {
       const { id } = req.params;
-      const progress = await smeInterviewService.getInterviewProgress(id);
+      if (!req.access) {
+        return res.status(403).json({ error: "You do not have access to this database" });
+      }
+      const scope = await accessControl.getSmeTableScope(req.access);
+      const progress = await smeInterviewService.getInterviewProgress(id, scope ?? undefined);
       res.json(progress);
     } catch (error) {
       res.status(500).json({ error: error instanceof Error ? error.message : "Failed to get progress" });
@@ -704,6 +1404,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const batchSize = parseInt(process.env.AI_CONTEXT_BATCH_SIZE || '1');
+      const llm = await geminiService.forDatabase(id);
       const job = await storage.createAnalysisJob({
         databaseId: id,
         type: "ai_context",
@@ -727,7 +1428,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Process tables asynchronously - use setImmediate to ensure it runs in next tick
       console.log(`Starting async processing for job ${job.id} with ${tables.length} tables`);
       setImmediate(() => {
-        processTablesAsync(job.id, tables, storage, schemaAnalyzer, statisticalAnalyzer, geminiService)
+        processTablesAsync(job.id, tables, storage, schemaAnalyzer, statisticalAnalyzer, llm.forJob(job.id))
           .catch(error => {
             console.error(`Async processing failed for job ${job.id}:`, error);
             // Update job status to failed
@@ -815,8 +1516,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
               progress,
               processedTableIds: [...processedTableIds], // Create new array for JSON serialization
               nextIndex: tableIndex + 1,
-              batchIndex: currentBatchIndex,
-              lastError: null // Clear any previous errors on success
+              batchIndex: currentBatchIndex
+              // lastError is kept: LLM validation failures recorded while processing this table must stay visible
             });
 
             console.log(`[Job ${jobId}] Table ${table.name} completed. Progress: ${completedUnits}/${tables.length} (${progress}%)`);
@@ -910,12 +1611,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     jobId: string
   ): Promise<number> {
     console.log(`[Job ${jobId}] Starting processSingleTable for ${table.name}...`);
+    const tableLlm = geminiService.forTable(table.id);
     
     let sampleData: any[];
     let columns: any[];
     let statisticalResults: any;
     
     try {
+      // Statistical analysis runs first: it classifies PII columns, which decides how the sample is masked
+      console.log(`[Job ${jobId}] Running statistical analysis for table ${table.name}...`);
+      statisticalResults = await statisticalAnalyzer.analyzeTable(table.id);
+      console.log(`[Job ${jobId}] Statistical analysis completed for ${table.name}`);
+
       // Get sample data and columns with enhanced error handling
       console.log(`[Job ${jobId}] Attempting to get sample data for table ${table.name}...`);
       sampleData = await schemaAnalyzer.getSampleData(table.id);
@@ -924,11 +1631,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`[Job ${jobId}] Getting columns for table ${table.name}...`);
       columns = await storage.getColumnsByTableId(table.id);
       console.log(`[Job ${jobId}] Columns retrieved for ${table.name}: ${columns.length} columns`);
-      
-      // Get statistical analysis for richer context
-      console.log(`[Job ${jobId}] Running statistical analysis for table ${table.name}...`);
-      statisticalResults = await statisticalAnalyzer.analyzeTable(table.id);
-      console.log(`[Job ${jobId}] Statistical analysis completed for ${table.name}`);
     } catch (dataError) {
       // Handle database sampling/analysis errors (e.g., table doesn't exist in DB)
       const errorMessage = `Failed to sample data or analyze table '${table.name}': ${dataError instanceof Error ? dataError.message : 'Unknown error'}`;
@@ -975,13 +1677,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         sampleValues: sampleData.map(row => row[c.name]).filter(v => v != null).slice(0, 10),
         cardinality: c.cardinality ?? undefined,
         nullPercentage: parseFloat(c.nullPercentage || '0'),
-        distinctValues: c.cardinality && c.cardinality <= 100 ? distinctValues : undefined
+        distinctValues: c.cardinality && c.cardinality <= 100 ? distinctValues : undefined,
+        distribution: c.distribution ?? undefined,
+        semanticType: c.semanticType ?? undefined
       };
     });
     
     // Use combined Gemini service method
     console.log(`[Job ${jobId}] Calling Gemini for table: ${table.name}`);
-    const contextAndQuestions = await geminiService.generateContextAndQuestions(
+    const contextAndQuestions = await tableLlm.generateContextAndQuestions(
       table.name,
       schema,
       sampleData,
@@ -1044,7 +1748,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     // Process enum values for low cardinality columns
     console.log(`[Job ${jobId}] Processing enum values for table ${table.name}...`);
-    const enumColumnsProcessed = await processEnumValuesForTable(table, columns, storage, geminiService, jobId);
+    const enumColumnsProcessed = await processEnumValuesForTable(table, columns, storage, tableLlm, jobId);
     console.log(`[Job ${jobId}] Processed enum values for ${enumColumnsProcessed} columns in table ${table.name}`);
 
     // Store context for this table using new ContextItem storage
@@ -1092,7 +1796,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       c.cardinality != null && 
       c.cardinality >= 2 && 
       c.cardinality < 100 && // Consider columns with 2-99 distinct values as enum-like
-      c.distinctValues != null
+      c.distinctValues != null &&
+      !c.piiCategory // Masked personal data is not a business enum
     );
 
     console.log(`[Job ${jobId}] Found ${enumColumns.length} enum-like columns in table ${table.name}`);
@@ -1135,42 +1840,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log(`[Job ${jobId}] Found ${newValues.length} new enum values to process for column ${column.name} (${existingEnumValues.length} already exist)`);
         distinctValues = newValues; // Process only new values
 
-        // Generate AI context for enum values
-        const enumContexts = await geminiService.generateEnumValueContext(
-          table.name,
-          column.name,
-          column.dataType,
-          distinctValues.map(v => String(v)),
-          column.aiDescription
-        );
-
-        console.log(`[Job ${jobId}] Generated context for ${enumContexts.length} enum values in column ${column.name}`);
-
-        // Store each enum value with its context
-        for (const enumContext of enumContexts) {
-          try {
-            const createdEnumValue = await storage.createEnumValue({
-              columnId: column.id,
-              value: enumContext.value,
-              frequency: null, // We don't have frequency data from distinctValues
-              aiContext: enumContext.context,
-              aiHypothesis: enumContext.hypothesis
-            });
-
-            // Generate SME questions for this enum value
-            await storage.createSmeQuestion({
-              tableId: table.id,
-              columnId: column.id,
-              enumValueId: createdEnumValue.id, // Link to the created enum value
-              questionType: 'enum_value',
-              questionText: `In column '${column.name}', we found the value '${enumContext.value}'. AI suggests: ${enumContext.hypothesis}. Do you agree with this interpretation, or would you provide a different business definition?`,
-              priority: 'medium'
-            });
-            
-          } catch (enumError) {
-            console.error(`[Job ${jobId}] Failed to store enum value ${enumContext.value} for column ${column.name}:`, enumError);
-          }
-        }
+        // Store each value with its AI context and an SME question
+        const created = await enumValueTracker.createValues(table, column, distinctValues.map(v => String(v)), geminiService);
+        console.log(`[Job ${jobId}] Stored ${created.enumValues.length} enum values with context in column ${column.name}`);
 
         enumColumnsProcessed++;
         console.log(`[Job ${jobId}] Completed processing enum values for column ${column.name}`);
@@ -1199,6 +1871,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const selectedTables = tables.filter(t => t.isSelected);
       const personas = await storage.getPersonasByDatabaseId(id);
       const analysisJobs = await storage.getAnalysisJobs(id);
+
+      // Distinct values are masked at rest; re-apply the policy for columns stored before masking existed
+      const exportDistinctValues = (col: Column) => {
+        let values: unknown = col.distinctValues;
+        if (typeof values === 'string') {
+          try {
+            values = JSON.parse(values);
+          } catch {
+            return values;
+          }
+        }
+        return Array.isArray(values) ? piiMasker.maskStoredValues(col, values, database.maskingPolicy) : values;
+      };
       const smeQuestions = await storage.getQuestionsByDatabaseId(id);
       
       // Get detailed column and foreign key data
@@ -1241,7 +1926,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
             null_percentage: col.nullPercentage,
             min_value: col.minValue,
             max_value: col.maxValue,
-            distinct_values: col.distinctValues,
+            distinct_values: exportDistinctValues(col),
+            distribution: col.distribution,
+            semantic_type: col.semanticType,
+            semantic_type_confidence: col.semanticTypeConfidence,
+            pii_category: col.piiCategory,
+            masking_strategy: col.maskingStrategy,
             ai_description: col.aiDescription,
             sme_validated: col.smeValidated
           })),
@@ -1496,7 +2186,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           // Get sample values (first few distinct values)
           let sampleValues = '';
           if (column.distinctValues && Array.isArray(column.distinctValues)) {
-            sampleValues = column.distinctValues.slice(0, 5).join('; ');
+            sampleValues = piiMasker.maskStoredValues(column, column.distinctValues, database.maskingPolicy).slice(0, 5).join('; ');
           }
           
           // Find foreign key relationship for this column
@@ -1607,18 +2297,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Updated knowledge graph building function that handles existing graphs
-  async function updateEnhancedKnowledgeGraph(databaseId: string) {
+  async function updateEnhancedKnowledgeGraph(graph: Neo4jService, databaseId: string) {
     console.log('Updating enhanced knowledge graph for database:', databaseId);
     
     const namespace = `database_${databaseId}`;
-    const namespaceExists = await neo4jService.checkNamespaceExists(namespace);
+    const namespaceExists = await graph.checkNamespaceExists(namespace);
     
     if (namespaceExists) {
       console.log('Existing knowledge graph found, performing incremental updates');
-      return await performIncrementalUpdate(databaseId, namespace);
+      return await performIncrementalUpdate(graph, databaseId, namespace);
     } else {
       console.log('No existing knowledge graph found, creating new graph');
-      return await buildEnhancedKnowledgeGraph(databaseId);
+      return await buildEnhancedKnowledgeGraph(graph, databaseId);
     }
   }
 
@@ -1669,8 +2359,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   }
 
   // Incremental update function for existing knowledge graphs
-  async function performIncrementalUpdate(databaseId: string, namespace: string) {
+  async function performIncrementalUpdate(graph: Neo4jService, databaseId: string, namespace: string) {
     console.log('Performing incremental knowledge graph update for database:', databaseId);
+    const maskingPolicy = (await storage.getDatabase(databaseId))?.maskingPolicy;
+    const llm = await geminiService.forDatabase(databaseId);
     
     // First, sync any missing personas from PostgreSQL to Neo4j
     console.log('Syncing personas from PostgreSQL to Neo4j...');
@@ -1688,7 +2380,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
       
       try {
-        await neo4jService.createAgentPersona({
+        await graph.createAgentPersona({
           id: persona.id,
           name: persona.name,
           description: persona.description,
@@ -1706,25 +2398,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     // Sync tables and their relationships to personas
     console.log('🔄 [SYNC] Creating table nodes and linking to personas...');
-    const tables = await storage.getSelectedTables(databaseId);
-    console.log(`Found ${tables.length} selected tables to link`);
+    const personaTableMap = await getPersonaTableMap(databaseId, personas);
+    const tableOwners = groupTablesByOwner(personaTableMap);
+    const tables = tableOwners.map(owner => owner.table);
+    console.log(`Found ${tables.length} persona-assigned tables to link`);
     
     let tablesLinked = 0;
     
-    for (const persona of personas) {
-      for (const table of tables) {
-        console.log(`🔗 [SYNC] Linking table ${table.name} to persona ${persona.name}`);
-        await neo4jService.createTableNode(persona.id, {
-          id: table.id,
-          name: table.name,
-          schema: table.schema,
-          description: `Table containing ${table.columnCount || 0} columns with data analysis context`,
-          rowCount: table.rowCount ?? undefined,
-          columnCount: table.columnCount ?? undefined,
-          databaseId: table.databaseId
-        });
-        tablesLinked++;
+    for (const { table, personaIds } of tableOwners) {
+      const [ownerId, ...sharedWith] = personaIds;
+      console.log(`🔗 [SYNC] Linking table ${table.name} to ${personaIds.length} persona(s)`);
+      await graph.createTableNode(ownerId, {
+        id: table.id,
+        name: table.name,
+        schema: table.schema,
+        description: `Table containing ${table.columnCount || 0} columns with data analysis context`,
+        rowCount: table.rowCount ?? undefined,
+        columnCount: table.columnCount ?? undefined,
+        databaseId: table.databaseId
+      });
+      // Shared tables stay a single node with a CONTAINS edge from each owning persona
+      for (const personaId of sharedWith) {
+        await graph.linkPersonaToTable(personaId, table);
       }
+      tablesLinked += personaIds.length;
     }
     
     // Create column nodes for all tables (outside persona loop for efficiency)
@@ -1737,7 +2434,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`🔗 [SYNC] Creating ${columns.length} column nodes for table ${table.name}`);
       
       for (const column of columns) {
-        await neo4jService.createColumnNode(table.id, {
+        await graph.createColumnNode(table.id, {
           id: column.id,
           name: column.name,
           dataType: column.dataType,
@@ -1781,12 +2478,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }
           }
           
+          // Stored values are normally masked already; this catches columns stored before masking applied
+          if (Array.isArray(values)) {
+            values = piiMasker.maskStoredValues(column, values, maskingPolicy);
+          }
+          
           if (!Array.isArray(values) || values.length === 0) {
             console.warn(`No parseable values found for column ${column.name}, skipping value nodes`);
           } else {
             for (const value of values) {
               const enumData = enumValueMap.get(String(value));
-              await neo4jService.createValueNode(column.id, {
+              await graph.createValueNode(column.id, {
                 id: `${column.id}_${value}`,
                 value: String(value),
                 aiContext: enumData?.aiContext,
@@ -1807,7 +2509,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     console.log(`✅ [SYNC] Incremental update completed: ${tablesLinked} table links, ${columnsCreated} columns, and ${valuesCreated} value nodes created for ${personas.length} personas`);
     
-    let stats = await neo4jService.getNamespaceStatistics(namespace);
+    let stats = await graph.getNamespaceStatistics(namespace);
     
     // Get SME questions and answers
     const smeQuestions = await storage.getQuestionsByDatabaseId(databaseId);
@@ -1846,8 +2548,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         console.log(`Merging SME feedback for column ${column.name} with ${columnQuestions.length} responses`);
         
-        // Use Gemini to merge AI description with SME feedback
-        const updatedDescription = await geminiService.mergeColumnContextWithSMEFeedback(
+        // Use the database's LLM to merge AI description with SME feedback
+        const updatedDescription = await llm.mergeColumnContextWithSMEFeedback(
           column.name,
           table.name,
           column.aiDescription,
@@ -1860,7 +2562,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
         
         // Update column description in Neo4j
-        await neo4jService.updateColumnDescription(column.id, updatedDescription);
+        await graph.updateColumnDescription(column.id, updatedDescription);
         
       } catch (error) {
         console.error(`Failed to update column description with SME feedback:`, error);
@@ -1875,7 +2577,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const joinInfo = await extractJoinInfoFromSMEResponse(question.questionText, question.response || '', databaseId);
         if (joinInfo) {
           // Create SME-validated relationship in Neo4j
-          await neo4jService.createRelationship({
+          await graph.createRelationship({
             fromId: joinInfo.fromId,
             toId: joinInfo.toId,
             type: joinInfo.type,
@@ -1910,7 +2612,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         let fromKey: string | undefined;
         let toKey: string | undefined;
         
-        if (neo4jService.isSharedNodesEnabled()) {
+        if (Neo4jService.isSharedNodesEnabled()) {
           try {
             // Get column details to construct canonical keys
             const fromColumn = fk.fromColumnId ? await storage.getColumnById(fk.fromColumnId) : null;
@@ -1937,7 +2639,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
         }
         
-        await neo4jService.createRelationship({
+        await graph.createRelationship({
           fromId: fk.fromColumnId || '',
           toId: fk.toColumnId || '',
           fromKey,
@@ -1954,7 +2656,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.log(`✅ [SYNC] Created ${fksCreated} foreign key relationships`);
     
     // Get fresh statistics after updates (don't manually modify counts)
-    const updatedStats = await neo4jService.getNamespaceStatistics(namespace);
+    const updatedStats = await graph.getNamespaceStatistics(namespace);
     
     console.log('Incremental knowledge graph update completed:', {
       ...updatedStats,
@@ -1971,13 +2673,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
    */
   async function performCrossModelDiscovery(persona: any) {
     // Early exit if shared mode is disabled
-    if (!neo4jService.isSharedNodesEnabled()) {
+    if (!Neo4jService.isSharedNodesEnabled()) {
       console.log('Cross-model discovery skipped (shared mode disabled)');
       return;
     }
     
-    let neo4jConnected = false;
-    
     try {
       console.log(`🔍 Starting cross-model discovery for persona: ${persona.name} (${persona.id})`);
       
@@ -1988,24 +2688,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Connect to Neo4j before querying
-      const neo4jConnectionId = environmentService.getNeo4jConnectionId();
-      const neo4jConnection = await storage.getConnection(neo4jConnectionId);
+      const neo4jConnection = await environmentService.getGraphConnection(databaseId);
       
       if (!neo4jConnection) {
         console.warn('⚠️  Neo4j connection not found, skipping cross-model discovery');
         return;
       }
       
-      neo4jConnected = await neo4jService.connect(neo4jConnection.config as any);
-      if (!neo4jConnected) {
+      // Get all existing tables in Neo4j for this database (with persona details included)
+      const existingTables = await graphConnectionManager.withGraph(neo4jConnection, async graph =>
+        graph ? graph.findTablesByDatabaseId(databaseId) : null
+      );
+      if (!existingTables) {
         console.warn('⚠️  Failed to connect to Neo4j, skipping cross-model discovery');
         return;
       }
-      
-      console.log('✓ Connected to Neo4j for cross-model discovery');
-      
-      // Get all existing tables in Neo4j for this database (with persona details included)
-      const existingTables = await neo4jService.findTablesByDatabaseId(databaseId);
       console.log(`📊 Found ${existingTables.length} existing tables in Neo4j for database ${databaseId}`);
       
       if (existingTables.length === 0) {
@@ -2013,9 +2710,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
       
-      // Get tables that will be part of this persona (selected tables)
-      const selectedTables = await storage.getSelectedTables(databaseId);
-      console.log(`📋 Persona will include ${selectedTables.length} selected tables`);
+      // Get tables assigned to this persona
+      const selectedTables = (await getPersonaTableMap(databaseId, [persona])).get(persona.id) ?? [];
+      console.log(`📋 Persona includes ${selectedTables.length} tables`);
       
       // Find overlapping tables (tables that exist in Neo4j and are selected for this persona)
       const overlaps: Array<{
@@ -2045,8 +2742,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`🔗 Found ${overlaps.length} overlapping tables with existing personas`);
       
+      // Discovery re-runs whenever the persona's tables change; don't ask twice about the same table
+      const askedKeys = new Set(
+        (await storage.getQuestionsByDatabaseId(databaseId))
+          .map(question => question.options as any)
+          .filter(options => options?.discoveryType === 'cross-model-overlap' && options.personaId === persona.id)
+          .map(options => options.canonicalKey)
+      );
+
       // Generate SME questions for each overlap
       for (const overlap of overlaps) {
+        if (askedKeys.has(overlap.canonicalKey)) {
+          continue;
+        }
         const personaNames = overlap.existingPersonas.map(p => p.name).join(', ');
         
         // Create a relationship-type SME question about cross-model connections
@@ -2076,12 +2784,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     } catch (error) {
       // Fail gracefully - don't break persona creation
       console.error('❌ Cross-model discovery failed (non-fatal):', error instanceof Error ? error.message : error);
-    } finally {
-      // Always disconnect from Neo4j
-      if (neo4jConnected) {
-        await neo4jService.disconnect();
-        console.log('✓ Disconnected from Neo4j after cross-model discovery');
-      }
     }
   }
 
@@ -2125,13 +2827,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   }
 
   // Enhanced knowledge graph building function that incorporates SME responses (for new graphs)
-  async function buildEnhancedKnowledgeGraph(databaseId: string) {
+  async function buildEnhancedKnowledgeGraph(graph: Neo4jService, databaseId: string) {
     const startTime = Date.now();
+    const maskingPolicy = (await storage.getDatabase(databaseId))?.maskingPolicy;
     console.log('Building enhanced knowledge graph for database:', databaseId, 'at', new Date().toISOString());
     
     // Create namespace for this database
     const namespace = `database_${databaseId}`;
-    await neo4jService.createNamespace(namespace);
+    await graph.createNamespace(namespace);
     
     // Run incremental join discovery before building the graph
     console.log('Running incremental join discovery at', Date.now() - startTime + 'ms');
@@ -2154,117 +2857,127 @@ export async function registerRoutes(app: Express): Promise<Server> {
       relationshipCount: 0
     };
     
-    for (let i = 0; i < personas.length; i++) {
-      const persona = personas[i];
-      console.log(`Processing persona ${i + 1}/${personas.length}:`, persona.name, 'at', Date.now() - startTime + 'ms');
-      
-      // Create Agent Persona node
-      await neo4jService.createAgentPersona({
+    // Persona nodes first, so every table below can link to all of its owners
+    for (const persona of personas) {
+      await graph.createAgentPersona({
         id: persona.id,
         name: persona.name,
         description: persona.description,
         keywords: Array.isArray(persona.keywords) ? persona.keywords as string[] : [],
         namespace
       });
+    }
+    
+    console.log('Resolving persona table assignments at', Date.now() - startTime + 'ms');
+    const personaTableMap = await getPersonaTableMap(databaseId, personas);
+    const tableOwners = groupTablesByOwner(personaTableMap);
+    console.log('Found', tableOwners.length, 'persona-assigned tables at', Date.now() - startTime + 'ms');
+    stats.tableCount = tableOwners.length;
+    
+    for (const { table, personaIds } of tableOwners) {
+      const [ownerId, ...sharedWith] = personaIds;
       
-      // Get tables for this persona (for now, just get all selected tables)
-      console.log('Fetching tables for persona at', Date.now() - startTime + 'ms');
-      const tables = await storage.getSelectedTables(databaseId);
-      console.log('Found', tables.length, 'tables at', Date.now() - startTime + 'ms');
-      stats.tableCount += tables.length;
+      // Create Table node
+      await graph.createTableNode(ownerId, {
+        id: table.id,
+        name: table.name,
+        schema: table.schema,
+        description: `Table containing ${table.columnCount || 0} columns with data analysis context`,
+        rowCount: table.rowCount ?? undefined,
+        columnCount: table.columnCount ?? undefined,
+        databaseId: table.databaseId
+      });
       
-      for (const table of tables) {
-        // Create Table node
-        await neo4jService.createTableNode(persona.id, {
-          id: table.id,
-          name: table.name,
-          schema: table.schema,
-          description: `Table containing ${table.columnCount || 0} columns with data analysis context`,
-          rowCount: table.rowCount ?? undefined,
-          columnCount: table.columnCount ?? undefined,
-          databaseId: table.databaseId
-        });
-        
-        // Get and create Column nodes with SME context
-        const columns = await storage.getColumnsByTableId(table.id);
-        stats.columnCount += columns.length;
+      // A table owned by several personas stays one node (merged by canonicalKey in shared
+      // node mode) with a CONTAINS edge from each owner
+      for (const personaId of sharedWith) {
+        await graph.linkPersonaToTable(personaId, table);
+      }
+      
+      // Get and create Column nodes with SME context
+      const columns = await storage.getColumnsByTableId(table.id);
+      stats.columnCount += columns.length;
+      
+      // Get AI context for this table to include SME-validated descriptions
+      const contextItem = await storage.getContextByTableId(table.id);
+      
+      for (const column of columns) {
+        // Look for SME-validated column context
+        let enhancedDescription = column.aiDescription;
+        if (contextItem?.columnDescs && Array.isArray(contextItem.columnDescs)) {
+          const columnDesc = contextItem.columnDescs.find(desc => desc.column_name === column.name);
+          if (columnDesc) {
+            enhancedDescription = columnDesc.description || column.aiDescription;
+          }
+        }
         
-        // Get AI context for this table to include SME-validated descriptions
-        const contextItem = await storage.getContextByTableId(table.id);
+        await graph.createColumnNode(table.id, {
+          id: column.id,
+          name: column.name,
+          dataType: column.dataType,
+          description: enhancedDescription ?? undefined,
+          isNullable: column.isNullable ?? false,
+          cardinality: column.cardinality ?? undefined,
+          nullPercentage: parseFloat(column.nullPercentage || '0'),
+          databaseId: table.databaseId,
+          tableSchema: table.schema,
+          tableName: table.name
+        });
         
-        for (const column of columns) {
-          // Look for SME-validated column context
-          let enhancedDescription = column.aiDescription;
-          if (contextItem?.columnDescs && Array.isArray(contextItem.columnDescs)) {
-            const columnDesc = contextItem.columnDescs.find(desc => desc.column_name === column.name);
-            if (columnDesc) {
-              enhancedDescription = columnDesc.description || column.aiDescription;
+        // Create Value nodes for low-cardinality columns with AI context from enum values
+        console.log(`[DEBUG] Incremental Update - Column ${column.name}: cardinality=${column.cardinality}, hasDistinctValues=${!!column.distinctValues}`);
+        if (column.cardinality && column.cardinality < 100 && column.distinctValues) {
+          console.log(`[DEBUG] ✓ Incremental Update - Column ${column.name} PASSED condition check - will create value nodes`);
+          // Get enum values with AI context if they exist
+          const enumValues = await storage.getEnumValuesByColumnId(column.id);
+          const enumValueMap = new Map();
+          enumValues.forEach((ev: any) => {
+            enumValueMap.set(ev.value, { aiContext: ev.aiContext, aiHypothesis: ev.aiHypothesis });
+          });
+          
+          let values = [];
+          let valueNodesCreated = 0;
+          let valueNodesWithContext = 0;
+          
+          // Try multiple parsing strategies for distinctValues
+          try {
+            values = JSON.parse(String(column.distinctValues));
+          } catch (jsonError) {
+            // Fallback: try CSV parsing for comma-separated values
+            try {
+              values = String(column.distinctValues).split(',').map(v => v.trim()).filter(v => v.length > 0);
+              console.log(`Used CSV fallback for column ${column.name}: ${values.length} values`);
+            } catch (csvError) {
+              // Final fallback: semicolon or newline separated
+              values = String(column.distinctValues).split(/[;\n]/).map(v => v.trim()).filter(v => v.length > 0);
+              console.log(`Used delimiter fallback for column ${column.name}: ${values.length} values`);
             }
           }
           
-          await neo4jService.createColumnNode(table.id, {
-            id: column.id,
-            name: column.name,
-            dataType: column.dataType,
-            description: enhancedDescription ?? undefined,
-            isNullable: column.isNullable ?? false,
-            cardinality: column.cardinality ?? undefined,
-            nullPercentage: parseFloat(column.nullPercentage || '0'),
-            databaseId: table.databaseId,
-            tableSchema: table.schema,
-            tableName: table.name
-          });
+          // Stored values are normally masked already; this catches columns stored before masking applied
+          if (Array.isArray(values)) {
+            values = piiMasker.maskStoredValues(column, values, maskingPolicy);
+          }
           
-          // Create Value nodes for low-cardinality columns with AI context from enum values
-          console.log(`[DEBUG] Incremental Update - Column ${column.name}: cardinality=${column.cardinality}, hasDistinctValues=${!!column.distinctValues}`);
-          if (column.cardinality && column.cardinality < 100 && column.distinctValues) {
-            console.log(`[DEBUG] ✓ Incremental Update - Column ${column.name} PASSED condition check - will create value nodes`);
-            // Get enum values with AI context if they exist
-            const enumValues = await storage.getEnumValuesByColumnId(column.id);
-            const enumValueMap = new Map();
-            enumValues.forEach((ev: any) => {
-              enumValueMap.set(ev.value, { aiContext: ev.aiContext, aiHypothesis: ev.aiHypothesis });
-            });
-            
-            let values = [];
-            let valueNodesCreated = 0;
-            let valueNodesWithContext = 0;
-            
-            // Try multiple parsing strategies for distinctValues
-            try {
-              values = JSON.parse(String(column.distinctValues));
-            } catch (jsonError) {
-              // Fallback: try CSV parsing for comma-separated values
-              try {
-                values = String(column.distinctValues).split(',').map(v => v.trim()).filter(v => v.length > 0);
-                console.log(`Used CSV fallback for column ${column.name}: ${values.length} values`);
-              } catch (csvError) {
-                // Final fallback: semicolon or newline separated
-                values = String(column.distinctValues).split(/[;\n]/).map(v => v.trim()).filter(v => v.length > 0);
-                console.log(`Used delimiter fallback for column ${column.name}: ${values.length} values`);
+          if (!Array.isArray(values) || values.length === 0) {
+            console.warn(`No parseable values found for column ${column.name}, skipping value nodes`);
+          } else {
+            for (const value of values) {
+              const enumData = enumValueMap.get(String(value));
+              await graph.createValueNode(column.id, {
+                id: `${column.id}_${value}`,
+                value: String(value),
+                aiContext: enumData?.aiContext,
+                aiHypothesis: enumData?.aiHypothesis
+              });
+              valueNodesCreated++;
+              if (enumData?.aiContext || enumData?.aiHypothesis) {
+                valueNodesWithContext++;
               }
             }
             
-            if (!Array.isArray(values) || values.length === 0) {
-              console.warn(`No parseable values found for column ${column.name}, skipping value nodes`);
-            } else {
-              for (const value of values) {
-                const enumData = enumValueMap.get(String(value));
-                await neo4jService.createValueNode(column.id, {
-                  id: `${column.id}_${value}`,
-                  value: String(value),
-                  aiContext: enumData?.aiContext,
-                  aiHypothesis: enumData?.aiHypothesis
-                });
-                valueNodesCreated++;
-                if (enumData?.aiContext || enumData?.aiHypothesis) {
-                  valueNodesWithContext++;
-                }
-              }
-              
-              stats.valueCount += valueNodesCreated;
-              console.log(`Created ${valueNodesCreated} value nodes for column ${column.name} (${valueNodesWithContext} with AI context)`);
-            }
+            stats.valueCount += valueNodesCreated;
+            console.log(`Created ${valueNodesCreated} value nodes for column ${column.name} (${valueNodesWithContext} with AI context)`);
           }
         }
       }
@@ -2285,7 +2998,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const joinInfo = await extractJoinInfoFromSMEResponse(question.questionText, question.response || '', databaseId);
         if (joinInfo) {
           // Create SME-validated relationship in Neo4j
-          await neo4jService.createRelationship({
+          await graph.createRelationship({
             fromId: joinInfo.fromId,
             toId: joinInfo.toId,
             type: joinInfo.type,
@@ -2317,7 +3030,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         let fromKey: string | undefined;
         let toKey: string | undefined;
         
-        if (neo4jService.isSharedNodesEnabled()) {
+        if (Neo4jService.isSharedNodesEnabled()) {
           try {
             // Get column details to construct canonical keys
             const fromColumn = fk.fromColumnId ? await storage.getColumnById(fk.fromColumnId) : null;
@@ -2344,7 +3057,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
         }
         
-        await neo4jService.createRelationship({
+        await graph.createRelationship({
           fromId: fk.fromColumnId || '',
           toId: fk.toColumnId || '',
           fromKey,
@@ -2473,30 +3186,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         // Parse form data fields (multer populates req.body for text fields)
         const buildKnowledgeGraph = req.body?.buildKnowledgeGraph === 'true';
-        // Automatically select Neo4j connection based on environment
-        const neo4jConnectionId = environmentService.getNeo4jConnectionId();
-        
         if (buildKnowledgeGraph) {
           try {
-            console.log('Building knowledge graph with connection:', neo4jConnectionId);
-            const neo4jConnection = await storage.getConnection(neo4jConnectionId);
+            const neo4jConnection = await environmentService.getGraphConnection(id);
             if (neo4jConnection) {
-              // Connect to Neo4j
-              const connected = await neo4jService.connect(neo4jConnection.config as any);
-              if (connected) {
-                try {
-                  // Update or build enhanced knowledge graph with SME responses
-                  graphBuildResult = await updateEnhancedKnowledgeGraph(id);
-                  console.log('Knowledge graph updated successfully:', graphBuildResult);
-                } finally {
-                  // Always disconnect after building
-                  await neo4jService.disconnect();
+              await graphConnectionManager.withGraph(neo4jConnection, async graph => {
+                if (!graph) {
+                  console.warn('Failed to connect to Neo4j');
+                  return;
                 }
-              } else {
-                console.warn('Failed to connect to Neo4j');
-              }
+                // Update or build enhanced knowledge graph with SME responses
+                graphBuildResult = await updateEnhancedKnowledgeGraph(graph, id);
+                console.log('Knowledge graph updated successfully:', graphBuildResult);
+              });
             } else {
-              console.warn('Neo4j connection not found:', neo4jConnectionId);
+              console.warn(`Neo4j graph target for database ${id} not found`);
             }
           } catch (graphError) {
             console.error('Knowledge graph building failed:', graphError);
@@ -2522,7 +3226,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Database cleanup routes
-  app.post('/api/databases/:id/cleanup-duplicates', async (req, res) => {
+  app.post('/api/databases/:id/cleanup-duplicates', requireRole('admin'), async (req, res) => {
     try {
       const databaseId = req.params.id;
       const deletedCount = await storage.deduplicateTablesForDatabase(databaseId);
@@ -2538,17 +3242,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Agent Persona routes
-  app.post("/api/agent-personas", async (req, res) => {
+  const personaTablesUpdateSchema = z.object({ tableIds: z.array(z.string()) });
+
+  // Persona membership is limited to tables of the persona's own database
+  async function filterTablesOfDatabase(databaseId: string, tableIds: string[]): Promise<string[]> {
+    const databaseTableIds = new Set((await storage.getTablesByDatabaseId(databaseId)).map(table => table.id));
+    return tableIds.filter(tableId => databaseTableIds.has(tableId));
+  }
+
+  const personaUpdateSchema = insertAgentPersonaSchema.omit({ databaseId: true }).partial();
+  const personaMergeSchema = z.object({
+    sourcePersonaIds: z.array(z.string()).min(1),
+    name: z.string().optional(),
+    description: z.string().optional()
+  });
+  const personaCloneSchema = z.object({ name: z.string().optional() });
+  const personaSuggestionAcceptSchema = z.object({
+    personas: z.array(insertAgentPersonaSchema.omit({ databaseId: true }).extend({
+      keywords: z.array(z.string()).default([]),
+      tableIds: z.array(z.string()).min(1)
+    })).min(1)
+  });
+
+  const personaKeywords = (persona: AgentPersona): string[] =>
+    Array.isArray(persona.keywords) ? persona.keywords as string[] : [];
+
+  /**
+   * Apply a persona change to the knowledge graph. The graph may not be built
+   * (or Neo4j may be down), so failures are logged and reported, never thrown.
+   */
+  async function syncPersonaGraph(action: string, databaseId: string, sync: (graph: Neo4jService) => Promise<void>): Promise<boolean> {
     try {
-      const personaData = insertAgentPersonaSchema.parse(req.body);
-      const persona = await storage.createAgentPersona(personaData);
-      
-      // Trigger cross-model discovery if shared mode is enabled
-      if (neo4jService.isSharedNodesEnabled()) {
-        try {
-          await performCrossModelDiscovery(persona);
-        } catch (error) {
-          console.error('Cross-model discovery failed (non-fatal):', error);
+      const neo4jConnection = await environmentService.getGraphConnection(databaseId);
+      if (!neo4jConnection) {
+        console.warn(`⚠️  Neo4j connection not found, persona ${action} not synced to the graph`);
+        return false;
+      }
+      return await graphConnectionManager.withGraph(neo4jConnection, async graph => {
+        if (!graph) {
+          console.warn(`⚠️  Failed to connect to Neo4j, persona ${action} not synced to the graph`);
+          return false;
+        }
+        await sync(graph);
+        console.log(`✓ Synced persona ${action} to Neo4j`);
+        return true;
+      });
+    } catch (error) {
+      console.error(`❌ Failed to sync persona ${action} to Neo4j (non-fatal):`, error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  // Cross-model discovery questions name the personas sharing a table; they are meaningless once one is gone
+  async function removeCrossModelQuestions(databaseId: string, personaId: string): Promise<number> {
+    const staleQuestions = (await storage.getQuestionsByDatabaseId(databaseId)).filter(question => {
+      const options = question.options as any;
+      return options?.discoveryType === 'cross-model-overlap' && (
+        options.personaId === personaId ||
+        (options.existingPersonas || []).some((existing: { id: string }) => existing.id === personaId)
+      );
+    });
+    for (const question of staleQuestions) {
+      await storage.deleteSmeQuestion(question.id);
+    }
+    return staleQuestions.length;
+  }
+
+  app.post("/api/agent-personas", async (req, res) => {
+    try {
+      const personaData = insertAgentPersonaSchema.parse(req.body);
+      const tableIds = personaTablesUpdateSchema.shape.tableIds.optional().parse(req.body.tableIds);
+      if (!(await canAccess(req, 'database', personaData.databaseId, 'engineer'))) {
+        return res.status(403).json({ error: "Creating personas needs an engineer role or higher on this database" });
+      }
+      const persona = await storage.createAgentPersona(personaData);
+      if (tableIds) {
+        await storage.setPersonaTables(persona.id, await filterTablesOfDatabase(persona.databaseId, tableIds));
+      }
+      
+      // Trigger cross-model discovery if shared mode is enabled
+      if (Neo4jService.isSharedNodesEnabled()) {
+        try {
+          await performCrossModelDiscovery(persona);
+        } catch (error) {
+          console.error('Cross-model discovery failed (non-fatal):', error);
           // Don't fail persona creation if discovery fails
         }
       }
@@ -2569,6 +3346,577 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Persona table membership
+  // Propose personas from the validated join graph; nothing is saved until accepted
+  app.post("/api/databases/:id/persona-suggestions", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const database = await storage.getDatabase(id);
+      if (!database) {
+        return res.status(404).json({ error: "Database not found" });
+      }
+      const result = await personaSuggester.suggest(id);
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to suggest personas" });
+    }
+  });
+
+  // Save suggestions as reviewed (and possibly edited) by the user
+  app.post("/api/databases/:id/persona-suggestions/accept", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { personas } = personaSuggestionAcceptSchema.parse(req.body);
+      const database = await storage.getDatabase(id);
+      if (!database) {
+        return res.status(404).json({ error: "Database not found" });
+      }
+
+      const created: AgentPersona[] = [];
+      for (const { tableIds, ...personaData } of personas) {
+        const persona = await storage.createAgentPersona({ ...personaData, databaseId: id });
+        await storage.setPersonaTables(persona.id, await filterTablesOfDatabase(id, tableIds));
+        created.push(persona);
+      }
+
+      if (Neo4jService.isSharedNodesEnabled()) {
+        for (const persona of created) {
+          try {
+            await performCrossModelDiscovery(persona);
+          } catch (error) {
+            console.error('Cross-model discovery failed (non-fatal):', error);
+          }
+        }
+      }
+
+      console.log(`✅ Accepted ${created.length} suggested personas for database ${id}`);
+      res.json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to save personas" });
+    }
+  });
+
+  app.get("/api/databases/:id/persona-tables", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const assignments = await storage.getPersonaTablesByDatabaseId(id);
+      res.json(assignments);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch persona tables" });
+    }
+  });
+
+  app.get("/api/agent-personas/:id/tables", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const persona = await storage.getAgentPersona(id);
+      if (!persona) {
+        return res.status(404).json({ error: "Persona not found" });
+      }
+      const personaTables = await storage.getTablesByPersonaId(id);
+      res.json(personaTables);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch persona tables" });
+    }
+  });
+
+  // Replace the persona's table set
+  app.put("/api/agent-personas/:id/tables", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { tableIds } = personaTablesUpdateSchema.parse(req.body);
+      const persona = await storage.getAgentPersona(id);
+      if (!persona) {
+        return res.status(404).json({ error: "Persona not found" });
+      }
+
+      const validTableIds = await filterTablesOfDatabase(persona.databaseId, tableIds);
+      if (validTableIds.length !== new Set(tableIds).size) {
+        return res.status(400).json({ error: "Some tables do not belong to this persona's database" });
+      }
+      await storage.setPersonaTables(id, validTableIds);
+
+      // New memberships may overlap with tables other personas already own in the graph
+      if (Neo4jService.isSharedNodesEnabled()) {
+        try {
+          await performCrossModelDiscovery(persona);
+        } catch (error) {
+          console.error('Cross-model discovery failed (non-fatal):', error);
+        }
+      }
+
+      res.json(await storage.getTablesByPersonaId(id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to update persona tables" });
+    }
+  });
+
+  app.post("/api/agent-personas/:id/tables", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { tableId } = z.object({ tableId: z.string() }).parse(req.body);
+      const persona = await storage.getAgentPersona(id);
+      if (!persona) {
+        return res.status(404).json({ error: "Persona not found" });
+      }
+      if ((await filterTablesOfDatabase(persona.databaseId, [tableId])).length === 0) {
+        return res.status(400).json({ error: "Table does not belong to this persona's database" });
+      }
+
+      await storage.addTableToPersona(id, tableId);
+      res.json(await storage.getTablesByPersonaId(id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to add table to persona" });
+    }
+  });
+
+  app.delete("/api/agent-personas/:id/tables/:tableId", async (req, res) => {
+    try {
+      const { id, tableId } = req.params;
+      const persona = await storage.getAgentPersona(id);
+      if (!persona) {
+        return res.status(404).json({ error: "Persona not found" });
+      }
+
+      await storage.removeTableFromPersona(id, tableId);
+      res.json(await storage.getTablesByPersonaId(id));
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to remove table from persona" });
+    }
+  });
+
+  app.patch("/api/agent-personas/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const updates = personaUpdateSchema.parse(req.body);
+      if (Object.keys(updates).length === 0) {
+        return res.status(400).json({ error: "No persona fields to update" });
+      }
+      const persona = await storage.updateAgentPersona(id, updates);
+      if (!persona) {
+        return res.status(404).json({ error: "Persona not found" });
+      }
+      const graphSynced = await syncPersonaGraph('update', persona.databaseId, graph => graph.updateAgentPersona({
+        id: persona.id,
+        name: persona.name,
+        description: persona.description,
+        keywords: personaKeywords(persona)
+      }));
+
+      res.json({ ...persona, graphSynced });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to update persona" });
+    }
+  });
+
+  app.delete("/api/agent-personas/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const persona = await storage.getAgentPersona(id);
+      if (!persona) {
+        return res.status(404).json({ error: "Persona not found" });
+      }
+
+      const removedQuestions = await removeCrossModelQuestions(persona.databaseId, id);
+      await storage.deleteAgentPersona(id);
+      const graphSynced = await syncPersonaGraph('delete', persona.databaseId, graph => graph.deleteAgentPersona(id));
+
+      console.log(`🗑️  Deleted persona ${persona.name} (${id}), removed ${removedQuestions} cross-model questions`);
+      res.json({ success: true, removedQuestions, graphSynced });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to delete persona" });
+    }
+  });
+
+  // Fold one or more personas into this one: tables and keywords are combined, the sources are deleted
+  app.post("/api/agent-personas/:id/merge", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { sourcePersonaIds, name, description } = personaMergeSchema.parse(req.body);
+      const target = await storage.getAgentPersona(id);
+      if (!target) {
+        return res.status(404).json({ error: "Persona not found" });
+      }
+      if (sourcePersonaIds.includes(id)) {
+        return res.status(400).json({ error: "A persona cannot be merged into itself" });
+      }
+
+      const sources: AgentPersona[] = [];
+      for (const sourceId of Array.from(new Set(sourcePersonaIds))) {
+        const source = await storage.getAgentPersona(sourceId);
+        if (!source) {
+          return res.status(404).json({ error: `Persona ${sourceId} not found` });
+        }
+        if (source.databaseId !== target.databaseId) {
+          return res.status(400).json({ error: `Persona ${source.name} belongs to a different database` });
+        }
+        sources.push(source);
+      }
+
+      const tableIds = (await storage.getTablesByPersonaId(id)).map(table => table.id);
+      for (const source of sources) {
+        tableIds.push(...(await storage.getTablesByPersonaId(source.id)).map(table => table.id));
+      }
+      await storage.setPersonaTables(id, tableIds);
+
+      const keywords = Array.from(new Set([target, ...sources].flatMap(personaKeywords)));
+      const merged = await storage.updateAgentPersona(id, {
+        keywords,
+        ...(name !== undefined ? { name } : {}),
+        ...(description !== undefined ? { description } : {})
+      });
+      if (!merged) {
+        return res.status(404).json({ error: "Persona not found" });
+      }
+
+      let removedQuestions = 0;
+      for (const source of sources) {
+        removedQuestions += await removeCrossModelQuestions(source.databaseId, source.id);
+        await storage.deleteAgentPersona(source.id);
+      }
+
+      const graphSynced = await syncPersonaGraph('merge', merged.databaseId, async graph => {
+        await graph.updateAgentPersona({
+          id: merged.id,
+          name: merged.name,
+          description: merged.description,
+          keywords
+        });
+        for (const source of sources) {
+          await graph.mergeAgentPersonas(source.id, merged.id);
+        }
+      });
+
+      // The merged persona may now share tables with personas it did not overlap before
+      if (Neo4jService.isSharedNodesEnabled()) {
+        try {
+          await performCrossModelDiscovery(merged);
+        } catch (error) {
+          console.error('Cross-model discovery failed (non-fatal):', error);
+        }
+      }
+
+      console.log(`🔀 Merged ${sources.map(source => source.name).join(', ')} into persona ${merged.name}`);
+      res.json({
+        persona: merged,
+        tables: await storage.getTablesByPersonaId(id),
+        mergedPersonaIds: sources.map(source => source.id),
+        removedQuestions,
+        graphSynced
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to merge personas" });
+    }
+  });
+
+  app.post("/api/agent-personas/:id/clone", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { name } = personaCloneSchema.parse(req.body ?? {});
+      const source = await storage.getAgentPersona(id);
+      if (!source) {
+        return res.status(404).json({ error: "Persona not found" });
+      }
+
+      const clone = await storage.createAgentPersona({
+        databaseId: source.databaseId,
+        name: name || `${source.name} (copy)`,
+        description: source.description,
+        keywords: personaKeywords(source)
+      });
+      await storage.setPersonaTables(clone.id, (await storage.getTablesByPersonaId(id)).map(table => table.id));
+
+      // No cross-model discovery here: a clone overlaps its source on every table by design
+      const graphSynced = await syncPersonaGraph('clone', clone.databaseId, graph => graph.cloneAgentPersona(id, {
+        id: clone.id,
+        name: clone.name,
+        description: clone.description,
+        keywords: personaKeywords(clone)
+      }));
+
+      res.json({ ...clone, graphSynced });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to clone persona" });
+    }
+  });
+
+  app.get("/api/databases/:id/llm-usage", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const usage = await llmUsageService.summarizeDatabase(id);
+      res.json(usage);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch LLM usage" });
+    }
+  });
+
+  // Context retrieval for downstream agents: persona plus a ranked, token-budgeted bundle
+  const contextQuerySchema = z.object({
+    question: z.string().trim().min(1),
+    personaId: z.string().optional(),
+    tokenBudget: z.number().int().min(200).max(32000).optional(),
+    format: z.enum(['json', 'markdown']).default('json')
+  });
+
+  app.post("/api/databases/:id/context/query", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { question, personaId, tokenBudget, format } = contextQuerySchema.parse(req.body);
+      const database = await storage.getDatabase(id);
+      if (!database) {
+        return res.status(404).json({ error: "Database not found" });
+      }
+
+      const personas = await storage.getPersonasByDatabaseId(id);
+      if (personaId && !personas.some(persona => persona.id === personaId)) {
+        return res.status(404).json({ error: "Persona not found for this database" });
+      }
+      const personaTableMap = await getPersonaTableMap(id, personas);
+
+      const result = await withOptionalGraph(graph =>
+        contextRetriever.retrieve(id, question, personas, personaTableMap, {
+          personaId,
+          tokenBudget,
+          graph
+        }), id);
+      if (format === 'markdown') {
+        return res.type('text/markdown').send(result.markdown);
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to retrieve context" });
+    }
+  });
+
+  // Text-to-SQL check: generate SQL from the persona's context, EXPLAIN it and run it read-only
+  const textToSqlSchema = z.object({
+    question: z.string().trim().min(1),
+    personaId: z.string().optional(),
+    rowLimit: z.number().int().min(1).max(1000).optional()
+  });
+
+  app.post("/api/databases/:id/text-to-sql", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { question, personaId, rowLimit } = textToSqlSchema.parse(req.body);
+      const database = await storage.getDatabase(id);
+      if (!database) {
+        return res.status(404).json({ error: "Database not found" });
+      }
+
+      const personas = await storage.getPersonasByDatabaseId(id);
+      if (personaId && !personas.some(persona => persona.id === personaId)) {
+        return res.status(404).json({ error: "Persona not found for this database" });
+      }
+      const personaTableMap = await getPersonaTableMap(id, personas);
+
+      const result = await withOptionalGraph(graph =>
+        textToSql.answer(id, question, personas, personaTableMap, { personaId, rowLimit, graph }), id);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to generate SQL" });
+    }
+  });
+
+  // Evaluation harness: golden question sets and scored runs
+  const evalCaseBodySchema = insertEvalCaseSchema.omit({ databaseId: true }).extend({
+    question: z.string().trim().min(1),
+    expectedSql: z.string().trim().min(1).nullable().optional()
+  });
+
+  const validateEvalCase = (evalCase: { expectedSql?: string | null; expectedResult?: unknown }) => {
+    if (!evalCase.expectedSql && !evalCase.expectedResult) {
+      return "Provide expectedSql or expectedResult";
+    }
+    return evalCase.expectedSql ? checkReadOnlySql(evalCase.expectedSql).error : undefined;
+  };
+
+  app.get("/api/databases/:id/eval/cases", async (req, res) => {
+    try {
+      const cases = await storage.getEvalCasesByDatabaseId(req.params.id);
+      res.json(cases);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch evaluation cases" });
+    }
+  });
+
+  app.post("/api/databases/:id/eval/cases", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const body = evalCaseBodySchema.parse(req.body);
+      const database = await storage.getDatabase(id);
+      if (!database) {
+        return res.status(404).json({ error: "Database not found" });
+      }
+      const invalid = validateEvalCase(body);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+
+      const evalCase = await storage.createEvalCase({ ...body, databaseId: id });
+      res.json(evalCase);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to create evaluation case" });
+    }
+  });
+
+  app.patch("/api/eval/cases/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const updates = evalCaseBodySchema.partial().parse(req.body);
+      if (Object.keys(updates).length === 0) {
+        return res.status(400).json({ error: "No fields to update" });
+      }
+      const existing = await storage.getEvalCase(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Evaluation case not found" });
+      }
+      const invalid = validateEvalCase({ ...existing, ...updates });
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+
+      const evalCase = await storage.updateEvalCase(id, updates);
+      res.json(evalCase);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to update evaluation case" });
+    }
+  });
+
+  app.delete("/api/eval/cases/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const existing = await storage.getEvalCase(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Evaluation case not found" });
+      }
+      await storage.deleteEvalCase(id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to delete evaluation case" });
+    }
+  });
+
+  app.get("/api/databases/:id/eval/runs", async (req, res) => {
+    try {
+      const runs = await storage.getEvalRunsByDatabaseId(req.params.id);
+      res.json(runs);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch evaluation runs" });
+    }
+  });
+
+  app.post("/api/databases/:id/eval/runs", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { llmConnectionId } = z.object({ llmConnectionId: z.string().optional() }).parse(req.body ?? {});
+      const database = await storage.getDatabase(id);
+      if (!database) {
+        return res.status(404).json({ error: "Database not found" });
+      }
+      if (llmConnectionId && !(await canAccess(req, 'connection', llmConnectionId))) {
+        return res.status(403).json({ error: "You do not have access to this LLM connection" });
+      }
+
+      const personas = await storage.getPersonasByDatabaseId(id);
+      const personaTableMap = await getPersonaTableMap(id, personas);
+      const run = await evaluationService.startRun(id, personas, personaTableMap, {
+        llmConnectionId,
+        withGraph: withOptionalGraph
+      });
+      res.json(run);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to start evaluation run" });
+    }
+  });
+
+  app.get("/api/eval/runs/:id", async (req, res) => {
+    try {
+      const detail = await evaluationService.getRunDetail(req.params.id);
+      if (!detail) {
+        return res.status(404).json({ error: "Evaluation run not found" });
+      }
+      res.json(detail);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch evaluation run" });
+    }
+  });
+
+  // Semantic search over embedded table, column, enum value and SME answer text
+  const semanticSearchSchema = z.object({
+    q: z.string().trim().min(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    types: z.preprocess(
+      types => typeof types === 'string' ? types.split(',').map(type => type.trim()).filter(Boolean) : types,
+      z.array(z.enum(EMBEDDING_ENTITY_TYPES)).optional()
+    )
+  });
+
+  app.post("/api/databases/:id/embeddings/reindex", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const database = await storage.getDatabase(id);
+      if (!database) {
+        return res.status(404).json({ error: "Database not found" });
+      }
+      const result = await embeddingIndex.reindex(id);
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to build embedding index" });
+    }
+  });
+
+  app.get("/api/databases/:id/search", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { q, limit, types } = semanticSearchSchema.parse(req.query);
+      const database = await storage.getDatabase(id);
+      if (!database) {
+        return res.status(404).json({ error: "Database not found" });
+      }
+      const results = await embeddingIndex.search(id, q, { limit, entityTypes: types });
+      res.json(results);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to search" });
+    }
+  });
+
   // Analysis Jobs routes
   app.get("/api/databases/:id/jobs", async (req, res) => {
     try {
@@ -2580,7 +3928,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get individual job by database and job ID
+  // Get individual job by database and job ID, with its LLM spend roll-up
   app.get("/api/databases/:id/jobs/:jobId", async (req, res) => {
     try {
       const { id, jobId } = req.params;
@@ -2591,7 +3939,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Job not found" });
       }
       
-      res.json(job);
+      const llmUsage = await llmUsageService.summarizeJob(jobId);
+      res.json({ ...job, llmUsage });
     } catch (error) {
       res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch job" });
     }
@@ -2640,22 +3989,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         body: req.body,
         headers: req.headers['content-type']
       });
-      // Automatically select Neo4j connection based on environment
-      const neo4jConnectionId = environmentService.getNeo4jConnectionId();
-      console.log('Auto-selected Neo4j connection for build-graph:', neo4jConnectionId);
-      
-      const neo4jConnection = await storage.getConnection(neo4jConnectionId);
+      const neo4jConnection = await environmentService.getGraphConnection(id);
       if (!neo4jConnection) {
         return res.status(404).json({ error: "Neo4j connection not found" });
       }
       
-      // Connect to Neo4j
-      const connected = await neo4jService.connect(neo4jConnection.config as any);
-      if (!connected) {
-        return res.status(500).json({ error: "Failed to connect to Neo4j" });
-      }
-      
-      try {
+      await graphConnectionManager.withGraph(neo4jConnection, async graph => {
+        if (!graph) {
+          return res.status(500).json({ error: "Failed to connect to Neo4j" });
+        }
+
         console.log('Starting knowledge graph build process...');
         
         // If no personas exist, create default personas first
@@ -2672,80 +4015,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
         
         // Use the updateEnhancedKnowledgeGraph function which includes join discovery
-        const stats = await updateEnhancedKnowledgeGraph(id);
+        const stats = await updateEnhancedKnowledgeGraph(graph, id);
         
         console.log(`Graph build completed successfully:`, stats);
         res.json({ success: true, stats });
-        
-      } finally {
-        await neo4jService.disconnect();
-      }
+      });
     } catch (error) {
-      res.status(500).json({ error: error instanceof Error ? error.message : "Graph building failed" });
+      res.status(graphErrorStatus(error)).json({ error: error instanceof Error ? error.message : "Graph building failed" });
     }
   });
 
   // Temporary endpoint to clear knowledge graph
-  app.post("/api/databases/:id/clear-graph", async (req, res) => {
+  app.post("/api/databases/:id/clear-graph", requireRole('admin'), async (req, res) => {
     try {
       const { id } = req.params;
-      // Automatically select Neo4j connection based on environment
-      const neo4jConnectionId = environmentService.getNeo4jConnectionId();
-      console.log('Auto-selected Neo4j connection for clear-graph:', neo4jConnectionId);
-      
-      const neo4jConnection = await storage.getConnection(neo4jConnectionId);
+      const neo4jConnection = await environmentService.getGraphConnection(id);
       if (!neo4jConnection) {
         return res.status(404).json({ error: "Neo4j connection not found" });
       }
       
-      const connected = await neo4jService.connect(neo4jConnection.config as any);
-      if (!connected) {
-        return res.status(500).json({ error: "Failed to connect to Neo4j" });
-      }
-      
-      try {
+      await graphConnectionManager.withGraph(neo4jConnection, async graph => {
+        if (!graph) {
+          return res.status(500).json({ error: "Failed to connect to Neo4j" });
+        }
+
         const namespace = `database_${id}`;
-        await neo4jService.clearNamespace(namespace);
+        await graph.clearNamespace(namespace);
         console.log(`Cleared namespace: ${namespace}`);
         res.json({ success: true, message: "Knowledge graph cleared successfully" });
-      } finally {
-        await neo4jService.disconnect();
-      }
+      });
     } catch (error) {
-      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to clear graph" });
+      res.status(graphErrorStatus(error)).json({ error: error instanceof Error ? error.message : "Failed to clear graph" });
     }
   });
 
   app.get("/api/databases/:id/graph-stats", async (req, res) => {
     try {
       const { id } = req.params;
-      // Automatically select Neo4j connection based on environment
-      const neo4jConnectionId = environmentService.getNeo4jConnectionId();
-      
-      const neo4jConnection = await storage.getConnection(neo4jConnectionId as string);
+      const neo4jConnection = await environmentService.getGraphConnection(id);
       if (!neo4jConnection) {
         return res.status(404).json({ error: "Neo4j connection not found" });
       }
       
-      const connected = await neo4jService.connect(neo4jConnection.config as any);
-      if (!connected) {
-        return res.status(500).json({ error: "Failed to connect to Neo4j" });
-      }
-      
-      try {
+      await graphConnectionManager.withGraph(neo4jConnection, async graph => {
+        if (!graph) {
+          return res.status(500).json({ error: "Failed to connect to Neo4j" });
+        }
+
         const namespace = `database_${id}`;
-        const stats = await neo4jService.getGraphStatistics(namespace);
+        const stats = await graph.getGraphStatistics(namespace);
         res.json(stats);
-      } finally {
-        await neo4jService.disconnect();
-      }
+      });
     } catch (error) {
-      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to get graph stats" });
+      res.status(graphErrorStatus(error)).json({ error: error instanceof Error ? error.message : "Failed to get graph stats" });
     }
   });
 
   // Backfill canonical keys for existing Neo4j nodes
-  app.post("/api/neo4j/backfill-canonical-keys", async (req, res) => {
+  app.post("/api/neo4j/backfill-canonical-keys", requireInstanceAdmin, async (req, res) => {
     try {
       console.log('🔄 Starting canonical key backfill migration...');
       const result = await neo4jBackfillService.backfillCanonicalKeys();
@@ -2780,7 +4107,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Deduplicate nodes by merging duplicates with same canonical keys
-  app.post("/api/neo4j/deduplicate-nodes", async (req, res) => {
+  app.post("/api/neo4j/deduplicate-nodes", requireInstanceAdmin, async (req, res) => {
     try {
       console.log('🔄 Starting node deduplication...');
       const result = await neo4jDeduplicationService.deduplicateNodes();
@@ -2817,32 +4144,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
   // Clear Neo4j namespace
-  app.post("/api/databases/:id/clear-neo4j", async (req, res) => {
+  app.post("/api/databases/:id/clear-neo4j", requireRole('admin'), async (req, res) => {
     try {
       const { id } = req.params;
-      const neo4jConnectionId = environmentService.getNeo4jConnectionId();
-      const neo4jConnection = await storage.getConnection(neo4jConnectionId);
+      const neo4jConnection = await environmentService.getGraphConnection(id);
       
       if (!neo4jConnection) {
         return res.status(404).json({ error: "Neo4j connection not found" });
       }
       
-      const connected = await neo4jService.connect(neo4jConnection.config as any);
-      if (!connected) {
-        return res.status(500).json({ error: "Failed to connect to Neo4j" });
-      }
-      
-      try {
+      await graphConnectionManager.withGraph(neo4jConnection, async graph => {
+        if (!graph) {
+          return res.status(500).json({ error: "Failed to connect to Neo4j" });
+        }
+
         const namespace = `database_${id}`;
-        await neo4jService.clearNamespace(namespace);
+        await graph.clearNamespace(namespace);
         
         console.log(`✅ Cleared Neo4j namespace: ${namespace}`);
         res.json({ success: true, namespace });
-      } finally {
-        await neo4jService.disconnect();
-      }
+      });
     } catch (error) {
-      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to clear Neo4j" });
+      res.status(graphErrorStatus(error)).json({ error: error instanceof Error ? error.message : "Failed to clear Neo4j" });
     }
   });
 
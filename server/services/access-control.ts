@@ -0,0 +1,124 @@
+import { roleAtLeast, type Connection, type SmeScope, type WorkspaceRole } from '@shared/schema';
+import { storage } from '../storage';
+
+export type AccessResource =
+  | 'workspace'
+  | 'connection'
+  | 'database'
+  | 'table'
+  | 'smeQuestion'
+  | 'persona'
+  | 'evalCase'
+  | 'evalRun'
+  | 'job';
+
+export type AccessDecision = 'allowed' | 'forbidden' | 'not_found';
+
+// What the caller may do with a resource they can reach
+export interface ResourceAccess {
+  workspaceId: string | null;
+  role: WorkspaceRole;
+  smeScope: SmeScope | null;
+}
+
+export type AccessCheck =
+  | { decision: 'allowed'; access: ResourceAccess }
+  | { decision: 'forbidden' }
+  | { decision: 'not_found' };
+
+/**
+ * Decides whether a user may touch a resource, and in which role. Everything hangs
+ * off a connection (database -> connection, table -> database, ...), and a
+ * connection belongs to a workspace; users reach a resource through their
+ * membership of that workspace.
+ */
+export class AccessControl {
+  async getWorkspaceIds(userId: string): Promise<string[]> {
+    const workspaces = await storage.getWorkspacesByUserId(userId);
+    return workspaces.map(workspace => workspace.id);
+  }
+
+  async getConnectionAccess(userId: string, connection: Connection): Promise<ResourceAccess | null> {
+    if (!connection.workspaceId) {
+      // Saved before workspaces and not yet adopted (see adoptLegacyConnections): private to its creator
+      return connection.userId === userId ? { workspaceId: null, role: 'admin', smeScope: null } : null;
+    }
+    return this.getWorkspaceAccess(userId, connection.workspaceId);
+  }
+
+  async getWorkspaceAccess(userId: string, workspaceId: string): Promise<ResourceAccess | null> {
+    const member = await storage.getWorkspaceMember(workspaceId, userId);
+    return member ? { workspaceId, role: member.role, smeScope: member.smeScope } : null;
+  }
+
+  async canUseConnection(userId: string, connection: Connection, role: WorkspaceRole = 'viewer'): Promise<boolean> {
+    const access = await this.getConnectionAccess(userId, connection);
+    return !!access && roleAtLeast(access.role, role);
+  }
+
+  async check(userId: string, resource: AccessResource, id: string): Promise<AccessCheck> {
+    let access: ResourceAccess | null;
+    if (resource === 'workspace') {
+      if (!(await storage.getWorkspace(id))) return { decision: 'not_found' };
+      access = await this.getWorkspaceAccess(userId, id);
+    } else {
+      const connectionId = await this.resolveConnectionId(resource, id);
+      const connection = connectionId ? await storage.getConnection(connectionId) : undefined;
+      if (!connection) return { decision: 'not_found' };
+      access = await this.getConnectionAccess(userId, connection);
+    }
+    return access ? { decision: 'allowed', access } : { decision: 'forbidden' };
+  }
+
+  /**
+   * Tables whose SME questions the caller may see and answer, or null for all of
+   * them. Only SME reviewers with a scope are restricted.
+   */
+  async getSmeTableScope(access: ResourceAccess): Promise<Set<string> | null> {
+    if (access.role !== 'sme_reviewer' || !access.smeScope) return null;
+
+    const tableIds = new Set(access.smeScope.tableIds);
+    for (const personaId of access.smeScope.personaIds) {
+      (await storage.getTablesByPersonaId(personaId)).forEach(table => tableIds.add(table.id));
+    }
+    return tableIds;
+  }
+
+  /**
+   * Walks from a resource up to the connection it was profiled from
+   */
+  private async resolveConnectionId(resource: Exclude<AccessResource, 'workspace'>, id: string): Promise<string | undefined> {
+    switch (resource) {
+      case 'connection':
+        return id;
+      case 'database':
+        return (await storage.getDatabase(id))?.connectionId;
+      case 'table': {
+        const table = await storage.getTable(id);
+        return table ? this.resolveConnectionId('database', table.databaseId) : undefined;
+      }
+      case 'smeQuestion': {
+        const question = await storage.getSmeQuestionById(id);
+        return question?.tableId ? this.resolveConnectionId('table', question.tableId) : undefined;
+      }
+      case 'persona': {
+        const persona = await storage.getAgentPersona(id);
+        return persona ? this.resolveConnectionId('database', persona.databaseId) : undefined;
+      }
+      case 'evalCase': {
+        const evalCase = await storage.getEvalCase(id);
+        return evalCase ? this.resolveConnectionId('database', evalCase.databaseId) : undefined;
+      }
+      case 'evalRun': {
+        const run = await storage.getEvalRun(id);
+        return run ? this.resolveConnectionId('database', run.databaseId) : undefined;
+      }
+      case 'job': {
+        const job = await storage.getAnalysisJob(id);
+        return job ? this.resolveConnectionId('database', job.databaseId) : undefined;
+      }
+    }
+  }
+}
+
+export const accessControl = new AccessControl();
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import {
+  attachDistinctValues,
+  buildGroupingSetsDistinctQuery,
+  buildProfileAggregates,
+  buildUnionDistinctQuery,
+  computeNumericDistribution,
+  computeTemporalDistribution,
+  lowCardinalityIndexes,
+  normalizeSamplePercent,
+  readProfileAggregates,
+  type ColumnProfile,
+  type ProfileColumnSpec
+} from './column-profiler';
+
+const columns: ProfileColumnSpec[] = [
+  { columnName: 'id', dataType: 'integer', includeRange: true },
+  { columnName: 'status', dataType: 'text', includeRange: false }
+];
+const quote = (spec: ProfileColumnSpec) => `"${spec.columnName}"`;
+
+describe('buildProfileAggregates', () => {
+  it('computes cardinality and null counts for every column and ranges only where asked', () => {
+    const sql = buildProfileAggregates(columns, quote);
+    expect(sql).toContain('COUNT(*) AS total_rows');
+    expect(sql).toContain('COUNT(DISTINCT "id") AS c0_cardinality');
+    expect(sql).toContain('MIN("id") AS c0_min');
+    expect(sql).toContain('MAX("id") AS c0_max');
+    expect(sql).toContain('COUNT("status") AS c1_non_null');
+    expect(sql).not.toContain('c1_min');
+  });
+});
+
+describe('readProfileAggregates', () => {
+  it('turns the aggregate row into per-column profiles', () => {
+    const profiles = readProfileAggregates(
+      { total_rows: '200', c0_cardinality: '200', c0_non_null: '200', c0_min: 1, c0_max: 200, c1_cardinality: 3, c1_non_null: 150 },
+      columns
+    );
+    expect(profiles).toEqual([
+      { columnName: 'id', cardinality: 200, nullPercentage: 0, minValue: 1, maxValue: 200 },
+      { columnName: 'status', cardinality: 3, nullPercentage: 25, minValue: undefined, maxValue: undefined }
+    ]);
+  });
+
+  it('reports no nulls for an empty table', () => {
+    const [profile] = readProfileAggregates({ total_rows: 0, c0_cardinality: 0, c0_non_null: 0 }, columns);
+    expect(profile.nullPercentage).toBe(0);
+  });
+});
+
+describe('distinct value queries', () => {
+  it('tags each grouping set with its column index', () => {
+    const sql = buildGroupingSetsDistinctQuery([0, 1], columns, quote, 'orders');
+    expect(sql).toContain('WHEN GROUPING("id") = 0 THEN 0 WHEN GROUPING("status") = 0 THEN 1');
+    expect(sql).toContain('GROUP BY GROUPING SETS (("id"), ("status"))');
+  });
+
+  it('pads the other columns with NULL in each UNION branch', () => {
+    const sql = buildUnionDistinctQuery([0, 1], columns, quote, 'orders');
+    const branches = sql.split('\nUNION ALL\n');
+    expect(branches).toHaveLength(2);
+    expect(branches[1]).toContain('SELECT 1 AS column_index, NULL AS v0, "status" AS v1');
+  });
+
+  it('attaches values most frequent first and skips nulls', () => {
+    const profiles: ColumnProfile[] = [
+      { columnName: 'id', cardinality: 2, nullPercentage: 0 },
+      { columnName: 'status', cardinality: 2, nullPercentage: 0 }
+    ];
+    attachDistinctValues(profiles, [
+      { column_index: 1, v1: 'open', frequency: 3 },
+      { column_index: 1, v1: 'closed', frequency: 9 },
+      { column_index: 1, v1: null, frequency: 4 }
+    ]);
+    expect(profiles[0].distinctValues).toBeUndefined();
+    expect(profiles[1].distinctValues).toEqual(['closed', 'open']);
+  });
+
+  it('only fetches values for non-empty columns within the limit', () => {
+    const profiles = [0, 5, 101].map(cardinality => ({ columnName: 'c', cardinality, nullPercentage: 0 }));
+    expect(lowCardinalityIndexes(profiles, 100)).toEqual([1]);
+  });
+});
+
+describe('normalizeSamplePercent', () => {
+  it('treats out-of-range percentages as a full scan', () => {
+    expect(normalizeSamplePercent(undefined)).toBeUndefined();
+    expect(normalizeSamplePercent(0)).toBeUndefined();
+    expect(normalizeSamplePercent(100)).toBeUndefined();
+    expect(normalizeSamplePercent(Number.NaN)).toBeUndefined();
+    expect(normalizeSamplePercent(10)).toBe(10);
+  });
+});
+
+describe('computeNumericDistribution', () => {
+  it('derives mean, stddev and histogram from bucket rows and uses native percentiles', async () => {
+    const queries: string[] = [];
+    const distribution = await computeNumericDistribution(
+      async sql => {
+        queries.push(sql);
+        if (queries.length === 1) {
+          // Values 0, 10 in bucket 0 and 20 in bucket 9
+          return [
+            { bucket: 0, count: 2, total: 10, total_squares: 100, zero_count: 1, negative_count: 0 },
+            { bucket: 9, count: 1, total: 20, total_squares: 400, zero_count: 0, negative_count: 0 }
+          ];
+        }
+        return [{ p0: 0, p1: 5, p2: '10', p3: 15, p4: null }];
+      },
+      'v',
+      { min: 0, max: 20 },
+      't',
+      fractions => `percentiles ${fractions.join(',')}`
+    );
+
+    expect(distribution.mean).toBe(10);
+    expect(distribution.stddev).toBe(10);
+    expect(distribution.zeroCount).toBe(1);
+    expect(distribution.histogram).toHaveLength(10);
+    expect(distribution.histogram[0]).toMatchObject({ lower: 0, upper: 2, count: 2 });
+    expect(distribution.histogram[9].count).toBe(1);
+    expect(distribution.percentiles).toEqual({ p1: 0, p25: 5, p50: 10, p75: 15, p99: null });
+  });
+
+  it('picks nearest-rank rows when the engine has no percentile aggregate', async () => {
+    const distribution = await computeNumericDistribution(
+      async sql => sql.includes('ROW_NUMBER')
+        ? [{ rn: 1, v: 1 }, { rn: 2, v: 2 }, { rn: 3, v: 3 }, { rn: 4, v: 4 }]
+        : [{ bucket: 0, count: 5, total: 15, total_squares: 55, zero_count: 0, negative_count: 0 }],
+      'v',
+      { min: 1, max: 5 },
+      't'
+    );
+    expect(distribution.percentiles).toEqual({ p1: 1, p25: 2, p50: 3, p75: 4, p99: 4 });
+  });
+
+  it('returns a single bucket and no percentiles for an empty column', async () => {
+    const distribution = await computeNumericDistribution(async () => [], 'v', { min: 3, max: 3 }, 't');
+    expect(distribution.histogram).toEqual([{ lower: 3, upper: 3, count: 0 }]);
+    expect(distribution.mean).toBeNull();
+    expect(distribution.percentiles.p50).toBeNull();
+  });
+});
+
+describe('computeTemporalDistribution', () => {
+  it('orders months and takes first and last seen from the ends', async () => {
+    const distribution = await computeTemporalDistribution(
+      async () => [
+        { month: '2024-02', count: 4, first_seen: new Date('2024-02-03T00:00:00Z'), last_seen: new Date('2024-02-20T00:00:00Z') },
+        { month: '2024-01', count: 2, first_seen: '2024-01-05', last_seen: '2024-01-30' },
+        { month: null, count: 1, first_seen: null, last_seen: null }
+      ],
+      'created_at',
+      "to_char(created_at, 'YYYY-MM')",
+      't'
+    );
+    expect(distribution).toEqual({
+      kind: 'temporal',
+      firstSeen: '2024-01-05',
+      lastSeen: '2024-02-20T00:00:00.000Z',
+      monthlyCounts: [{ month: '2024-01', count: 2 }, { month: '2024-02', count: 4 }]
+    });
+  });
+});
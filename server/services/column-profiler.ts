@@ -0,0 +1,282 @@
+import type { NumericDistribution, TemporalDistribution, HistogramBucket } from '@shared/schema';
+
+export interface ProfileColumnSpec {
+  columnName: string;
+  dataType: string;
+  includeRange: boolean; // MIN/MAX are only computed where they are meaningful (numeric columns)
+}
+
+export interface ProfileOptions {
+  schemaName?: string;
+  samplePercent?: number; // TABLESAMPLE SYSTEM percentage, ignored by engines without block sampling
+  distinctLimit?: number; // Columns at or under this cardinality also get their distinct values
+}
+
+export interface ColumnProfile {
+  columnName: string;
+  cardinality: number;
+  nullPercentage: number;
+  minValue?: any;
+  maxValue?: any;
+  distinctValues?: any[];
+}
+
+export const DEFAULT_DISTINCT_LIMIT = 100;
+
+// Keeps the aggregate SELECT list (4 expressions per column) well under PostgreSQL's 1664 target limit
+export const PROFILE_BATCH_SIZE = 100;
+
+/**
+ * Build the SELECT list computing every column's stats in one aggregate pass.
+ * `expr` returns the engine-specific expression for a column (quoted, cast if needed).
+ */
+export function buildProfileAggregates(columns: ProfileColumnSpec[], expr: (spec: ProfileColumnSpec) => string): string {
+  const aggregates = ['COUNT(*) AS total_rows'];
+  columns.forEach((spec, i) => {
+    const column = expr(spec);
+    aggregates.push(`COUNT(DISTINCT ${column}) AS c${i}_cardinality`);
+    aggregates.push(`COUNT(${column}) AS c${i}_non_null`);
+    if (spec.includeRange) {
+      aggregates.push(`MIN(${column}) AS c${i}_min`);
+      aggregates.push(`MAX(${column}) AS c${i}_max`);
+    }
+  });
+  return aggregates.join(',\n        ');
+}
+
+/**
+ * Turn the single aggregate row back into per-column profiles
+ */
+export function readProfileAggregates(row: Record<string, any>, columns: ProfileColumnSpec[]): ColumnProfile[] {
+  const totalRows = Number(row.total_rows) || 0;
+  return columns.map((spec, i) => {
+    const nonNull = Number(row[`c${i}_non_null`]) || 0;
+    return {
+      columnName: spec.columnName,
+      cardinality: Number(row[`c${i}_cardinality`]) || 0,
+      nullPercentage: totalRows === 0 ? 0 : ((totalRows - nonNull) * 100.0) / totalRows,
+      minValue: spec.includeRange ? row[`c${i}_min`] : undefined,
+      maxValue: spec.includeRange ? row[`c${i}_max`] : undefined
+    };
+  });
+}
+
+/**
+ * Distinct values for several columns in a single scan (PostgreSQL, DuckDB).
+ * Each grouping set yields one column's values; GROUPING() tells which one.
+ */
+export function buildGroupingSetsDistinctQuery(
+  indexes: number[],
+  columns: ProfileColumnSpec[],
+  expr: (spec: ProfileColumnSpec) => string,
+  source: string
+): string {
+  const exprs = indexes.map(i => expr(columns[i]));
+  const columnIndex = indexes.map((i, n) => `WHEN GROUPING(${exprs[n]}) = 0 THEN ${i}`).join(' ');
+  const values = indexes.map((i, n) => `${exprs[n]} AS v${i}`).join(', ');
+  const groupingSets = exprs.map(e => `(${e})`).join(', ');
+  return `
+      SELECT CASE ${columnIndex} END AS column_index, ${values}, COUNT(*) AS frequency
+      FROM ${source}
+      GROUP BY GROUPING SETS (${groupingSets})
+    `;
+}
+
+/**
+ * Distinct values for several columns in one statement for engines without GROUPING SETS (MySQL, SQLite)
+ */
+export function buildUnionDistinctQuery(
+  indexes: number[],
+  columns: ProfileColumnSpec[],
+  expr: (spec: ProfileColumnSpec) => string,
+  source: string
+): string {
+  return indexes.map(i => {
+    const column = expr(columns[i]);
+    const values = indexes.map(j => (j === i ? `${column} AS v${j}` : `NULL AS v${j}`)).join(', ');
+    return `SELECT ${i} AS column_index, ${values}, COUNT(*) AS frequency FROM ${source} WHERE ${column} IS NOT NULL GROUP BY ${column}`;
+  }).join('\nUNION ALL\n');
+}
+
+/**
+ * Indexes of profiled columns whose distinct values are worth fetching
+ */
+export function lowCardinalityIndexes(profiles: ColumnProfile[], distinctLimit: number): number[] {
+  return profiles
+    .map((profile, i) => (profile.cardinality > 0 && profile.cardinality <= distinctLimit ? i : -1))
+    .filter(i => i >= 0);
+}
+
+/**
+ * Clamp a sampling percentage; undefined means "scan the whole table"
+ */
+export function normalizeSamplePercent(samplePercent?: number): number | undefined {
+  if (samplePercent === undefined || !Number.isFinite(samplePercent)) return undefined;
+  if (samplePercent <= 0 || samplePercent >= 100) return undefined;
+  return samplePercent;
+}
+
+// Same seed for the aggregate and distinct queries so both read the same sampled blocks
+export const SAMPLE_SEED = 42;
+
+/**
+ * Distinct value rows come back as { column_index, v0..vN, frequency }; attach the
+ * values (most frequent first) to the matching profiles.
+ */
+export function attachDistinctValues(profiles: ColumnProfile[], rows: Record<string, any>[]): void {
+  const byIndex = new Map<number, Array<{ value: any; frequency: number }>>();
+  for (const row of rows) {
+    const index = Number(row.column_index);
+    const value = row[`v${index}`];
+    if (value === null || value === undefined) continue;
+
+    const values = byIndex.get(index) || [];
+    values.push({ value, frequency: Number(row.frequency) || 0 });
+    byIndex.set(index, values);
+  }
+
+  byIndex.forEach((values, index) => {
+    values.sort((a, b) => b.frequency - a.frequency);
+    profiles[index].distinctValues = values.map(v => v.value);
+  });
+}
+
+export const PROFILE_PERCENTILES = [0.01, 0.25, 0.5, 0.75, 0.99] as const;
+export const HISTOGRAM_BUCKETS = 10;
+// Ten years of monthly counts is plenty for spotting gaps and trends
+export const MAX_MONTHLY_BUCKETS = 120;
+
+type RunQuery = (sql: string) => Promise<Record<string, any>[]>;
+
+/**
+ * Histogram, mean/stddev, zero/negative counts and percentiles for a numeric column.
+ *
+ * `value` is the column expression cast to a floating point type. The histogram
+ * query also returns per-bucket sums so mean and stddev come out of the same scan.
+ * Engines with a native percentile aggregate pass `percentileQuery` (returning one
+ * row with p0..p4); the rest fall back to picking rows by rank.
+ */
+export async function computeNumericDistribution(
+  run: RunQuery,
+  value: string,
+  range: { min: number; max: number },
+  source: string,
+  percentileQuery?: (fractions: readonly number[]) => string
+): Promise<NumericDistribution> {
+  const width = (range.max - range.min) / HISTOGRAM_BUCKETS;
+  const bucket = width > 0
+    ? `CASE WHEN ${value} >= (${range.max}) THEN ${HISTOGRAM_BUCKETS - 1} ELSE FLOOR((${value} - (${range.min})) / ${width}) END`
+    : '0';
+
+  const bucketRows = await run(`
+    SELECT ${bucket} AS bucket,
+      COUNT(*) AS count,
+      SUM(${value}) AS total,
+      SUM(${value} * ${value}) AS total_squares,
+      SUM(CASE WHEN ${value} = 0 THEN 1 ELSE 0 END) AS zero_count,
+      SUM(CASE WHEN ${value} < 0 THEN 1 ELSE 0 END) AS negative_count
+    FROM ${source}
+    WHERE ${value} IS NOT NULL
+    GROUP BY 1
+  `);
+
+  const bucketCount = width > 0 ? HISTOGRAM_BUCKETS : 1;
+  const histogram: HistogramBucket[] = Array.from({ length: bucketCount }, (_, i) => ({
+    lower: range.min + i * width,
+    upper: width > 0 ? range.min + (i + 1) * width : range.max,
+    count: 0
+  }));
+
+  let n = 0, total = 0, totalSquares = 0, zeroCount = 0, negativeCount = 0;
+  for (const row of bucketRows) {
+    const index = Math.min(Math.max(Number(row.bucket) || 0, 0), bucketCount - 1);
+    const count = Number(row.count) || 0;
+    histogram[index].count += count;
+    n += count;
+    total += Number(row.total) || 0;
+    totalSquares += Number(row.total_squares) || 0;
+    zeroCount += Number(row.zero_count) || 0;
+    negativeCount += Number(row.negative_count) || 0;
+  }
+
+  const mean = n > 0 ? total / n : null;
+  const stddev = n > 1 ? Math.sqrt(Math.max(0, (totalSquares - (total * total) / n) / (n - 1))) : null;
+
+  let percentileValues: Array<number | null>;
+  if (n === 0) {
+    percentileValues = PROFILE_PERCENTILES.map(() => null);
+  } else if (percentileQuery) {
+    const [row] = await run(percentileQuery(PROFILE_PERCENTILES));
+    percentileValues = PROFILE_PERCENTILES.map((_, i) => toNumberOrNull(row?.[`p${i}`]));
+  } else {
+    // Nearest-rank percentiles: rank r holds the value at (r - 1) / (n - 1)
+    const ranks = PROFILE_PERCENTILES.map(p => Math.floor((n - 1) * p) + 1);
+    const rankRows = await run(`
+      SELECT rn, v FROM (
+        SELECT ${value} AS v, ROW_NUMBER() OVER (ORDER BY ${value}) AS rn
+        FROM ${source}
+        WHERE ${value} IS NOT NULL
+      ) ranked
+      WHERE rn IN (${Array.from(new Set(ranks)).join(', ')})
+    `);
+    const byRank = new Map(rankRows.map(row => [Number(row.rn), toNumberOrNull(row.v)]));
+    percentileValues = ranks.map(rank => byRank.get(rank) ?? null);
+  }
+
+  const [p1, p25, p50, p75, p99] = percentileValues;
+  return {
+    kind: 'numeric',
+    mean,
+    stddev,
+    percentiles: { p1, p25, p50, p75, p99 },
+    zeroCount,
+    negativeCount,
+    histogram
+  };
+}
+
+/**
+ * First/last seen and monthly row counts for a date or timestamp column.
+ * `monthExpr` formats the column as 'YYYY-MM' in the engine's dialect.
+ */
+export async function computeTemporalDistribution(
+  run: RunQuery,
+  column: string,
+  monthExpr: string,
+  source: string
+): Promise<TemporalDistribution> {
+  const rows = await run(`
+    SELECT ${monthExpr} AS month, COUNT(*) AS count, MIN(${column}) AS first_seen, MAX(${column}) AS last_seen
+    FROM ${source}
+    WHERE ${column} IS NOT NULL
+    GROUP BY 1
+  `);
+
+  const months = rows
+    .filter(row => row.month !== null && row.month !== undefined)
+    .map(row => ({
+      month: String(row.month),
+      count: Number(row.count) || 0,
+      firstSeen: toIsoString(row.first_seen),
+      lastSeen: toIsoString(row.last_seen)
+    }))
+    .sort((a, b) => a.month.localeCompare(b.month));
+
+  return {
+    kind: 'temporal',
+    firstSeen: months.length > 0 ? months[0].firstSeen : null,
+    lastSeen: months.length > 0 ? months[months.length - 1].lastSeen : null,
+    monthlyCounts: months.slice(-MAX_MONTHLY_BUCKETS).map(({ month, count }) => ({ month, count }))
+  };
+}
+
+function toNumberOrNull(value: any): number | null {
+  if (value === null || value === undefined) return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+function toIsoString(value: any): string | null {
+  if (value === null || value === undefined) return null;
+  return value instanceof Date ? value.toISOString() : String(value);
+}
@@ -0,0 +1,139 @@
+import type { Connection } from '@shared/schema';
+import { createSourceAdapter, type SourceAdapter } from './source-adapter';
+
+interface PoolEntry {
+  adapter: SourceAdapter;
+  configKey: string;
+  refCount: number;
+  ready: Promise<boolean>;
+  idleTimer?: NodeJS.Timeout;
+  retired: boolean;
+}
+
+const DEFAULT_IDLE_TIMEOUT_MS = 60_000;
+
+/**
+ * Hands out source database adapters keyed by connection id.
+ *
+ * Every job gets the adapter for its own connection, so statistics on one
+ * database and join discovery on another never share (or tear down) a pool.
+ * Adapters are ref-counted: the pool stays open while any caller holds it and
+ * is closed after sitting idle for `idleTimeoutMs`.
+ */
+export class ConnectionManager {
+  private entries = new Map<string, PoolEntry>();
+
+  constructor(private idleTimeoutMs: number = DEFAULT_IDLE_TIMEOUT_MS) {}
+
+  /**
+   * Run `fn` with a connected adapter for the given connection, releasing it afterwards
+   */
+  async withConnection<T>(connection: Connection, fn: (adapter: SourceAdapter) => Promise<T>): Promise<T> {
+    const entry = await this.acquire(connection);
+    try {
+      return await fn(entry.adapter);
+    } finally {
+      await this.release(connection.id, entry);
+    }
+  }
+
+  /**
+   * Close the pool for a connection, e.g. after its config changed or it was deleted.
+   * Callers still holding it keep working until they release.
+   */
+  async evict(connectionId: string): Promise<void> {
+    const entry = this.entries.get(connectionId);
+    if (!entry) {
+      return;
+    }
+
+    this.entries.delete(connectionId);
+    entry.retired = true;
+    if (entry.refCount === 0) {
+      await this.close(connectionId, entry);
+    }
+  }
+
+  async closeAll(): Promise<void> {
+    await Promise.all(Array.from(this.entries.keys()).map(connectionId => this.evict(connectionId)));
+  }
+
+  private async acquire(connection: Connection): Promise<PoolEntry> {
+    const configKey = JSON.stringify({ type: connection.type, config: connection.config });
+
+    let entry = this.entries.get(connection.id);
+    if (entry && entry.configKey !== configKey) {
+      // Connection was edited since the pool was opened; stop handing out the old one
+      await this.evict(connection.id);
+      entry = undefined;
+    }
+
+    if (!entry) {
+      const adapter = createSourceAdapter(connection.type);
+      entry = {
+        adapter,
+        configKey,
+        refCount: 0,
+        ready: adapter.connect(connection.config as any),
+        retired: false
+      };
+      this.entries.set(connection.id, entry);
+    }
+
+    entry.refCount++;
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer);
+      entry.idleTimer = undefined;
+    }
+
+    const connected = await entry.ready;
+    if (!connected) {
+      entry.refCount--;
+      if (this.entries.get(connection.id) === entry) {
+        this.entries.delete(connection.id);
+      }
+      throw new Error('Failed to connect to source database');
+    }
+
+    return entry;
+  }
+
+  private async release(connectionId: string, entry: PoolEntry): Promise<void> {
+    entry.refCount--;
+    if (entry.refCount > 0) {
+      return;
+    }
+
+    if (entry.retired) {
+      await this.close(connectionId, entry);
+      return;
+    }
+
+    entry.idleTimer = setTimeout(() => {
+      if (entry.refCount === 0 && this.entries.get(connectionId) === entry) {
+        this.entries.delete(connectionId);
+        this.close(connectionId, entry);
+      }
+    }, this.idleTimeoutMs);
+    // Idle pools should never keep the process alive
+    entry.idleTimer.unref();
+  }
+
+  private async close(connectionId: string, entry: PoolEntry): Promise<void> {
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer);
+      entry.idleTimer = undefined;
+    }
+
+    try {
+      await entry.adapter.disconnect();
+      console.log(`🔌 Closed source pool for connection ${connectionId}`);
+    } catch (error) {
+      console.error(`Failed to close source pool for connection ${connectionId}:`, error);
+    }
+  }
+}
+
+export const connectionManager = new ConnectionManager(
+  parseInt(process.env.SOURCE_POOL_IDLE_TIMEOUT_MS || '', 10) || DEFAULT_IDLE_TIMEOUT_MS
+);
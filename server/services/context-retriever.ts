@@ -0,0 +1,442 @@
+import { storage } from '../storage';
+import type { Neo4jService } from './neo4j-service';
+import { piiMasker } from './pii-masker';
+import type { TableDescription } from './gemini';
+import type {
+  AgentPersona, Column, ContextBundleJoin, ContextBundleSmeAnswer, ContextBundleTable,
+  ContextQueryResult, MaskingPolicy, Table
+} from '@shared/schema';
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 4000;
+const MAX_VALUES_PER_COLUMN = 20;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'did', 'do', 'does', 'each', 'for', 'from', 'give',
+  'has', 'have', 'how', 'in', 'is', 'it', 'list', 'many', 'me', 'much', 'my', 'of', 'on', 'or', 'our',
+  'per', 'show', 'that', 'the', 'their', 'there', 'this', 'to', 'was', 'we', 'were', 'what', 'when',
+  'where', 'which', 'who', 'with'
+]);
+
+interface CandidateColumn {
+  column: Column;
+  description?: string;
+  values: Array<{ value: string; meaning?: string }>;
+  matchedValues: Set<string>;
+  isKey: boolean;
+  score: number;
+}
+
+interface CandidateTable {
+  table: Table;
+  description?: string;
+  columns: CandidateColumn[];
+  score: number;
+}
+
+export interface ContextQueryOptions {
+  personaId?: string;
+  tokenBudget?: number;
+  graph?: Neo4jService | null; // The database's connected graph; overlays graph column and value context
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    .map(token => token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token);
+}
+
+function countHits(questionTokens: Set<string>, text: string | null | undefined): number {
+  if (!text) return 0;
+  return Array.from(new Set(tokenize(text))).filter(token => questionTokens.has(token)).length;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Running token count for the bundle. Items that don't fit are skipped and the
+ * bundle is flagged as truncated.
+ */
+class TokenBudget {
+  used = 0;
+  truncated = false;
+
+  constructor(private limit: number) {}
+
+  take(text: string): boolean {
+    const cost = estimateTokens(text) + 1;
+    if (this.used + cost > this.limit) {
+      this.truncated = true;
+      return false;
+    }
+    this.used += cost;
+    return true;
+  }
+}
+
+const tableHeading = (table: { schema: string; name: string; rowCount?: number | null }) =>
+  `### ${table.schema}.${table.name}${table.rowCount != null ? ` (~${table.rowCount} rows)` : ''}`;
+const columnLine = (column: { name: string; dataType: string; description?: string }) =>
+  `- \`${column.name}\` ${column.dataType}${column.description ? `: ${column.description}` : ''}`;
+const valueLine = (value: { value: string; meaning?: string }) =>
+  `  - \`${value.value}\`${value.meaning ? `: ${value.meaning}` : ''}`;
+const joinLine = (join: ContextBundleJoin) =>
+  `- \`${join.fromTable}.${join.fromColumn}\` = \`${join.toTable}.${join.toColumn}\``;
+const smeLine = (answer: ContextBundleSmeAnswer) =>
+  `- ${answer.table}${answer.column ? `.${answer.column}` : ''}: ${answer.question} → ${answer.answer}`;
+
+/**
+ * Answers "what context does an agent need for this question": picks the best
+ * matching persona, ranks its tables, columns, value meanings, validated joins
+ * and SME answers against the question, and packs them into a token budget.
+ * Catalog data in Postgres is the base; when Neo4j is connected the persona's
+ * graph context (SME-merged column descriptions, value meanings) overlays it.
+ */
+export class ContextRetriever {
+  async retrieve(
+    databaseId: string,
+    question: string,
+    personas: AgentPersona[],
+    personaTableMap: Map<string, Table[]>,
+    options: ContextQueryOptions = {}
+  ): Promise<ContextQueryResult> {
+    const tokenBudget = options.tokenBudget ?? DEFAULT_CONTEXT_TOKEN_BUDGET;
+    const questionTokens = new Set(tokenize(question));
+    const maskingPolicy = (await storage.getDatabase(databaseId))?.maskingPolicy;
+
+    const allTables = personas.length > 0
+      ? Array.from(new Map(Array.from(personaTableMap.values()).flat().map(table => [table.id, table])).values())
+      : await storage.getSelectedTables(databaseId);
+    const candidates = await this.loadCandidates(databaseId, allTables, maskingPolicy);
+    candidates.forEach(candidate => this.scoreTable(candidate, questionTokens));
+
+    // Persona: the requested one, else the one whose keywords and tables match best
+    let persona: AgentPersona | undefined;
+    let personaScore = 0;
+    if (options.personaId) {
+      persona = personas.find(p => p.id === options.personaId);
+      if (!persona) {
+        throw new Error(`Persona ${options.personaId} not found for this database`);
+      }
+      personaScore = this.scorePersona(persona, personaTableMap, candidates, questionTokens);
+    } else {
+      for (const candidate of personas) {
+        const score = this.scorePersona(candidate, personaTableMap, candidates, questionTokens);
+        const tableCount = personaTableMap.get(candidate.id)?.length ?? 0;
+        const bestTableCount = persona ? personaTableMap.get(persona.id)?.length ?? 0 : -1;
+        // With no signal at all, prefer the persona covering the most tables
+        if (score > personaScore || (score === personaScore && tableCount > bestTableCount)) {
+          persona = candidate;
+          personaScore = score;
+        }
+      }
+    }
+
+    const personaTableIds = new Set((persona ? personaTableMap.get(persona.id) ?? [] : allTables).map(table => table.id));
+    const scoped = candidates.filter(candidate => personaTableIds.has(candidate.table.id));
+
+    let source: ContextQueryResult['source'] = 'catalog';
+    if (persona && options.graph && await this.overlayGraphContext(options.graph, persona.id, scoped)) {
+      source = 'graph';
+      scoped.forEach(candidate => this.scoreTable(candidate, questionTokens));
+    }
+
+    const ranked = [...scoped].sort((a, b) => b.score - a.score);
+    const joins = await this.loadValidatedJoins(scoped);
+    const smeAnswers = await this.loadSmeAnswers(databaseId, scoped, questionTokens);
+
+    const bundle = this.pack(ranked, joins, smeAnswers, persona, tokenBudget);
+    const result: Omit<ContextQueryResult, 'markdown' | 'tokenEstimate'> = {
+      question,
+      persona: persona ? { id: persona.id, name: persona.name, description: persona.description, score: personaScore } : null,
+      source,
+      tables: bundle.tables,
+      joins: bundle.joins,
+      smeAnswers: bundle.smeAnswers,
+      tokenBudget,
+      truncated: bundle.truncated
+    };
+    const markdown = this.renderMarkdown(result);
+    return { ...result, markdown, tokenEstimate: estimateTokens(markdown) };
+  }
+
+  private async loadCandidates(databaseId: string, tables: Table[], maskingPolicy: MaskingPolicy | null | undefined): Promise<CandidateTable[]> {
+    const contexts = new Map((await storage.getContextsByDatabaseId(databaseId)).map(context => [context.tableId, context]));
+    const enumValuesByColumn = new Map<string, Array<{ value: string; meaning?: string }>>();
+    for (const enumValue of await storage.getEnumValuesByDatabaseId(databaseId)) {
+      if (enumValue.deprecatedAt) continue;
+      const values = enumValuesByColumn.get(enumValue.columnId) ?? [];
+      values.push({ value: enumValue.value, meaning: enumValue.aiContext || enumValue.aiHypothesis || undefined });
+      enumValuesByColumn.set(enumValue.columnId, values);
+    }
+
+    const candidates: CandidateTable[] = [];
+    for (const table of tables) {
+      const tableDesc = contexts.get(table.id)?.tableDesc as TableDescription | null | undefined;
+      const columnDescs = (contexts.get(table.id)?.columnDescs as Array<{ column_name: string; description?: string }> | null) ?? [];
+      const foreignKeyColumnIds = new Set((await storage.getForeignKeysByTableId(table.id)).map(fk => fk.fromColumnId));
+
+      const columns = (await storage.getColumnsByTableId(table.id)).map(column => {
+        const stored = enumValuesByColumn.get(column.id)
+          ?? (Array.isArray(column.distinctValues) && (column.cardinality ?? Infinity) <= MAX_VALUES_PER_COLUMN
+            ? (column.distinctValues as any[]).map(value => ({ value: String(value) }))
+            : []);
+        const values = stored.map(entry => ({
+          ...entry,
+          value: String(piiMasker.maskStoredValues(column, [entry.value], maskingPolicy)[0])
+        }));
+        return {
+          column,
+          description: columnDescs.find(desc => desc.column_name === column.name)?.description || column.aiDescription || undefined,
+          values,
+          matchedValues: new Set<string>(),
+          isKey: column.name.toLowerCase() === 'id' || /_id$/i.test(column.name) || foreignKeyColumnIds.has(column.id),
+          score: 0
+        };
+      });
+
+      candidates.push({
+        table,
+        description: tableDesc ? [tableDesc.description, tableDesc.business_purpose].filter(Boolean).join(' ') : undefined,
+        columns,
+        score: 0
+      });
+    }
+    return candidates;
+  }
+
+  private scoreTable(candidate: CandidateTable, questionTokens: Set<string>): void {
+    for (const column of candidate.columns) {
+      column.matchedValues = new Set(column.values
+        .filter(value => countHits(questionTokens, value.value) > 0)
+        .map(value => value.value));
+      column.score = 3 * countHits(questionTokens, column.column.name)
+        + countHits(questionTokens, column.description)
+        + 2 * column.matchedValues.size;
+    }
+    candidate.columns.sort((a, b) => b.score - a.score || Number(b.isKey) - Number(a.isKey));
+    candidate.score = 3 * countHits(questionTokens, candidate.table.name)
+      + countHits(questionTokens, candidate.description)
+      + candidate.columns.reduce((sum, column) => sum + column.score, 0);
+  }
+
+  private scorePersona(
+    persona: AgentPersona,
+    personaTableMap: Map<string, Table[]>,
+    candidates: CandidateTable[],
+    questionTokens: Set<string>
+  ): number {
+    const keywords = Array.isArray(persona.keywords) ? (persona.keywords as string[]).join(' ') : '';
+    const tableIds = new Set((personaTableMap.get(persona.id) ?? []).map(table => table.id));
+    return 2 * countHits(questionTokens, `${persona.name} ${keywords}`)
+      + countHits(questionTokens, persona.description)
+      + candidates.filter(candidate => tableIds.has(candidate.table.id)).reduce((sum, candidate) => sum + candidate.score, 0);
+  }
+
+  /**
+   * Replace catalog descriptions and value meanings with the graph's where it has them.
+   * Returns false when the persona isn't in the graph or Neo4j can't be read.
+   */
+  private async overlayGraphContext(graph: Neo4jService, personaId: string, candidates: CandidateTable[]): Promise<boolean> {
+    try {
+      const graphContext = await graph.getPersonaContext(personaId);
+      if (!graphContext || graphContext.tables.length === 0) return false;
+
+      const graphColumns = new Map(graphContext.tables.flatMap(table => table.columns).map(column => [column.id, column]));
+      for (const candidate of candidates) {
+        for (const column of candidate.columns) {
+          const graphColumn = graphColumns.get(column.column.id);
+          if (!graphColumn) continue;
+          if (graphColumn.description) column.description = graphColumn.description;
+          if (graphColumn.values.length > 0) {
+            column.values = graphColumn.values.map(value => ({
+              value: String(value.value),
+              meaning: value.aiContext || value.aiHypothesis || undefined
+            }));
+          }
+        }
+      }
+      return true;
+    } catch (error) {
+      console.warn('⚠️  Could not read persona context from Neo4j, using catalog context:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  private async loadValidatedJoins(candidates: CandidateTable[]): Promise<Array<ContextBundleJoin & { fromTableId: string; toTableId: string }>> {
+    const columnsById = new Map(candidates.flatMap(candidate =>
+      candidate.columns.map(column => [column.column.id, { table: candidate.table, column: column.column }] as const)));
+    const joins: Array<ContextBundleJoin & { fromTableId: string; toTableId: string }> = [];
+
+    for (const candidate of candidates) {
+      for (const fk of await storage.getForeignKeysByTableId(candidate.table.id)) {
+        const from = columnsById.get(fk.fromColumnId);
+        const to = columnsById.get(fk.toColumnId);
+        if (!fk.isValidated || !from || !to) continue;
+        joins.push({
+          fromTable: from.table.name,
+          fromColumn: from.column.name,
+          toTable: to.table.name,
+          toColumn: to.column.name,
+          fromTableId: from.table.id,
+          toTableId: to.table.id
+        });
+      }
+    }
+    return joins;
+  }
+
+  /**
+   * Answered SME questions on the candidate tables that share words with the question, best first
+   */
+  private async loadSmeAnswers(
+    databaseId: string,
+    candidates: CandidateTable[],
+    questionTokens: Set<string>
+  ): Promise<Array<ContextBundleSmeAnswer & { tableId: string }>> {
+    const tablesById = new Map(candidates.map(candidate => [candidate.table.id, candidate]));
+    return (await storage.getQuestionsByDatabaseId(databaseId))
+      .filter(question => question.isAnswered && question.response && question.tableId && tablesById.has(question.tableId))
+      .map(question => ({ question, hits: countHits(questionTokens, `${question.questionText} ${question.response}`) }))
+      .filter(({ hits }) => hits > 0)
+      .sort((a, b) => b.hits - a.hits)
+      .map(({ question }) => {
+        const candidate = tablesById.get(question.tableId!)!;
+        return {
+          tableId: candidate.table.id,
+          table: candidate.table.name,
+          column: candidate.columns.find(column => column.column.id === question.columnId)?.column.name,
+          question: question.questionText,
+          answer: question.response!
+        };
+      });
+  }
+
+  /**
+   * Fill the budget in order of usefulness for writing SQL:
+   *   1. relevant tables with their matching and key columns (and matching values)
+   *   2. validated joins between included tables
+   *   3. relevant SME answers on included tables
+   *   4. remaining value meanings, then remaining columns
+   * When nothing matches the question, tables are taken in persona order with key columns only.
+   */
+  private pack(
+    ranked: CandidateTable[],
+    joins: Array<ContextBundleJoin & { fromTableId: string; toTableId: string }>,
+    smeAnswers: Array<ContextBundleSmeAnswer & { tableId: string }>,
+    persona: AgentPersona | undefined,
+    tokenBudget: number
+  ) {
+    const budget = new TokenBudget(tokenBudget);
+    budget.take(persona ? `## Context: ${persona.name}\n${persona.description}` : '## Context');
+
+    const included = new Map<string, { candidate: CandidateTable; table: ContextBundleTable; columns: Map<string, CandidateColumn> }>();
+    const bundleColumn = (column: CandidateColumn, values: Array<{ value: string; meaning?: string }>) => ({
+      name: column.column.name,
+      dataType: column.column.dataType,
+      ...(column.description ? { description: column.description } : {}),
+      ...(values.length > 0 ? { values } : {})
+    });
+
+    const relevant = ranked.some(candidate => candidate.score > 0)
+      ? ranked.filter(candidate => candidate.score > 0)
+      : ranked;
+    for (const candidate of relevant) {
+      // A table is only worth including with at least one of its columns
+      const [first, ...rest] = candidate.columns.filter(c => c.score > 0 || c.isKey);
+      const heading = `${tableHeading(candidate.table)}\n${candidate.description ?? ''}`;
+      if (!budget.take(first ? `${heading}\n${columnLine(bundleColumn(first, []))}` : heading)) break;
+      const entry = {
+        candidate,
+        table: {
+          id: candidate.table.id,
+          schema: candidate.table.schema,
+          name: candidate.table.name,
+          ...(candidate.description ? { description: candidate.description } : {}),
+          rowCount: candidate.table.rowCount,
+          relevance: candidate.score,
+          columns: [] as ContextBundleTable['columns']
+        },
+        columns: new Map<string, CandidateColumn>()
+      };
+      included.set(candidate.table.id, entry);
+
+      for (const column of first ? [first, ...rest] : []) {
+        if (column !== first && !budget.take(columnLine(bundleColumn(column, [])))) break;
+        const matched = column.values.filter(value => column.matchedValues.has(value.value));
+        const values = matched.filter(value => budget.take(valueLine(value)));
+        entry.table.columns.push(bundleColumn(column, values));
+        entry.columns.set(column.column.id, column);
+      }
+    }
+
+    const bundleJoins = joins
+      .filter(join => included.has(join.fromTableId) && included.has(join.toTableId))
+      .map(({ fromTableId, toTableId, ...join }) => join);
+    if (bundleJoins.length > 0) budget.take('### Joins');
+    const packedJoins = bundleJoins.filter(join => budget.take(joinLine(join)));
+
+    const bundleAnswers = smeAnswers
+      .filter(answer => included.has(answer.tableId))
+      .map(({ tableId, ...answer }) => answer);
+    if (bundleAnswers.length > 0) budget.take('### SME answers');
+    const packedAnswers = bundleAnswers.filter(answer => budget.take(smeLine(answer)));
+
+    // Remaining value meanings of included columns, then columns not yet included
+    for (const { table, columns } of Array.from(included.values())) {
+      for (const bundled of table.columns) {
+        const column = Array.from(columns.values()).find(c => c.column.name === bundled.name)!;
+        const remaining = column.values
+          .filter(value => !column.matchedValues.has(value.value) && value.meaning)
+          .slice(0, MAX_VALUES_PER_COLUMN)
+          .filter(value => budget.take(valueLine(value)));
+        if (remaining.length > 0) bundled.values = [...(bundled.values ?? []), ...remaining];
+      }
+    }
+    for (const { candidate, table, columns } of Array.from(included.values())) {
+      for (const column of candidate.columns.filter(c => !columns.has(c.column.id))) {
+        if (!budget.take(columnLine(bundleColumn(column, [])))) break;
+        table.columns.push(bundleColumn(column, []));
+        columns.set(column.column.id, column);
+      }
+    }
+
+    return {
+      tables: Array.from(included.values()).map(entry => entry.table),
+      joins: packedJoins,
+      smeAnswers: packedAnswers,
+      truncated: budget.truncated || included.size < relevant.length
+    };
+  }
+
+  renderMarkdown(result: Omit<ContextQueryResult, 'markdown' | 'tokenEstimate'>): string {
+    const lines: string[] = [];
+    lines.push(result.persona ? `## Context: ${result.persona.name}` : '## Context');
+    if (result.persona) lines.push(result.persona.description);
+    lines.push('');
+
+    for (const table of result.tables) {
+      lines.push(tableHeading(table));
+      if (table.description) lines.push(table.description);
+      for (const column of table.columns) {
+        lines.push(columnLine(column));
+        (column.values ?? []).forEach(value => lines.push(valueLine(value)));
+      }
+      lines.push('');
+    }
+
+    if (result.joins.length > 0) {
+      lines.push('### Joins', ...result.joins.map(joinLine), '');
+    }
+    if (result.smeAnswers.length > 0) {
+      lines.push('### SME answers', ...result.smeAnswers.map(smeLine), '');
+    }
+    return lines.join('\n').trim();
+  }
+}
+
+export const contextRetriever = new ContextRetriever();
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { randomBytes } from 'crypto';
+import { CredentialVault, redactSecrets } from './credential-vault';
+
+const key = () => randomBytes(32).toString('base64');
+const oldKey = key();
+const newKey = key();
+
+describe('CredentialVault', () => {
+  const env = { ...process.env };
+  let vault: CredentialVault;
+
+  beforeEach(() => {
+    process.env.CONNECTION_SECRET_KEYS = `k1:${oldKey}`;
+    vault = new CredentialVault();
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('encrypts secret fields and opens them again', () => {
+    const { config, secrets } = vault.seal({ host: 'db', password: 'hunter2', apiKey: '' });
+    expect(config).toEqual({ host: 'db', apiKey: '' });
+    expect(secrets?.keyId).toBe('k1');
+    expect(JSON.stringify(secrets)).not.toContain('hunter2');
+    expect(vault.open(config, secrets)).toEqual({ host: 'db', apiKey: '', password: 'hunter2' });
+  });
+
+  it('needs a master key only when there is something to encrypt', () => {
+    delete process.env.CONNECTION_SECRET_KEYS;
+    vault.reloadKeys();
+    expect(vault.seal({ host: 'db' }).secrets).toBeNull();
+    expect(() => vault.seal({ password: 'hunter2' })).toThrow('needs an encryption key');
+  });
+
+  it('keeps stored secrets that an edit leaves blank or masked', () => {
+    const sealed = vault.seal({ host: 'db', password: 'hunter2' });
+    const edited = vault.update(sealed.config, sealed.secrets, { host: 'db2', password: '••••••••' });
+    expect(vault.open(edited.config, edited.secrets)).toEqual({ host: 'db2', password: 'hunter2' });
+  });
+
+  it('re-wraps data keys onto a new primary key and still decrypts', () => {
+    const sealed = vault.seal({ password: 'hunter2' });
+    process.env.CONNECTION_SECRET_KEYS = `k2:${newKey},k1:${oldKey}`;
+    vault.reloadKeys();
+
+    const resealed = vault.reseal(sealed.config, sealed.secrets)!;
+    expect(resealed.secrets?.keyId).toBe('k2');
+    expect(resealed.secrets?.payload).toBe(sealed.secrets?.payload);
+    expect(vault.reseal(resealed.config, resealed.secrets)).toBeNull();
+
+    process.env.CONNECTION_SECRET_KEYS = `k2:${newKey}`;
+    vault.reloadKeys();
+    expect(vault.open(resealed.config, resealed.secrets).password).toBe('hunter2');
+    expect(() => vault.open(sealed.config, sealed.secrets)).toThrow('k1 is not configured');
+  });
+
+  it('moves plaintext secrets saved before encryption into an envelope', () => {
+    const resealed = vault.reseal({ password: 'hunter2' }, null)!;
+    expect(resealed.config).toEqual({});
+    expect(vault.open(resealed.config, resealed.secrets).password).toBe('hunter2');
+  });
+
+  it('stores CONNECTION_SECRET_* references as-is and resolves them when opened', () => {
+    process.env.CONNECTION_SECRET_PG_PASSWORD = 'from-env';
+    const { config, secrets } = vault.seal({ password: '${CONNECTION_SECRET_PG_PASSWORD}' });
+    expect(secrets).toBeNull();
+    expect(config.password).toBe('${CONNECTION_SECRET_PG_PASSWORD}');
+    expect(vault.open(config, secrets).password).toBe('from-env');
+  });
+
+  it.each(['${DATABASE_URL}', '${SESSION_SECRET}', '${CONNECTION_SECRET_KEYS}', '${CONNECTION_SECRET_KEYFILE}'])(
+    'refuses to save a reference to %s',
+    reference => {
+      expect(() => vault.seal({ password: reference })).toThrow('CONNECTION_SECRET_*');
+    }
+  );
+
+  it('never resolves other variables referenced by older connections', () => {
+    process.env.DATABASE_URL = 'postgres://app:secret@db/app';
+    expect(vault.open({ connectionString: '${DATABASE_URL}' }, null)).toEqual({});
+  });
+});
+
+describe('redactSecrets', () => {
+  it('masks secret fields, keeps references and drops envelopes', () => {
+    expect(redactSecrets({
+      name: 'warehouse',
+      config: { host: 'db', password: 'hunter2', apiKey: '${CONNECTION_SECRET_API_KEY}', connectionString: '' },
+      nested: [{ secrets: { wrappedKey: 'x', payload: 'y' } }]
+    })).toEqual({
+      name: 'warehouse',
+      config: { host: 'db', password: '••••••••', apiKey: '${CONNECTION_SECRET_API_KEY}', connectionString: '' },
+      nested: [{}]
+    });
+  });
+});
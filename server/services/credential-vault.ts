@@ -0,0 +1,265 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { readFileSync } from 'fs';
+import type { Connection, SecretEnvelope } from '@shared/schema';
+
+// Config fields that hold credentials. connectionString is included because
+// Postgres/MySQL URLs usually embed the password.
+export const SECRET_FIELDS = ['password', 'apiKey', 'connectionString'] as const;
+
+const REDACTED = '••••••••';
+const ENV_REFERENCE = /^\$\{([A-Za-z_][A-Za-z0-9_]*)\}$/;
+// References may only name variables under this prefix, so a connection can't read
+// back unrelated server settings like DATABASE_URL; the master keys are excluded too
+export const ENV_REFERENCE_PREFIX = 'CONNECTION_SECRET_';
+const VAULT_VARIABLES = ['CONNECTION_SECRET_KEYS', 'CONNECTION_SECRET_KEYFILE'];
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+type ConfigRecord = Record<string, unknown>;
+
+function encrypt(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function decrypt(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, 'base64');
+  const decipher = createDecipheriv(ALGORITHM, key, data.subarray(0, IV_BYTES));
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+/**
+ * Envelope encryption for connection credentials. Each connection's secret fields
+ * are encrypted with their own random data key, and the data key is wrapped with a
+ * server-side master key, so rotating the master key only re-wraps data keys.
+ *
+ * Master keys come from CONNECTION_SECRET_KEYS ("id:base64key,id:base64key") or
+ * from a file named by CONNECTION_SECRET_KEYFILE (one "id:base64key" per line).
+ * The first key encrypts; the rest stay available to decrypt until rotated out.
+ * Each key is 32 random bytes, e.g. `openssl rand -base64 32`.
+ *
+ * A secret written as an environment reference like "${CONNECTION_SECRET_PG_PASSWORD}"
+ * is stored as-is and resolved when the connection is read, so it never touches the
+ * database. Only variables prefixed CONNECTION_SECRET_ can be referenced.
+ */
+export class CredentialVault {
+  private keys: MasterKey[] | null = null;
+
+  private loadKeys(): MasterKey[] {
+    if (this.keys) return this.keys;
+
+    let source = process.env.CONNECTION_SECRET_KEYS ?? '';
+    if (!source && process.env.CONNECTION_SECRET_KEYFILE) {
+      source = readFileSync(process.env.CONNECTION_SECRET_KEYFILE, 'utf8');
+    }
+
+    this.keys = source
+      .split(/[,\n]/)
+      .map(entry => entry.trim())
+      .filter(entry => entry && !entry.startsWith('#'))
+      .map(entry => {
+        const separator = entry.indexOf(':');
+        if (separator <= 0) {
+          throw new Error('Connection secret keys must be written as "id:base64key"');
+        }
+        const id = entry.slice(0, separator);
+        const key = Buffer.from(entry.slice(separator + 1), 'base64');
+        if (key.length !== 32) {
+          throw new Error(`Connection secret key ${id} must be 32 bytes (base64-encoded)`);
+        }
+        return { id, key };
+      });
+    return this.keys;
+  }
+
+  private primaryKey(): MasterKey {
+    const [primary] = this.loadKeys();
+    if (!primary) {
+      throw new Error(
+        'Storing connection credentials needs an encryption key: set CONNECTION_SECRET_KEYS or CONNECTION_SECRET_KEYFILE, ' +
+        'or reference an environment variable instead, e.g. "${CONNECTION_SECRET_PG_PASSWORD}"'
+      );
+    }
+    return primary;
+  }
+
+  private keyById(id: string): MasterKey {
+    const key = this.loadKeys().find(candidate => candidate.id === id);
+    if (!key) {
+      throw new Error(`Connection secret key ${id} is not configured; it is needed to decrypt existing credentials`);
+    }
+    return key;
+  }
+
+  /** Forgets loaded keys so the next call re-reads the environment or keyfile */
+  reloadKeys(): void {
+    this.keys = null;
+  }
+
+  get primaryKeyId(): string | null {
+    return this.loadKeys()[0]?.id ?? null;
+  }
+
+  isEnvReference(value: unknown): value is string {
+    return typeof value === 'string' && ENV_REFERENCE.test(value);
+  }
+
+  isAllowedEnvReference(value: string): boolean {
+    const name = value.match(ENV_REFERENCE)?.[1];
+    return !!name && name.startsWith(ENV_REFERENCE_PREFIX) && !VAULT_VARIABLES.includes(name);
+  }
+
+  private isStorableSecret(value: unknown): value is string {
+    return typeof value === 'string' && value !== '' && !this.isEnvReference(value);
+  }
+
+  private decryptFields(secrets: SecretEnvelope): ConfigRecord {
+    const dataKey = decrypt(this.keyById(secrets.keyId).key, secrets.wrappedKey);
+    return JSON.parse(decrypt(dataKey, secrets.payload).toString('utf8'));
+  }
+
+  /**
+   * Splits a config into the part safe to store as plain JSON and an envelope
+   * holding the secret fields, or null when there are none to encrypt
+   */
+  seal(config: unknown): { config: ConfigRecord; secrets: SecretEnvelope | null } {
+    const plain: ConfigRecord = { ...(config as ConfigRecord) };
+    const secretValues: ConfigRecord = {};
+    for (const field of SECRET_FIELDS) {
+      const value = plain[field];
+      if (this.isEnvReference(value) && !this.isAllowedEnvReference(value)) {
+        throw new Error(`${field} can only reference environment variables named ${ENV_REFERENCE_PREFIX}*, not ${value}`);
+      }
+      if (!this.isStorableSecret(value)) continue;
+      secretValues[field] = value;
+      delete plain[field];
+    }
+    if (Object.keys(secretValues).length === 0) {
+      return { config: plain, secrets: null };
+    }
+
+    const master = this.primaryKey();
+    const dataKey = randomBytes(32);
+    return {
+      config: plain,
+      secrets: {
+        version: 1,
+        keyId: master.id,
+        wrappedKey: encrypt(master.key, dataKey),
+        payload: encrypt(dataKey, Buffer.from(JSON.stringify(secretValues), 'utf8'))
+      }
+    };
+  }
+
+  /**
+   * The config as adapters need it: decrypted secrets merged back in and
+   * environment references replaced by their values
+   */
+  open(config: unknown, secrets: SecretEnvelope | null): ConfigRecord {
+    const opened: ConfigRecord = { ...(config as ConfigRecord) };
+    if (secrets) {
+      Object.assign(opened, this.decryptFields(secrets));
+    }
+
+    for (const field of SECRET_FIELDS) {
+      const value = opened[field];
+      if (!this.isEnvReference(value)) continue;
+      const name = value.match(ENV_REFERENCE)![1];
+      if (!this.isAllowedEnvReference(value)) {
+        // Saved before references were restricted; never resolved
+        console.warn(`⚠️  A connection's ${field} references ${name}, which is not a ${ENV_REFERENCE_PREFIX}* variable; ignoring it`);
+        delete opened[field];
+        continue;
+      }
+      const resolved = process.env[name];
+      if (resolved === undefined) {
+        console.warn(`⚠️  Environment variable ${name} referenced by a connection's ${field} is not set`);
+        delete opened[field];
+      } else {
+        opened[field] = resolved;
+      }
+    }
+    return opened;
+  }
+
+  /**
+   * Seals an edited config. Secret fields left out, blank or still masked from an
+   * API response keep their stored value, so editing a host doesn't require
+   * re-entering the password.
+   */
+  update(storedConfig: unknown, storedSecrets: SecretEnvelope | null, config: unknown): { config: ConfigRecord; secrets: SecretEnvelope | null } {
+    const stored: ConfigRecord = { ...(storedConfig as ConfigRecord), ...(storedSecrets ? this.decryptFields(storedSecrets) : {}) };
+    const updated: ConfigRecord = { ...(config as ConfigRecord) };
+    for (const field of SECRET_FIELDS) {
+      const value = updated[field];
+      if ((value === undefined || value === '' || value === REDACTED) && stored[field] !== undefined) {
+        updated[field] = stored[field];
+      }
+    }
+    return this.seal(updated);
+  }
+
+  /**
+   * Brings a stored connection onto the primary master key: an envelope under an
+   * older key has its data key re-wrapped (the payload is untouched), and secrets
+   * saved in plain config before encryption was enabled are moved into an
+   * envelope. Returns null when nothing needs to change.
+   */
+  reseal(config: unknown, secrets: SecretEnvelope | null): { config: ConfigRecord; secrets: SecretEnvelope | null } | null {
+    const stored = config as ConfigRecord;
+    const hasPlaintext = SECRET_FIELDS.some(field => this.isStorableSecret(stored[field]));
+    if (hasPlaintext) {
+      return this.seal({ ...stored, ...(secrets ? this.decryptFields(secrets) : {}) });
+    }
+
+    if (!secrets) return null;
+    const master = this.primaryKey();
+    if (secrets.keyId === master.id) return null;
+    const dataKey = decrypt(this.keyById(secrets.keyId).key, secrets.wrappedKey);
+    return { config: stored, secrets: { ...secrets, keyId: master.id, wrappedKey: encrypt(master.key, dataKey) } };
+  }
+}
+
+/**
+ * Deep copy with every secret field masked, for API responses and logs.
+ * Environment references are kept since they name a variable, not a secret.
+ */
+export function redactSecrets<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(item => redactSecrets(item)) as T;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const copy: ConfigRecord = {};
+    for (const [key, field] of Object.entries(value as ConfigRecord)) {
+      if ((SECRET_FIELDS as readonly string[]).includes(key) && typeof field === 'string' && field !== '') {
+        copy[key] = credentialVault.isEnvReference(field) ? field : REDACTED;
+      } else if (key === 'secrets' && field && typeof field === 'object' && 'wrappedKey' in field) {
+        // Encrypted envelopes never leave the server
+        continue;
+      } else {
+        copy[key] = redactSecrets(field);
+      }
+    }
+    return copy as T;
+  }
+  return value;
+}
+
+/**
+ * A connection as the browser may see it: secrets masked and the envelope dropped
+ */
+export function redactConnection(connection: Connection): Omit<Connection, 'secrets'> {
+  const { secrets: _secrets, ...rest } = connection;
+  return { ...rest, config: redactSecrets(connection.config) };
+}
+
+export const credentialVault = new CredentialVault();
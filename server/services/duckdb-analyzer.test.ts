@@ -0,0 +1,59 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DuckDBInstance } from '@duckdb/node-api';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { DuckDBAnalyzer } from './duckdb-analyzer';
+
+describe('DuckDBAnalyzer read-only queries', () => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'duckdb-analyzer-'));
+  const filePath = path.join(dir, 'source.duckdb');
+  const secretPath = path.join(dir, 'secret.csv');
+  const analyzer = new DuckDBAnalyzer();
+
+  beforeAll(async () => {
+    writeFileSync(secretPath, 'token\nsecret-value\n');
+    const instance = await DuckDBInstance.create(filePath);
+    const connection = await instance.connect();
+    await connection.run('CREATE TABLE orders AS SELECT range AS id FROM range(5)');
+    connection.closeSync();
+    instance.closeSync();
+    expect(await analyzer.connect({ filePath })).toBe(true);
+  });
+
+  afterAll(async () => {
+    await analyzer.disconnect();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads the connected database', async () => {
+    const result = await analyzer.runReadOnlyQuery('SELECT id FROM orders ORDER BY id', 3, 5_000);
+    expect(result.rows).toHaveLength(3);
+    expect(result.truncated).toBe(true);
+  });
+
+  it.each([
+    `SELECT * FROM read_text('${secretPath}')`,
+    `SELECT * FROM read_csv('${secretPath}')`,
+    `SELECT * FROM '${secretPath}'`,
+    `SELECT * FROM glob('${dir}/*')`,
+    `ATTACH '${path.join(dir, 'other.duckdb')}'`,
+    `COPY orders TO '${path.join(dir, 'out.csv')}'`
+  ])('refuses file access: %s', async sql => {
+    await expect(analyzer.runReadOnlyQuery(sql, 10, 5_000)).rejects.toThrow();
+  });
+
+  it('does not let a query turn file access back on', async () => {
+    await expect(analyzer.runReadOnlyQuery('SET enable_external_access = true', 10, 5_000)).rejects.toThrow();
+    await expect(analyzer.runReadOnlyQuery(`SELECT * FROM read_text('${secretPath}')`, 10, 5_000)).rejects.toThrow();
+  });
+
+  it('interrupts a query that runs past the timeout', async () => {
+    const start = Date.now();
+    await expect(analyzer.runReadOnlyQuery('SELECT COUNT(*) FROM range(1000000000000) a', 10, 300))
+      .rejects.toThrow('Query timed out after 300ms');
+    expect(Date.now() - start).toBeLessThan(5_000);
+    // Other work on the database is unaffected
+    expect((await analyzer.runReadOnlyQuery('SELECT COUNT(*) AS n FROM orders', 10, 5_000)).rows).toEqual([{ n: '5' }]);
+  });
+});
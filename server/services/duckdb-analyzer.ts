@@ -0,0 +1,404 @@
+import { DuckDBInstance, type DuckDBConnection, type DuckDBValue } from '@duckdb/node-api';
+import type { NumericDistribution, TemporalDistribution } from '@shared/schema';
+import type { TableInfo, ColumnInfo, ForeignKeyInfo, ReadOnlyQueryResult } from './postgres-analyzer';
+import type { FileSourceConfig } from './sqlite-analyzer';
+import type { SourceAdapter } from './source-adapter';
+import {
+  buildProfileAggregates,
+  readProfileAggregates,
+  buildGroupingSetsDistinctQuery,
+  attachDistinctValues,
+  lowCardinalityIndexes,
+  normalizeSamplePercent,
+  SAMPLE_SEED,
+  DEFAULT_DISTINCT_LIMIT,
+  computeNumericDistribution,
+  computeTemporalDistribution,
+  type ProfileColumnSpec,
+  type ProfileOptions,
+  type ColumnProfile
+} from './column-profiler';
+
+export class DuckDBAnalyzer implements SourceAdapter {
+  private instance: DuckDBInstance | null = null;
+  private connection: DuckDBConnection | null = null;
+
+  async connect(config: FileSourceConfig): Promise<boolean> {
+    try {
+      // Source files are only ever read, never modified. Queries may read this
+      // database only: no other files (read_text, COPY, ATTACH, extensions), and
+      // the configuration cannot be changed back from SQL.
+      this.instance = await DuckDBInstance.create(config.filePath, {
+        access_mode: 'READ_ONLY',
+        enable_external_access: 'false',
+        lock_configuration: 'true'
+      });
+      this.connection = await this.instance.connect();
+      await this.connection.run('SELECT 1');
+      return true;
+    } catch (error) {
+      console.error('DuckDB connection failed:', error);
+      await this.disconnect();
+      return false;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    try {
+      this.connection?.closeSync();
+      this.instance?.closeSync();
+    } finally {
+      this.connection = null;
+      this.instance = null;
+    }
+  }
+
+  async testConnection(): Promise<{ success: boolean; latency?: number; error?: string }> {
+    if (!this.connection) {
+      return { success: false, error: 'Not connected' };
+    }
+
+    const start = Date.now();
+    try {
+      await this.connection.run('SELECT 1');
+      const latency = Date.now() - start;
+      return { success: true, latency };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  async getSchemas(): Promise<string[]> {
+    const rows = await this.query(`
+      SELECT DISTINCT schema_name
+      FROM duckdb_schemas()
+      WHERE database_name = current_database()
+        AND schema_name NOT IN ('information_schema', 'pg_catalog')
+      ORDER BY schema_name
+    `);
+    return rows.map(row => row.schema_name);
+  }
+
+  async getTables(schemaName: string = 'public'): Promise<TableInfo[]> {
+    const schema = this.resolveSchema(schemaName);
+
+    // estimated_size is DuckDB's cardinality estimate, same as reltuples in PostgreSQL
+    const rows = await this.query(`
+      SELECT
+        table_name,
+        schema_name,
+        COALESCE(estimated_size, 0) AS row_count,
+        column_count
+      FROM duckdb_tables()
+      WHERE schema_name = ? AND database_name = current_database() AND NOT internal
+      ORDER BY row_count DESC
+    `, [schema]);
+
+    return rows.map(row => ({
+      tableName: row.table_name,
+      schemaName: row.schema_name,
+      rowCount: parseInt(row.row_count) || 0,
+      rowCountMethod: 'estimated' as const,
+      columnCount: parseInt(row.column_count) || 0
+    }));
+  }
+
+  async getTableRowCount(tableName: string, schemaName: string = 'public'): Promise<number> {
+    const rows = await this.query(`SELECT COUNT(*) AS count FROM ${this.qualify(schemaName, tableName)}`);
+    return parseInt(rows[0].count);
+  }
+
+  async getColumns(tableName: string, schemaName: string = 'public'): Promise<ColumnInfo[]> {
+    const schema = this.resolveSchema(schemaName);
+
+    const rows = await this.query(`
+      SELECT
+        c.column_name,
+        c.data_type,
+        c.is_nullable = 'YES' AS is_nullable,
+        c.column_default,
+        c.character_maximum_length AS max_length,
+        EXISTS (
+          SELECT 1 FROM duckdb_constraints() dc
+          WHERE dc.schema_name = c.table_schema
+            AND dc.table_name = c.table_name
+            AND dc.constraint_type = 'UNIQUE'
+            AND len(dc.constraint_column_names) = 1
+            AND dc.constraint_column_names[1] = c.column_name
+        ) AS is_unique
+      FROM information_schema.columns c
+      WHERE c.table_name = ? AND c.table_schema = ? AND c.table_catalog = current_database()
+      ORDER BY c.ordinal_position
+    `, [tableName, schema]);
+
+    return rows.map(row => ({
+      columnName: row.column_name,
+      dataType: row.data_type.toLowerCase(),
+      isNullable: row.is_nullable,
+      isUnique: row.is_unique,
+      defaultValue: row.column_default ?? undefined,
+      maxLength: row.max_length != null ? parseInt(row.max_length) : undefined
+    }));
+  }
+
+  async getForeignKeys(schemaName: string = 'public'): Promise<ForeignKeyInfo[]> {
+    const schema = this.resolveSchema(schemaName);
+
+    const rows = await this.query(`
+      SELECT
+        constraint_name,
+        table_name AS from_table,
+        constraint_column_names AS from_columns,
+        referenced_table AS to_table,
+        referenced_column_names AS to_columns
+      FROM duckdb_constraints()
+      WHERE schema_name = ? AND database_name = current_database()
+        AND constraint_type = 'FOREIGN KEY'
+    `, [schema]);
+
+    // Composite keys are reported one column pair at a time, like information_schema does
+    return rows.flatMap(row => (row.from_columns as string[]).map((fromColumn, index) => ({
+      constraintName: row.constraint_name,
+      fromTable: row.from_table,
+      fromColumn,
+      toTable: row.to_table,
+      toColumn: row.to_columns[index]
+    })));
+  }
+
+  async getSampleData(
+    tableName: string,
+    sampleSize: number = 1000,
+    schemaName: string = 'public'
+  ): Promise<any[]> {
+    const table = this.qualify(schemaName, tableName);
+
+    // Try to get recent data first, fall back to random sample
+    const queries = [
+      `SELECT * FROM ${table} ORDER BY created_at DESC LIMIT ?`,
+      `SELECT * FROM ${table} ORDER BY updated_at DESC LIMIT ?`,
+      `SELECT * FROM ${table} ORDER BY "timestamp" DESC LIMIT ?`,
+      `SELECT * FROM ${table} ORDER BY RANDOM() LIMIT ?`
+    ];
+
+    for (const query of queries) {
+      try {
+        const rows = await this.query(query, [sampleSize]);
+        if (rows.length > 0) {
+          return rows;
+        }
+      } catch (error) {
+        // Continue to next query if this one fails
+        continue;
+      }
+    }
+
+    return [];
+  }
+
+  async getColumnCardinality(
+    tableName: string,
+    columnName: string,
+    schemaName: string = 'public'
+  ): Promise<number> {
+    const rows = await this.query(
+      `SELECT COUNT(DISTINCT ${this.quote(columnName)}) AS cardinality FROM ${this.qualify(schemaName, tableName)}`
+    );
+    return parseInt(rows[0].cardinality);
+  }
+
+  async getColumnNullPercentage(
+    tableName: string,
+    columnName: string,
+    schemaName: string = 'public'
+  ): Promise<number> {
+    const rows = await this.query(`
+      SELECT
+        (COUNT(*) FILTER (WHERE ${this.quote(columnName)} IS NULL) * 100.0 / COUNT(*)) AS null_percentage
+      FROM ${this.qualify(schemaName, tableName)}
+    `);
+    return parseFloat(rows[0].null_percentage) || 0;
+  }
+
+  async getColumnRange(
+    tableName: string,
+    columnName: string,
+    schemaName: string = 'public'
+  ): Promise<{ min: any; max: any }> {
+    const column = this.quote(columnName);
+
+    const rows = await this.query(`
+      SELECT MIN(${column}) AS min_value, MAX(${column}) AS max_value
+      FROM ${this.qualify(schemaName, tableName)}
+    `);
+    return {
+      min: rows[0].min_value,
+      max: rows[0].max_value
+    };
+  }
+
+  async getDistinctValues(
+    tableName: string,
+    columnName: string,
+    limit: number = 100,
+    schemaName: string = 'public'
+  ): Promise<any[]> {
+    const column = this.quote(columnName);
+
+    const rows = await this.query(`
+      SELECT ${column} AS value, COUNT(*) AS frequency
+      FROM ${this.qualify(schemaName, tableName)}
+      WHERE ${column} IS NOT NULL
+      GROUP BY ${column}
+      ORDER BY frequency DESC
+      LIMIT ?
+    `, [limit]);
+    return rows.map(row => row.value);
+  }
+
+  async analyzeValueOverlap(
+    fromTable: string,
+    fromColumn: string,
+    toTable: string,
+    toColumn: string,
+    schemaName: string = 'public'
+  ): Promise<{ overlapPercentage: number; totalValues: number; matchingValues: number }> {
+    const rows = await this.query(`
+      WITH
+      source_values AS (
+        SELECT DISTINCT ${this.quote(fromColumn)} AS value FROM ${this.qualify(schemaName, fromTable)} WHERE ${this.quote(fromColumn)} IS NOT NULL
+      ),
+      target_values AS (
+        SELECT DISTINCT ${this.quote(toColumn)} AS value FROM ${this.qualify(schemaName, toTable)} WHERE ${this.quote(toColumn)} IS NOT NULL
+      ),
+      intersection AS (
+        SELECT value FROM source_values INTERSECT SELECT value FROM target_values
+      )
+      SELECT
+        (SELECT COUNT(*) FROM source_values) AS total_values,
+        (SELECT COUNT(*) FROM intersection) AS matching_values
+    `);
+
+    const totalValues = parseInt(rows[0].total_values) || 0;
+    const matchingValues = parseInt(rows[0].matching_values) || 0;
+
+    return {
+      totalValues,
+      matchingValues,
+      overlapPercentage: totalValues === 0 ? 0 : (matchingValues * 100.0) / totalValues
+    };
+  }
+
+  async profileColumns(
+    tableName: string,
+    columns: ProfileColumnSpec[],
+    options: ProfileOptions = {}
+  ): Promise<ColumnProfile[]> {
+    const source = this.profileSource(tableName, options);
+    const expr = (spec: ProfileColumnSpec) => this.quote(spec.columnName);
+
+    const aggregateRows = await this.query(`
+      SELECT
+        ${buildProfileAggregates(columns, expr)}
+      FROM ${source}
+    `);
+    const profiles = readProfileAggregates(aggregateRows[0], columns);
+
+    const indexes = lowCardinalityIndexes(profiles, options.distinctLimit ?? DEFAULT_DISTINCT_LIMIT);
+    if (indexes.length > 0) {
+      attachDistinctValues(profiles, await this.query(buildGroupingSetsDistinctQuery(indexes, columns, expr, source)));
+    }
+
+    return profiles;
+  }
+
+  async profileNumericDistribution(
+    tableName: string,
+    columnName: string,
+    range: { min: number; max: number },
+    options: ProfileOptions = {}
+  ): Promise<NumericDistribution> {
+    const source = this.profileSource(tableName, options);
+    const value = `${this.quote(columnName)}::DOUBLE`;
+    return computeNumericDistribution(
+      sql => this.query(sql),
+      value,
+      range,
+      source,
+      fractions => `
+        SELECT ${fractions.map((_, i) => `p[${i + 1}] AS p${i}`).join(', ')}
+        FROM (SELECT quantile_cont(${value}, [${fractions.join(', ')}]) AS p FROM ${source}) percentiles
+      `
+    );
+  }
+
+  async profileTemporalDistribution(
+    tableName: string,
+    columnName: string,
+    options: ProfileOptions = {}
+  ): Promise<TemporalDistribution> {
+    const column = this.quote(columnName);
+    return computeTemporalDistribution(
+      sql => this.query(sql),
+      column,
+      `strftime(${column}, '%Y-%m')`,
+      this.profileSource(tableName, options)
+    );
+  }
+
+  async explainQuery(sql: string): Promise<string[]> {
+    const rows = await this.query(`EXPLAIN ${sql}`);
+    return rows.flatMap(row => String(row.explain_value ?? '').split('\n'));
+  }
+
+  async runReadOnlyQuery(sql: string, limit: number, timeoutMs: number): Promise<ReadOnlyQueryResult> {
+    // The database is opened read-only; reading stops at the first chunk past the limit.
+    // The query gets a connection of its own so interrupting it on timeout cancels nothing else.
+    if (!this.instance) throw new Error('Not connected to database');
+    const connection = await this.instance.connect();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      connection.interrupt();
+    }, timeoutMs);
+
+    try {
+      const reader = await connection.runAndReadUntil(sql, limit + 1);
+      const rows = reader.getRowObjectsJson() as Record<string, any>[];
+      return { columns: reader.columnNames(), rows: rows.slice(0, limit), truncated: rows.length > limit };
+    } catch (error) {
+      if (timedOut) throw new Error(`Query timed out after ${timeoutMs}ms`);
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      connection.closeSync();
+    }
+  }
+
+  private profileSource(tableName: string, options: ProfileOptions): string {
+    const samplePercent = normalizeSamplePercent(options.samplePercent);
+    return this.qualify(options.schemaName || 'public', tableName) +
+      (samplePercent ? ` TABLESAMPLE SYSTEM (${samplePercent} PERCENT) REPEATABLE (${SAMPLE_SEED})` : '');
+  }
+
+  /**
+   * Run a query and return plain JSON rows (BIGINT/HUGEINT come back as strings)
+   */
+  private async query(sql: string, params: DuckDBValue[] = []): Promise<any[]> {
+    if (!this.connection) throw new Error('Not connected to database');
+    const reader = await this.connection.runAndReadAll(sql, params);
+    return reader.getRowObjectsJson();
+  }
+
+  private resolveSchema(schemaName: string): string {
+    return schemaName === 'public' ? 'main' : schemaName;
+  }
+
+  private quote(identifier: string): string {
+    return `"${identifier.replace(/"/g, '""')}"`;
+  }
+
+  private qualify(schemaName: string, tableName: string): string {
+    return `${this.quote(this.resolveSchema(schemaName))}.${this.quote(tableName)}`;
+  }
+}
@@ -0,0 +1,213 @@
+import { createHash } from 'crypto';
+import type { Embedding, EmbeddingEntityType, InsertEmbedding, LLMConnectionConfig, SemanticSearchResult } from '@shared/schema';
+import { storage } from '../storage';
+import { llmProviderRegistry } from './llm-provider-registry';
+import { createEmbeddingProvider, type EmbeddingProvider } from './embedding-provider';
+import type { TableDescription } from './gemini';
+
+const EMBEDDING_BATCH_SIZE = 64;
+
+interface IndexDocument {
+  entityType: EmbeddingEntityType;
+  entityId: string;
+  tableId: string | null;
+  columnId: string | null;
+  label: string;
+  content: string;
+}
+
+export interface ReindexResult {
+  provider: string;
+  model: string;
+  embedded: number; // New or changed documents sent to the provider
+  unchanged: number;
+  removed: number;
+}
+
+function hashContent(content: string): string {
+  return createHash('sha1').update(content).digest('hex');
+}
+
+function cosine(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Semantic search over a database's selected tables: table descriptions, column
+ * descriptions, enum value meanings and answered SME questions are embedded and
+ * stored in the embeddings table, and queries are ranked by cosine similarity.
+ *
+ * The embedding provider is EMBEDDING_PROVIDER/EMBEDDING_MODEL when set, else the
+ * database's LLM connection when it names an embeddingModel, else local hashing.
+ */
+export class EmbeddingIndex {
+  async providerFor(databaseId: string): Promise<EmbeddingProvider> {
+    if (process.env.EMBEDDING_PROVIDER) {
+      return createEmbeddingProvider({
+        provider: process.env.EMBEDDING_PROVIDER as LLMConnectionConfig['provider'],
+        embeddingModel: process.env.EMBEDDING_MODEL,
+        apiKey: process.env.LLM_API_KEY,
+        baseUrl: process.env.LLM_BASE_URL
+      });
+    }
+    const connection = await llmProviderRegistry.connectionForDatabase(databaseId);
+    return createEmbeddingProvider(connection ? llmProviderRegistry.toProviderConfig(connection) : undefined);
+  }
+
+  /**
+   * Bring the index up to date. Documents whose text and model are unchanged
+   * keep their vectors; documents for removed entities are deleted.
+   */
+  async reindex(databaseId: string): Promise<ReindexResult> {
+    const provider = await this.providerFor(databaseId);
+    const documents = await this.collectDocuments(databaseId);
+    const existing = new Map((await storage.getEmbeddingsByDatabaseId(databaseId))
+      .map(embedding => [`${embedding.entityType}:${embedding.entityId}`, embedding]));
+
+    const pending = documents.filter(document => {
+      const current = existing.get(`${document.entityType}:${document.entityId}`);
+      return !current || current.model !== provider.model || current.contentHash !== hashContent(document.content);
+    });
+
+    for (let i = 0; i < pending.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = pending.slice(i, i + EMBEDDING_BATCH_SIZE);
+      const vectors = await provider.embed(batch.map(document => document.content));
+      if (vectors.length !== batch.length) {
+        throw new Error(`${provider.name} returned ${vectors.length} embeddings for ${batch.length} texts`);
+      }
+      for (let j = 0; j < batch.length; j++) {
+        const embedding: InsertEmbedding = {
+          ...batch[j],
+          databaseId,
+          contentHash: hashContent(batch[j].content),
+          provider: provider.name,
+          model: provider.model,
+          vector: vectors[j]
+        };
+        await storage.upsertEmbedding(embedding);
+      }
+    }
+
+    const live = new Set(documents.map(document => `${document.entityType}:${document.entityId}`));
+    const stale = Array.from(existing.entries()).filter(([key]) => !live.has(key)).map(([, embedding]) => embedding.id);
+    await storage.deleteEmbeddings(stale);
+
+    console.log(`🔎 Embedding index for ${databaseId}: ${pending.length} embedded, ${documents.length - pending.length} unchanged, ${stale.length} removed (${provider.name}/${provider.model})`);
+    return {
+      provider: provider.name,
+      model: provider.model,
+      embedded: pending.length,
+      unchanged: documents.length - pending.length,
+      removed: stale.length
+    };
+  }
+
+  /**
+   * Rank indexed documents against the query. Builds the index first when it has
+   * nothing for the current embedding model (first search, or the model changed).
+   */
+  async search(
+    databaseId: string,
+    query: string,
+    options: { limit?: number; entityTypes?: EmbeddingEntityType[] } = {}
+  ): Promise<SemanticSearchResult[]> {
+    const provider = await this.providerFor(databaseId);
+    let indexed = (await storage.getEmbeddingsByDatabaseId(databaseId)).filter(embedding => embedding.model === provider.model);
+    if (indexed.length === 0) {
+      await this.reindex(databaseId);
+      indexed = (await storage.getEmbeddingsByDatabaseId(databaseId)).filter(embedding => embedding.model === provider.model);
+    }
+
+    const [queryVector] = await provider.embed([query]);
+    return indexed
+      .filter(embedding => !options.entityTypes || options.entityTypes.includes(embedding.entityType as EmbeddingEntityType))
+      .map(embedding => this.toResult(embedding, cosine(queryVector, embedding.vector)))
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? 10);
+  }
+
+  private toResult(embedding: Embedding, score: number): SemanticSearchResult {
+    return {
+      entityType: embedding.entityType as EmbeddingEntityType,
+      entityId: embedding.entityId,
+      tableId: embedding.tableId,
+      columnId: embedding.columnId,
+      label: embedding.label,
+      content: embedding.content,
+      score: Math.round(score * 1000) / 1000
+    };
+  }
+
+  private async collectDocuments(databaseId: string): Promise<IndexDocument[]> {
+    const selectedTables = await storage.getSelectedTables(databaseId);
+    const contexts = new Map((await storage.getContextsByDatabaseId(databaseId)).map(context => [context.tableId, context]));
+    const documents: IndexDocument[] = [];
+    const columnNames = new Map<string, { tableId: string; label: string }>();
+
+    for (const table of selectedTables) {
+      const tableDesc = contexts.get(table.id)?.tableDesc as TableDescription | null | undefined;
+      documents.push({
+        entityType: 'table',
+        entityId: table.id,
+        tableId: table.id,
+        columnId: null,
+        label: `${table.schema}.${table.name}`,
+        content: [`Table ${table.name}.`, tableDesc?.description, tableDesc?.business_purpose].filter(Boolean).join(' ')
+      });
+
+      for (const column of await storage.getColumnsByTableId(table.id)) {
+        const label = `${table.name}.${column.name}`;
+        columnNames.set(column.id, { tableId: table.id, label });
+        documents.push({
+          entityType: 'column',
+          entityId: column.id,
+          tableId: table.id,
+          columnId: column.id,
+          label,
+          content: [`Column ${label} (${column.dataType}).`, column.aiDescription].filter(Boolean).join(' ')
+        });
+      }
+    }
+
+    for (const enumValue of await storage.getEnumValuesByDatabaseId(databaseId)) {
+      const column = columnNames.get(enumValue.columnId);
+      if (!column || enumValue.deprecatedAt) continue;
+      documents.push({
+        entityType: 'enum_value',
+        entityId: enumValue.id,
+        tableId: column.tableId,
+        columnId: enumValue.columnId,
+        label: `${column.label} = '${enumValue.value}'`,
+        content: [`Value '${enumValue.value}' of ${column.label}.`, enumValue.aiContext, enumValue.aiHypothesis].filter(Boolean).join(' ')
+      });
+    }
+
+    const selectedIds = new Set(selectedTables.map(table => table.id));
+    for (const question of await storage.getQuestionsByDatabaseId(databaseId)) {
+      if (!question.isAnswered || !question.response || !question.tableId || !selectedIds.has(question.tableId)) continue;
+      const column = question.columnId ? columnNames.get(question.columnId) : undefined;
+      documents.push({
+        entityType: 'sme_answer',
+        entityId: question.id,
+        tableId: question.tableId,
+        columnId: question.columnId,
+        label: column?.label ?? selectedTables.find(table => table.id === question.tableId)!.name,
+        content: `${question.questionText} Answer: ${question.response}`
+      });
+    }
+
+    return documents;
+  }
+}
+
+export const embeddingIndex = new EmbeddingIndex();
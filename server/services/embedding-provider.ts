@@ -0,0 +1,166 @@
+import { GoogleGenAI } from "@google/genai";
+import type { LLMConnectionConfig, LLMProviderName } from "@shared/schema";
+import { httpError, LLM_REQUEST_TIMEOUT_MS } from "./llm-provider";
+import { resolveOpenAIEndpoint } from "./openai-provider";
+
+export type EmbeddingProviderName = 'local' | Exclude<LLMProviderName, 'mock'>;
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const LOCAL_DIMENSIONS = Number(process.env.EMBEDDING_LOCAL_DIMENSIONS) || 512;
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Crude suffix stripping so "refund", "refunds" and "refunded" share word features
+function stem(word: string): string {
+  return word.length > 4 ? word.replace(/(ies|es|ed|ing|s)$/, '') : word;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return norm > 0 ? vector.map(x => x / norm) : vector;
+}
+
+/**
+ * Offline embedder using the hashing trick: stemmed words, word pairs and
+ * character trigrams are hashed into a fixed number of signed buckets with
+ * sublinear term frequency, then L2-normalised. No model download or network
+ * needed; it catches shared vocabulary and spelling variants, not synonyms.
+ */
+export class LocalHashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local' as const;
+  readonly model = `hashing-${LOCAL_DIMENSIONS}`;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const words = text
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 1)
+      .map(stem);
+
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) ?? 0) + weight);
+    words.forEach((word, i) => {
+      add(`w:${word}`, 1);
+      if (i > 0) add(`b:${words[i - 1]}_${word}`, 0.5);
+      const padded = `#${word}#`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        add(`c:${padded.slice(j, j + 3)}`, 0.25);
+      }
+    });
+
+    const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+    for (const [feature, count] of Array.from(counts.entries())) {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % LOCAL_DIMENSIONS] += sign * (1 + Math.log(count));
+    }
+    return normalize(vector);
+  }
+}
+
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'gemini' as const;
+  private ai: GoogleGenAI;
+
+  constructor(readonly model: string, config: Partial<LLMConnectionConfig> = {}) {
+    this.ai = new GoogleGenAI({
+      apiKey: config.apiKey || process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY || ""
+    });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.ai.models.embedContent({ model: this.model, contents: texts });
+    return (response.embeddings || []).map(embedding => embedding.values || []);
+  }
+}
+
+/**
+ * The /embeddings endpoint of OpenAI and compatible servers
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai' as const;
+
+  constructor(readonly model: string, private config: Partial<LLMConnectionConfig> = {}) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const { baseUrl, apiKey } = resolveOpenAIEndpoint(this.config);
+
+    const response = await fetch(`${baseUrl}/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({ model: this.model, input: texts }),
+      signal: AbortSignal.timeout(LLM_REQUEST_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw await httpError("OpenAI-compatible embeddings", response);
+    }
+
+    const data = await response.json();
+    return [...(data.data || [])]
+      .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+      .map((item: { embedding: number[] }) => item.embedding);
+  }
+}
+
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'ollama' as const;
+
+  constructor(readonly model: string, private config: Partial<LLMConnectionConfig> = {}) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const baseUrl = (this.config.baseUrl || process.env.OLLAMA_BASE_URL || "http://localhost:11434").replace(/\/+$/, "");
+
+    const response = await fetch(`${baseUrl}/api/embed`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: this.model, input: texts }),
+      signal: AbortSignal.timeout(LLM_REQUEST_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw await httpError("Ollama embeddings", response);
+    }
+
+    const data = await response.json();
+    return data.embeddings || [];
+  }
+}
+
+/**
+ * Embeddings follow the LLM connection when it names an embeddingModel; otherwise
+ * (and always for the mock provider) the local hashing embedder is used.
+ */
+export function createEmbeddingProvider(config?: Partial<LLMConnectionConfig>): EmbeddingProvider {
+  if (!config?.embeddingModel) {
+    return new LocalHashingEmbeddingProvider();
+  }
+  switch (config.provider) {
+    case 'gemini':
+      return new GeminiEmbeddingProvider(config.embeddingModel, config);
+    case 'openai':
+      return new OpenAICompatibleEmbeddingProvider(config.embeddingModel, config);
+    case 'ollama':
+      return new OllamaEmbeddingProvider(config.embeddingModel, config);
+    default:
+      return new LocalHashingEmbeddingProvider();
+  }
+}
@@ -0,0 +1,185 @@
+import type { Column, EnumValue, Table } from '@shared/schema';
+import { storage } from '../storage';
+import type { GeminiService } from './gemini';
+import type { Neo4jService } from './neo4j-service';
+
+// Same bound processEnumValuesForTable uses for enum-like columns
+const ENUM_CARDINALITY_LIMIT = 100;
+
+export interface EnumValueChanges {
+  tableName: string;
+  columnName: string;
+  added: string[];
+  deprecated: string[];
+  restored: string[];
+  smeQuestionIds: string[];
+}
+
+// Value nodes in the knowledge graph are keyed by column and value
+export const valueNodeId = (columnId: string, value: string) => `${columnId}_${value}`;
+
+function parseDistinctValues(value: unknown): string[] {
+  if (!value) return [];
+  let values = value;
+  if (typeof values === 'string') {
+    try {
+      values = JSON.parse(values);
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(values) ? values.map(v => String(v)) : [];
+}
+
+/**
+ * Keeps stored enum values in line with what profiling finds. New values get
+ * LLM context and an SME question, values no longer found are deprecated rather
+ * than deleted (their SME answers stay), and values that come back are restored.
+ */
+export class EnumValueTracker {
+  /**
+   * Stores values with their LLM context and asks an enum_value SME question for each
+   */
+  async createValues(table: Table, column: Column, values: string[], llm: GeminiService): Promise<{ enumValues: EnumValue[]; smeQuestionIds: string[] }> {
+    const contexts = await llm.generateEnumValueContext(
+      table.name,
+      column.name,
+      column.dataType,
+      values,
+      column.aiDescription ?? undefined
+    );
+    const contextByValue = new Map(contexts.map(context => [context.value, context]));
+
+    const enumValues: EnumValue[] = [];
+    const smeQuestionIds: string[] = [];
+    for (const value of values) {
+      const context = contextByValue.get(value);
+      try {
+        const enumValue = await storage.createEnumValue({
+          columnId: column.id,
+          value,
+          frequency: null, // distinctValues carry no frequencies
+          aiContext: context?.context ?? null,
+          aiHypothesis: context?.hypothesis ?? null
+        });
+        enumValues.push(enumValue);
+
+        const question = await storage.createSmeQuestion({
+          tableId: table.id,
+          columnId: column.id,
+          enumValueId: enumValue.id,
+          questionType: 'enum_value',
+          questionText: context
+            ? `In column '${column.name}', we found the value '${value}'. AI suggests: ${context.hypothesis}. Do you agree with this interpretation, or would you provide a different business definition?`
+            : `In column '${column.name}', we found the value '${value}'. What does it mean?`,
+          priority: 'medium'
+        });
+        smeQuestionIds.push(question.id);
+      } catch (error) {
+        console.error(`Failed to store enum value ${value} for column ${column.name}:`, error);
+      }
+    }
+    return { enumValues, smeQuestionIds };
+  }
+
+  /**
+   * Diffs freshly profiled distinct values against the stored enum values of a
+   * table's columns. Columns without stored values have not been through context
+   * generation yet and are left to it. Returns the columns that are tracked so
+   * callers don't report the same new values twice.
+   */
+  async syncTable(
+    table: Table,
+    llm: GeminiService,
+    graph: Neo4jService | null
+  ): Promise<{ trackedColumnIds: Set<string>; changes: EnumValueChanges[] }> {
+    const trackedColumnIds = new Set<string>();
+    const changes: EnumValueChanges[] = [];
+
+    for (const column of await storage.getColumnsByTableId(table.id)) {
+      const stored = await storage.getEnumValuesByColumnId(column.id);
+      if (stored.length === 0) continue;
+      trackedColumnIds.add(column.id);
+
+      try {
+        const change = await this.syncColumn(table, column, stored, llm, graph);
+        if (change) changes.push(change);
+      } catch (error) {
+        console.error(`Failed to sync enum values for ${table.name}.${column.name}:`, error);
+      }
+    }
+    return { trackedColumnIds, changes };
+  }
+
+  private async syncColumn(
+    table: Table,
+    column: Column,
+    stored: EnumValue[],
+    llm: GeminiService,
+    graph: Neo4jService | null
+  ): Promise<EnumValueChanges | null> {
+    // Masked columns, by PII detection or a policy override, only hold masked samples
+    if (column.piiCategory || column.maskingStrategy || column.cardinality === null || column.cardinality >= ENUM_CARDINALITY_LIMIT) {
+      return null;
+    }
+    const current = parseDistinctValues(column.distinctValues);
+    if (current.length === 0) return null;
+
+    const currentValues = new Set(current);
+    const storedValues = new Set(stored.map(enumValue => enumValue.value));
+    // A truncated value list can't show that a value is gone
+    const complete = current.length >= column.cardinality;
+
+    const added = current.filter(value => !storedValues.has(value));
+    const restored = stored.filter(enumValue => enumValue.deprecatedAt && currentValues.has(enumValue.value));
+    const deprecated = complete
+      ? stored.filter(enumValue => !enumValue.deprecatedAt && !currentValues.has(enumValue.value))
+      : [];
+    if (added.length === 0 && restored.length === 0 && deprecated.length === 0) {
+      return null;
+    }
+
+    const created = added.length > 0
+      ? await this.createValues(table, column, added, llm)
+      : { enumValues: [], smeQuestionIds: [] };
+    await storage.setEnumValuesDeprecated(deprecated.map(enumValue => enumValue.id), new Date());
+    await storage.setEnumValuesDeprecated(restored.map(enumValue => enumValue.id), null);
+    if (added.length > 0) {
+      // The column's meaning was validated without these values
+      await storage.updateColumnStats(column.id, { smeValidated: false });
+    }
+
+    if (graph) {
+      try {
+        for (const enumValue of created.enumValues) {
+          await graph.createValueNode(column.id, {
+            id: valueNodeId(column.id, enumValue.value),
+            value: enumValue.value,
+            aiContext: enumValue.aiContext ?? undefined,
+            aiHypothesis: enumValue.aiHypothesis ?? undefined
+          });
+        }
+        await graph.updateValueStatus(
+          created.enumValues.map(enumValue => valueNodeId(column.id, enumValue.value)),
+          { smeValidated: false, deprecated: false }
+        );
+        await graph.updateValueStatus(deprecated.map(enumValue => valueNodeId(column.id, enumValue.value)), { deprecated: true });
+        await graph.updateValueStatus(restored.map(enumValue => valueNodeId(column.id, enumValue.value)), { deprecated: false });
+      } catch (error) {
+        console.warn(`⚠️  Failed to update value nodes for ${table.name}.${column.name} (non-fatal):`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    console.log(`🏷️  ${table.name}.${column.name}: ${added.length} new, ${deprecated.length} deprecated, ${restored.length} restored enum value(s)`);
+    return {
+      tableName: table.name,
+      columnName: column.name,
+      added,
+      deprecated: deprecated.map(enumValue => enumValue.value),
+      restored: restored.map(enumValue => enumValue.value),
+      smeQuestionIds: created.smeQuestionIds
+    };
+  }
+}
+
+export const enumValueTracker = new EnumValueTracker();
@@ -1,10 +1,36 @@
+import type { Connection } from '@shared/schema';
+import { storage } from '../storage';
+
+export type DeploymentEnvironment = 'development' | 'production';
+
+// Where a database's graph target came from, most specific first
+export type GraphTargetSource = 'database' | 'workspace' | 'instance';
+
+export interface GraphTarget {
+  connectionId: string;
+  source: GraphTargetSource;
+}
+
+export class GraphTargetNotConfiguredError extends Error {
+  constructor(databaseId?: string) {
+    super(
+      (databaseId ? `No Neo4j graph target is configured for database ${databaseId}. ` : 'No default Neo4j graph target is configured. ') +
+      'Choose a Neo4j connection for the database or its workspace, or ask an instance admin to set the default ' +
+      '(PUT /api/admin/graph-targets or the NEO4J_CONNECTION_ID environment variable).'
+    );
+    this.name = 'GraphTargetNotConfiguredError';
+  }
+}
+
 export class EnvironmentService {
   private static instance: EnvironmentService;
   
-  // Connection mapping based on environment
-  private connectionMap = {
-    development: '0c41d107-7e67-4229-a470-14936a3d4ebe',
-    production: '160cbec1-6c15-4049-bd0c-0bc9d0681e85'
+  // Instance-wide default Neo4j connection per environment, used by databases and
+  // workspaces that don't choose their own. Seeded from NEO4J_CONNECTION_ID_<ENV>
+  // or NEO4J_CONNECTION_ID; admin changes last until restart.
+  private connectionMap: Record<DeploymentEnvironment, string | null> = {
+    development: process.env.NEO4J_CONNECTION_ID_DEVELOPMENT || process.env.NEO4J_CONNECTION_ID || null,
+    production: process.env.NEO4J_CONNECTION_ID_PRODUCTION || process.env.NEO4J_CONNECTION_ID || null
   };
 
   private constructor() {}
@@ -19,7 +45,7 @@ export class EnvironmentService {
   /**
    * Detects current environment based on NODE_ENV and domain
    */
-  getEnvironment(): 'development' | 'production' {
+  getEnvironment(): DeploymentEnvironment {
     // Check NODE_ENV first
     if (process.env.NODE_ENV === 'development') {
       return 'development';
@@ -36,22 +62,60 @@ export class EnvironmentService {
   }
 
   /**
-   * Gets the appropriate Neo4j connection ID for current environment
+   * Gets the instance default Neo4j connection ID for current environment
    */
   getNeo4jConnectionId(): string {
     const env = this.getEnvironment();
     const connectionId = this.connectionMap[env];
+    if (!connectionId) {
+      throw new GraphTargetNotConfiguredError();
+    }
     
     console.log(`Environment detected: ${env}, using Neo4j connection: ${connectionId}`);
     return connectionId;
   }
 
   /**
-   * Updates connection mapping (for configuration changes)
+   * The Neo4j connection holding a database's graph: the database's own choice,
+   * then its workspace's, then the instance default. Null when none is set.
+   */
+  async resolveGraphTarget(databaseId?: string): Promise<GraphTarget | null> {
+    if (databaseId) {
+      const database = await storage.getDatabase(databaseId);
+      if (database?.graphConnectionId) {
+        return { connectionId: database.graphConnectionId, source: 'database' };
+      }
+      const connection = database ? await storage.getConnection(database.connectionId) : undefined;
+      const workspace = connection?.workspaceId ? await storage.getWorkspace(connection.workspaceId) : undefined;
+      if (workspace?.graphConnectionId) {
+        return { connectionId: workspace.graphConnectionId, source: 'workspace' };
+      }
+    }
+
+    const connectionId = this.connectionMap[this.getEnvironment()];
+    return connectionId ? { connectionId, source: 'instance' } : null;
+  }
+
+  /**
+   * The Neo4j connection to use for a database's graph (or the instance default
+   * without one). Undefined when the configured connection no longer exists;
+   * throws GraphTargetNotConfiguredError when nothing is configured.
+   */
+  async getGraphConnection(databaseId?: string): Promise<Connection | undefined> {
+    const target = await this.resolveGraphTarget(databaseId);
+    if (!target) {
+      throw new GraphTargetNotConfiguredError(databaseId);
+    }
+    console.log(`Using Neo4j connection ${target.connectionId} (${target.source} graph target)${databaseId ? ` for database ${databaseId}` : ''}`);
+    return storage.getConnection(target.connectionId);
+  }
+
+  /**
+   * Updates connection mapping (for configuration changes); null clears it
    */
-  updateConnectionMapping(env: 'development' | 'production', connectionId: string): void {
+  updateConnectionMapping(env: DeploymentEnvironment, connectionId: string | null): void {
     this.connectionMap[env] = connectionId;
-    console.log(`Updated ${env} Neo4j connection to: ${connectionId}`);
+    console.log(`Updated ${env} Neo4j connection to: ${connectionId ?? '(none)'}`);
   }
 
   /**
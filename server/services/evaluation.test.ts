@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { EvalCase } from '@shared/schema';
+import { compareResultSets, expectedResult } from './evaluation';
+
+const { storage, connectionManager } = vi.hoisted(() => ({
+  storage: {
+    getDatabase: vi.fn(),
+    getConnection: vi.fn()
+  },
+  connectionManager: { withConnection: vi.fn() }
+}));
+
+vi.mock('../storage', () => ({ storage }));
+vi.mock('./connection-manager', () => ({ connectionManager }));
+
+describe('compareResultSets', () => {
+  it('ignores row order, column order and number formatting', () => {
+    expect(compareResultSets(
+      { rows: [['a', 1], ['b', '2.0']], truncated: false },
+      { rows: [[2, 'b'], ['1', 'a']], truncated: false }
+    )).toBeNull();
+  });
+
+  it('reports differing widths, counts and rows', () => {
+    expect(compareResultSets({ rows: [[1, 2]], truncated: false }, { rows: [[1]], truncated: false }))
+      .toBe('Expected 2 columns, got 1');
+    expect(compareResultSets({ rows: [[1]], truncated: false }, { rows: [], truncated: false }))
+      .toBe('Expected 1 rows, got 0');
+    expect(compareResultSets({ rows: [[1], [1]], truncated: false }, { rows: [[1], [2]], truncated: false }))
+      .toBe('1 of 2 rows differ from the expected result');
+  });
+});
+
+describe('expectedResult', () => {
+  const evalCase = (expectedSql: string) => ({ id: 'case-1', question: 'q', expectedSql }) as EvalCase;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('never runs expected SQL that reads files', async () => {
+    await expect(expectedResult('db-1', evalCase("SELECT * FROM read_text('/proc/self/environ')")))
+      .rejects.toThrow('not files');
+    expect(storage.getConnection).not.toHaveBeenCalled();
+    expect(connectionManager.withConnection).not.toHaveBeenCalled();
+  });
+
+  it('never runs expected SQL that writes', async () => {
+    await expect(expectedResult('db-1', evalCase('DELETE FROM orders'))).rejects.toThrow();
+    expect(connectionManager.withConnection).not.toHaveBeenCalled();
+  });
+});
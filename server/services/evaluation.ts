@@ -0,0 +1,300 @@
+import type {
+  AgentPersona, EvalCase, EvalContextSnapshot, EvalExpectedResult, EvalRun, EvalRunDetail, InsertEvalResult, Table
+} from '@shared/schema';
+import { storage } from '../storage';
+import { connectionManager } from './connection-manager';
+import { GeminiService } from './gemini';
+import { llmProviderRegistry } from './llm-provider-registry';
+import type { Neo4jService } from './neo4j-service';
+import type { GraphAccess } from './refresh-scheduler';
+import { checkReadOnlySql, SQL_TIMEOUT_MS, textToSql } from './text-to-sql';
+
+// Result sets are compared on at most this many rows
+export const EVAL_ROW_LIMIT = 1000;
+
+export interface EvalRunOptions {
+  llmConnectionId?: string;
+  // Runs each case with the graph connected when one is reachable
+  withGraph: GraphAccess;
+}
+
+interface ResultSet {
+  rows: unknown[][];
+  truncated: boolean;
+}
+
+function normalizeValue(value: unknown): string {
+  if (value === null || value === undefined) return '∅';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number' || (typeof value === 'string' && /^-?\d+(\.\d+)?(e[+-]?\d+)?$/i.test(value.trim()))) {
+    // Counts come back as strings from some drivers; 2 and '2.0' are the same answer
+    return String(Math.round(Number(value) * 1e6) / 1e6);
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Execution-accuracy comparison: rows are compared as multisets and values
+ * within a row as a sorted bag, so column order, aliases and row order don't
+ * matter. Returns null when the sets match, else why they don't.
+ */
+export function compareResultSets(expected: ResultSet, actual: ResultSet): string | null {
+  const rowKey = (row: unknown[]) => row.map(normalizeValue).sort().join('\u0001');
+  const expectedWidth = expected.rows[0]?.length;
+  const actualWidth = actual.rows[0]?.length;
+  if (expectedWidth !== undefined && actualWidth !== undefined && expectedWidth !== actualWidth) {
+    return `Expected ${expectedWidth} columns, got ${actualWidth}`;
+  }
+  if (expected.rows.length !== actual.rows.length) {
+    return `Expected ${expected.rows.length} rows, got ${actual.rows.length}`;
+  }
+
+  const counts = new Map<string, number>();
+  expected.rows.forEach(row => counts.set(rowKey(row), (counts.get(rowKey(row)) ?? 0) + 1));
+  let unmatched = 0;
+  for (const row of actual.rows) {
+    const key = rowKey(row);
+    const count = counts.get(key) ?? 0;
+    if (count === 0) {
+      unmatched++;
+    } else {
+      counts.set(key, count - 1);
+    }
+  }
+  if (unmatched > 0) {
+    return `${unmatched} of ${actual.rows.length} rows differ from the expected result`;
+  }
+  return null;
+}
+
+/**
+ * The rows a case should produce: its stored result, or its expected SQL run
+ * read-only against the source. The SQL is checked before any connection opens.
+ */
+export async function expectedResult(databaseId: string, evalCase: EvalCase): Promise<ResultSet> {
+  if (!evalCase.expectedSql) {
+    const stored = evalCase.expectedResult as EvalExpectedResult | null;
+    if (!stored) {
+      throw new Error('Case has neither expected SQL nor an expected result');
+    }
+    return { rows: stored.rows, truncated: false };
+  }
+
+  const checked = checkReadOnlySql(evalCase.expectedSql);
+  if (checked.error) {
+    throw new Error(checked.error);
+  }
+  const database = await storage.getDatabase(databaseId);
+  const connection = database ? await storage.getConnection(database.connectionId) : undefined;
+  if (!connection) {
+    throw new Error('Source connection not found');
+  }
+
+  const result = await connectionManager.withConnection(connection, adapter =>
+    adapter.runReadOnlyQuery(checked.sql, EVAL_ROW_LIMIT, SQL_TIMEOUT_MS));
+  return {
+    rows: result.rows.map(row => result.columns.map(column => row[column])),
+    truncated: result.truncated
+  };
+}
+
+/**
+ * Golden question sets per database, run through the same context retrieval and
+ * SQL generation path as the text-to-SQL check. Each run snapshots how much
+ * context existed (SME answers, validated joins, personas) so score changes can
+ * be traced to what changed in between.
+ */
+export class EvaluationService {
+  async startRun(
+    databaseId: string,
+    personas: AgentPersona[],
+    personaTableMap: Map<string, Table[]>,
+    options: EvalRunOptions
+  ): Promise<EvalRun> {
+    const cases = await storage.getEvalCasesByDatabaseId(databaseId);
+    if (cases.length === 0) {
+      throw new Error('No evaluation cases defined for this database');
+    }
+
+    let llm: GeminiService;
+    let provider: string;
+    if (options.llmConnectionId) {
+      const connection = await storage.getConnection(options.llmConnectionId);
+      if (!connection || (connection.type !== 'llm' && connection.type !== 'gemini')) {
+        throw new Error(`LLM connection ${options.llmConnectionId} not found`);
+      }
+      const llmProvider = llmProviderRegistry.forConnection(connection);
+      llm = new GeminiService(llmProvider, { databaseId });
+      provider = llmProvider.name;
+    } else {
+      const llmProvider = await llmProviderRegistry.forDatabase(databaseId);
+      llm = new GeminiService(llmProvider, { databaseId });
+      provider = llmProvider.name;
+    }
+
+    const run = await storage.createEvalRun({
+      databaseId,
+      status: 'running',
+      llmConnectionId: options.llmConnectionId ?? null,
+      provider,
+      totalCases: cases.length,
+      completedCases: 0,
+      passedCases: 0,
+      contextSnapshot: await this.snapshotContext(databaseId, personas, false),
+      error: null,
+      completedAt: null
+    });
+
+    setImmediate(() => {
+      this.executeRun(run, cases, personas, personaTableMap, llm, options).catch(error => {
+        console.error(`Evaluation run ${run.id} failed:`, error);
+        storage.updateEvalRun(run.id, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Evaluation run failed',
+          completedAt: new Date()
+        }).catch(dbError => console.error(`Failed to update evaluation run ${run.id}:`, dbError));
+      });
+    });
+
+    return run;
+  }
+
+  /**
+   * A run with its per-case results, compared against the previous completed run
+   */
+  async getRunDetail(runId: string): Promise<EvalRunDetail | undefined> {
+    const run = await storage.getEvalRun(runId);
+    if (!run) return undefined;
+
+    const results = await storage.getEvalResultsByRunId(runId);
+    const baseline = (await storage.getEvalRunsByDatabaseId(run.databaseId))
+      .find(other => other.status === 'completed' && other.id !== run.id && (other.startedAt ?? 0) < (run.startedAt ?? 0));
+    if (!baseline) {
+      return { run, results, baselineRunId: null, regressions: [], fixes: [] };
+    }
+
+    const baselinePassed = new Map((await storage.getEvalResultsByRunId(baseline.id)).map(result => [result.caseId, result.passed]));
+    return {
+      run,
+      results,
+      baselineRunId: baseline.id,
+      regressions: results.filter(result => !result.passed && baselinePassed.get(result.caseId) === true).map(result => result.caseId),
+      fixes: results.filter(result => result.passed && baselinePassed.get(result.caseId) === false).map(result => result.caseId)
+    };
+  }
+
+  private async executeRun(
+    run: EvalRun,
+    cases: EvalCase[],
+    personas: AgentPersona[],
+    personaTableMap: Map<string, Table[]>,
+    llm: GeminiService,
+    options: EvalRunOptions
+  ): Promise<void> {
+    console.log(`🧪 Evaluation run ${run.id}: ${cases.length} cases on ${run.provider}`);
+    let passed = 0;
+    let graphConnected = false;
+
+    for (let i = 0; i < cases.length; i++) {
+      const result = await options.withGraph(async graph => {
+        graphConnected = graphConnected || graph !== null;
+        return this.evaluateCase(run, cases[i], personas, personaTableMap, llm, graph);
+      }, run.databaseId);
+      await storage.createEvalResult(result);
+      if (result.passed) passed++;
+      await storage.updateEvalRun(run.id, { completedCases: i + 1, passedCases: passed });
+    }
+
+    await storage.updateEvalRun(run.id, {
+      status: 'completed',
+      contextSnapshot: await this.snapshotContext(run.databaseId, personas, graphConnected),
+      completedAt: new Date()
+    });
+    console.log(`✅ Evaluation run ${run.id}: ${passed}/${cases.length} passed`);
+  }
+
+  private async evaluateCase(
+    run: EvalRun,
+    evalCase: EvalCase,
+    personas: AgentPersona[],
+    personaTableMap: Map<string, Table[]>,
+    llm: GeminiService,
+    graph: Neo4jService | null
+  ): Promise<InsertEvalResult> {
+    const start = Date.now();
+    const base = { runId: run.id, caseId: evalCase.id };
+
+    let expected: ResultSet;
+    try {
+      expected = await expectedResult(run.databaseId, evalCase);
+    } catch (error) {
+      return {
+        ...base,
+        status: 'expected_failed',
+        passed: false,
+        mismatch: `Expected SQL failed: ${error instanceof Error ? error.message : String(error)}`,
+        durationMs: Date.now() - start
+      };
+    }
+
+    try {
+      const answer = await textToSql.answer(run.databaseId, evalCase.question, personas, personaTableMap, {
+        personaId: evalCase.personaId ?? undefined,
+        rowLimit: EVAL_ROW_LIMIT,
+        graph,
+        llm,
+        recordGaps: false,
+        // Rows are only compared, never stored; masking would make them differ from the expected set
+        maskResults: false
+      });
+
+      let mismatch: string | null = answer.error ?? null;
+      if (answer.result) {
+        const actual = {
+          rows: answer.result.rows.map(row => answer.result!.columns.map(column => row[column])),
+          truncated: answer.result.truncated
+        };
+        mismatch = compareResultSets(expected, actual);
+        if (mismatch && (expected.truncated || actual.truncated)) {
+          mismatch += ` (only the first ${EVAL_ROW_LIMIT} rows were compared)`;
+        }
+      }
+
+      return {
+        ...base,
+        status: answer.status,
+        passed: answer.status === 'succeeded' && mismatch === null,
+        personaName: answer.persona?.name ?? null,
+        generatedSql: answer.sql,
+        expectedRowCount: expected.rows.length,
+        actualRowCount: answer.result?.rows.length ?? null,
+        mismatch,
+        durationMs: Date.now() - start
+      };
+    } catch (error) {
+      return {
+        ...base,
+        status: 'execution_failed',
+        passed: false,
+        expectedRowCount: expected.rows.length,
+        mismatch: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - start
+      };
+    }
+  }
+
+  private async snapshotContext(databaseId: string, personas: AgentPersona[], graphConnected: boolean): Promise<EvalContextSnapshot> {
+    const questions = await storage.getQuestionsByDatabaseId(databaseId);
+    const selectedTables = await storage.getSelectedTables(databaseId);
+    const foreignKeys = (await Promise.all(selectedTables.map(table => storage.getForeignKeysByTableId(table.id)))).flat();
+    return {
+      personas: personas.length,
+      answeredSmeQuestions: questions.filter(question => question.isAnswered).length,
+      validatedJoins: foreignKeys.filter(foreignKey => foreignKey.isValidated).length,
+      graphConnected
+    };
+  }
+}
+
+export const evaluationService = new EvaluationService();
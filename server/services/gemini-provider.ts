@@ -0,0 +1,46 @@
+import { GoogleGenAI } from "@google/genai";
+import type { LLMConnectionConfig } from "@shared/schema";
+import type { LLMProvider, LLMRequest, LLMResponse } from "./llm-provider";
+
+const DEFAULT_FAST_MODEL = "gemini-2.5-flash";
+const DEFAULT_PRO_MODEL = "gemini-2.5-pro";
+
+/**
+ * Google Gemini through @google/genai. Falls back to GEMINI_API_KEY /
+ * GOOGLE_API_KEY when the connection carries no key.
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+  private ai: GoogleGenAI;
+
+  constructor(private config: Partial<LLMConnectionConfig> = {}) {
+    this.ai = new GoogleGenAI({
+      apiKey: config.apiKey || process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY || ""
+    });
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const model = request.tier === 'pro'
+      ? this.config.model || DEFAULT_PRO_MODEL
+      : this.config.fastModel || this.config.model || DEFAULT_FAST_MODEL;
+
+    const response = await this.ai.models.generateContent({
+      model,
+      config: {
+        ...(request.systemInstruction ? { systemInstruction: request.systemInstruction } : {}),
+        ...(request.responseSchema || request.json ? { responseMimeType: "application/json" } : {}),
+        ...(request.responseSchema ? { responseSchema: request.responseSchema } : {})
+      },
+      contents: request.prompt
+    });
+
+    return {
+      text: response.text || "",
+      model,
+      usage: {
+        inputTokens: response.usageMetadata?.promptTokenCount,
+        outputTokens: response.usageMetadata?.candidatesTokenCount
+      }
+    };
+  }
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseRepairAttempts, smeQuestionSetSchema } from './gemini';
+
+vi.mock('../storage', () => ({ storage: {} }));
+
+describe('parseRepairAttempts', () => {
+  it('accepts non-negative integers, including 0', () => {
+    expect(parseRepairAttempts('0')).toBe(0);
+    expect(parseRepairAttempts(' 5 ')).toBe(5);
+  });
+
+  it.each([undefined, '', 'abc', '-1', '1.5', 'Infinity'])('falls back to 2 for %j', value => {
+    expect(parseRepairAttempts(value)).toBe(2);
+  });
+});
+
+describe('smeQuestionSetSchema', () => {
+  it('coerces unquoted sample values to strings', () => {
+    const parsed = smeQuestionSetSchema.parse({
+      sampling_info: '3 rows',
+      columns: [{
+        column_name: 'status',
+        data_type: 'integer',
+        sample_values: [1, 2.5, true, 'open'],
+        enum_values_found: [0, 1],
+        hypothesis: 'Order status code',
+        questions_for_user: []
+      }]
+    });
+    expect(parsed.columns?.[0].sample_values).toEqual(['1', '2.5', 'true', 'open']);
+    expect(parsed.columns?.[0].enum_values_found).toEqual(['0', '1']);
+  });
+});
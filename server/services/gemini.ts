@@ -1,62 +1,292 @@
-import { GoogleGenAI } from "@google/genai";
-import { neo4jService } from "./neo4j-service";
+import { z } from "zod";
+import { Neo4jService } from "./neo4j-service";
+import { graphConnectionManager } from "./graph-connection-manager";
 import { storage } from "../storage";
 import { EnvironmentService } from "./environment-service";
-
-const ai = new GoogleGenAI({ 
-  apiKey: process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY || "" 
-});
+import { llmProviderRegistry } from "./llm-provider-registry";
+import { llmUsageService } from "./llm-usage";
+import type { LLMProvider, LLMRequest, LLMResponse, LLMTask } from "./llm-provider";
+import type { ColumnDistribution } from "@shared/schema";
 
 const environmentService = EnvironmentService.getInstance();
 
-export interface TableDescription {
-  table_name: string;
-  description: string;
-  business_purpose: string;
-  data_characteristics: string;
+/**
+ * Extra attempts after the first response fails validation: a non-negative
+ * integer, 0 to disable repair, otherwise the default of 2
+ */
+export function parseRepairAttempts(value: string | undefined): number {
+  const attempts = Number(value);
+  return value?.trim() && Number.isInteger(attempts) && attempts >= 0 ? attempts : 2;
 }
 
-export interface ColumnDescription {
-  column_name: string;
-  description: string;
-  business_meaning: string;
-  data_patterns: string;
-  enum_values?: string[];
-}
+const MAX_REPAIR_ATTEMPTS = parseRepairAttempts(process.env.LLM_MAX_REPAIR_ATTEMPTS);
 
-export interface JoinSuggestion {
-  from_table: string;
-  from_column: string;
-  to_table: string;
-  to_column: string;
-  confidence: number;
-  reasoning: string;
-  relationship_type: string;
-}
+// Models often echo numeric or boolean sample values unquoted
+const sampleValueSchema = z.union([z.string(), z.number(), z.boolean()]).transform(String);
+
+// Response shapes. Every JSON answer is checked against these before use.
+export const tableDescriptionSchema = z.object({
+  table_name: z.string(),
+  description: z.string().min(1),
+  business_purpose: z.string(),
+  data_characteristics: z.string()
+});
+
+export const columnDescriptionSchema = z.object({
+  column_name: z.string().min(1),
+  description: z.string().min(1),
+  business_meaning: z.string(),
+  data_patterns: z.string(),
+  enum_values: z.array(z.string()).optional()
+});
+
+export const joinSuggestionSchema = z.object({
+  from_table: z.string().min(1),
+  from_column: z.string().min(1),
+  to_table: z.string().min(1),
+  to_column: z.string().min(1),
+  confidence: z.number().min(0).max(1),
+  reasoning: z.string(),
+  relationship_type: z.string()
+});
+
+export const smeQuestionSchema = z.object({
+  question_text: z.string().min(1),
+  question_type: z.enum(["yes_no", "multiple_choice", "free_text_definitions"]),
+  options: z.array(z.string()).optional(),
+  priority: z.enum(["high", "medium", "low"]).default("medium")
+});
+
+export const smeQuestionSetSchema = z.object({
+  table_name: z.string().optional(),
+  column_name: z.string().optional(),
+  sampling_info: z.string(),
+  table_hypothesis: z.string().optional(),
+  columns: z.array(z.object({
+    column_name: z.string().min(1),
+    data_type: z.string(),
+    sample_values: z.array(sampleValueSchema),
+    enum_values_found: z.array(sampleValueSchema).optional(),
+    hypothesis: z.string(),
+    questions_for_user: z.array(smeQuestionSchema)
+  })).optional()
+});
+
+export const contextAndQuestionsSchema = z.object({
+  table: tableDescriptionSchema.nullable(),
+  columns: z.array(z.object({
+    column_name: z.string().min(1),
+    hypothesis: z.string(),
+    questions: z.array(smeQuestionSchema)
+  }))
+});
+
+const batchedContextAndQuestionsSchema = z.object({
+  results: z.array(contextAndQuestionsSchema)
+});
+
+const enumValueContextSchema = z.object({
+  enum_contexts: z.array(z.object({
+    value: z.string(),
+    context: z.string(),
+    hypothesis: z.string()
+  }))
+});
+
+export const personaNamingSchema = z.object({
+  personas: z.array(z.object({
+    cluster_id: z.number().int(),
+    name: z.string().min(1),
+    description: z.string().min(1),
+    keywords: z.array(z.string())
+  }))
+});
 
-export interface SMEQuestion {
-  question_text: string;
-  question_type: "yes_no" | "multiple_choice" | "free_text_definitions";
-  options?: string[];
-  priority: "high" | "medium" | "low";
+export const sqlGenerationSchema = z.object({
+  sql: z.string(),
+  explanation: z.string(),
+  tables_used: z.array(z.string()),
+  missing_context: z.array(z.string())
+});
+
+export type TableDescription = z.infer<typeof tableDescriptionSchema>;
+export type ColumnDescription = z.infer<typeof columnDescriptionSchema>;
+export type JoinSuggestion = z.infer<typeof joinSuggestionSchema>;
+export type SMEQuestion = z.infer<typeof smeQuestionSchema>;
+export type SMEQuestionSet = z.infer<typeof smeQuestionSetSchema>;
+export type ContextAndQuestions = z.infer<typeof contextAndQuestionsSchema>;
+export type PersonaNaming = z.infer<typeof personaNamingSchema>["personas"][number];
+export type SqlGeneration = z.infer<typeof sqlGenerationSchema>;
+
+// Where calls are attributed in llm_calls
+interface LLMCallContext {
+  databaseId?: string;
+  jobId?: string;
+  tableId?: string;
 }
 
-export interface SMEQuestionSet {
-  table_name?: string;
-  column_name?: string;
-  sampling_info: string;
-  table_hypothesis?: string;
-  columns?: Array<{
-    column_name: string;
-    data_type: string;
-    sample_values: string[];
-    enum_values_found?: string[];
-    hypothesis: string;
-    questions_for_user: SMEQuestion[];
-  }>;
+/**
+ * An LLM answer that still failed schema validation after the repair attempts
+ */
+export class LLMValidationError extends Error {
+  constructor(public task: LLMTask, public issues: string[], public attempts: number) {
+    super(`Invalid ${task} response after ${attempts} attempt(s): ${issues.slice(0, 5).join("; ")}`);
+    this.name = "LLMValidationError";
+  }
 }
 
+/**
+ * Prompting for context generation. Calls go through an LLMProvider, so the
+ * same prompts run against Gemini, OpenAI-compatible servers, Ollama or the
+ * offline mock; the name is kept from when Gemini was the only backend.
+ */
 export class GeminiService {
+  constructor(private providerOverride?: LLMProvider, private context: LLMCallContext = {}) {}
+
+  private get provider(): LLMProvider {
+    return this.providerOverride ?? llmProviderRegistry.getDefault();
+  }
+
+  /**
+   * Service bound to the LLM provider configured for a database
+   */
+  async forDatabase(databaseId: string): Promise<GeminiService> {
+    return new GeminiService(await llmProviderRegistry.forDatabase(databaseId), { ...this.context, databaseId });
+  }
+
+  /**
+   * Service whose calls are attributed to an analysis job, which also receives
+   * unrecoverable response validation failures in lastError
+   */
+  forJob(jobId: string): GeminiService {
+    return new GeminiService(this.providerOverride, { ...this.context, jobId });
+  }
+
+  /**
+   * Service whose calls are attributed to a table
+   */
+  forTable(tableId: string): GeminiService {
+    return new GeminiService(this.providerOverride, { ...this.context, tableId });
+  }
+
+  /**
+   * Every provider call goes through here so it is recorded in llm_calls
+   */
+  private async callProvider(request: LLMRequest): Promise<LLMResponse> {
+    const provider = this.provider;
+    const startTime = Date.now();
+    try {
+      const response = await provider.generate(request);
+      await llmUsageService.record({
+        ...this.context,
+        task: request.task,
+        provider: provider.name,
+        model: response.model,
+        inputTokens: response.usage?.inputTokens ?? 0,
+        outputTokens: response.usage?.outputTokens ?? 0,
+        latencyMs: Date.now() - startTime,
+        reused: false,
+        success: true
+      });
+      return response;
+    } catch (error) {
+      await llmUsageService.record({
+        ...this.context,
+        task: request.task,
+        provider: provider.name,
+        latencyMs: Date.now() - startTime,
+        reused: false,
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Count a call that was avoided by reusing context from the knowledge graph
+   */
+  private async recordReuse(task: LLMTask, databaseId?: string): Promise<void> {
+    await llmUsageService.record({
+      ...this.context,
+      databaseId: this.context.databaseId ?? databaseId,
+      task,
+      provider: this.provider.name,
+      reused: true,
+      success: true
+    });
+  }
+
+  /**
+   * Call the provider and validate the JSON answer. Invalid answers are sent back
+   * with the validation errors for up to MAX_REPAIR_ATTEMPTS corrections.
+   */
+  private async generateValidated<T>(request: LLMRequest, schema: z.ZodType<T, z.ZodTypeDef, any>): Promise<T> {
+    let prompt = request.prompt;
+    let issues: string[] = [];
+    const attempts = MAX_REPAIR_ATTEMPTS + 1;
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      const response = await this.callProvider({ ...request, prompt });
+      const parsed = this.parseResponse(response.text, schema);
+      if (parsed.success) {
+        if (attempt > 1) {
+          console.log(`🔧 Repaired ${request.task} response on attempt ${attempt}`);
+        }
+        return parsed.data;
+      }
+
+      issues = parsed.issues;
+      console.warn(`⚠️  Invalid ${request.task} response (attempt ${attempt}/${attempts}): ${issues.slice(0, 5).join("; ")}`);
+      prompt = `${request.prompt}
+
+**Your previous response was rejected by validation:**
+${issues.slice(0, 20).map(issue => `- ${issue}`).join("\n")}
+
+**Previous response:**
+${this.truncateText(response.text, 1500)}
+
+Return a corrected response that fixes every issue above, as JSON only.`;
+    }
+
+    const error = new LLMValidationError(request.task, issues, attempts);
+    await this.recordFailure(error);
+    throw error;
+  }
+
+  private parseResponse<T>(
+    text: string,
+    schema: z.ZodType<T, z.ZodTypeDef, any>
+  ): { success: true; data: T } | { success: false; issues: string[] } {
+    // Non-Gemini models like to wrap JSON in a markdown fence
+    const unfenced = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+
+    let json: unknown;
+    try {
+      json = JSON.parse(unfenced);
+    } catch (error) {
+      return { success: false, issues: [`Response is not valid JSON: ${error instanceof Error ? error.message : error}`] };
+    }
+
+    const result = schema.safeParse(json);
+    if (result.success) {
+      return { success: true, data: result.data };
+    }
+    return {
+      success: false,
+      issues: result.error.errors.map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    };
+  }
+
+  private async recordFailure(error: LLMValidationError): Promise<void> {
+    if (!this.context.jobId) return;
+    try {
+      await storage.updateAnalysisJob(this.context.jobId, { lastError: error.message });
+    } catch (storeError) {
+      console.error(`Failed to record LLM validation failure on job ${this.context.jobId}:`, storeError);
+    }
+  }
+
   private truncateText(text: string, maxTokens: number = 6000): string {
     // Rough estimation: 1 token ≈ 4 characters
     const maxChars = maxTokens * 4;
@@ -65,6 +295,17 @@ export class GeminiService {
     return text.substring(0, maxChars) + "...[truncated]";
   }
 
+  /**
+   * Compact distribution summary for prompts; monthly counts are cut to the last year
+   */
+  private summarizeDistribution(distribution?: ColumnDistribution | null): object | undefined {
+    if (!distribution) return undefined;
+    if (distribution.kind === 'numeric') {
+      return distribution;
+    }
+    return { ...distribution, monthlyCounts: distribution.monthlyCounts.slice(-12) };
+  }
+
   /**
    * Generate or reuse table description with context awareness
    * Checks Neo4j for existing context before calling LLM (cost savings)
@@ -77,50 +318,38 @@ export class GeminiService {
     tableSchema: string,
     forceRegenerate: boolean = false
   ): Promise<TableDescription & { wasReused: boolean }> {
-    let neo4jConnected = false;
-    
+    const canonicalKey = `${databaseId}.${tableSchema}.${tableName}`;
+
     // Check for existing context (only works in shared mode)
-    if (!forceRegenerate && neo4jService.isSharedNodesEnabled()) {
+    if (!forceRegenerate && Neo4jService.isSharedNodesEnabled()) {
       try {
-        // Connect to Neo4j before querying
-        const neo4jConnectionId = environmentService.getNeo4jConnectionId();
-        const neo4jConnection = await storage.getConnection(neo4jConnectionId);
-        
-        if (neo4jConnection) {
-          neo4jConnected = await neo4jService.connect(neo4jConnection.config as any);
-        }
-        
-        if (neo4jConnected) {
-          const canonicalKey = `${databaseId}.${tableSchema}.${tableName}`;
-          const existingNode = await neo4jService.findTableByCanonicalKey(canonicalKey);
+        const existingNode = await graphConnectionManager.withGraphTarget(databaseId, graph =>
+          graph.findTableByCanonicalKey(canonicalKey)
+        );
+
+        if (existingNode && existingNode.description && existingNode.description.length > 0) {
+          console.log(`✨ Context reuse: Found existing description for table ${tableName} (saved LLM call)`);
+          await this.recordReuse("table_description", databaseId);
           
-          if (existingNode && existingNode.description && existingNode.description.length > 0) {
-            console.log(`✨ Context reuse: Found existing description for table ${tableName} (saved LLM call)`);
-            
-            // Parse existing description into expected format
-            try {
-              const parsed = JSON.parse(existingNode.description);
-              return {
-                ...parsed,
-                wasReused: true
-              };
-            } catch {
-              return {
-                table_name: tableName,
-                description: existingNode.description,
-                business_purpose: '',
-                data_characteristics: '',
-                wasReused: true
-              };
-            }
+          // Parse existing description into expected format
+          try {
+            const parsed = JSON.parse(existingNode.description);
+            return {
+              ...parsed,
+              wasReused: true
+            };
+          } catch {
+            return {
+              table_name: tableName,
+              description: existingNode.description,
+              business_purpose: '',
+              data_characteristics: '',
+              wasReused: true
+            };
           }
         }
       } catch (error) {
         console.warn(`⚠️  Neo4j lookup failed for table ${tableName}, falling back to fresh LLM generation:`, error instanceof Error ? error.message : error);
-      } finally {
-        if (neo4jConnected) {
-          await neo4jService.disconnect();
-        }
       }
     }
     
@@ -128,29 +357,15 @@ export class GeminiService {
     const freshDescription = await this.generateTableDescription(tableName, schema, sampleData);
     
     // Persist fresh description back to Neo4j (last-wins update)
-    if (neo4jService.isSharedNodesEnabled()) {
-      neo4jConnected = false;
+    if (Neo4jService.isSharedNodesEnabled()) {
       try {
-        // Connect to Neo4j before persisting
-        const neo4jConnectionId = environmentService.getNeo4jConnectionId();
-        const neo4jConnection = await storage.getConnection(neo4jConnectionId);
-        
-        if (neo4jConnection) {
-          neo4jConnected = await neo4jService.connect(neo4jConnection.config as any);
-        }
-        
-        if (neo4jConnected) {
-          const canonicalKey = `${databaseId}.${tableSchema}.${tableName}`;
+        await graphConnectionManager.withGraphTarget(databaseId, async graph => {
           const descriptionJson = JSON.stringify(freshDescription);
-          await neo4jService.updateTableDescription(canonicalKey, descriptionJson);
+          await graph.updateTableDescription(canonicalKey, descriptionJson);
           console.log(`💾 Persisted fresh table description for ${tableName} to shared knowledge graph`);
-        }
+        });
       } catch (error) {
         console.warn(`⚠️  Failed to persist table description for ${tableName}:`, error instanceof Error ? error.message : error);
-      } finally {
-        if (neo4jConnected) {
-          await neo4jService.disconnect();
-        }
       }
     }
     
@@ -172,34 +387,30 @@ export class GeminiService {
       sampleValues: any[];
       cardinality?: number;
       nullPercentage?: number;
+      semanticType?: string;
+      semanticTypeConfidence?: number;
       databaseId?: string;
       tableSchema?: string;
     }>,
     forceRegenerate: boolean = false
   ): Promise<Array<ColumnDescription & { wasReused: boolean }>> {
-    const results: Array<ColumnDescription & { wasReused: boolean }> = [];
-    let neo4jConnected = false;
+    // All columns come from one table, so one database decides the graph target
+    const columnsDatabaseId = columns.find(column => column.databaseId)?.databaseId;
     
     // Check for existing context for each column
-    if (!forceRegenerate && neo4jService.isSharedNodesEnabled()) {
+    if (!forceRegenerate && Neo4jService.isSharedNodesEnabled()) {
       try {
-        // Connect to Neo4j before querying
-        const neo4jConnectionId = environmentService.getNeo4jConnectionId();
-        const neo4jConnection = await storage.getConnection(neo4jConnectionId);
-        
-        if (neo4jConnection) {
-          neo4jConnected = await neo4jService.connect(neo4jConnection.config as any);
-        }
-        
-        if (neo4jConnected) {
+        return await graphConnectionManager.withGraphTarget(columnsDatabaseId, async graph => {
+          const results: Array<ColumnDescription & { wasReused: boolean }> = [];
           for (const col of columns) {
             if (col.databaseId && col.tableSchema) {
               const columnKey = `${col.databaseId}.${col.tableSchema}.${tableName}.${col.name}`;
               try {
-                const existingNode = await neo4jService.findColumnByColumnKey(columnKey);
+                const existingNode = await graph.findColumnByColumnKey(columnKey);
                 
                 if (existingNode && existingNode.description && existingNode.description.length > 0) {
                   console.log(`✨ Context reuse: Found existing description for column ${col.name} (saved LLM call)`);
+                  await this.recordReuse("column_descriptions", col.databaseId);
                   
                   // Parse existing description
                   try {
@@ -233,81 +444,46 @@ export class GeminiService {
               wasReused: false 
             } as any);
           }
-        }
         
-        // If any columns need fresh generation, batch call the LLM for efficiency
-        const columnsNeedingGeneration = results
-          .map((r, i) => ({ result: r, index: i, column: columns[i] }))
-          .filter(item => !item.result.wasReused && !item.result.description);
+          // If any columns need fresh generation, batch call the LLM for efficiency
+          const columnsNeedingGeneration = results
+            .map((r, i) => ({ result: r, index: i, column: columns[i] }))
+            .filter(item => !item.result.wasReused && !item.result.description);
         
-        if (columnsNeedingGeneration.length > 0) {
-          const freshDescriptions = await this.generateColumnDescriptions(
-            tableName,
-            columnsNeedingGeneration.map(item => item.column)
-          );
+          if (columnsNeedingGeneration.length > 0) {
+            const freshDescriptions = await this.generateColumnDescriptions(
+              tableName,
+              columnsNeedingGeneration.map(item => item.column)
+            );
           
-          // Disconnect from lookup connection before persistence
-          if (neo4jConnected) {
-            await neo4jService.disconnect();
-            neo4jConnected = false;
-          }
-          
-          // Merge fresh descriptions back into results and persist to Neo4j (last-wins)
-          neo4jConnected = false;
-          try {
-            // Connect to Neo4j before persisting
-            const neo4jConnectionId = environmentService.getNeo4jConnectionId();
-            const neo4jConnection = await storage.getConnection(neo4jConnectionId);
-            
-            if (neo4jConnection) {
-              neo4jConnected = await neo4jService.connect(neo4jConnection.config as any);
-            }
-            
-            if (neo4jConnected) {
-              for (const [freshIndex, item] of columnsNeedingGeneration.entries()) {
-                const freshDesc = freshDescriptions[freshIndex];
-                results[item.index] = {
-                  ...freshDesc,
-                  wasReused: false
-                };
+            // Merge fresh descriptions back into results and persist to Neo4j (last-wins)
+            for (const [freshIndex, item] of columnsNeedingGeneration.entries()) {
+              const freshDesc = freshDescriptions[freshIndex];
+              results[item.index] = {
+                ...freshDesc,
+                wasReused: false
+              };
                 
-                // Persist fresh description back to Neo4j
-                const col = item.column;
-                if (col.databaseId && col.tableSchema) {
-                  const columnKey = `${col.databaseId}.${col.tableSchema}.${tableName}.${col.name}`;
-                  const descriptionJson = JSON.stringify(freshDesc);
-                  try {
-                    await neo4jService.updateColumnDescription('', descriptionJson, columnKey);
-                    console.log(`💾 Persisted fresh column description for ${col.name} to shared knowledge graph`);
-                  } catch (error) {
-                    console.warn(`⚠️  Failed to persist column description for ${col.name}:`, error instanceof Error ? error.message : error);
-                  }
+              // Persist fresh description back to Neo4j
+              const col = item.column;
+              if (col.databaseId && col.tableSchema) {
+                const columnKey = `${col.databaseId}.${col.tableSchema}.${tableName}.${col.name}`;
+                const descriptionJson = JSON.stringify(freshDesc);
+                try {
+                  await graph.updateColumnDescription('', descriptionJson, columnKey);
+                  console.log(`💾 Persisted fresh column description for ${col.name} to shared knowledge graph`);
+                } catch (error) {
+                  console.warn(`⚠️  Failed to persist column description for ${col.name}:`, error instanceof Error ? error.message : error);
                 }
               }
-            } else {
-              // If connection failed, just update results without persistence
-              columnsNeedingGeneration.forEach((item, freshIndex) => {
-                results[item.index] = {
-                  ...freshDescriptions[freshIndex],
-                  wasReused: false
-                };
-              });
-            }
-          } finally {
-            if (neo4jConnected) {
-              await neo4jService.disconnect();
             }
           }
-        }
         
-        return results;
+          return results;
+        });
       } catch (error) {
         // Gracefully degrade if Neo4j is unavailable
         console.warn(`⚠️  Neo4j context reuse failed, falling back to fresh LLM generation for all columns:`, error instanceof Error ? error.message : error);
-      } finally {
-        if (neo4jConnected) {
-          await neo4jService.disconnect();
-        }
       }
     }
     
@@ -341,30 +517,26 @@ Generate a JSON response with the following structure:
 }`;
 
     try {
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: "object",
-            properties: {
-              table_name: { type: "string" },
-              description: { type: "string" },
-              business_purpose: { type: "string" },
-              data_characteristics: { type: "string" }
-            },
-            required: ["table_name", "description", "business_purpose", "data_characteristics"]
-          }
-        },
-        contents: prompt
-      });
-
-      const result = JSON.parse(response.text || "{}");
-      return result as TableDescription;
+      return await this.generateValidated({
+        task: "table_description",
+        tier: "fast",
+        prompt,
+        input: { tableName, sampleData },
+        responseSchema: {
+          type: "object",
+          properties: {
+            table_name: { type: "string" },
+            description: { type: "string" },
+            business_purpose: { type: "string" },
+            data_characteristics: { type: "string" }
+          },
+          required: ["table_name", "description", "business_purpose", "data_characteristics"]
+        }
+      }, tableDescriptionSchema);
     } catch (error: any) {
       // Handle quota exhaustion gracefully
       if (error?.status === 'RESOURCE_EXHAUSTED' || error?.message?.includes('quota') || error?.message?.includes('429')) {
-        console.warn(`Gemini API quota exhausted for table ${tableName}. Returning fallback description.`);
+        console.warn(`LLM quota exhausted (${this.provider.name}) for table ${tableName}. Returning fallback description.`);
         return {
           table_name: tableName,
           description: `Table containing ${tableName} data - AI description unavailable due to quota limits`,
@@ -384,6 +556,8 @@ Generate a JSON response with the following structure:
       sampleValues: any[];
       cardinality?: number;
       nullPercentage?: number;
+      semanticType?: string;
+      semanticTypeConfidence?: number;
     }>
   ): Promise<ColumnDescription[]> {
     const truncatedColumns = columns.map(col => ({
@@ -396,6 +570,8 @@ Generate a JSON response with the following structure:
 Table: ${tableName}
 Columns: ${JSON.stringify(truncatedColumns, null, 2)}
 
+Where present, semanticType (e.g. email, uuid, country_code, monetary_amount) was inferred from value patterns in the data, with semanticTypeConfidence between 0 and 1. Treat it as strong evidence but not ground truth.
+
 For each column, generate a JSON object with:
 {
   "column_name": "column name",
@@ -408,37 +584,33 @@ For each column, generate a JSON object with:
 Return an array of these objects.`;
 
     try {
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: "array",
-            items: {
-              type: "object",
-              properties: {
-                column_name: { type: "string" },
-                description: { type: "string" },
-                business_meaning: { type: "string" },
-                data_patterns: { type: "string" },
-                enum_values: {
-                  type: "array",
-                  items: { type: "string" }
-                }
-              },
-              required: ["column_name", "description", "business_meaning", "data_patterns"]
-            }
+      return await this.generateValidated({
+        task: "column_descriptions",
+        tier: "fast",
+        prompt,
+        input: { tableName, columns: truncatedColumns },
+        responseSchema: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              column_name: { type: "string" },
+              description: { type: "string" },
+              business_meaning: { type: "string" },
+              data_patterns: { type: "string" },
+              enum_values: {
+                type: "array",
+                items: { type: "string" }
+              }
+            },
+            required: ["column_name", "description", "business_meaning", "data_patterns"]
           }
-        },
-        contents: prompt
-      });
-
-      const result = JSON.parse(response.text || "[]");
-      return result as ColumnDescription[];
+        }
+      }, z.array(columnDescriptionSchema));
     } catch (error: any) {
       // Handle quota exhaustion gracefully  
       if (error?.status === 'RESOURCE_EXHAUSTED' || error?.message?.includes('quota') || error?.message?.includes('429')) {
-        console.warn(`Gemini API quota exhausted for columns in ${tableName}. Returning fallback descriptions.`);
+        console.warn(`LLM quota exhausted (${this.provider.name}) for columns in ${tableName}. Returning fallback descriptions.`);
         return columns.map(col => ({
           column_name: col.name,
           description: `${col.dataType} column - AI description unavailable due to quota limits`,
@@ -478,32 +650,28 @@ Return a JSON array of join suggestions with this structure:
 }`;
 
     try {
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: "array",
-            items: {
-              type: "object",
-              properties: {
-                from_table: { type: "string" },
-                from_column: { type: "string" },
-                to_table: { type: "string" },
-                to_column: { type: "string" },
-                confidence: { type: "number" },
-                reasoning: { type: "string" },
-                relationship_type: { type: "string" }
-              },
-              required: ["from_table", "from_column", "to_table", "to_column", "confidence", "reasoning", "relationship_type"]
-            }
+      return await this.generateValidated({
+        task: "join_suggestions",
+        tier: "fast",
+        prompt,
+        input: { tables },
+        responseSchema: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              from_table: { type: "string" },
+              from_column: { type: "string" },
+              to_table: { type: "string" },
+              to_column: { type: "string" },
+              confidence: { type: "number" },
+              reasoning: { type: "string" },
+              relationship_type: { type: "string" }
+            },
+            required: ["from_table", "from_column", "to_table", "to_column", "confidence", "reasoning", "relationship_type"]
           }
-        },
-        contents: prompt
-      });
-
-      const result = JSON.parse(response.text || "[]");
-      return result as JoinSuggestion[];
+        }
+      }, z.array(joinSuggestionSchema));
     } catch (error) {
       throw new Error(`Failed to suggest joins: ${error}`);
     }
@@ -542,61 +710,65 @@ ${truncatedSample}
 ${truncatedStats}`;
 
     try {
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-pro",
-        config: {
-          systemInstruction: systemPrompt,
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: "object",
-            properties: {
-              table_name: { type: "string" },
-              sampling_info: { type: "string" },
-              table_hypothesis: { type: "string" },
-              columns: {
-                type: "array",
-                items: {
-                  type: "object",
-                  properties: {
-                    column_name: { type: "string" },
-                    data_type: { type: "string" },
-                    sample_values: {
-                      type: "array",
-                      items: { type: "string" }
-                    },
-                    enum_values_found: {
-                      type: "array",
-                      items: { type: "string" }
-                    },
-                    hypothesis: { type: "string" },
-                    questions_for_user: {
-                      type: "array",
-                      items: {
-                        type: "object",
-                        properties: {
-                          question_text: { type: "string" },
-                          question_type: { type: "string" },
-                          options: {
-                            type: "array",
-                            items: { type: "string" }
-                          }
+      const sampleColumns = Object.keys(sampleData[0] || {}).map(name => ({
+        name,
+        sampleValues: sampleData.map(row => row[name]).filter(value => value !== null && value !== undefined)
+      }));
+
+      return await this.generateValidated({
+        task: "sme_questions",
+        tier: "pro",
+        prompt,
+        systemInstruction: systemPrompt,
+        input: { tableName, columns: sampleColumns },
+        responseSchema: {
+          type: "object",
+          properties: {
+            table_name: { type: "string" },
+            sampling_info: { type: "string" },
+            table_hypothesis: { type: "string" },
+            columns: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  column_name: { type: "string" },
+                  data_type: { type: "string" },
+                  sample_values: {
+                    type: "array",
+                    items: { type: "string" }
+                  },
+                  enum_values_found: {
+                    type: "array",
+                    items: { type: "string" }
+                  },
+                  hypothesis: { type: "string" },
+                  questions_for_user: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      properties: {
+                        question_text: { type: "string" },
+                        question_type: {
+                          type: "string",
+                          enum: ["yes_no", "multiple_choice", "free_text_definitions"]
                         },
-                        required: ["question_text", "question_type"]
-                      }
+                        options: {
+                          type: "array",
+                          items: { type: "string" }
+                        }
+                      },
+                      required: ["question_text", "question_type"]
                     }
-                  },
-                  required: ["column_name", "data_type", "sample_values", "hypothesis", "questions_for_user"]
-                }
+                  }
+                },
+                required: ["column_name", "data_type", "sample_values", "hypothesis", "questions_for_user"]
               }
-            },
-            required: ["table_name", "sampling_info", "table_hypothesis", "columns"]
-          }
-        },
-        contents: prompt
-      });
-
-      const result = JSON.parse(response.text || "{}");
-      return result as SMEQuestionSet;
+            }
+          },
+          required: ["table_name", "sampling_info", "table_hypothesis", "columns"]
+        }
+      }, smeQuestionSetSchema);
     } catch (error) {
       throw new Error(`Failed to generate SME questions: ${error}`);
     }
@@ -614,27 +786,12 @@ ${truncatedStats}`;
         cardinality?: number;
         nullPercentage?: number;
         distinctValues?: any[];
+        distribution?: ColumnDistribution;
+        semanticType?: string;
       }>;
       statisticalAnalysis: any;
     }>
-  ): Promise<Array<{
-    table: {
-      table_name: string;
-      description: string;
-      business_purpose: string;
-      data_characteristics: string;
-    } | null;
-    columns: Array<{
-      column_name: string;
-      hypothesis: string;
-      questions: Array<{
-        question_text: string;
-        question_type: "yes_no" | "multiple_choice" | "free_text_definitions";
-        options?: string[];
-        priority: "high" | "medium" | "low";
-      }>;
-    }>;
-  }>> {
+  ): Promise<ContextAndQuestions[]> {
     console.log(`Processing batch of ${tables.length} tables for context generation`);
     
     const systemPrompt = `You are an expert Data Analyst conducting a comprehensive analysis of multiple database tables simultaneously. Your task is twofold:
@@ -677,7 +834,11 @@ ${table.columnData.map(col => {
   const distinctVals = col.distinctValues && col.cardinality && col.cardinality <= 100 
     ? `\nDistinct Values: ${JSON.stringify(col.distinctValues.slice(0, 20))}${col.distinctValues.length > 20 ? '... (truncated)' : ''}`
     : '';
-  return `- ${col.name} (${col.dataType}): Cardinality: ${col.cardinality || 'unknown'}, Null%: ${col.nullPercentage || 0}${distinctVals}`;
+  const distribution = col.distribution
+    ? `\nDistribution: ${JSON.stringify(this.summarizeDistribution(col.distribution))}`
+    : '';
+  const semanticType = col.semanticType ? `, Semantic type: ${col.semanticType}` : '';
+  return `- ${col.name} (${col.dataType}${semanticType}): Cardinality: ${col.cardinality || 'unknown'}, Null%: ${col.nullPercentage || 0}${distinctVals}${distribution}`;
 }).join('\n')}`;
     }).join('\n\n---\n\n');
 
@@ -715,21 +876,19 @@ ${tablesPromptData}
 Generate complete analysis for ALL ${tables.length} tables provided.`;
 
     try {
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-pro",
-        config: {
-          systemInstruction: systemPrompt
-        },
-        contents: prompt
-      });
-
-      const result = JSON.parse(response.text || "{}");
+      const result = await this.generateValidated({
+        task: "batched_context_and_questions",
+        tier: "pro",
+        prompt,
+        systemInstruction: systemPrompt,
+        json: true,
+        input: { tables: tables.map(table => ({ tableName: table.tableName, columns: table.columnData })) }
+      }, batchedContextAndQuestionsSchema.refine(
+        batch => batch.results.length === tables.length,
+        { message: `Expected one result per table (${tables.length})`, path: ["results"] }
+      ));
       console.log(`Batch processing completed for ${tables.length} tables`);
       
-      if (!result.results || !Array.isArray(result.results)) {
-        throw new Error('Invalid batch response format from Gemini');
-      }
-      
       return result.results;
     } catch (error) {
       console.error(`Batch context generation failed for ${tables.length} tables:`, error);
@@ -782,26 +941,11 @@ Generate complete analysis for ALL ${tables.length} tables provided.`;
       cardinality?: number;
       nullPercentage?: number;
       distinctValues?: any[];
+      distribution?: ColumnDistribution;
+      semanticType?: string;
     }>,
     statisticalAnalysis: any
-  ): Promise<{
-    table: {
-      table_name: string;
-      description: string;
-      business_purpose: string;
-      data_characteristics: string;
-    } | null;
-    columns: Array<{
-      column_name: string;
-      hypothesis: string;
-      questions: Array<{
-        question_text: string;
-        question_type: "yes_no" | "multiple_choice" | "free_text_definitions";
-        options?: string[];
-        priority: "high" | "medium" | "low";
-      }>;
-    }>;
-  }> {
+  ): Promise<ContextAndQuestions> {
     const truncatedSample = this.truncateText(JSON.stringify(sampleData, null, 2), 2000);
     const truncatedStats = this.truncateText(JSON.stringify(statisticalAnalysis, null, 2), 1000);
 
@@ -841,74 +985,72 @@ ${JSON.stringify(columnData.map(col => ({
   cardinality: col.cardinality,
   nullPercentage: col.nullPercentage,
   sampleValues: col.sampleValues.slice(0, 10),
-  distinctValues: col.distinctValues // Only present for low cardinality columns
+  distinctValues: col.distinctValues, // Only present for low cardinality columns
+  distribution: this.summarizeDistribution(col.distribution), // Numeric/temporal shape, when profiled
+  semanticType: col.semanticType // Inferred from value patterns (email, uuid, country_code, ...)
 })), null, 2)}`;
 
     try {
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-pro",
-        config: {
-          systemInstruction: systemPrompt,
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: "object",
-            properties: {
-              table: {
+      return await this.generateValidated({
+        task: "context_and_questions",
+        tier: "pro",
+        prompt,
+        systemInstruction: systemPrompt,
+        input: { tableName, columns: columnData },
+        responseSchema: {
+          type: "object",
+          properties: {
+            table: {
+              type: "object",
+              properties: {
+                table_name: { type: "string" },
+                description: { type: "string" },
+                business_purpose: { type: "string" },
+                data_characteristics: { type: "string" }
+              },
+              required: ["table_name", "description", "business_purpose", "data_characteristics"]
+            },
+            columns: {
+              type: "array",
+              items: {
                 type: "object",
                 properties: {
-                  table_name: { type: "string" },
-                  description: { type: "string" },
-                  business_purpose: { type: "string" },
-                  data_characteristics: { type: "string" }
-                },
-                required: ["table_name", "description", "business_purpose", "data_characteristics"]
-              },
-              columns: {
-                type: "array",
-                items: {
-                  type: "object",
-                  properties: {
-                    column_name: { type: "string" },
-                    hypothesis: { type: "string" },
-                    questions: {
-                      type: "array",
-                      items: {
-                        type: "object",
-                        properties: {
-                          question_text: { type: "string" },
-                          question_type: { 
-                            type: "string",
-                            enum: ["yes_no", "multiple_choice", "free_text_definitions"]
-                          },
-                          options: {
-                            type: "array",
-                            items: { type: "string" }
-                          },
-                          priority: { 
-                            type: "string",
-                            enum: ["high", "medium", "low"]
-                          }
+                  column_name: { type: "string" },
+                  hypothesis: { type: "string" },
+                  questions: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      properties: {
+                        question_text: { type: "string" },
+                        question_type: { 
+                          type: "string",
+                          enum: ["yes_no", "multiple_choice", "free_text_definitions"]
                         },
-                        required: ["question_text", "question_type", "priority"]
-                      }
+                        options: {
+                          type: "array",
+                          items: { type: "string" }
+                        },
+                        priority: { 
+                          type: "string",
+                          enum: ["high", "medium", "low"]
+                        }
+                      },
+                      required: ["question_text", "question_type", "priority"]
                     }
-                  },
-                  required: ["column_name", "hypothesis", "questions"]
-                }
+                  }
+                },
+                required: ["column_name", "hypothesis", "questions"]
               }
-            },
-            required: ["table", "columns"]
-          }
-        },
-        contents: prompt
-      });
-
-      const result = JSON.parse(response.text || "{}");
-      return result;
+            }
+          },
+          required: ["table", "columns"]
+        }
+      }, contextAndQuestionsSchema);
     } catch (error: any) {
       // Handle quota exhaustion gracefully
       if (error?.status === 'RESOURCE_EXHAUSTED' || error?.message?.includes('quota') || error?.message?.includes('429')) {
-        console.warn(`Gemini API quota exhausted for table ${tableName}. Returning fallback response.`);
+        console.warn(`LLM quota exhausted (${this.provider.name}) for table ${tableName}. Returning fallback response.`);
         return {
           table: {
             table_name: tableName,
@@ -966,15 +1108,15 @@ ${smeResponses.map(r => `Q: ${r.questionText}\nA: ${r.response}\nType: ${r.quest
 
 **Task:** Create a refined column description that incorporates the SME feedback while maintaining the valuable insights from the AI analysis. Return only the description text, no additional formatting.`;
 
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-pro",
-        config: {
-          systemInstruction: systemPrompt
-        },
-        contents: prompt
+      const response = await this.callProvider({
+        task: "merge_column_context",
+        tier: "pro",
+        prompt,
+        systemInstruction: systemPrompt,
+        input: { tableName, columnName, originalDescription: originalAIDescription, smeResponses }
       });
 
-      return response.text?.trim() || originalAIDescription;
+      return response.text.trim() || originalAIDescription;
     } catch (error) {
       console.warn(`Failed to merge SME feedback for column ${columnName}:`, error);
       return originalAIDescription; // Fallback to original description
@@ -1012,38 +1154,35 @@ Generate a JSON response with this structure:
 }`;
 
     try {
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: "object",
-            properties: {
-              enum_contexts: {
-                type: "array",
-                items: {
-                  type: "object",
-                  properties: {
-                    value: { type: "string" },
-                    context: { type: "string" },
-                    hypothesis: { type: "string" }
-                  },
-                  required: ["value", "context", "hypothesis"]
-                }
+      const result = await this.generateValidated({
+        task: "enum_value_context",
+        tier: "fast",
+        prompt,
+        input: { tableName, columnName, values: enumValues },
+        responseSchema: {
+          type: "object",
+          properties: {
+            enum_contexts: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  value: { type: "string" },
+                  context: { type: "string" },
+                  hypothesis: { type: "string" }
+                },
+                required: ["value", "context", "hypothesis"]
               }
-            },
-            required: ["enum_contexts"]
-          }
-        },
-        contents: prompt
-      });
-
-      const result = JSON.parse(response.text || "{}");
-      return result.enum_contexts || [];
+            }
+          },
+          required: ["enum_contexts"]
+        }
+      }, enumValueContextSchema);
+      return result.enum_contexts;
     } catch (error: any) {
       // Handle quota exhaustion gracefully
       if (error?.status === 'RESOURCE_EXHAUSTED' || error?.message?.includes('quota') || error?.message?.includes('429')) {
-        console.warn(`Gemini API quota exhausted for enum values in ${tableName}.${columnName}. Returning fallback context.`);
+        console.warn(`LLM quota exhausted (${this.provider.name}) for enum values in ${tableName}.${columnName}. Returning fallback context.`);
         return enumValues.map(value => ({
           value,
           context: `Enum value '${value}' - AI context unavailable due to quota limits`,
@@ -1053,6 +1192,117 @@ Generate a JSON response with this structure:
       throw new Error(`Failed to generate enum value context: ${error}`);
     }
   }
+
+  /**
+   * Name and describe table clusters found in the join graph, one persona per cluster
+   */
+  async namePersonaClusters(
+    clusters: Array<{
+      clusterId: number;
+      tables: Array<{ name: string; description?: string; smeAnswers?: string[] }>;
+      joins: string[];
+    }>
+  ): Promise<PersonaNaming[]> {
+    const prompt = `These groups of database tables were found by clustering the validated foreign-key graph. Each group is likely used together by one kind of business user.
+
+Clusters: ${this.truncateText(JSON.stringify(clusters, null, 2), 12000)}
+
+For each cluster propose an agent persona:
+1. name: a short role name for the business domain the tables cover (e.g. "Order Fulfilment Analyst")
+2. description: one or two sentences on what questions this persona answers with these tables
+3. keywords: 3-8 lowercase terms a user might use when asking about this domain
+
+Generate a JSON response with this structure:
+{
+  "personas": [
+    {
+      "cluster_id": 0,
+      "name": "Persona name",
+      "description": "What this persona covers",
+      "keywords": ["keyword"]
+    }
+  ]
+}`;
+
+    const result = await this.generateValidated({
+      task: "persona_suggestion",
+      tier: "pro",
+      prompt,
+      input: { clusters },
+      responseSchema: {
+        type: "object",
+        properties: {
+          personas: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                cluster_id: { type: "integer" },
+                name: { type: "string" },
+                description: { type: "string" },
+                keywords: { type: "array", items: { type: "string" } }
+              },
+              required: ["cluster_id", "name", "description", "keywords"]
+            }
+          }
+        },
+        required: ["personas"]
+      }
+    }, personaNamingSchema);
+    return result.personas;
+  }
+
+  /**
+   * Write one read-only query answering the question from a context bundle.
+   * When the context can't support an answer, sql is empty and missing_context
+   * says what a subject matter expert would need to explain.
+   */
+  async generateSql(
+    question: string,
+    context: string,
+    dialect: string,
+    tables: Array<{ schema: string; name: string; columns: string[] }>
+  ): Promise<SqlGeneration> {
+    const prompt = `Write a ${dialect} query that answers the question below, using only the tables, columns, value meanings and joins in the context.
+
+Question: ${question}
+
+Tables (qualify them exactly like this): ${tables.map(table => `${table.schema}.${table.name}`).join(', ')}
+
+${this.truncateText(context, 24000)}
+
+Rules:
+1. A single SELECT (or WITH ... SELECT) statement; never modify data
+2. Use only the tables above and the columns listed in the context, and join only along the listed joins
+3. Filter on coded values using the value meanings given, not guesses
+4. Give every output column a unique name
+5. If the context is not enough to answer reliably, return an empty sql and list in missing_context the questions a subject matter expert would need to answer (e.g. "Which column records when an order shipped?")
+
+Generate a JSON response with this structure:
+{
+  "sql": "SELECT ...",
+  "explanation": "How the query answers the question",
+  "tables_used": ["schema.table"],
+  "missing_context": ["Question for a subject matter expert"]
+}`;
+
+    return this.generateValidated({
+      task: "sql_generation",
+      tier: "pro",
+      prompt,
+      input: { question, dialect, tables },
+      responseSchema: {
+        type: "object",
+        properties: {
+          sql: { type: "string" },
+          explanation: { type: "string" },
+          tables_used: { type: "array", items: { type: "string" } },
+          missing_context: { type: "array", items: { type: "string" } }
+        },
+        required: ["sql", "explanation", "tables_used", "missing_context"]
+      }
+    }, sqlGenerationSchema);
+  }
 }
 
 export const geminiService = new GeminiService();
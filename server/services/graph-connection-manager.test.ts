@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Connection } from '@shared/schema';
+
+const { drivers } = vi.hoisted(() => ({
+  drivers: [] as Array<{ uri: string; close: ReturnType<typeof vi.fn>; session: ReturnType<typeof vi.fn> }>
+}));
+
+vi.mock('neo4j-driver', () => {
+  const driver = (uri: string) => {
+    const created = {
+      uri,
+      close: vi.fn(async () => {}),
+      session: vi.fn(() => ({
+        run: vi.fn(async () => {
+          if (uri.includes('down')) throw new Error('unreachable');
+          return { records: [] };
+        }),
+        close: vi.fn(async () => {})
+      }))
+    };
+    drivers.push(created);
+    return created;
+  };
+  return { default: { driver, auth: { basic: vi.fn() } } };
+});
+vi.mock('../storage', () => ({ storage: {} }));
+
+import { GraphConnectionManager } from './graph-connection-manager';
+
+const connection = (id: string, uri: string) =>
+  ({ id, type: 'neo4j', config: { uri, username: 'neo4j', password: 'secret' } }) as unknown as Connection;
+
+describe('GraphConnectionManager', () => {
+  beforeEach(() => {
+    drivers.length = 0;
+  });
+
+  it('gives each graph connection its own driver and reuses it', async () => {
+    const manager = new GraphConnectionManager();
+    const a = connection('a', 'bolt://a');
+    const b = connection('b', 'bolt://b');
+
+    const [graphA, graphB] = await Promise.all([
+      manager.withGraph(a, async graph => graph),
+      manager.withGraph(b, async graph => graph)
+    ]);
+    expect(graphA).not.toBeNull();
+    expect(graphA).not.toBe(graphB);
+    expect(await manager.withGraph(a, async graph => graph)).toBe(graphA);
+    expect(drivers.map(driver => driver.uri)).toEqual(['bolt://a', 'bolt://b']);
+    await manager.closeAll();
+  });
+
+  it('keeps a driver open for callers still using it when another is evicted', async () => {
+    const manager = new GraphConnectionManager();
+    const a = connection('a', 'bolt://a');
+
+    let release!: () => void;
+    const running = manager.withGraph(a, () => new Promise<void>(resolve => { release = resolve; }));
+    await vi.waitFor(() => expect(release).toBeDefined());
+
+    await manager.evict('a');
+    expect(drivers[0].close).not.toHaveBeenCalled();
+    release();
+    await running;
+    expect(drivers[0].close).toHaveBeenCalledTimes(1);
+  });
+
+  it('opens a new driver after the connection is edited', async () => {
+    const manager = new GraphConnectionManager();
+    await manager.withGraph(connection('a', 'bolt://a'), async () => {});
+    await manager.withGraph(connection('a', 'bolt://a2'), async () => {});
+
+    expect(drivers.map(driver => driver.uri)).toEqual(['bolt://a', 'bolt://a2']);
+    expect(drivers[0].close).toHaveBeenCalledTimes(1);
+    await manager.closeAll();
+  });
+
+  it('passes null for an unreachable graph and closes its driver', async () => {
+    const manager = new GraphConnectionManager();
+    expect(await manager.withGraph(connection('a', 'bolt://down'), async graph => graph)).toBeNull();
+    expect(drivers[0].close).toHaveBeenCalledTimes(1);
+  });
+});
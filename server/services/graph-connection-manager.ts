@@ -0,0 +1,210 @@
+import neo4j, { type Driver } from 'neo4j-driver';
+import type { Connection } from '@shared/schema';
+import { EnvironmentService } from './environment-service';
+import { Neo4jService, type Neo4jConfig } from './neo4j-service';
+
+interface GraphEntry {
+  driver: Driver;
+  graph: Neo4jService;
+  configKey: string;
+  refCount: number;
+  ready: Promise<boolean>;
+  idleTimer?: NodeJS.Timeout;
+  retired: boolean;
+}
+
+const DEFAULT_IDLE_TIMEOUT_MS = 60_000;
+
+async function verify(driver: Driver, database?: string): Promise<boolean> {
+  // Only specify database if explicitly provided
+  const session = driver.session(database ? { database } : {});
+  try {
+    await session.run('RETURN 1');
+    return true;
+  } finally {
+    await session.close();
+  }
+}
+
+/**
+ * Hands out Neo4j drivers keyed by graph connection id, the way connectionManager
+ * does for source databases. Each database and workspace can point at its own
+ * graph target, so concurrent builds and refreshes each get the driver for their
+ * own target and never replace or close another caller's. Drivers are
+ * ref-counted and closed after sitting idle for `idleTimeoutMs`.
+ */
+export class GraphConnectionManager {
+  private entries = new Map<string, GraphEntry>();
+
+  constructor(private idleTimeoutMs: number = DEFAULT_IDLE_TIMEOUT_MS) {}
+
+  /**
+   * Run `fn` with the graph for a Neo4j connection, releasing it afterwards.
+   * `graph` is null when Neo4j could not be reached.
+   */
+  async withGraph<T>(connection: Connection, fn: (graph: Neo4jService | null) => Promise<T>): Promise<T> {
+    const entry = await this.acquire(connection);
+    if (!entry) {
+      return fn(null);
+    }
+    try {
+      return await fn(entry.graph);
+    } finally {
+      await this.release(connection.id, entry);
+    }
+  }
+
+  /**
+   * Run `fn` with the graph target resolved for a database (workspace or instance
+   * default when it has none), failing when no target is set or Neo4j is unreachable
+   */
+  async withGraphTarget<T>(databaseId: string | undefined, fn: (graph: Neo4jService) => Promise<T>): Promise<T> {
+    const connection = await EnvironmentService.getInstance().getGraphConnection(databaseId);
+    if (!connection) {
+      throw new Error('Neo4j connection not found');
+    }
+    return this.withGraph(connection, async graph => {
+      if (!graph) {
+        throw new Error('Failed to connect to Neo4j');
+      }
+      return fn(graph);
+    });
+  }
+
+  /**
+   * Check a Neo4j config without pooling it, for the connection test
+   */
+  async testConnection(config: Neo4jConfig): Promise<{ success: boolean; latency?: number; error?: string }> {
+    let driver: Driver;
+    try {
+      driver = neo4j.driver(config.uri, neo4j.auth.basic(config.username, config.password));
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+    try {
+      return await new Neo4jService(driver, config.database).testConnection();
+    } finally {
+      await driver.close();
+    }
+  }
+
+  /**
+   * Close the driver for a connection, e.g. after its config changed or it was deleted.
+   * Callers still holding it keep working until they release.
+   */
+  async evict(connectionId: string): Promise<void> {
+    const entry = this.entries.get(connectionId);
+    if (!entry) {
+      return;
+    }
+
+    this.entries.delete(connectionId);
+    entry.retired = true;
+    if (entry.refCount === 0) {
+      await this.close(connectionId, entry);
+    }
+  }
+
+  async closeAll(): Promise<void> {
+    await Promise.all(Array.from(this.entries.keys()).map(connectionId => this.evict(connectionId)));
+  }
+
+  private async acquire(connection: Connection): Promise<GraphEntry | null> {
+    const configKey = JSON.stringify(connection.config);
+
+    let entry = this.entries.get(connection.id);
+    if (entry && entry.configKey !== configKey) {
+      // Connection was edited since the driver was opened; stop handing out the old one
+      await this.evict(connection.id);
+      entry = undefined;
+    }
+
+    if (!entry) {
+      const config = connection.config as Neo4jConfig;
+      let driver: Driver;
+      try {
+        driver = neo4j.driver(config.uri, neo4j.auth.basic(config.username, config.password));
+      } catch (error) {
+        console.error('Neo4j connection failed:', error);
+        return null;
+      }
+      entry = {
+        driver,
+        graph: new Neo4jService(driver, config.database),
+        configKey,
+        refCount: 0,
+        ready: verify(driver, config.database).then(
+          () => {
+            console.log('Neo4j connected successfully', config.database ? `to database: ${config.database}` : 'to default database');
+            return true;
+          },
+          error => {
+            console.error('Neo4j connection failed:', error);
+            return false;
+          }
+        ),
+        retired: false
+      };
+      this.entries.set(connection.id, entry);
+    }
+
+    entry.refCount++;
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer);
+      entry.idleTimer = undefined;
+    }
+
+    const connected = await entry.ready;
+    if (!connected) {
+      entry.refCount--;
+      if (this.entries.get(connection.id) === entry) {
+        this.entries.delete(connection.id);
+      }
+      if (entry.refCount === 0) {
+        await this.close(connection.id, entry);
+      }
+      return null;
+    }
+
+    return entry;
+  }
+
+  private async release(connectionId: string, entry: GraphEntry): Promise<void> {
+    entry.refCount--;
+    if (entry.refCount > 0) {
+      return;
+    }
+
+    if (entry.retired) {
+      await this.close(connectionId, entry);
+      return;
+    }
+
+    entry.idleTimer = setTimeout(() => {
+      if (entry.refCount === 0 && this.entries.get(connectionId) === entry) {
+        this.entries.delete(connectionId);
+        this.close(connectionId, entry);
+      }
+    }, this.idleTimeoutMs);
+    // Idle drivers should never keep the process alive
+    entry.idleTimer.unref();
+  }
+
+  private async close(connectionId: string, entry: GraphEntry): Promise<void> {
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer);
+      entry.idleTimer = undefined;
+    }
+
+    try {
+      await entry.driver.close();
+      console.log(`🔌 Closed Neo4j driver for connection ${connectionId}`);
+    } catch (error) {
+      console.error(`Failed to close Neo4j driver for connection ${connectionId}:`, error);
+    }
+  }
+}
+
+export const graphConnectionManager = new GraphConnectionManager(
+  parseInt(process.env.GRAPH_POOL_IDLE_TIMEOUT_MS || '', 10) || DEFAULT_IDLE_TIMEOUT_MS
+);
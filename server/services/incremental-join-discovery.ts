@@ -1,6 +1,7 @@
 import { storage } from '../storage';
-import type { Table, Column } from '@shared/schema';
-import { PostgresAnalyzer } from './postgres-analyzer';
+import { isSourceConnectionType, type Table, type Column } from '@shared/schema';
+import { connectionManager } from './connection-manager';
+import { compareSemanticTypes } from './semantic-type-detector';
 
 interface ForeignKeyConstraint {
   fromTableId: string;
@@ -125,8 +126,8 @@ export class IncrementalJoinDiscoveryService {
     }
     
     const connection = await storage.getConnection(database.connectionId);
-    if (!connection || connection.type !== 'postgresql') {
-      console.warn('⚠️  PostgreSQL connection not found, skipping catalog FK extraction');
+    if (!connection || !isSourceConnectionType(connection.type)) {
+      console.warn('⚠️  Source connection not found, skipping catalog FK extraction');
       return fks;
     }
     
@@ -142,18 +143,11 @@ export class IncrementalJoinDiscoveryService {
     const allTables = await storage.getTablesByDatabaseId(databaseId);
     const allTableNameMap = new Map(allTables.map(t => [t.name.toLowerCase(), t]));
     
-    // Connect to PostgreSQL and extract FK constraints
-    const analyzer = new PostgresAnalyzer();
+    // Extract FK constraints from the source database
     try {
-      const connected = await analyzer.connect(connection.config as any);
-      if (!connected) {
-        console.warn('⚠️  Failed to connect to PostgreSQL for FK extraction');
-        return fks;
-      }
-      
       // Query FK constraints from information_schema
       const schemaName = database.schema || 'public';
-      const catalogFks = await analyzer.getForeignKeys(schemaName);
+      const catalogFks = await connectionManager.withConnection(connection, adapter => adapter.getForeignKeys(schemaName));
       
       console.log(`📋 Found ${catalogFks.length} FK constraints in ${schemaName} schema`);
       
@@ -196,9 +190,7 @@ export class IncrementalJoinDiscoveryService {
       }
       
     } catch (error) {
-      console.error('❌ Failed to extract FK constraints from PostgreSQL:', error);
-    } finally {
-      await analyzer.disconnect();
+      console.error('❌ Failed to extract FK constraints from source database:', error);
     }
     
     return fks;
@@ -331,6 +323,15 @@ export class IncrementalJoinDiscoveryService {
         if (fkExists(table1.id, col1.id, table2.id, col2.id)) {
           continue;
         }
+
+        // Semantic types inferred during statistical analysis: a mismatch rules the pair out,
+        // a match (both UUIDs, both emails, ...) makes the naming heuristics more credible
+        const semanticComparison = compareSemanticTypes(col1.semanticType, col2.semanticType);
+        if (semanticComparison === 'conflict') {
+          continue;
+        }
+        const semanticBoost = semanticComparison === 'match' ? 0.05 : 0;
+        const semanticReason = semanticComparison === 'match' ? `; both hold ${col1.semanticType} values` : '';
         
         // Heuristic 1: Exact name match (high confidence)
         if (col1.name.toLowerCase() === col2.name.toLowerCase() &&
@@ -344,9 +345,9 @@ export class IncrementalJoinDiscoveryService {
             toTableName: table2.name,
             toColumnId: col2.id,
             toColumnName: col2.name,
-            confidence: 0.85,
+            confidence: 0.85 + semanticBoost,
             source: 'heuristic',
-            reasoning: 'Exact column name and type match'
+            reasoning: `Exact column name and type match${semanticReason}`
           });
           continue;
         }
@@ -369,9 +370,9 @@ export class IncrementalJoinDiscoveryService {
             toTableName: table2.name,
             toColumnId: col2.id,
             toColumnName: col2.name,
-            confidence: 0.80,
+            confidence: 0.80 + semanticBoost,
             source: 'heuristic',
-            reasoning: `Column ${col1.name} follows FK naming pattern for ${table2.name}`
+            reasoning: `Column ${col1.name} follows FK naming pattern for ${table2.name}${semanticReason}`
           });
           continue;
         }
@@ -389,9 +390,9 @@ export class IncrementalJoinDiscoveryService {
               toTableName: table2.name,
               toColumnId: col2.id,
               toColumnName: col2.name,
-              confidence: 0.65,
+              confidence: 0.65 + semanticBoost,
               source: 'heuristic',
-              reasoning: `Column ${col1.name} may reference ${table2.name} (semantic similarity)`
+              reasoning: `Column ${col1.name} may reference ${table2.name} (semantic similarity)${semanticReason}`
             });
           }
         }
@@ -0,0 +1,86 @@
+import type { Connection, LLMConnectionConfig, LLMProviderName } from '@shared/schema';
+import { storage } from '../storage';
+import { createLLMProvider, type LLMProvider } from './llm-provider';
+
+/**
+ * Resolves which LLM provider a database's context generation runs against:
+ *   1. the database's own llmConnectionId
+ *   2. the llmConnectionId of the source connection it was discovered on
+ *   3. the environment default (LLM_PROVIDER, falling back to Gemini)
+ *
+ * Providers are cached per connection and rebuilt when the connection's config changes.
+ */
+export class LLMProviderRegistry {
+  private providers = new Map<string, { configKey: string; provider: LLMProvider }>();
+  private defaultProvider?: LLMProvider;
+
+  getDefault(): LLMProvider {
+    if (!this.defaultProvider) {
+      this.defaultProvider = createLLMProvider({
+        provider: (process.env.LLM_PROVIDER || 'gemini') as LLMProviderName,
+        apiKey: process.env.LLM_API_KEY,
+        baseUrl: process.env.LLM_BASE_URL,
+        model: process.env.LLM_MODEL,
+        fastModel: process.env.LLM_FAST_MODEL,
+        fixturesDir: process.env.LLM_MOCK_FIXTURES_DIR
+      });
+    }
+    return this.defaultProvider;
+  }
+
+  /**
+   * Provider for an 'llm' connection. Legacy 'gemini' connections map onto the Gemini provider.
+   */
+  forConnection(connection: Connection): LLMProvider {
+    const config = this.toProviderConfig(connection);
+    const configKey = JSON.stringify(config);
+
+    const cached = this.providers.get(connection.id);
+    if (cached && cached.configKey === configKey) {
+      return cached.provider;
+    }
+
+    const provider = createLLMProvider(config);
+    this.providers.set(connection.id, { configKey, provider });
+    return provider;
+  }
+
+  async forDatabase(databaseId: string): Promise<LLMProvider> {
+    const llmConnection = await this.connectionForDatabase(databaseId);
+    return llmConnection ? this.forConnection(llmConnection) : this.getDefault();
+  }
+
+  /**
+   * The LLM connection a database resolves to, or null when it uses the environment default
+   */
+  async connectionForDatabase(databaseId: string): Promise<Connection | null> {
+    const database = await storage.getDatabase(databaseId);
+    if (!database) return null;
+
+    let llmConnectionId = database.llmConnectionId;
+    if (!llmConnectionId) {
+      const sourceConnection = await storage.getConnection(database.connectionId);
+      llmConnectionId = sourceConnection?.llmConnectionId ?? null;
+    }
+    if (!llmConnectionId) return null;
+
+    const llmConnection = await storage.getConnection(llmConnectionId);
+    if (!llmConnection) {
+      console.warn(`⚠️  LLM connection ${llmConnectionId} for database ${databaseId} not found, using default provider`);
+      return null;
+    }
+    return llmConnection;
+  }
+
+  toProviderConfig(connection: Connection): LLMConnectionConfig {
+    if (connection.type === 'gemini') {
+      return { ...(connection.config as Partial<LLMConnectionConfig>), provider: 'gemini' };
+    }
+    if (connection.type === 'llm') {
+      return connection.config as LLMConnectionConfig;
+    }
+    throw new Error(`Connection ${connection.name} is a ${connection.type} connection, not an LLM connection`);
+  }
+}
+
+export const llmProviderRegistry = new LLMProviderRegistry();
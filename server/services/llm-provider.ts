@@ -0,0 +1,99 @@
+import { LLM_PROVIDERS, type LLMConnectionConfig, type LLMProviderName } from '@shared/schema';
+import { GeminiProvider } from './gemini-provider';
+import { OpenAICompatibleProvider } from './openai-provider';
+import { OllamaProvider } from './ollama-provider';
+import { MockLLMProvider } from './mock-llm-provider';
+
+/**
+ * 'fast' covers short, high-volume calls (descriptions, enum contexts);
+ * 'pro' covers the heavier reasoning calls (SME questions, merges).
+ */
+export type LLMModelTier = 'fast' | 'pro';
+
+/**
+ * What a call is for. Providers ignore it; the mock provider uses it to pick
+ * fixtures and to shape its synthetic answers.
+ */
+export type LLMTask =
+  | 'table_description'
+  | 'column_descriptions'
+  | 'join_suggestions'
+  | 'sme_questions'
+  | 'batched_context_and_questions'
+  | 'context_and_questions'
+  | 'merge_column_context'
+  | 'enum_value_context'
+  | 'persona_suggestion'
+  | 'sql_generation'
+  | 'connection_test';
+
+export interface LLMRequest {
+  task: LLMTask;
+  tier: LLMModelTier;
+  prompt: string;
+  systemInstruction?: string;
+  json?: boolean; // Ask for a JSON answer; implied by responseSchema
+  responseSchema?: Record<string, any>; // OpenAPI-style schema as accepted by Gemini
+  input?: Record<string, any>; // Structured form of the prompt's data, for the mock provider
+}
+
+export interface LLMResponse {
+  text: string;
+  model: string;
+  usage?: {
+    inputTokens?: number;
+    outputTokens?: number;
+  };
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+}
+
+export const LLM_REQUEST_TIMEOUT_MS = Number(process.env.LLM_REQUEST_TIMEOUT_MS) || 120_000;
+
+/**
+ * Providers without native schema support get the schema spelled out in the
+ * system prompt instead.
+ */
+export function buildSystemPrompt(request: LLMRequest): string | undefined {
+  if (!request.responseSchema && !request.json) return request.systemInstruction;
+
+  const parts = [request.systemInstruction];
+  if (request.responseSchema) {
+    parts.push(`Respond with a single JSON value matching this schema, and nothing else:\n${JSON.stringify(request.responseSchema)}`);
+  } else {
+    parts.push('Respond with a single JSON value and nothing else.');
+  }
+  return parts.filter(Boolean).join('\n\n');
+}
+
+/**
+ * Error for non-2xx HTTP responses. The status stays in the message so the
+ * quota checks in GeminiService (which look for '429') keep working.
+ */
+export async function httpError(provider: string, response: Response): Promise<Error> {
+  const body = await response.text().catch(() => '');
+  return new Error(`${provider} request failed with status ${response.status}: ${body.slice(0, 500)}`);
+}
+
+function assertProvider(provider: string | undefined): asserts provider is LLMProviderName {
+  if (!provider || !(LLM_PROVIDERS as readonly string[]).includes(provider)) {
+    throw new Error(`Unsupported LLM provider: ${provider}. Expected one of ${LLM_PROVIDERS.join(', ')}`);
+  }
+}
+
+export function createLLMProvider(config: LLMConnectionConfig): LLMProvider {
+  assertProvider(config.provider);
+  switch (config.provider) {
+    case 'gemini':
+      return new GeminiProvider(config);
+    case 'openai':
+      return new OpenAICompatibleProvider(config);
+    case 'ollama':
+      return new OllamaProvider(config);
+    case 'mock':
+      return new MockLLMProvider(config);
+  }
+}
@@ -0,0 +1,132 @@
+import type { InsertLlmCall, LlmCall, LlmUsageSummary } from '@shared/schema';
+import { storage } from '../storage';
+
+// USD per million tokens. Matched by longest model-name prefix; extend or override with LLM_PRICING (same JSON shape).
+const DEFAULT_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 }
+};
+
+// Local and offline providers cost nothing per token
+const FREE_PROVIDERS = new Set(['ollama', 'mock']);
+
+function loadPricing(): Record<string, { input: number; output: number }> {
+  if (!process.env.LLM_PRICING) return DEFAULT_PRICING;
+  try {
+    return { ...DEFAULT_PRICING, ...JSON.parse(process.env.LLM_PRICING) };
+  } catch {
+    console.warn('⚠️  Ignoring LLM_PRICING: not valid JSON');
+    return DEFAULT_PRICING;
+  }
+}
+
+/**
+ * Records every LLM provider call (and every call avoided through context reuse)
+ * in llm_calls, and rolls them up into spend summaries per job or database.
+ */
+export class LLMUsageService {
+  private pricing = loadPricing();
+
+  estimateCost(provider: string, model: string | null | undefined, inputTokens: number, outputTokens: number): number {
+    if (FREE_PROVIDERS.has(provider) || !model) return 0;
+    const key = Object.keys(this.pricing)
+      .filter(prefix => model.startsWith(prefix))
+      .sort((a, b) => b.length - a.length)[0];
+    if (!key) return 0;
+    const price = this.pricing[key];
+    return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+  }
+
+  /**
+   * Persist one call. Accounting must never break generation, so failures are only logged.
+   */
+  async record(call: Omit<InsertLlmCall, 'estimatedCost'>): Promise<void> {
+    const estimatedCost = call.reused
+      ? 0
+      : this.estimateCost(call.provider, call.model, call.inputTokens ?? 0, call.outputTokens ?? 0);
+    try {
+      await storage.createLlmCall({ ...call, estimatedCost: estimatedCost.toFixed(6) });
+    } catch (error) {
+      console.error(`Failed to record LLM call for ${call.task}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  async summarizeJob(jobId: string): Promise<LlmUsageSummary> {
+    return this.summarize(await storage.getLlmCallsByJobId(jobId));
+  }
+
+  async summarizeDatabase(databaseId: string): Promise<LlmUsageSummary> {
+    return this.summarize(await storage.getLlmCallsByDatabaseId(databaseId));
+  }
+
+  /**
+   * Savings are priced at the average cost of fresh calls for the same task
+   * (or of all fresh calls when the task was never called fresh).
+   */
+  summarize(calls: LlmCall[]): LlmUsageSummary {
+    const fresh = calls.filter(call => !call.reused);
+    const reused = calls.filter(call => call.reused);
+    const cost = (call: LlmCall) => parseFloat(call.estimatedCost || '0');
+    const average = (items: LlmCall[]) =>
+      items.length > 0 ? items.reduce((sum, call) => sum + cost(call), 0) / items.length : 0;
+
+    const overallAverage = average(fresh);
+    const averageByTask = new Map<string, number>();
+    const byTask = new Map<string, LlmUsageSummary['byTask'][number]>();
+    const byModel = new Map<string, LlmUsageSummary['byModel'][number]>();
+
+    for (const call of calls) {
+      const task = byTask.get(call.task) ?? { task: call.task, calls: 0, reusedCalls: 0, estimatedCost: 0 };
+      if (call.reused) {
+        task.reusedCalls++;
+      } else {
+        task.calls++;
+        task.estimatedCost += cost(call);
+      }
+      byTask.set(call.task, task);
+      if (call.reused) continue;
+
+      const modelKey = `${call.provider}:${call.model ?? ''}`;
+      const model = byModel.get(modelKey) ?? {
+        provider: call.provider,
+        model: call.model ?? '',
+        calls: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        estimatedCost: 0
+      };
+      model.calls++;
+      model.inputTokens += call.inputTokens ?? 0;
+      model.outputTokens += call.outputTokens ?? 0;
+      model.estimatedCost += cost(call);
+      byModel.set(modelKey, model);
+    }
+
+    for (const task of Array.from(byTask.values())) {
+      if (task.calls > 0) {
+        averageByTask.set(task.task, task.estimatedCost / task.calls);
+      }
+    }
+
+    const totalLatencyMs = fresh.reduce((sum, call) => sum + (call.latencyMs ?? 0), 0);
+    return {
+      calls: fresh.length,
+      reusedCalls: reused.length,
+      failedCalls: fresh.filter(call => call.success === false).length,
+      inputTokens: fresh.reduce((sum, call) => sum + (call.inputTokens ?? 0), 0),
+      outputTokens: fresh.reduce((sum, call) => sum + (call.outputTokens ?? 0), 0),
+      totalLatencyMs,
+      avgLatencyMs: fresh.length > 0 ? Math.round(totalLatencyMs / fresh.length) : 0,
+      estimatedCost: fresh.reduce((sum, call) => sum + cost(call), 0),
+      estimatedSavings: reused.reduce((sum, call) => sum + (averageByTask.get(call.task) ?? overallAverage), 0),
+      byModel: Array.from(byModel.values()).sort((a, b) => b.estimatedCost - a.estimatedCost),
+      byTask: Array.from(byTask.values()).sort((a, b) => b.estimatedCost - a.estimatedCost)
+    };
+  }
+}
+
+export const llmUsageService = new LLMUsageService();
@@ -0,0 +1,275 @@
+import { createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import type { LLMConnectionConfig } from '@shared/schema';
+import type { LLMProvider, LLMRequest, LLMResponse, LLMTask } from './llm-provider';
+
+const MOCK_MODEL = 'mock-llm';
+
+type MockColumn = {
+  name: string;
+  dataType?: string;
+  cardinality?: number;
+  distinctValues?: any[];
+  semanticType?: string;
+};
+
+function humanize(name: string): string {
+  return name.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_\-]+/g, ' ').trim().toLowerCase();
+}
+
+function singular(name: string): string {
+  const lower = name.toLowerCase();
+  if (lower.endsWith('ies')) return `${lower.slice(0, -3)}y`;
+  if (lower.endsWith('ses') || lower.endsWith('xes')) return lower.slice(0, -2);
+  if (lower.endsWith('s') && !lower.endsWith('ss')) return lower.slice(0, -1);
+  return lower;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Offline provider for CI and air-gapped installs. Answers come from recorded
+ * fixtures when present, otherwise they are synthesized from the request's
+ * structured input. The same request always produces the same answer.
+ *
+ * Fixture lookup, relative to fixturesDir (or LLM_MOCK_FIXTURES_DIR):
+ *   <task>/<first 12 hex chars of sha1(prompt)>.json   exact prompt
+ *   <task>.json                                       any prompt for the task
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+
+  constructor(private config: Partial<LLMConnectionConfig> = {}) {}
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const text = this.readFixture(request) ?? JSON.stringify(this.synthesize(request));
+    const output = request.task === 'merge_column_context' || request.task === 'connection_test'
+      ? this.unwrapText(text)
+      : text;
+
+    return {
+      text: output,
+      model: MOCK_MODEL,
+      usage: {
+        inputTokens: estimateTokens((request.systemInstruction || '') + request.prompt),
+        outputTokens: estimateTokens(output)
+      }
+    };
+  }
+
+  /**
+   * Fixture key for a prompt, so recorded responses can be named after it
+   */
+  static fixtureKey(prompt: string): string {
+    return createHash('sha1').update(prompt).digest('hex').slice(0, 12);
+  }
+
+  private readFixture(request: LLMRequest): string | null {
+    const dir = this.config.fixturesDir || process.env.LLM_MOCK_FIXTURES_DIR;
+    if (!dir) return null;
+
+    const candidates = [
+      path.join(dir, request.task, `${MockLLMProvider.fixtureKey(request.prompt)}.json`),
+      path.join(dir, `${request.task}.json`)
+    ];
+    for (const file of candidates) {
+      if (existsSync(file)) {
+        return readFileSync(file, 'utf-8');
+      }
+    }
+    return null;
+  }
+
+  // Plain-text tasks may be recorded as a bare JSON string
+  private unwrapText(text: string): string {
+    try {
+      const parsed = JSON.parse(text);
+      return typeof parsed === 'string' ? parsed : text;
+    } catch {
+      return text;
+    }
+  }
+
+  private synthesize(request: LLMRequest): any {
+    const input = request.input || {};
+    const task: LLMTask = request.task;
+
+    switch (task) {
+      case 'table_description':
+        return this.tableDescription(input.tableName);
+      case 'column_descriptions':
+        return (input.columns || []).map((column: MockColumn) => this.columnDescription(column));
+      case 'join_suggestions':
+        return this.joinSuggestions(input.tables || []);
+      case 'sme_questions':
+        return this.smeQuestions(input.tableName, input.columns || []);
+      case 'context_and_questions':
+        return this.contextAndQuestions(input.tableName, input.columns || []);
+      case 'batched_context_and_questions':
+        return {
+          results: (input.tables || []).map((table: { tableName: string; columns: MockColumn[] }) =>
+            this.contextAndQuestions(table.tableName, table.columns || []))
+        };
+      case 'merge_column_context': {
+        const answers = (input.smeResponses || [])
+          .map((response: { response: string }) => response.response)
+          .filter(Boolean);
+        const original = input.originalDescription || `Column ${input.columnName}.`;
+        return answers.length > 0 ? `${original} Confirmed by SME: ${answers.join('; ')}.` : original;
+      }
+      case 'enum_value_context':
+        return {
+          enum_contexts: (input.values || []).map((value: string) => ({
+            value,
+            context: `'${value}' is one of the recorded ${humanize(input.columnName || 'value')} values in ${input.tableName}`,
+            hypothesis: `Rows are set to '${value}' when the ${humanize(input.columnName || 'value')} is ${humanize(String(value))}`
+          }))
+        };
+      case 'persona_suggestion':
+        return {
+          personas: (input.clusters || []).map((cluster: { clusterId: number; tables: Array<{ name: string }> }) => {
+            const names = cluster.tables.map(table => table.name);
+            const lead = humanize(names[0] || 'data');
+            return {
+              cluster_id: cluster.clusterId,
+              name: `${lead.replace(/\b\w/g, letter => letter.toUpperCase())} Analyst`,
+              description: `Answers questions about ${names.map(humanize).join(', ')}`,
+              keywords: names.map(name => singular(humanize(name)))
+            };
+          })
+        };
+      case 'sql_generation': {
+        // Lists the first table of the context; good enough to exercise EXPLAIN and execution
+        const table = (input.tables || [])[0] as { schema: string; name: string; columns: string[] } | undefined;
+        if (!table) {
+          return { sql: '', explanation: 'No tables in context', tables_used: [], missing_context: [`Which tables answer "${input.question}"?`] };
+        }
+        const quote = (identifier: string) => input.dialect === 'MySQL' ? `\`${identifier}\`` : `"${identifier}"`;
+        const columns = table.columns.length > 0 ? table.columns.slice(0, 5).map(quote).join(', ') : '*';
+        return {
+          sql: `SELECT ${columns} FROM ${quote(table.schema)}.${quote(table.name)}`,
+          explanation: `Lists ${humanize(table.name)} rows`,
+          tables_used: [`${table.schema}.${table.name}`],
+          missing_context: []
+        };
+      }
+      case 'connection_test':
+        return 'OK';
+    }
+  }
+
+  private tableDescription(tableName: string) {
+    return {
+      table_name: tableName,
+      description: `Stores ${humanize(tableName)} records`,
+      business_purpose: `Tracks ${humanize(tableName)} for reporting and operations`,
+      data_characteristics: `One row per ${singular(humanize(tableName))}`
+    };
+  }
+
+  private columnDescription(column: MockColumn) {
+    const values = (column.distinctValues || []).map(String);
+    return {
+      column_name: column.name,
+      description: `${column.dataType || 'value'} column holding the ${humanize(column.name)}`,
+      business_meaning: `The ${humanize(column.name)}${column.semanticType ? ` (${column.semanticType})` : ''}`,
+      data_patterns: column.cardinality !== undefined ? `${column.cardinality} distinct values` : 'No profile available',
+      ...(values.length > 0 && values.length <= 100 ? { enum_values: values } : {})
+    };
+  }
+
+  private hypothesis(column: MockColumn): string {
+    if (/_id$/i.test(column.name)) {
+      return `Foreign key referencing ${humanize(column.name.replace(/_id$/i, ''))}`;
+    }
+    if (column.name.toLowerCase() === 'id') {
+      return 'Primary key of the table';
+    }
+    return `Holds the ${humanize(column.name)}${column.semanticType ? ` as ${column.semanticType}` : ''}`;
+  }
+
+  private questions(column: MockColumn) {
+    const values = (column.distinctValues || []).map(String);
+    if (values.length > 0 && values.length <= 20) {
+      return [{
+        question_text: `What does each ${humanize(column.name)} value mean: ${values.join(', ')}?`,
+        question_type: 'free_text_definitions' as const,
+        priority: 'high' as const
+      }];
+    }
+    if (/_id$/i.test(column.name)) {
+      return [{
+        question_text: `Does ${column.name} reference the ${humanize(column.name.replace(/_id$/i, ''))} table?`,
+        question_type: 'yes_no' as const,
+        priority: 'medium' as const
+      }];
+    }
+    return [{
+      question_text: `What is the business purpose of the ${column.name} column?`,
+      question_type: 'free_text_definitions' as const,
+      priority: 'low' as const
+    }];
+  }
+
+  private contextAndQuestions(tableName: string, columns: MockColumn[]) {
+    return {
+      table: this.tableDescription(tableName),
+      columns: columns.map(column => ({
+        column_name: column.name,
+        hypothesis: this.hypothesis(column),
+        questions: this.questions(column)
+      }))
+    };
+  }
+
+  private smeQuestions(tableName: string, columns: Array<MockColumn & { sampleValues?: any[] }>) {
+    return {
+      table_name: tableName,
+      sampling_info: `Mock analysis of ${tableName}`,
+      table_hypothesis: this.tableDescription(tableName).description,
+      columns: columns.map(column => {
+        const values = (column.distinctValues || []).map(String);
+        return {
+          column_name: column.name,
+          data_type: column.dataType || 'unknown',
+          sample_values: (column.sampleValues || []).slice(0, 5).map(String),
+          ...(values.length > 0 && values.length <= 20 ? { enum_values_found: values } : {}),
+          hypothesis: this.hypothesis(column),
+          questions_for_user: this.questions(column).map(({ priority, ...question }) => question)
+        };
+      })
+    };
+  }
+
+  /**
+   * Pair `<name>_id` columns with a table called <name> (or its plural) that has an `id` column
+   */
+  private joinSuggestions(tables: Array<{ name: string; columns: Array<{ name: string }> }>) {
+    const suggestions = [];
+    for (const table of tables) {
+      for (const column of table.columns) {
+        const match = column.name.match(/^(.+)_id$/i);
+        if (!match) continue;
+        const target = tables.find(candidate =>
+          candidate.name !== table.name &&
+          singular(candidate.name) === singular(match[1]) &&
+          candidate.columns.some(c => c.name.toLowerCase() === 'id'));
+        if (!target) continue;
+
+        suggestions.push({
+          from_table: table.name,
+          from_column: column.name,
+          to_table: target.name,
+          to_column: 'id',
+          confidence: 0.8,
+          reasoning: `${column.name} follows the <table>_id naming convention for ${target.name}.id`,
+          relationship_type: 'many-to-one'
+        });
+      }
+    }
+    return suggestions;
+  }
+}
@@ -0,0 +1,471 @@
+import mysql, { type Pool, type PoolConnection, type RowDataPacket } from 'mysql2/promise';
+import type { Connection as CallbackConnection, FieldPacket } from 'mysql2';
+import type { NumericDistribution, TemporalDistribution } from '@shared/schema';
+import type { TableInfo, ColumnInfo, ForeignKeyInfo, ReadOnlyQueryResult } from './postgres-analyzer';
+import type { SourceAdapter } from './source-adapter';
+import {
+  buildProfileAggregates,
+  readProfileAggregates,
+  buildUnionDistinctQuery,
+  attachDistinctValues,
+  lowCardinalityIndexes,
+  DEFAULT_DISTINCT_LIMIT,
+  computeNumericDistribution,
+  computeTemporalDistribution,
+  type ProfileColumnSpec,
+  type ProfileOptions,
+  type ColumnProfile
+} from './column-profiler';
+
+export interface MySQLConfig {
+  connectionString?: string;
+  host?: string;
+  port?: number;
+  database?: string;
+  user?: string;
+  password?: string;
+}
+
+export class MySQLAnalyzer implements SourceAdapter {
+  private pool: Pool | null = null;
+  private defaultSchema: string | null = null;
+  private isDisconnecting: boolean = false;
+
+  async connect(config: MySQLConfig): Promise<boolean> {
+    try {
+      this.pool = config.connectionString
+        ? mysql.createPool(config.connectionString)
+        : mysql.createPool({
+            host: config.host,
+            port: config.port,
+            database: config.database,
+            user: config.user,
+            password: config.password
+          });
+      this.isDisconnecting = false;
+
+      // Test connection and remember the default database for 'public' lookups
+      const [rows] = await this.pool.query<RowDataPacket[]>('SELECT DATABASE() AS db');
+      this.defaultSchema = rows[0]?.db || config.database || null;
+
+      return true;
+    } catch (error) {
+      console.error('MySQL connection failed:', error);
+      return false;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    // Guard against multiple concurrent disconnect calls
+    if (!this.pool || this.isDisconnecting) {
+      return;
+    }
+
+    this.isDisconnecting = true;
+    try {
+      await this.pool.end();
+    } finally {
+      this.pool = null;
+      this.defaultSchema = null;
+      this.isDisconnecting = false;
+    }
+  }
+
+  async testConnection(): Promise<{ success: boolean; latency?: number; error?: string }> {
+    if (!this.pool) {
+      return { success: false, error: 'Not connected' };
+    }
+
+    const start = Date.now();
+    try {
+      await this.pool.query('SELECT 1');
+      const latency = Date.now() - start;
+      return { success: true, latency };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  async getSchemas(): Promise<string[]> {
+    const pool = this.getPool();
+
+    const [rows] = await pool.query<RowDataPacket[]>(`
+      SELECT schema_name AS schema_name
+      FROM information_schema.schemata
+      WHERE schema_name NOT IN ('information_schema', 'mysql', 'performance_schema', 'sys')
+      ORDER BY schema_name
+    `);
+    return rows.map(row => row.schema_name);
+  }
+
+  async getTables(schemaName: string = 'public'): Promise<TableInfo[]> {
+    const pool = this.getPool();
+    const schema = this.resolveSchema(schemaName);
+
+    // TABLE_ROWS is an estimate for InnoDB, same as reltuples in PostgreSQL
+    const [rows] = await pool.query<RowDataPacket[]>(`
+      SELECT
+        t.table_name AS table_name,
+        t.table_schema AS schema_name,
+        COALESCE(t.table_rows, 0) AS row_count,
+        t.update_time AS last_updated,
+        (SELECT COUNT(*) FROM information_schema.columns c
+          WHERE c.table_schema = t.table_schema AND c.table_name = t.table_name) AS column_count
+      FROM information_schema.tables t
+      WHERE t.table_schema = ? AND t.table_type = 'BASE TABLE'
+      ORDER BY row_count DESC
+    `, [schema]);
+
+    return rows.map(row => ({
+      tableName: row.table_name,
+      schemaName: row.schema_name,
+      rowCount: parseInt(row.row_count) || 0,
+      rowCountMethod: 'estimated' as const,
+      columnCount: parseInt(row.column_count) || 0,
+      lastUpdated: row.last_updated || undefined
+    }));
+  }
+
+  async getTableRowCount(tableName: string, schemaName: string = 'public'): Promise<number> {
+    const pool = this.getPool();
+
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT COUNT(*) AS count FROM ${this.qualify(schemaName, tableName)}`
+    );
+    return parseInt(rows[0].count);
+  }
+
+  async getColumns(tableName: string, schemaName: string = 'public'): Promise<ColumnInfo[]> {
+    const pool = this.getPool();
+    const schema = this.resolveSchema(schemaName);
+
+    const [rows] = await pool.query<RowDataPacket[]>(`
+      SELECT
+        column_name AS column_name,
+        data_type AS data_type,
+        is_nullable = 'YES' AS is_nullable,
+        column_default AS column_default,
+        character_maximum_length AS max_length,
+        column_key = 'UNI' AS is_unique
+      FROM information_schema.columns
+      WHERE table_name = ? AND table_schema = ?
+      ORDER BY ordinal_position
+    `, [tableName, schema]);
+
+    return rows.map(row => ({
+      columnName: row.column_name,
+      dataType: row.data_type,
+      isNullable: !!row.is_nullable,
+      isUnique: !!row.is_unique,
+      defaultValue: row.column_default ?? undefined,
+      maxLength: row.max_length ?? undefined
+    }));
+  }
+
+  async getForeignKeys(schemaName: string = 'public'): Promise<ForeignKeyInfo[]> {
+    const pool = this.getPool();
+    const schema = this.resolveSchema(schemaName);
+
+    const [rows] = await pool.query<RowDataPacket[]>(`
+      SELECT
+        constraint_name AS constraint_name,
+        table_name AS from_table,
+        column_name AS from_column,
+        referenced_table_name AS to_table,
+        referenced_column_name AS to_column
+      FROM information_schema.key_column_usage
+      WHERE table_schema = ?
+        AND referenced_table_name IS NOT NULL
+    `, [schema]);
+
+    return rows.map(row => ({
+      constraintName: row.constraint_name,
+      fromTable: row.from_table,
+      fromColumn: row.from_column,
+      toTable: row.to_table,
+      toColumn: row.to_column
+    }));
+  }
+
+  async getSampleData(
+    tableName: string,
+    sampleSize: number = 1000,
+    schemaName: string = 'public'
+  ): Promise<any[]> {
+    const pool = this.getPool();
+    const table = this.qualify(schemaName, tableName);
+
+    // Try to get recent data first, fall back to random sample
+    const queries = [
+      `SELECT * FROM ${table} ORDER BY created_at DESC LIMIT ?`,
+      `SELECT * FROM ${table} ORDER BY updated_at DESC LIMIT ?`,
+      `SELECT * FROM ${table} ORDER BY \`timestamp\` DESC LIMIT ?`,
+      `SELECT * FROM ${table} ORDER BY RAND() LIMIT ?`
+    ];
+
+    for (const query of queries) {
+      try {
+        const [rows] = await pool.query<RowDataPacket[]>(query, [sampleSize]);
+        if (rows.length > 0) {
+          return rows;
+        }
+      } catch (error) {
+        // Continue to next query if this one fails
+        continue;
+      }
+    }
+
+    return [];
+  }
+
+  async getColumnCardinality(
+    tableName: string,
+    columnName: string,
+    schemaName: string = 'public'
+  ): Promise<number> {
+    const pool = this.getPool();
+
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT COUNT(DISTINCT ${this.quote(columnName)}) AS cardinality FROM ${this.qualify(schemaName, tableName)}`
+    );
+    return parseInt(rows[0].cardinality);
+  }
+
+  async getColumnNullPercentage(
+    tableName: string,
+    columnName: string,
+    schemaName: string = 'public'
+  ): Promise<number> {
+    const pool = this.getPool();
+
+    const [rows] = await pool.query<RowDataPacket[]>(`
+      SELECT
+        (SUM(CASE WHEN ${this.quote(columnName)} IS NULL THEN 1 ELSE 0 END) * 100.0 / COUNT(*)) AS null_percentage
+      FROM ${this.qualify(schemaName, tableName)}
+    `);
+    return parseFloat(rows[0].null_percentage) || 0;
+  }
+
+  async getColumnRange(
+    tableName: string,
+    columnName: string,
+    schemaName: string = 'public'
+  ): Promise<{ min: any; max: any }> {
+    const pool = this.getPool();
+    const column = this.quote(columnName);
+
+    const [rows] = await pool.query<RowDataPacket[]>(`
+      SELECT MIN(${column}) AS min_value, MAX(${column}) AS max_value
+      FROM ${this.qualify(schemaName, tableName)}
+    `);
+    return {
+      min: rows[0].min_value,
+      max: rows[0].max_value
+    };
+  }
+
+  async getDistinctValues(
+    tableName: string,
+    columnName: string,
+    limit: number = 100,
+    schemaName: string = 'public'
+  ): Promise<any[]> {
+    const pool = this.getPool();
+    const column = this.quote(columnName);
+
+    const [rows] = await pool.query<RowDataPacket[]>(`
+      SELECT ${column} AS value, COUNT(*) AS frequency
+      FROM ${this.qualify(schemaName, tableName)}
+      WHERE ${column} IS NOT NULL
+      GROUP BY ${column}
+      ORDER BY frequency DESC
+      LIMIT ?
+    `, [limit]);
+    return rows.map(row => row.value);
+  }
+
+  async analyzeValueOverlap(
+    fromTable: string,
+    fromColumn: string,
+    toTable: string,
+    toColumn: string,
+    schemaName: string = 'public'
+  ): Promise<{ overlapPercentage: number; totalValues: number; matchingValues: number }> {
+    const pool = this.getPool();
+
+    // INTERSECT is only available from MySQL 8.0.31, so match with EXISTS instead
+    const [rows] = await pool.query<RowDataPacket[]>(`
+      WITH
+      source_values AS (
+        SELECT DISTINCT ${this.quote(fromColumn)} AS value FROM ${this.qualify(schemaName, fromTable)} WHERE ${this.quote(fromColumn)} IS NOT NULL
+      ),
+      target_values AS (
+        SELECT DISTINCT ${this.quote(toColumn)} AS value FROM ${this.qualify(schemaName, toTable)} WHERE ${this.quote(toColumn)} IS NOT NULL
+      )
+      SELECT
+        (SELECT COUNT(*) FROM source_values) AS total_values,
+        (SELECT COUNT(*) FROM source_values s WHERE EXISTS (SELECT 1 FROM target_values t WHERE t.value = s.value)) AS matching_values
+    `);
+
+    const totalValues = parseInt(rows[0].total_values) || 0;
+    const matchingValues = parseInt(rows[0].matching_values) || 0;
+
+    return {
+      totalValues,
+      matchingValues,
+      overlapPercentage: totalValues === 0 ? 0 : (matchingValues * 100.0) / totalValues
+    };
+  }
+
+  async profileColumns(
+    tableName: string,
+    columns: ProfileColumnSpec[],
+    options: ProfileOptions = {}
+  ): Promise<ColumnProfile[]> {
+    const pool = this.getPool();
+
+    // MySQL has no block sampling, so options.samplePercent is ignored and the table is scanned in full
+    const source = this.qualify(options.schemaName || 'public', tableName);
+    const expr = (spec: ProfileColumnSpec) => this.quote(spec.columnName);
+
+    const [aggregateRows] = await pool.query<RowDataPacket[]>(`
+      SELECT
+        ${buildProfileAggregates(columns, expr)}
+      FROM ${source}
+    `);
+    const profiles = readProfileAggregates(aggregateRows[0], columns);
+
+    const indexes = lowCardinalityIndexes(profiles, options.distinctLimit ?? DEFAULT_DISTINCT_LIMIT);
+    if (indexes.length > 0) {
+      const [distinctRows] = await pool.query<RowDataPacket[]>(buildUnionDistinctQuery(indexes, columns, expr, source));
+      attachDistinctValues(profiles, distinctRows);
+    }
+
+    return profiles;
+  }
+
+  async profileNumericDistribution(
+    tableName: string,
+    columnName: string,
+    range: { min: number; max: number },
+    options: ProfileOptions = {}
+  ): Promise<NumericDistribution> {
+    const pool = this.getPool();
+    // No percentile aggregate in MySQL; computeNumericDistribution falls back to ROW_NUMBER() ranks
+    return computeNumericDistribution(
+      async sql => (await pool.query<RowDataPacket[]>(sql))[0],
+      `CAST(${this.quote(columnName)} AS DOUBLE)`,
+      range,
+      this.qualify(options.schemaName || 'public', tableName)
+    );
+  }
+
+  async profileTemporalDistribution(
+    tableName: string,
+    columnName: string,
+    options: ProfileOptions = {}
+  ): Promise<TemporalDistribution> {
+    const pool = this.getPool();
+    const column = this.quote(columnName);
+    return computeTemporalDistribution(
+      async sql => (await pool.query<RowDataPacket[]>(sql))[0],
+      column,
+      `DATE_FORMAT(${column}, '%Y-%m')`,
+      this.qualify(options.schemaName || 'public', tableName)
+    );
+  }
+
+  async explainQuery(sql: string): Promise<string[]> {
+    const rows = await this.inReadOnlyTransaction(async connection =>
+      (await connection.query<RowDataPacket[]>(`EXPLAIN ${sql}`))[0]);
+    return rows.map(row =>
+      `${row.select_type} ${row.table ?? '-'}: access=${row.type ?? '-'} key=${row.key ?? '-'} rows=${row.rows ?? '?'}${row.Extra ? ` (${row.Extra})` : ''}`);
+  }
+
+  async runReadOnlyQuery(sql: string, limit: number, timeoutMs: number): Promise<ReadOnlyQueryResult> {
+    return this.inReadOnlyTransaction(async connection => {
+      const timeoutVariable = await this.setStatementTimeout(connection, timeoutMs);
+      try {
+        return await this.readRows(connection, sql, limit);
+      } finally {
+        await connection.query(`SET SESSION ${timeoutVariable} = DEFAULT`).catch(() => undefined);
+      }
+    });
+  }
+
+  /**
+   * Bound the session's statements on the server, so a timed-out query stops
+   * running there too. MySQL takes milliseconds; MariaDB names the variable
+   * differently and takes seconds. Returns the variable to reset afterwards.
+   */
+  private async setStatementTimeout(connection: PoolConnection, timeoutMs: number): Promise<string> {
+    const ms = Math.max(1, Math.floor(timeoutMs));
+    try {
+      await connection.query('SET SESSION max_execution_time = ?', [ms]);
+      return 'max_execution_time';
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'ER_UNKNOWN_SYSTEM_VARIABLE') throw error;
+      await connection.query('SET SESSION max_statement_time = ?', [ms / 1000]);
+      return 'max_statement_time';
+    }
+  }
+
+  /**
+   * Stream the query's rows and keep the first `limit`. The query runs as written:
+   * wrapping it in a subquery to add a LIMIT fails on joins that select two
+   * columns with the same name.
+   */
+  private readRows(connection: PoolConnection, sql: string, limit: number): Promise<ReadOnlyQueryResult> {
+    // The promise wrapper has no streaming API; its underlying connection does
+    const stream = (connection.connection as unknown as CallbackConnection).query(sql);
+    return new Promise((resolve, reject) => {
+      const rows: Record<string, any>[] = [];
+      let columns: string[] = [];
+      let rowCount = 0;
+      stream
+        .on('fields', (fields: FieldPacket[]) => {
+          columns = fields.map(field => field.name);
+        })
+        .on('result', (row: Record<string, any>) => {
+          rowCount++;
+          if (rows.length < limit) rows.push(row);
+        })
+        .on('error', reject)
+        .on('end', () => resolve({ columns, rows, truncated: rowCount > limit }));
+    });
+  }
+
+  /**
+   * Run `fn` on a dedicated connection inside a READ ONLY transaction that is always rolled back
+   */
+  private async inReadOnlyTransaction<T>(fn: (connection: PoolConnection) => Promise<T>): Promise<T> {
+    const connection = await this.getPool().getConnection();
+    try {
+      await connection.query('START TRANSACTION READ ONLY');
+      return await fn(connection);
+    } finally {
+      await connection.query('ROLLBACK').catch(() => undefined);
+      connection.release();
+    }
+  }
+
+  private getPool(): Pool {
+    if (!this.pool) throw new Error('Not connected to database');
+    return this.pool;
+  }
+
+  private resolveSchema(schemaName: string): string {
+    if (schemaName === 'public' && this.defaultSchema) {
+      return this.defaultSchema;
+    }
+    return schemaName;
+  }
+
+  private quote(identifier: string): string {
+    return `\`${identifier.replace(/`/g, '``')}\``;
+  }
+
+  private qualify(schemaName: string, tableName: string): string {
+    return `${this.quote(this.resolveSchema(schemaName))}.${this.quote(tableName)}`;
+  }
+}
@@ -1,8 +1,5 @@
-import { neo4jService } from './neo4j-service';
-import { storage } from '../storage';
-import { EnvironmentService } from './environment-service';
-
-const environmentService = EnvironmentService.getInstance();
+import type { Neo4jService } from './neo4j-service';
+import { graphConnectionManager } from './graph-connection-manager';
 
 export interface BackfillResult {
   success: boolean;
@@ -26,32 +23,19 @@ export class Neo4jBackfillService {
       errors: []
     };
 
-    let neo4jConnected = false;
-
     try {
-      // Connect to Neo4j
-      const neo4jConnectionId = environmentService.getNeo4jConnectionId();
-      const neo4jConnection = await storage.getConnection(neo4jConnectionId);
-
-      if (!neo4jConnection) {
-        throw new Error('Neo4j connection not found');
-      }
-
-      neo4jConnected = await neo4jService.connect(neo4jConnection.config as any);
+      // Runs against the instance default graph target
+      await graphConnectionManager.withGraphTarget(undefined, async graph => {
+        console.log('🔄 Starting canonical key backfill migration...');
 
-      if (!neo4jConnected) {
-        throw new Error('Failed to connect to Neo4j');
-      }
+        // Backfill Table nodes
+        result.tablesUpdated = await this.backfillTableNodes(graph);
+        console.log(`✅ Updated ${result.tablesUpdated} Table nodes`);
 
-      console.log('🔄 Starting canonical key backfill migration...');
-
-      // Backfill Table nodes
-      result.tablesUpdated = await this.backfillTableNodes();
-      console.log(`✅ Updated ${result.tablesUpdated} Table nodes`);
-
-      // Backfill Column nodes
-      result.columnsUpdated = await this.backfillColumnNodes();
-      console.log(`✅ Updated ${result.columnsUpdated} Column nodes`);
+        // Backfill Column nodes
+        result.columnsUpdated = await this.backfillColumnNodes(graph);
+        console.log(`✅ Updated ${result.columnsUpdated} Column nodes`);
+      });
 
       // Backfill Value nodes (if needed in the future)
       result.valuesUpdated = 0; // Not implemented yet
@@ -62,10 +46,6 @@ export class Neo4jBackfillService {
       const errorMessage = error instanceof Error ? error.message : String(error);
       result.errors.push(errorMessage);
       console.error('❌ Backfill migration failed:', errorMessage);
-    } finally {
-      if (neo4jConnected) {
-        await neo4jService.disconnect();
-      }
     }
 
     return result;
@@ -75,7 +55,7 @@ export class Neo4jBackfillService {
    * Backfill canonicalKey for Table nodes
    * Derives databaseId from AgentPersona namespace (format: database_<id>)
    */
-  private async backfillTableNodes(): Promise<number> {
+  private async backfillTableNodes(graph: Neo4jService): Promise<number> {
     const query = `
       MATCH (p:AgentPersona)-[:CONTAINS]->(t:Table)
       WHERE t.canonicalKey IS NULL
@@ -89,7 +69,7 @@ export class Neo4jBackfillService {
       RETURN count(DISTINCT t) AS updated
     `;
 
-    const result = await neo4jService.executeQuery(query);
+    const result = await graph.executeQuery(query);
     return result.records[0]?.get('updated')?.toNumber() || 0;
   }
 
@@ -97,7 +77,7 @@ export class Neo4jBackfillService {
    * Backfill columnKey for Column nodes
    * Derives databaseId from AgentPersona namespace and table info from graph structure
    */
-  private async backfillColumnNodes(): Promise<number> {
+  private async backfillColumnNodes(graph: Neo4jService): Promise<number> {
     const query = `
       MATCH (p:AgentPersona)-[:CONTAINS]->(t:Table)-[:HAS_COLUMN]->(c:Column)
       WHERE c.columnKey IS NULL
@@ -114,7 +94,7 @@ export class Neo4jBackfillService {
       RETURN count(DISTINCT c) AS updated
     `;
 
-    const result = await neo4jService.executeQuery(query);
+    const result = await graph.executeQuery(query);
     return result.records[0]?.get('updated')?.toNumber() || 0;
   }
 
@@ -130,22 +110,7 @@ export class Neo4jBackfillService {
     tablesEligible: number;
     columnsEligible: number;
   }> {
-    let neo4jConnected = false;
-
-    try {
-      const neo4jConnectionId = environmentService.getNeo4jConnectionId();
-      const neo4jConnection = await storage.getConnection(neo4jConnectionId);
-
-      if (!neo4jConnection) {
-        throw new Error('Neo4j connection not found');
-      }
-
-      neo4jConnected = await neo4jService.connect(neo4jConnection.config as any);
-
-      if (!neo4jConnected) {
-        throw new Error('Failed to connect to Neo4j');
-      }
-
+    return graphConnectionManager.withGraphTarget(undefined, async graph => {
       // Get table statistics
       const tableStatsQuery = `
         MATCH (t:Table)
@@ -159,7 +124,7 @@ export class Neo4jBackfillService {
         RETURN total, withoutKeys, count(DISTINCT t2) AS eligible
       `;
 
-      const tableResult = await neo4jService.executeQuery(tableStatsQuery);
+      const tableResult = await graph.executeQuery(tableStatsQuery);
       const tableRecord = tableResult.records[0];
 
       // Get column statistics
@@ -176,7 +141,7 @@ export class Neo4jBackfillService {
         RETURN total, withoutKeys, count(DISTINCT c2) AS eligible
       `;
 
-      const columnResult = await neo4jService.executeQuery(columnStatsQuery);
+      const columnResult = await graph.executeQuery(columnStatsQuery);
       const columnRecord = columnResult.records[0];
 
       return {
@@ -187,11 +152,7 @@ export class Neo4jBackfillService {
         columnsWithoutKeys: columnRecord?.get('withoutKeys')?.toNumber() || 0,
         columnsEligible: columnRecord?.get('eligible')?.toNumber() || 0
       };
-    } finally {
-      if (neo4jConnected) {
-        await neo4jService.disconnect();
-      }
-    }
+    });
   }
 }
 
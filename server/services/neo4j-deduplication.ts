@@ -1,8 +1,5 @@
-import { neo4jService } from './neo4j-service';
-import { storage } from '../storage';
-import { EnvironmentService } from './environment-service';
-
-const environmentService = EnvironmentService.getInstance();
+import type { Neo4jService } from './neo4j-service';
+import { graphConnectionManager } from './graph-connection-manager';
 
 export interface DeduplicationResult {
   success: boolean;
@@ -28,36 +25,23 @@ export class Neo4jDeduplicationService {
       details: []
     };
 
-    let neo4jConnected = false;
-
     try {
-      // Connect to Neo4j
-      const neo4jConnectionId = environmentService.getNeo4jConnectionId();
-      const neo4jConnection = await storage.getConnection(neo4jConnectionId);
-
-      if (!neo4jConnection) {
-        throw new Error('Neo4j connection not found');
-      }
-
-      neo4jConnected = await neo4jService.connect(neo4jConnection.config as any);
-
-      if (!neo4jConnected) {
-        throw new Error('Failed to connect to Neo4j');
-      }
-
-      console.log('🔄 Starting node deduplication...');
-
-      // Deduplicate Table nodes
-      const tableResults = await this.deduplicateTableNodes();
-      result.tablesMerged = tableResults.merged;
-      result.details.push(...tableResults.details);
-      console.log(`✅ Merged ${tableResults.merged} duplicate Table nodes`);
-
-      // Deduplicate Column nodes
-      const columnResults = await this.deduplicateColumnNodes();
-      result.columnsMerged = columnResults.merged;
-      result.details.push(...columnResults.details);
-      console.log(`✅ Merged ${columnResults.merged} duplicate Column nodes`);
+      // Runs against the instance default graph target
+      await graphConnectionManager.withGraphTarget(undefined, async graph => {
+        console.log('🔄 Starting node deduplication...');
+
+        // Deduplicate Table nodes
+        const tableResults = await this.deduplicateTableNodes(graph);
+        result.tablesMerged = tableResults.merged;
+        result.details.push(...tableResults.details);
+        console.log(`✅ Merged ${tableResults.merged} duplicate Table nodes`);
+
+        // Deduplicate Column nodes
+        const columnResults = await this.deduplicateColumnNodes(graph);
+        result.columnsMerged = columnResults.merged;
+        result.details.push(...columnResults.details);
+        console.log(`✅ Merged ${columnResults.merged} duplicate Column nodes`);
+      });
 
       // Deduplicate Value nodes (if needed in the future)
       result.valuesMerged = 0;
@@ -68,10 +52,6 @@ export class Neo4jDeduplicationService {
       const errorMessage = error instanceof Error ? error.message : String(error);
       result.errors.push(errorMessage);
       console.error('❌ Deduplication failed:', errorMessage);
-    } finally {
-      if (neo4jConnected) {
-        await neo4jService.disconnect();
-      }
     }
 
     return result;
@@ -81,7 +61,7 @@ export class Neo4jDeduplicationService {
    * Deduplicate Table nodes with the same canonicalKey
    * Strategy: Keep first node, merge relationships and properties to it, delete duplicates
    */
-  private async deduplicateTableNodes(): Promise<{ merged: number; details: string[] }> {
+  private async deduplicateTableNodes(graph: Neo4jService): Promise<{ merged: number; details: string[] }> {
     const details: string[] = [];
     
     // Find duplicate groups (tables with same canonicalKey)
@@ -93,7 +73,7 @@ export class Neo4jDeduplicationService {
       RETURN key, nodes
     `;
 
-    const duplicatesResult = await neo4jService.executeQuery(findDuplicatesQuery);
+    const duplicatesResult = await graph.executeQuery(findDuplicatesQuery);
     let totalMerged = 0;
 
     for (const record of duplicatesResult.records) {
@@ -152,7 +132,7 @@ export class Neo4jDeduplicationService {
           `;
 
           // Execute merge with proper relationship type handling
-          await this.mergeDuplicateTable(canonicalNode.properties.id, duplicateNode.properties.id);
+          await this.mergeDuplicateTable(graph, canonicalNode.properties.id, duplicateNode.properties.id);
           totalMerged++;
           
           const detail = `Merged duplicate table ${key}: ${duplicateNode.properties.id} -> ${canonicalNode.properties.id}`;
@@ -172,9 +152,9 @@ export class Neo4jDeduplicationService {
   /**
    * Helper method to properly merge duplicate table nodes with comprehensive relationship handling
    */
-  private async mergeDuplicateTable(canonId: string, dupId: string): Promise<void> {
+  private async mergeDuplicateTable(graph: Neo4jService, canonId: string, dupId: string): Promise<void> {
     // Transfer CONTAINS relationships from personas (incoming)
-    await neo4jService.executeQuery(`
+    await graph.executeQuery(`
       MATCH (p:AgentPersona)-[r:CONTAINS]->(dup:Table {id: $dupId})
       MATCH (canon:Table {id: $canonId})
       WHERE NOT EXISTS((p)-[:CONTAINS]->(canon))
@@ -183,7 +163,7 @@ export class Neo4jDeduplicationService {
     `, { dupId, canonId });
 
     // Transfer HAS_COLUMN relationships (outgoing)
-    await neo4jService.executeQuery(`
+    await graph.executeQuery(`
       MATCH (dup:Table {id: $dupId})-[r:HAS_COLUMN]->(c:Column)
       MATCH (canon:Table {id: $canonId})
       WHERE NOT EXISTS((canon)-[:HAS_COLUMN]->(c))
@@ -192,7 +172,7 @@ export class Neo4jDeduplicationService {
     `, { dupId, canonId });
 
     // Transfer HAS_TABLE relationships if any (incoming from schema/database nodes)
-    await neo4jService.executeQuery(`
+    await graph.executeQuery(`
       MATCH (other)-[r:HAS_TABLE]->(dup:Table {id: $dupId})
       MATCH (canon:Table {id: $canonId})
       WHERE NOT EXISTS((other)-[:HAS_TABLE]->(canon))
@@ -201,7 +181,7 @@ export class Neo4jDeduplicationService {
     `, { dupId, canonId });
 
     // Transfer MAPS_TO relationships (outgoing)
-    await neo4jService.executeQuery(`
+    await graph.executeQuery(`
       MATCH (dup:Table {id: $dupId})-[r:MAPS_TO]->(other)
       MATCH (canon:Table {id: $canonId})
       WHERE NOT EXISTS((canon)-[:MAPS_TO]->(other))
@@ -210,7 +190,7 @@ export class Neo4jDeduplicationService {
     `, { dupId, canonId });
 
     // Transfer MAPS_TO relationships (incoming)
-    await neo4jService.executeQuery(`
+    await graph.executeQuery(`
       MATCH (other)-[r:MAPS_TO]->(dup:Table {id: $dupId})
       MATCH (canon:Table {id: $canonId})
       WHERE NOT EXISTS((other)-[:MAPS_TO]->(canon))
@@ -219,7 +199,7 @@ export class Neo4jDeduplicationService {
     `, { dupId, canonId });
 
     // Transfer ANNOTATED_WITH relationships (outgoing)
-    await neo4jService.executeQuery(`
+    await graph.executeQuery(`
       MATCH (dup:Table {id: $dupId})-[r:ANNOTATED_WITH]->(other)
       MATCH (canon:Table {id: $canonId})
       WHERE NOT EXISTS((canon)-[:ANNOTATED_WITH]->(other))
@@ -228,7 +208,7 @@ export class Neo4jDeduplicationService {
     `, { dupId, canonId });
 
     // Transfer ANNOTATED_WITH relationships (incoming)
-    await neo4jService.executeQuery(`
+    await graph.executeQuery(`
       MATCH (other)-[r:ANNOTATED_WITH]->(dup:Table {id: $dupId})
       MATCH (canon:Table {id: $canonId})
       WHERE NOT EXISTS((other)-[:ANNOTATED_WITH]->(canon))
@@ -237,7 +217,7 @@ export class Neo4jDeduplicationService {
     `, { dupId, canonId });
 
     // Transfer SIMILAR_TO relationships (outgoing)
-    await neo4jService.executeQuery(`
+    await graph.executeQuery(`
       MATCH (dup:Table {id: $dupId})-[r:SIMILAR_TO]->(other)
       MATCH (canon:Table {id: $canonId})
       WHERE NOT EXISTS((canon)-[:SIMILAR_TO]->(other))
@@ -246,7 +226,7 @@ export class Neo4jDeduplicationService {
     `, { dupId, canonId });
 
     // Transfer SIMILAR_TO relationships (incoming)
-    await neo4jService.executeQuery(`
+    await graph.executeQuery(`
       MATCH (other)-[r:SIMILAR_TO]->(dup:Table {id: $dupId})
       MATCH (canon:Table {id: $canonId})
       WHERE NOT EXISTS((other)-[:SIMILAR_TO]->(canon))
@@ -255,7 +235,7 @@ export class Neo4jDeduplicationService {
     `, { dupId, canonId });
 
     // Transfer RELATED_TO relationships (outgoing)
-    await neo4jService.executeQuery(`
+    await graph.executeQuery(`
       MATCH (dup:Table {id: $dupId})-[r:RELATED_TO]->(other)
       MATCH (canon:Table {id: $canonId})
       WHERE NOT EXISTS((canon)-[:RELATED_TO]->(other))
@@ -264,7 +244,7 @@ export class Neo4jDeduplicationService {
     `, { dupId, canonId });
 
     // Transfer RELATED_TO relationships (incoming)
-    await neo4jService.executeQuery(`
+    await graph.executeQuery(`
       MATCH (other)-[r:RELATED_TO]->(dup:Table {id: $dupId})
       MATCH (canon:Table {id: $canonId})
       WHERE NOT EXISTS((other)-[:RELATED_TO]->(canon))
@@ -273,7 +253,7 @@ export class Neo4jDeduplicationService {
     `, { dupId, canonId });
 
     // Merge properties (last-wins for description per spec)
-    await neo4jService.executeQuery(`
+    await graph.executeQuery(`
       MATCH (dup:Table {id: $dupId})
       MATCH (canon:Table {id: $canonId})
       SET canon.description = coalesce(dup.description, canon.description),
@@ -282,7 +262,7 @@ export class Neo4jDeduplicationService {
     `, { dupId, canonId });
 
     // Delete duplicate
-    await neo4jService.executeQuery(`
+    await graph.executeQuery(`
       MATCH (dup:Table {id: $dupId})
       DETACH DELETE dup
     `, { dupId });
@@ -291,7 +271,7 @@ export class Neo4jDeduplicationService {
   /**
    * Deduplicate Column nodes with the same columnKey
    */
-  private async deduplicateColumnNodes(): Promise<{ merged: number; details: string[] }> {
+  private async deduplicateColumnNodes(graph: Neo4jService): Promise<{ merged: number; details: string[] }> {
     const details: string[] = [];
     
     // Find duplicate groups
@@ -303,7 +283,7 @@ export class Neo4jDeduplicationService {
       RETURN key, nodes
     `;
 
-    const duplicatesResult = await neo4jService.executeQuery(findDuplicatesQuery);
+    const duplicatesResult = await graph.executeQuery(findDuplicatesQuery);
     let totalMerged = 0;
 
     for (const record of duplicatesResult.records) {
@@ -317,7 +297,7 @@ export class Neo4jDeduplicationService {
 
       for (const duplicateNode of duplicateNodes) {
         try {
-          await this.mergeDuplicateColumn(canonicalNode.properties.id, duplicateNode.properties.id);
+          await this.mergeDuplicateColumn(graph, canonicalNode.properties.id, duplicateNode.properties.id);
           totalMerged++;
           
           const detail = `Merged duplicate column ${key}: ${duplicateNode.properties.id} -> ${canonicalNode.properties.id}`;
@@ -337,9 +317,9 @@ export class Neo4jDeduplicationService {
   /**
    * Helper method to properly merge duplicate column nodes
    */
-  private async mergeDuplicateColumn(canonId: string, dupId: string): Promise<void> {
+  private async mergeDuplicateColumn(graph: Neo4jService, canonId: string, dupId: string): Promise<void> {
     // Transfer HAS_COLUMN relationships from tables (incoming)
-    await neo4jService.executeQuery(`
+    await graph.executeQuery(`
       MATCH (t:Table)-[r:HAS_COLUMN]->(dup:Column {id: $dupId})
       MATCH (canon:Column {id: $canonId})
       WHERE NOT EXISTS((t)-[:HAS_COLUMN]->(canon))
@@ -348,7 +328,7 @@ export class Neo4jDeduplicationService {
     `, { dupId, canonId });
 
     // Transfer HAS_VALUE relationships (outgoing)
-    await neo4jService.executeQuery(`
+    await graph.executeQuery(`
       MATCH (dup:Column {id: $dupId})-[r:HAS_VALUE]->(v:Value)
       MATCH (canon:Column {id: $canonId})
       WHERE NOT EXISTS((canon)-[:HAS_VALUE]->(v))
@@ -357,7 +337,7 @@ export class Neo4jDeduplicationService {
     `, { dupId, canonId });
 
     // Transfer outgoing foreign key relationships
-    await neo4jService.executeQuery(`
+    await graph.executeQuery(`
       MATCH (dup:Column {id: $dupId})-[r:FOREIGN_KEY_TO]->(other)
       MATCH (canon:Column {id: $canonId})
       WHERE NOT EXISTS((canon)-[:FOREIGN_KEY_TO]->(other))
@@ -366,7 +346,7 @@ export class Neo4jDeduplicationService {
     `, { dupId, canonId });
 
     // Transfer incoming foreign key relationships
-    await neo4jService.executeQuery(`
+    await graph.executeQuery(`
       MATCH (other)-[r:FOREIGN_KEY_TO]->(dup:Column {id: $dupId})
       MATCH (canon:Column {id: $canonId})
       WHERE NOT EXISTS((other)-[:FOREIGN_KEY_TO]->(canon))
@@ -375,7 +355,7 @@ export class Neo4jDeduplicationService {
     `, { dupId, canonId });
 
     // Merge properties (last-wins for description per spec)
-    await neo4jService.executeQuery(`
+    await graph.executeQuery(`
       MATCH (dup:Column {id: $dupId})
       MATCH (canon:Column {id: $canonId})
       SET canon.description = coalesce(dup.description, canon.description),
@@ -384,7 +364,7 @@ export class Neo4jDeduplicationService {
     `, { dupId, canonId });
 
     // Delete duplicate
-    await neo4jService.executeQuery(`
+    await graph.executeQuery(`
       MATCH (dup:Column {id: $dupId})
       DETACH DELETE dup
     `, { dupId });
@@ -399,22 +379,7 @@ export class Neo4jDeduplicationService {
     duplicateColumnGroups: number;
     duplicateColumns: number;
   }> {
-    let neo4jConnected = false;
-
-    try {
-      const neo4jConnectionId = environmentService.getNeo4jConnectionId();
-      const neo4jConnection = await storage.getConnection(neo4jConnectionId);
-
-      if (!neo4jConnection) {
-        throw new Error('Neo4j connection not found');
-      }
-
-      neo4jConnected = await neo4jService.connect(neo4jConnection.config as any);
-
-      if (!neo4jConnected) {
-        throw new Error('Failed to connect to Neo4j');
-      }
-
+    return graphConnectionManager.withGraphTarget(undefined, async graph => {
       // Count duplicate table groups
       const tableStatsQuery = `
         MATCH (t:Table)
@@ -424,7 +389,7 @@ export class Neo4jDeduplicationService {
         RETURN count(key) AS groups, sum(cnt - 1) AS duplicates
       `;
 
-      const tableResult = await neo4jService.executeQuery(tableStatsQuery);
+      const tableResult = await graph.executeQuery(tableStatsQuery);
       const tableRecord = tableResult.records[0];
 
       // Count duplicate column groups
@@ -436,7 +401,7 @@ export class Neo4jDeduplicationService {
         RETURN count(key) AS groups, sum(cnt - 1) AS duplicates
       `;
 
-      const columnResult = await neo4jService.executeQuery(columnStatsQuery);
+      const columnResult = await graph.executeQuery(columnStatsQuery);
       const columnRecord = columnResult.records[0];
 
       return {
@@ -445,11 +410,7 @@ export class Neo4jDeduplicationService {
         duplicateColumnGroups: columnRecord?.get('groups')?.toNumber() || 0,
         duplicateColumns: columnRecord?.get('duplicates')?.toNumber() || 0
       };
-    } finally {
-      if (neo4jConnected) {
-        await neo4jService.disconnect();
-      }
-    }
+    });
   }
 }
 
@@ -1,4 +1,4 @@
-import neo4j, { Driver, Session } from 'neo4j-driver';
+import type { Driver, Session } from 'neo4j-driver';
 import { EnvironmentService } from './environment-service';
 
 export interface Neo4jConfig {
@@ -49,6 +49,21 @@ export interface ValueNode {
   aiHypothesis?: string;
 }
 
+export interface PersonaGraphContext {
+  persona: Record<string, any>;
+  tables: Array<{
+    id: string;
+    name: string;
+    schema: string;
+    columns: Array<{
+      id: string;
+      name: string;
+      description?: string;
+      values: Array<{ value: string; aiContext?: string; aiHypothesis?: string }>;
+    }>;
+  }>;
+}
+
 export interface RelationshipInfo {
   fromId: string;
   toId: string;
@@ -56,80 +71,40 @@ export interface RelationshipInfo {
   properties?: Record<string, any>;
 }
 
+// Feature flag for the shared node architecture, read once from the environment
+let useCanonicalKeys = EnvironmentService.getInstance().isNeo4jSharedNodesEnabled();
+
+/**
+ * Graph operations against one Neo4j target. Instances are bound to a driver
+ * handed out by graphConnectionManager, so requests for different graph targets
+ * never share or close each other's driver.
+ */
 export class Neo4jService {
-  private driver: Driver | null = null;
-  private database?: string;
-  private useCanonicalKeys: boolean = false; // Feature flag for shared node architecture
-
-  constructor() {
-    // Don't set default database - let Neo4j use its own default
-    
-    // Auto-configure shared nodes based on environment variable
-    const envService = EnvironmentService.getInstance();
-    this.useCanonicalKeys = envService.isNeo4jSharedNodesEnabled();
-  }
+  constructor(private driver: Driver, private database?: string) {}
 
   /**
    * Enable shared node architecture using canonical keys
    * When enabled, nodes are MERGE'd by canonicalKey instead of id
    */
-  enableSharedNodes(enabled: boolean = true): void {
-    this.useCanonicalKeys = enabled;
+  static enableSharedNodes(enabled: boolean = true): void {
+    useCanonicalKeys = enabled;
     console.log(`Neo4j shared node architecture: ${enabled ? 'ENABLED' : 'DISABLED'}`);
   }
 
   /**
    * Check if shared node architecture is enabled
    */
-  isSharedNodesEnabled(): boolean {
-    return this.useCanonicalKeys;
-  }
-
-  async connect(config: Neo4jConfig): Promise<boolean> {
-    try {
-      this.driver = neo4j.driver(
-        config.uri,
-        neo4j.auth.basic(config.username, config.password)
-      );
-
-      if (config.database) {
-        this.database = config.database;
-      }
-
-      // Test connection - only specify database if explicitly provided
-      const sessionConfig = this.database ? { database: this.database } : {};
-      const session = this.driver.session(sessionConfig);
-      await session.run('RETURN 1');
-      await session.close();
-
-      console.log('Neo4j connected successfully', this.database ? `to database: ${this.database}` : 'to default database');
-      return true;
-    } catch (error) {
-      console.error('Neo4j connection failed:', error);
-      return false;
-    }
-  }
-
-  async disconnect(): Promise<void> {
-    if (this.driver) {
-      await this.driver.close();
-      this.driver = null;
-    }
+  static isSharedNodesEnabled(): boolean {
+    return useCanonicalKeys;
   }
 
   async testConnection(): Promise<{ success: boolean; latency?: number; error?: string }> {
-    if (!this.driver) {
-      return { success: false, error: 'Not connected' };
-    }
-
     const start = Date.now();
     try {
-      // Only specify database if explicitly provided
-      const sessionConfig = this.database ? { database: this.database } : {};
-      const session = this.driver.session(sessionConfig);
+      const session = this.getSession();
       await session.run('RETURN 1');
       await session.close();
-      
+
       const latency = Date.now() - start;
       return { success: true, latency };
     } catch (error) {
@@ -152,9 +127,6 @@ export class Neo4jService {
   }
 
   private getSession(): Session {
-    if (!this.driver) {
-      throw new Error('Not connected to Neo4j');
-    }
     // Only specify database if explicitly provided
     const sessionConfig = this.database ? { database: this.database } : {};
     return this.driver.session(sessionConfig);
@@ -233,7 +205,7 @@ export class Neo4jService {
       let cypher: string;
       let params: any;
 
-      if (this.useCanonicalKeys && canonicalKey) {
+      if (useCanonicalKeys && canonicalKey) {
         // Shared node mode: MERGE by canonicalKey, but also maintain id for backward compatibility
         cypher = `
           MATCH (p:AgentPersona {id: $personaId})
@@ -293,6 +265,120 @@ export class Neo4jService {
     }
   }
 
+  /**
+   * Add a CONTAINS edge from another persona to an existing table node.
+   * In shared node mode the table is found by canonicalKey, so personas
+   * from other builds of the same database link to the same node.
+   */
+  async linkPersonaToTable(personaId: string, table: Pick<TableNode, 'id' | 'name' | 'schema' | 'databaseId'>): Promise<void> {
+    const session = this.getSession();
+    try {
+      const canonicalKey = table.databaseId && table.schema && table.name
+        ? `${table.databaseId}.${table.schema}.${table.name}`
+        : null;
+
+      const cypher = useCanonicalKeys && canonicalKey
+        ? `
+          MATCH (p:AgentPersona {id: $personaId})
+          MATCH (t:Table {canonicalKey: $canonicalKey})
+          MERGE (p)-[:CONTAINS]->(t)
+        `
+        : `
+          MATCH (p:AgentPersona {id: $personaId})
+          MATCH (t:Table {id: $tableId})
+          MERGE (p)-[:CONTAINS]->(t)
+        `;
+
+      await session.run(cypher, { personaId, canonicalKey, tableId: table.id });
+    } finally {
+      await session.close();
+    }
+  }
+
+  async updateAgentPersona(persona: Omit<AgentPersonaNode, 'namespace'>): Promise<void> {
+    const session = this.getSession();
+    try {
+      await session.run(`
+        MATCH (p:AgentPersona {id: $id})
+        SET p.name = $name,
+            p.description = $description,
+            p.keywords = $keywords,
+            p.updatedAt = datetime()
+      `, persona);
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Remove a persona node. Tables no other persona CONTAINS are removed
+   * with their columns and values, since nothing can reach them any more.
+   */
+  async deleteAgentPersona(personaId: string): Promise<void> {
+    const session = this.getSession();
+    try {
+      await session.run(`
+        MATCH (p:AgentPersona {id: $personaId})
+        OPTIONAL MATCH (p)-[:CONTAINS]->(t:Table)
+        WITH p, collect(t) as tables
+        DETACH DELETE p
+        WITH tables
+        UNWIND tables as t
+        WITH t WHERE NOT ()-[:CONTAINS]->(t)
+        OPTIONAL MATCH (t)-[:HAS_COLUMN]->(c:Column)
+        OPTIONAL MATCH (c)-[:HAS_VALUE]->(v:Value)
+        DETACH DELETE v, c, t
+      `, { personaId });
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Move the source persona's CONTAINS edges onto the target, then drop the source
+   */
+  async mergeAgentPersonas(sourcePersonaId: string, targetPersonaId: string): Promise<void> {
+    const session = this.getSession();
+    try {
+      await session.run(`
+        MATCH (s:AgentPersona {id: $sourcePersonaId})
+        MATCH (target:AgentPersona {id: $targetPersonaId})
+        OPTIONAL MATCH (s)-[:CONTAINS]->(t:Table)
+        FOREACH (table IN CASE WHEN t IS NULL THEN [] ELSE [t] END |
+          MERGE (target)-[:CONTAINS]->(table))
+      `, { sourcePersonaId, targetPersonaId });
+      await session.run(`
+        MATCH (s:AgentPersona {id: $sourcePersonaId})
+        DETACH DELETE s
+      `, { sourcePersonaId });
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Copy a persona node into the same namespace, sharing the source's table nodes
+   */
+  async cloneAgentPersona(sourcePersonaId: string, clone: Omit<AgentPersonaNode, 'namespace'>): Promise<void> {
+    const session = this.getSession();
+    try {
+      await session.run(`
+        MATCH (s:AgentPersona {id: $sourcePersonaId})
+        MERGE (c:AgentPersona {id: $id, namespace: s.namespace})
+        SET c.name = $name,
+            c.description = $description,
+            c.keywords = $keywords,
+            c.createdAt = datetime()
+        WITH s, c
+        OPTIONAL MATCH (s)-[:CONTAINS]->(t:Table)
+        FOREACH (table IN CASE WHEN t IS NULL THEN [] ELSE [t] END |
+          MERGE (c)-[:CONTAINS]->(table))
+      `, { sourcePersonaId, ...clone });
+    } finally {
+      await session.close();
+    }
+  }
+
   async createColumnNode(tableId: string, column: ColumnNode): Promise<void> {
     const session = this.getSession();
     try {
@@ -309,7 +395,7 @@ export class Neo4jService {
       let cypher: string;
       let params: any;
 
-      if (this.useCanonicalKeys && columnKey && tableCanonicalKey) {
+      if (useCanonicalKeys && columnKey && tableCanonicalKey) {
         // Shared node mode: MATCH table by canonicalKey, MERGE column by columnKey
         cypher = `
           MATCH (t:Table {canonicalKey: $tableCanonicalKey})
@@ -379,7 +465,7 @@ export class Neo4jService {
       let cypher: string;
       let params: any;
 
-      if (this.useCanonicalKeys && columnKey) {
+      if (useCanonicalKeys && columnKey) {
         // Shared mode: MATCH column by columnKey
         cypher = `
           MATCH (c:Column {columnKey: $columnKey})
@@ -429,6 +515,29 @@ export class Neo4jService {
     }
   }
 
+  /**
+   * Updates review state on Value nodes: deprecated when re-profiling no longer
+   * finds the value, smeValidated false when a new value awaits an SME
+   */
+  async updateValueStatus(valueIds: string[], status: { deprecated?: boolean; smeValidated?: boolean }): Promise<void> {
+    if (valueIds.length === 0) return;
+    const session = this.getSession();
+    try {
+      await session.run(`
+        MATCH (v:Value)
+        WHERE v.id IN $valueIds
+        SET v += $status,
+            v.deprecatedAt = CASE
+              WHEN $status.deprecated = true THEN coalesce(v.deprecatedAt, datetime())
+              WHEN $status.deprecated = false THEN null
+              ELSE v.deprecatedAt
+            END
+      `, { valueIds, status });
+    } finally {
+      await session.close();
+    }
+  }
+
   async createRelationship(relationship: RelationshipInfo & { fromKey?: string; toKey?: string }): Promise<void> {
     const session = this.getSession();
     try {
@@ -443,7 +552,7 @@ export class Neo4jService {
       let cypher: string;
       let params: any;
 
-      if (this.useCanonicalKeys && fromKey && toKey) {
+      if (useCanonicalKeys && fromKey && toKey) {
         // Shared mode: Try to MATCH by canonical keys (works for both Table canonicalKey and Column columnKey)
         cypher = `
           MATCH (from)
@@ -455,7 +564,7 @@ export class Neo4jService {
               r.createdAt = datetime()
         `;
         params = { fromKey, toKey, properties };
-      } else if (this.useCanonicalKeys && (fromKey || toKey)) {
+      } else if (useCanonicalKeys && (fromKey || toKey)) {
         // Partial shared mode: One node by key, one by id
         cypher = `
           MATCH (from)
@@ -521,7 +630,11 @@ export class Neo4jService {
     }
   }
 
-  async getPersonaContext(personaId: string): Promise<any> {
+  /**
+   * A persona's tables with their columns and value meanings, as currently in the graph
+   * (column descriptions there include merged SME feedback)
+   */
+  async getPersonaContext(personaId: string): Promise<PersonaGraphContext | null> {
     const session = this.getSession();
     try {
       const result = await session.run(`
@@ -529,10 +642,9 @@ export class Neo4jService {
         OPTIONAL MATCH (p)-[:CONTAINS]->(t:Table)
         OPTIONAL MATCH (t)-[:HAS_COLUMN]->(c:Column)
         OPTIONAL MATCH (c)-[:HAS_VALUE]->(v:Value)
-        RETURN p, 
-               COLLECT(DISTINCT t) as tables,
-               COLLECT(DISTINCT c) as columns,
-               COLLECT(DISTINCT v) as values
+        WITH p, t, c, COLLECT(v {.value, .aiContext, .aiHypothesis}) as values
+        WITH p, t, COLLECT(CASE WHEN c IS NULL THEN NULL ELSE c {.id, .name, .description, values: values} END) as columns
+        RETURN p, COLLECT(CASE WHEN t IS NULL THEN NULL ELSE t {.id, .name, .schema, columns: columns} END) as tables
       `, { personaId });
 
       if (result.records.length === 0) {
@@ -542,9 +654,7 @@ export class Neo4jService {
       const record = result.records[0];
       return {
         persona: record.get('p').properties,
-        tables: record.get('tables').map((t: any) => t.properties),
-        columns: record.get('columns').map((c: any) => c.properties),
-        values: record.get('values').map((v: any) => v.properties)
+        tables: record.get('tables')
       };
     } finally {
       await session.close();
@@ -658,7 +768,7 @@ export class Neo4jService {
     const session = this.getSession();
     try {
       // In shared mode, tableKey is the canonicalKey; otherwise it's the id
-      const cypher = this.useCanonicalKeys
+      const cypher = useCanonicalKeys
         ? `
           MATCH (t:Table {canonicalKey: $key})
           SET t.description = $description,
@@ -682,7 +792,7 @@ export class Neo4jService {
       let cypher: string;
       let params: any;
 
-      if (this.useCanonicalKeys && columnKey) {
+      if (useCanonicalKeys && columnKey) {
         // Shared mode: MATCH column by columnKey
         cypher = `
           MATCH (c:Column {columnKey: $columnKey})
@@ -723,7 +833,7 @@ export class Neo4jService {
     try {
       let cypher: string;
 
-      if (this.useCanonicalKeys && relationship.fromTableKey && relationship.toTableKey &&
+      if (useCanonicalKeys && relationship.fromTableKey && relationship.toTableKey &&
           relationship.fromColumnKey && relationship.toColumnKey) {
         // Shared mode: MATCH by canonical keys
         cypher = `
@@ -810,7 +920,7 @@ export class Neo4jService {
     rowCount: number;
     columnCount: number;
   } | null> {
-    if (!this.useCanonicalKeys) {
+    if (!useCanonicalKeys) {
       return null; // Context reuse only works in shared mode
     }
 
@@ -856,7 +966,7 @@ export class Neo4jService {
     isNullable: boolean;
     cardinality: number;
   } | null> {
-    if (!this.useCanonicalKeys) {
+    if (!useCanonicalKeys) {
       return null; // Context reuse only works in shared mode
     }
 
@@ -902,7 +1012,7 @@ export class Neo4jService {
     personaIds: string[];
     personas: Array<{ id: string; name: string; description: string }>;
   }>> {
-    if (!this.useCanonicalKeys) {
+    if (!useCanonicalKeys) {
       return []; // Cross-model discovery only works in shared mode
     }
 
@@ -942,7 +1052,7 @@ export class Neo4jService {
     name: string;
     description: string;
   }>> {
-    if (!this.useCanonicalKeys) {
+    if (!useCanonicalKeys) {
       return [];
     }
 
@@ -966,5 +1076,3 @@ export class Neo4jService {
     }
   }
 }
-
-export const neo4jService = new Neo4jService();
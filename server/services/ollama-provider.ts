@@ -0,0 +1,55 @@
+import type { LLMConnectionConfig } from "@shared/schema";
+import { buildSystemPrompt, httpError, LLM_REQUEST_TIMEOUT_MS, type LLMProvider, type LLMRequest, type LLMResponse } from "./llm-provider";
+
+const DEFAULT_BASE_URL = "http://localhost:11434";
+const DEFAULT_MODEL = "llama3.1";
+
+/**
+ * Local models served by Ollama. Structured output is requested through the
+ * `format` field, which accepts either 'json' or a JSON schema.
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama' as const;
+
+  constructor(private config: Partial<LLMConnectionConfig> = {}) {}
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const model = request.tier === 'pro'
+      ? this.config.model || DEFAULT_MODEL
+      : this.config.fastModel || this.config.model || DEFAULT_MODEL;
+    const baseUrl = (this.config.baseUrl || process.env.OLLAMA_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, "");
+
+    const systemPrompt = buildSystemPrompt(request);
+    const messages = [
+      ...(systemPrompt ? [{ role: "system", content: systemPrompt }] : []),
+      { role: "user", content: request.prompt }
+    ];
+
+    const response = await fetch(`${baseUrl}/api/chat`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model,
+        messages,
+        stream: false,
+        options: { temperature: 0 },
+        ...(request.responseSchema ? { format: request.responseSchema } : request.json ? { format: "json" } : {})
+      }),
+      signal: AbortSignal.timeout(LLM_REQUEST_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw await httpError("Ollama", response);
+    }
+
+    const data = await response.json();
+    return {
+      text: data.message?.content || "",
+      model: data.model || model,
+      usage: {
+        inputTokens: data.prompt_eval_count,
+        outputTokens: data.eval_count
+      }
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { resolveOpenAIEndpoint } from './openai-provider';
+
+describe('resolveOpenAIEndpoint', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    process.env.OPENAI_API_KEY = 'instance-key';
+    delete process.env.OPENAI_BASE_URL;
+    delete process.env.LLM_BASE_URL;
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('uses the instance key for the instance endpoint', () => {
+    expect(resolveOpenAIEndpoint({})).toEqual({ baseUrl: 'https://api.openai.com/v1', apiKey: 'instance-key' });
+    expect(resolveOpenAIEndpoint({ baseUrl: 'https://api.openai.com/v1/' }).apiKey).toBe('instance-key');
+
+    process.env.LLM_BASE_URL = 'http://gateway:4000/v1';
+    expect(resolveOpenAIEndpoint({ baseUrl: 'http://gateway:4000/v1' }).apiKey).toBe('instance-key');
+  });
+
+  it('never sends the instance key to a user-supplied base URL', () => {
+    expect(resolveOpenAIEndpoint({ baseUrl: 'https://attacker.example/v1' }))
+      .toEqual({ baseUrl: 'https://attacker.example/v1', apiKey: undefined });
+    expect(resolveOpenAIEndpoint({ baseUrl: 'https://gateway.example/v1', apiKey: 'own-key' }).apiKey).toBe('own-key');
+  });
+});
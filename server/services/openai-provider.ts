@@ -0,0 +1,72 @@
+import type { LLMConnectionConfig } from "@shared/schema";
+import { buildSystemPrompt, httpError, LLM_REQUEST_TIMEOUT_MS, type LLMProvider, type LLMRequest, type LLMResponse } from "./llm-provider";
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_MODEL = "gpt-4o-mini";
+
+/**
+ * Base URL and key for a connection. The instance's OPENAI_API_KEY is only sent
+ * to the instance's own endpoint, never to a base URL a user typed in.
+ */
+export function resolveOpenAIEndpoint(config: Partial<LLMConnectionConfig>): { baseUrl: string; apiKey?: string } {
+  const normalize = (url: string) => url.replace(/\/+$/, "");
+  const instanceUrl = normalize(process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL);
+  const baseUrl = config.baseUrl ? normalize(config.baseUrl) : instanceUrl;
+  // LLM_BASE_URL is how the instance default provider is pointed elsewhere
+  const instanceUrls = [instanceUrl, ...(process.env.LLM_BASE_URL ? [normalize(process.env.LLM_BASE_URL)] : [])];
+  const apiKey = config.apiKey || (instanceUrls.includes(baseUrl) ? process.env.OPENAI_API_KEY : undefined);
+  return { baseUrl, apiKey };
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API (OpenAI, Azure-style
+ * gateways, vLLM, LM Studio, LiteLLM). Only json_object mode is requested since
+ * strict json_schema support varies between servers; the schema goes in the prompt.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+
+  constructor(private config: Partial<LLMConnectionConfig> = {}) {}
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const model = request.tier === 'pro'
+      ? this.config.model || DEFAULT_MODEL
+      : this.config.fastModel || this.config.model || DEFAULT_MODEL;
+    const { baseUrl, apiKey } = resolveOpenAIEndpoint(this.config);
+
+    const systemPrompt = buildSystemPrompt(request);
+    const messages = [
+      ...(systemPrompt ? [{ role: "system", content: systemPrompt }] : []),
+      { role: "user", content: request.prompt }
+    ];
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature: 0,
+        ...(request.responseSchema || request.json ? { response_format: { type: "json_object" } } : {})
+      }),
+      signal: AbortSignal.timeout(LLM_REQUEST_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw await httpError("OpenAI-compatible", response);
+    }
+
+    const data = await response.json();
+    return {
+      text: data.choices?.[0]?.message?.content || "",
+      model: data.model || model,
+      usage: {
+        inputTokens: data.usage?.prompt_tokens,
+        outputTokens: data.usage?.completion_tokens
+      }
+    };
+  }
+}
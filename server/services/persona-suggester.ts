@@ -0,0 +1,221 @@
+import { storage } from '../storage';
+import { geminiService, type PersonaNaming, type TableDescription } from './gemini';
+import type { PersonaSuggestion, PersonaSuggestionResult, Table } from '@shared/schema';
+
+// Clusters smaller than this are reported as unclustered rather than proposed as personas
+const MIN_CLUSTER_SIZE = 2;
+const MAX_LOCAL_MOVING_PASSES = 20;
+const MAX_SME_ANSWERS_PER_TABLE = 3;
+
+interface WeightedEdge {
+  from: string;
+  to: string;
+  weight: number;
+}
+
+interface TableCluster {
+  tables: Table[];
+  cohesion: number;
+}
+
+/**
+ * Proposes agent personas from the validated foreign-key graph of a database's
+ * selected tables. Tables are clustered by community detection, then each
+ * cluster is named by the LLM from AI table descriptions and SME answers.
+ * Suggestions are returned, never saved; a person accepts or edits them first.
+ */
+export class PersonaSuggester {
+  async suggest(databaseId: string): Promise<PersonaSuggestionResult> {
+    const selectedTables = await storage.getSelectedTables(databaseId);
+    const edges = await this.getValidatedEdges(selectedTables);
+    console.log(`🧩 Clustering ${selectedTables.length} tables over ${edges.length} validated joins for database ${databaseId}`);
+
+    const communities = this.detectCommunities(selectedTables.map(table => table.id), edges);
+    const tablesById = new Map(selectedTables.map(table => [table.id, table]));
+
+    const clusters: TableCluster[] = [];
+    const unclusteredTableIds: string[] = [];
+    for (const memberIds of communities) {
+      if (memberIds.length < MIN_CLUSTER_SIZE) {
+        unclusteredTableIds.push(...memberIds);
+        continue;
+      }
+      // Most connected table first; it names the cluster when the LLM can't
+      const members = new Set(memberIds);
+      const linkCount = (id: string) => edges
+        .filter(edge => (edge.from === id && members.has(edge.to)) || (edge.to === id && members.has(edge.from)))
+        .reduce((sum, edge) => sum + edge.weight, 0);
+      clusters.push({
+        tables: [...memberIds].sort((a, b) => linkCount(b) - linkCount(a)).map(id => tablesById.get(id)!),
+        cohesion: this.cohesion(members, edges)
+      });
+    }
+
+    if (clusters.length === 0) {
+      return { suggestions: [], unclusteredTableIds };
+    }
+
+    const namings = await this.nameClusters(databaseId, clusters, edges);
+    const suggestions: PersonaSuggestion[] = clusters.map((cluster, index) => {
+      const naming = namings.get(index);
+      const heuristic = this.heuristicNaming(cluster);
+      return {
+        name: naming?.name ?? heuristic.name,
+        description: naming?.description ?? heuristic.description,
+        keywords: naming?.keywords ?? heuristic.keywords,
+        tableIds: cluster.tables.map(table => table.id),
+        tableNames: cluster.tables.map(table => table.name),
+        cohesion: cluster.cohesion,
+        namedBy: naming ? 'llm' : 'heuristic'
+      };
+    });
+
+    console.log(`✅ Suggested ${suggestions.length} personas, ${unclusteredTableIds.length} tables left unclustered`);
+    return { suggestions, unclusteredTableIds };
+  }
+
+  /**
+   * One undirected edge per table pair, weighted by the number of validated FKs between them
+   */
+  private async getValidatedEdges(selectedTables: Table[]): Promise<WeightedEdge[]> {
+    const selectedIds = new Set(selectedTables.map(table => table.id));
+    const weights = new Map<string, WeightedEdge>();
+
+    for (const table of selectedTables) {
+      for (const fk of await storage.getForeignKeysByTableId(table.id)) {
+        if (!fk.isValidated || fk.fromTableId === fk.toTableId || !selectedIds.has(fk.toTableId)) continue;
+        const [from, to] = [fk.fromTableId, fk.toTableId].sort();
+        const key = `${from}|${to}`;
+        const edge = weights.get(key) ?? { from, to, weight: 0 };
+        edge.weight++;
+        weights.set(key, edge);
+      }
+    }
+    return Array.from(weights.values());
+  }
+
+  /**
+   * Louvain local-moving phase: each table repeatedly moves to the neighbouring
+   * community with the largest modularity gain until no move improves it.
+   * Nodes are visited in id order so the same graph always gives the same clusters.
+   */
+  detectCommunities(nodeIds: string[], edges: WeightedEdge[]): string[][] {
+    const neighbours = new Map<string, Map<string, number>>(nodeIds.map(id => [id, new Map()]));
+    for (const edge of edges) {
+      neighbours.get(edge.from)?.set(edge.to, (neighbours.get(edge.from)?.get(edge.to) ?? 0) + edge.weight);
+      neighbours.get(edge.to)?.set(edge.from, (neighbours.get(edge.to)?.get(edge.from) ?? 0) + edge.weight);
+    }
+
+    const degree = new Map(nodeIds.map(id => [id, Array.from(neighbours.get(id)!.values()).reduce((sum, w) => sum + w, 0)]));
+    const totalWeight = edges.reduce((sum, edge) => sum + edge.weight, 0);
+    const community = new Map(nodeIds.map(id => [id, id]));
+    const communityDegree = new Map(nodeIds.map(id => [id, degree.get(id)!]));
+
+    const order = [...nodeIds].sort();
+    for (let pass = 0; pass < MAX_LOCAL_MOVING_PASSES && totalWeight > 0; pass++) {
+      let moved = false;
+      for (const node of order) {
+        const nodeDegree = degree.get(node)!;
+        if (nodeDegree === 0) continue;
+
+        const current = community.get(node)!;
+        communityDegree.set(current, communityDegree.get(current)! - nodeDegree);
+
+        const linksToCommunity = new Map<string, number>([[current, 0]]);
+        for (const [neighbour, weight] of Array.from(neighbours.get(node)!.entries())) {
+          const target = community.get(neighbour)!;
+          linksToCommunity.set(target, (linksToCommunity.get(target) ?? 0) + weight);
+        }
+
+        const gain = (target: string) =>
+          linksToCommunity.get(target)! - (communityDegree.get(target)! * nodeDegree) / (2 * totalWeight);
+        let best = current;
+        for (const target of Array.from(linksToCommunity.keys()).sort()) {
+          if (gain(target) > gain(best) + 1e-12) best = target;
+        }
+
+        community.set(node, best);
+        communityDegree.set(best, communityDegree.get(best)! + nodeDegree);
+        if (best !== current) moved = true;
+      }
+      if (!moved) break;
+    }
+
+    const groups = new Map<string, string[]>();
+    for (const id of order) {
+      const key = community.get(id)!;
+      groups.set(key, [...(groups.get(key) ?? []), id]);
+    }
+    return Array.from(groups.values()).sort((a, b) => b.length - a.length);
+  }
+
+  private cohesion(memberIds: Set<string>, edges: WeightedEdge[]): number {
+    let internal = 0;
+    let touching = 0;
+    for (const edge of edges) {
+      const fromInside = memberIds.has(edge.from);
+      const toInside = memberIds.has(edge.to);
+      if (fromInside || toInside) touching += edge.weight;
+      if (fromInside && toInside) internal += edge.weight;
+    }
+    return touching > 0 ? Math.round((internal / touching) * 100) / 100 : 0;
+  }
+
+  /**
+   * Ask the LLM to name every cluster in one call. Clusters it skips, or every
+   * cluster when the call fails, fall back to heuristic names.
+   */
+  private async nameClusters(databaseId: string, clusters: TableCluster[], edges: WeightedEdge[]): Promise<Map<number, PersonaNaming>> {
+    const contexts = new Map((await storage.getContextsByDatabaseId(databaseId)).map(context => [context.tableId, context]));
+    const answered = (await storage.getQuestionsByDatabaseId(databaseId)).filter(question => question.isAnswered && question.response);
+
+    const prompts = clusters.map((cluster, clusterId) => {
+      const memberIds = new Set(cluster.tables.map(table => table.id));
+      const namesById = new Map(cluster.tables.map(table => [table.id, table.name]));
+      return {
+        clusterId,
+        tables: cluster.tables.map(table => {
+          const tableDesc = contexts.get(table.id)?.tableDesc as TableDescription | null | undefined;
+          const smeAnswers = answered
+            .filter(question => question.tableId === table.id)
+            .slice(0, MAX_SME_ANSWERS_PER_TABLE)
+            .map(question => `${question.questionText} → ${question.response}`);
+          return {
+            name: table.name,
+            ...(tableDesc?.description ? { description: [tableDesc.description, tableDesc.business_purpose].filter(Boolean).join(' ') } : {}),
+            ...(smeAnswers.length > 0 ? { smeAnswers } : {})
+          };
+        }),
+        joins: edges
+          .filter(edge => memberIds.has(edge.from) && memberIds.has(edge.to))
+          .map(edge => `${namesById.get(edge.from)} ↔ ${namesById.get(edge.to)}`)
+      };
+    });
+
+    try {
+      const llm = await geminiService.forDatabase(databaseId);
+      const namings = await llm.namePersonaClusters(prompts);
+      return new Map(namings
+        .filter(naming => naming.cluster_id >= 0 && naming.cluster_id < clusters.length)
+        .map(naming => [naming.cluster_id, naming]));
+    } catch (error) {
+      console.warn('⚠️  Persona naming by LLM failed, using heuristic names:', error instanceof Error ? error.message : error);
+      return new Map();
+    }
+  }
+
+  /**
+   * Names a cluster after its most connected table
+   */
+  private heuristicNaming(cluster: TableCluster): Pick<PersonaSuggestion, 'name' | 'description' | 'keywords'> {
+    const lead = cluster.tables[0].name.replace(/[_\-]+/g, ' ');
+    const title = lead.replace(/\b\w/g, letter => letter.toUpperCase());
+    return {
+      name: `${title} Specialist`,
+      description: `Covers ${cluster.tables.length} joined tables: ${cluster.tables.map(table => table.name).join(', ')}.`,
+      keywords: cluster.tables.map(table => table.name.toLowerCase())
+    };
+  }
+}
+
+export const personaSuggester = new PersonaSuggester();
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { MaskingPolicy } from '@shared/schema';
+import { piiMasker } from './pii-masker';
+
+const classify = (name: string, values: any[], semanticType?: string) =>
+  piiMasker.classify({ name, semanticType }, values)?.category ?? null;
+
+describe('PiiMasker.classify', () => {
+  it('trusts email and phone semantic types', () => {
+    expect(classify('contact', [], 'email')).toBe('email');
+    expect(classify('contact', [], 'phone')).toBe('phone');
+  });
+
+  it('detects card numbers by Luhn checksum', () => {
+    expect(classify('ref', ['4111 1111 1111 1111', '5500-0000-0000-0004', '340000000000009'])).toBe('card_number');
+    expect(classify('ref', ['4111 1111 1111 1112', '5500-0000-0000-0005', '340000000000001'])).toBeNull();
+  });
+
+  it('detects national identifiers', () => {
+    expect(classify('ni', ['AB 12 34 56 C', 'CE123456D', 'JG 10 32 54 A'])).toBe('national_id');
+    expect(classify('ssn', ['123-45-6789', '234-56-7890', '345-67-8901'])).toBe('national_id');
+    // A national ID column name alone is enough when there is nothing to sample
+    expect(classify('passport_number', [])).toBe('national_id');
+  });
+
+  it('detects street addresses by name or by value shape', () => {
+    expect(classify('address_line1', [])).toBe('address');
+    expect(classify('location', ['12 High Street', '4 Elm Ave', '221B Baker St'])).toBe('address');
+    expect(classify('email_address', ['a@b.com', 'c@d.com', 'e@f.com'])).not.toBe('address');
+  });
+
+  it('needs name-shaped values before tagging a bare "name" column', () => {
+    expect(classify('first_name', ['x1', 'y2', 'z3'])).toBe('person_name');
+    expect(classify('name', ['Ada Lovelace', 'Alan Turing', 'Grace Hopper'])).toBe('person_name');
+    expect(classify('name', ['widget-01', 'gadget v2', 'sprocket 9000'])).toBeNull();
+  });
+
+  it('leaves ordinary columns alone', () => {
+    expect(classify('status', ['open', 'closed', 'pending'])).toBeNull();
+  });
+});
+
+describe('PiiMasker.resolveStrategy', () => {
+  const column = { id: 'c1', name: 'email', piiCategory: 'email' as const };
+
+  it('uses the default policy when the database has none', () => {
+    expect(piiMasker.resolveStrategy(column, null)).toBe('redact');
+    expect(piiMasker.resolveStrategy({ ...column, piiCategory: null }, null)).toBeNull();
+  });
+
+  it('applies column overrides, then category strategies, then the default', () => {
+    const policy: MaskingPolicy = {
+      enabled: true,
+      defaultStrategy: 'redact',
+      categoryStrategies: { email: 'hash' },
+      columnOverrides: { c2: 'none', c3: 'synthesize' }
+    };
+    expect(piiMasker.resolveStrategy(column, policy)).toBe('hash');
+    expect(piiMasker.resolveStrategy({ ...column, id: 'c2' }, policy)).toBeNull();
+    expect(piiMasker.resolveStrategy({ id: 'c3', name: 'notes', piiCategory: null }, policy)).toBe('synthesize');
+    expect(piiMasker.resolveStrategy({ id: 'c4', name: 'ssn', piiCategory: 'national_id' }, policy)).toBe('redact');
+  });
+
+  it('masks nothing when the policy is disabled', () => {
+    expect(piiMasker.resolveStrategy(column, { enabled: false, defaultStrategy: 'redact' })).toBeNull();
+  });
+});
+
+describe('PiiMasker masking', () => {
+  it('redacts with the category name', () => {
+    expect(piiMasker.maskValue('a@b.com', 'redact', 'email')).toBe('[REDACTED email]');
+    expect(piiMasker.maskValue(null, 'redact', 'email')).toBeNull();
+  });
+
+  it('hashes deterministically without revealing the value', () => {
+    const hashed = piiMasker.maskValue('123-45-6789', 'hash');
+    expect(hashed).toMatch(/^h_[0-9a-f]{16}$/);
+    expect(piiMasker.maskValue('123-45-6789', 'hash')).toBe(hashed);
+    expect(piiMasker.maskValue('123-45-6780', 'hash')).not.toBe(hashed);
+  });
+
+  it('synthesizes values that keep their format', () => {
+    const synthesized = piiMasker.maskValue('AB-1234 x', 'synthesize', 'national_id');
+    expect(synthesized).toMatch(/^[A-Z]{2}-\d{4} [a-z]$/);
+    expect(synthesized).not.toBe('AB-1234 x');
+    expect(piiMasker.maskValue('ada@example.org', 'synthesize')).toMatch(/^user_[0-9a-f]{8}@example\.com$/);
+  });
+
+  it('collapses masked duplicates', () => {
+    expect(piiMasker.maskValues(['a', 'b', 'c'], 'redact', 'person_name')).toEqual(['[REDACTED person_name]']);
+  });
+
+  it('masks only tagged columns in rows and leaves the input untouched', () => {
+    const rows = [{ id: 1, email: 'a@b.com', status: 'open' }];
+    const masked = piiMasker.maskRows(rows, [
+      { id: 'c1', name: 'email', piiCategory: 'email' },
+      { id: 'c2', name: 'status', piiCategory: null }
+    ], null);
+    expect(masked).toEqual([{ id: 1, email: '[REDACTED email]', status: 'open' }]);
+    expect(rows[0].email).toBe('a@b.com');
+  });
+
+  it('does not mask stored values twice', () => {
+    const column = { id: 'c1', name: 'email', piiCategory: 'email' as const };
+    expect(piiMasker.maskStoredValues({ ...column, maskingStrategy: 'redact' }, ['[REDACTED email]'], null))
+      .toEqual(['[REDACTED email]']);
+    expect(piiMasker.maskStoredValues({ ...column, maskingStrategy: null }, ['a@b.com'], null))
+      .toEqual(['[REDACTED email]']);
+  });
+});
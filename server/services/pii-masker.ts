@@ -0,0 +1,210 @@
+import { createHash } from 'crypto';
+import {
+  DEFAULT_MASKING_POLICY,
+  type Column,
+  type MaskingPolicy,
+  type MaskingStrategy,
+  type PiiCategory
+} from '@shared/schema';
+
+export interface PiiMatch {
+  category: PiiCategory;
+  confidence: number;
+}
+
+type MaskableColumn = Pick<Column, 'id' | 'name' | 'piiCategory'>;
+type StoredValuesColumn = MaskableColumn & Pick<Column, 'maskingStrategy'>;
+
+const PERSON_NAME_HINT = /(first|last|middle|given|family|full|sur|maiden|display|contact|customer|employee|patient)_?name$|^(name|fname|lname|surname|forename)$/i;
+const GENERIC_NAME_HINT = /^name$|display_?name$/i;
+const NATIONAL_ID_HINT = /(ssn|social_?security|national_?id|nino|nin$|tax_?id|tin$|passport|sin$|personal_?number|id_?number)/i;
+const ADDRESS_HINT = /(address|street|addr(_?line)?\d?$|address_?line)/i;
+const CARD_HINT = /(card|cc_?num|pan$|credit)/i;
+
+const PERSON_NAME_VALUE = /^[A-Z][a-zA-Z'\-]+( [A-Z][a-zA-Z'\-.]*){0,3}$/;
+const SSN = /^(?!000|666|9\d\d)\d{3}-?(?!00)\d{2}-?(?!0000)\d{4}$/;
+const UK_NINO = /^[A-CEGHJ-PR-TW-Z]{2} ?\d{2} ?\d{2} ?\d{2} ?[A-D]$/i;
+const STREET_ADDRESS = /^\d+[A-Z]?\s+([A-Za-z0-9.'\-]+\s)*(st|street|ave|avenue|rd|road|blvd|boulevard|ln|lane|dr|drive|way|ct|court|pl|place|sq|square|ter|terrace|hwy|highway|pkwy)\b/i;
+
+const MIN_MATCH_RATIO = 0.8;
+const MIN_SAMPLE_SIZE = 3;
+
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function isCardNumber(value: string): boolean {
+  if (!/^[\d\s\-]+$/.test(value)) return false;
+  const digits = value.replace(/\D/g, '');
+  return digits.length >= 13 && digits.length <= 19 && luhnValid(digits);
+}
+
+/**
+ * Tags columns holding personal data and masks their values according to the
+ * database's masking policy. Masking is deterministic (same input, same output)
+ * so masked values still group and join consistently.
+ */
+export class PiiMasker {
+  /**
+   * Classify a column from its name, inferred semantic type and sampled values
+   */
+  classify(column: { name: string; semanticType?: string | null }, values: any[]): PiiMatch | null {
+    if (column.semanticType === 'email') {
+      return { category: 'email', confidence: 0.95 };
+    }
+    if (column.semanticType === 'phone') {
+      return { category: 'phone', confidence: 0.9 };
+    }
+
+    const sample = values
+      .filter(value => value !== null && value !== undefined && typeof value !== 'object')
+      .map(value => String(value).trim())
+      .filter(value => value.length > 0);
+
+    const ratio = (test: (value: string) => boolean) =>
+      sample.length >= MIN_SAMPLE_SIZE ? sample.filter(test).length / sample.length : 0;
+
+    const cardRatio = ratio(isCardNumber);
+    if (cardRatio >= MIN_MATCH_RATIO || (CARD_HINT.test(column.name) && cardRatio >= 0.5)) {
+      return { category: 'card_number', confidence: Math.min(1, cardRatio + (CARD_HINT.test(column.name) ? 0.1 : 0)) };
+    }
+
+    const ninoRatio = ratio(value => UK_NINO.test(value));
+    const ssnRatio = ratio(value => SSN.test(value));
+    if (ninoRatio >= MIN_MATCH_RATIO) {
+      return { category: 'national_id', confidence: ninoRatio };
+    }
+    if (NATIONAL_ID_HINT.test(column.name) && (ssnRatio >= 0.5 || sample.length < MIN_SAMPLE_SIZE)) {
+      return { category: 'national_id', confidence: sample.length < MIN_SAMPLE_SIZE ? 0.7 : Math.min(1, ssnRatio + 0.2) };
+    }
+
+    if (ADDRESS_HINT.test(column.name) && !/(email|ip|mac|url|web)/i.test(column.name)) {
+      const addressRatio = ratio(value => STREET_ADDRESS.test(value) || /\d/.test(value));
+      return { category: 'address', confidence: sample.length < MIN_SAMPLE_SIZE ? 0.7 : Math.max(0.6, addressRatio) };
+    }
+    const streetRatio = ratio(value => STREET_ADDRESS.test(value));
+    if (streetRatio >= MIN_MATCH_RATIO) {
+      return { category: 'address', confidence: streetRatio * 0.9 };
+    }
+
+    if (PERSON_NAME_HINT.test(column.name)) {
+      const nameRatio = ratio(value => PERSON_NAME_VALUE.test(value));
+      // A bare "name" column is as likely to hold products or companies; insist on name-shaped values
+      if (GENERIC_NAME_HINT.test(column.name)) {
+        return nameRatio >= MIN_MATCH_RATIO ? { category: 'person_name', confidence: nameRatio * 0.8 } : null;
+      }
+      return { category: 'person_name', confidence: sample.length < MIN_SAMPLE_SIZE ? 0.7 : Math.max(0.7, nameRatio) };
+    }
+
+    return null;
+  }
+
+  /**
+   * Strategy to apply to a column under a policy, or null when it stays unmasked
+   */
+  resolveStrategy(column: MaskableColumn, policy: MaskingPolicy | null | undefined): MaskingStrategy | null {
+    const effective = policy ?? DEFAULT_MASKING_POLICY;
+    if (!effective.enabled) return null;
+
+    const override = effective.columnOverrides?.[column.id];
+    if (override) {
+      return override === 'none' ? null : override;
+    }
+    if (!column.piiCategory) return null;
+
+    const categoryStrategy = effective.categoryStrategies?.[column.piiCategory];
+    if (categoryStrategy) {
+      return categoryStrategy === 'none' ? null : categoryStrategy;
+    }
+    return effective.defaultStrategy;
+  }
+
+  maskValue(value: any, strategy: MaskingStrategy, category?: PiiCategory | null): any {
+    if (value === null || value === undefined) return value;
+    const text = value instanceof Date ? value.toISOString() : String(value);
+
+    switch (strategy) {
+      case 'redact':
+        return `[REDACTED${category ? ` ${category}` : ''}]`;
+      case 'hash':
+        return `h_${this.digest(text).slice(0, 16)}`;
+      case 'synthesize':
+        return this.synthesize(text, category);
+    }
+  }
+
+  /**
+   * Mask distinct values, collapsing duplicates (every redacted value looks the same)
+   */
+  maskValues(values: any[], strategy: MaskingStrategy, category?: PiiCategory | null): any[] {
+    return Array.from(new Set(values.map(value => this.maskValue(value, strategy, category))));
+  }
+
+  /**
+   * Values read back from a column's stored distinctValues. They are already masked
+   * when the column has a maskingStrategy; otherwise the current policy is applied,
+   * which covers columns profiled before they were tagged or before the policy changed.
+   */
+  maskStoredValues(column: StoredValuesColumn, values: any[], policy: MaskingPolicy | null | undefined): any[] {
+    if (column.maskingStrategy) return values;
+    const strategy = this.resolveStrategy(column, policy);
+    return strategy ? this.maskValues(values, strategy, column.piiCategory) : values;
+  }
+
+  /**
+   * Mask PII columns in sampled rows before they go to a prompt or the UI
+   */
+  maskRows(rows: any[], columns: MaskableColumn[], policy: MaskingPolicy | null | undefined): any[] {
+    const masked = columns
+      .map(column => ({ column, strategy: this.resolveStrategy(column, policy) }))
+      .filter((entry): entry is { column: MaskableColumn; strategy: MaskingStrategy } => entry.strategy !== null);
+
+    if (masked.length === 0) return rows;
+
+    return rows.map(row => {
+      const copy = { ...row };
+      for (const { column, strategy } of masked) {
+        if (column.name in copy) {
+          copy[column.name] = this.maskValue(copy[column.name], strategy, column.piiCategory);
+        }
+      }
+      return copy;
+    });
+  }
+
+  private digest(text: string): string {
+    return createHash('sha256')
+      .update(`${process.env.PII_HASH_SALT || ''}:${text}`)
+      .digest('hex');
+  }
+
+  /**
+   * Format-preserving fake: digits stay digits, letters stay letters (same case),
+   * punctuation and length are kept. Emails keep the address shape.
+   */
+  private synthesize(text: string, category?: PiiCategory | null): string {
+    const digest = this.digest(text);
+    if (category === 'email' || /^[^\s@]+@[^\s@]+$/.test(text)) {
+      return `user_${digest.slice(0, 8)}@example.com`;
+    }
+
+    let cursor = 0;
+    const next = () => parseInt(digest[cursor++ % digest.length], 16);
+    return text.replace(/[A-Za-z0-9]/g, char => {
+      if (/\d/.test(char)) return String(next() % 10);
+      const letter = String.fromCharCode(97 + ((next() * 16 + next()) % 26));
+      return char === char.toUpperCase() ? letter.toUpperCase() : letter;
+    });
+  }
+}
+
+export const piiMasker = new PiiMasker();
@@ -1,4 +1,21 @@
-import { Pool } from 'pg';
+import { Pool, type PoolClient } from 'pg';
+import type { NumericDistribution, TemporalDistribution } from '@shared/schema';
+import type { SourceAdapter } from './source-adapter';
+import {
+  buildProfileAggregates,
+  readProfileAggregates,
+  buildGroupingSetsDistinctQuery,
+  attachDistinctValues,
+  lowCardinalityIndexes,
+  normalizeSamplePercent,
+  SAMPLE_SEED,
+  DEFAULT_DISTINCT_LIMIT,
+  computeNumericDistribution,
+  computeTemporalDistribution,
+  type ProfileColumnSpec,
+  type ProfileOptions,
+  type ColumnProfile
+} from './column-profiler';
 
 export interface PostgresConfig {
   connectionString?: string;
@@ -9,10 +26,13 @@ export interface PostgresConfig {
   password?: string;
 }
 
+export type RowCountMethod = 'estimated' | 'exact';
+
 export interface TableInfo {
   tableName: string;
   schemaName: string;
   rowCount: number;
+  rowCountMethod: RowCountMethod;
   columnCount: number;
   lastUpdated?: Date;
 }
@@ -34,7 +54,13 @@ export interface ForeignKeyInfo {
   toColumn: string;
 }
 
-export class PostgresAnalyzer {
+export interface ReadOnlyQueryResult {
+  columns: string[];
+  rows: Record<string, any>[];
+  truncated: boolean; // The query returned more than the requested limit
+}
+
+export class PostgresAnalyzer implements SourceAdapter {
   private pool: Pool | null = null;
   private isDisconnecting: boolean = false;
 
@@ -110,17 +136,34 @@ export class PostgresAnalyzer {
   async getTables(schemaName: string = 'public'): Promise<TableInfo[]> {
     if (!this.pool) throw new Error('Not connected to database');
 
+    // reltuples is the planner's row estimate; it is -1 until the table is first
+    // vacuumed/analyzed, in which case fall back to the live tuple counter.
+    // Partitioned tables are listed once, with the sum of their leaf partitions'
+    // estimates (the parent itself holds no rows); the partitions are left out.
+    // Everything is joined by OID so same-named tables in other schemas can't leak in.
     const query = `
       SELECT 
-        t.table_name,
-        t.table_schema as schema_name,
-        COALESCE(s.n_tup_ins + s.n_tup_upd + s.n_tup_del, 0) as row_count,
-        COUNT(c.column_name) as column_count
-      FROM information_schema.tables t
-      LEFT JOIN pg_stat_user_tables s ON s.relname = t.table_name
-      LEFT JOIN information_schema.columns c ON c.table_name = t.table_name AND c.table_schema = t.table_schema
-      WHERE t.table_schema = $1 AND t.table_type = 'BASE TABLE'
-      GROUP BY t.table_name, t.table_schema, s.n_tup_ins, s.n_tup_upd, s.n_tup_del
+        c.relname as table_name,
+        n.nspname as schema_name,
+        CASE
+          WHEN c.relkind = 'p' THEN (
+            SELECT COALESCE(SUM(CASE WHEN pc.reltuples >= 0 THEN pc.reltuples::bigint ELSE COALESCE(ps.n_live_tup, 0) END), 0)
+            FROM pg_partition_tree(c.oid) pt
+            JOIN pg_class pc ON pc.oid = pt.relid
+            LEFT JOIN pg_stat_user_tables ps ON ps.relid = pc.oid
+            WHERE pt.isleaf
+          )
+          WHEN c.reltuples >= 0 THEN c.reltuples::bigint
+          ELSE COALESCE(s.n_live_tup, 0)
+        END as row_count,
+        (
+          SELECT COUNT(*) FROM pg_attribute a
+          WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+        ) as column_count
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      LEFT JOIN pg_stat_user_tables s ON s.relid = c.oid
+      WHERE n.nspname = $1 AND c.relkind IN ('r', 'p') AND NOT c.relispartition
       ORDER BY row_count DESC NULLS LAST
     `;
 
@@ -130,6 +173,7 @@ export class PostgresAnalyzer {
       tableName: row.table_name,
       schemaName: row.schema_name,
       rowCount: parseInt(row.row_count) || 0,
+      rowCountMethod: 'estimated' as const,
       columnCount: parseInt(row.column_count) || 0
     }));
   }
@@ -348,6 +392,122 @@ export class PostgresAnalyzer {
       overlapPercentage: parseFloat(row.overlap_percentage)
     };
   }
-}
 
-export const postgresAnalyzer = new PostgresAnalyzer();
+  async profileColumns(
+    tableName: string,
+    columns: ProfileColumnSpec[],
+    options: ProfileOptions = {}
+  ): Promise<ColumnProfile[]> {
+    if (!this.pool) throw new Error('Not connected to database');
+
+    const source = this.profileSource(tableName, options);
+    const expr = (spec: ProfileColumnSpec) => this.profileExpression(spec);
+
+    const aggregateResult = await this.pool.query(`
+      SELECT
+        ${buildProfileAggregates(columns, expr)}
+      FROM ${source}
+    `);
+    const profiles = readProfileAggregates(aggregateResult.rows[0], columns);
+
+    const indexes = lowCardinalityIndexes(profiles, options.distinctLimit ?? DEFAULT_DISTINCT_LIMIT);
+    if (indexes.length > 0) {
+      const distinctResult = await this.pool.query(buildGroupingSetsDistinctQuery(indexes, columns, expr, source));
+      attachDistinctValues(profiles, distinctResult.rows);
+    }
+
+    return profiles;
+  }
+
+  async profileNumericDistribution(
+    tableName: string,
+    columnName: string,
+    range: { min: number; max: number },
+    options: ProfileOptions = {}
+  ): Promise<NumericDistribution> {
+    const pool = this.pool;
+    if (!pool) throw new Error('Not connected to database');
+
+    const source = this.profileSource(tableName, options);
+    const value = `"${columnName.replace(/"/g, '""')}"::float8`;
+    return computeNumericDistribution(
+      async sql => (await pool.query(sql)).rows,
+      value,
+      range,
+      source,
+      fractions => `
+        SELECT ${fractions.map((_, i) => `p[${i + 1}] AS p${i}`).join(', ')}
+        FROM (
+          SELECT percentile_cont(ARRAY[${fractions.join(', ')}]) WITHIN GROUP (ORDER BY ${value}) AS p
+          FROM ${source}
+        ) percentiles
+      `
+    );
+  }
+
+  async profileTemporalDistribution(
+    tableName: string,
+    columnName: string,
+    options: ProfileOptions = {}
+  ): Promise<TemporalDistribution> {
+    const pool = this.pool;
+    if (!pool) throw new Error('Not connected to database');
+
+    const column = `"${columnName.replace(/"/g, '""')}"`;
+    return computeTemporalDistribution(
+      async sql => (await pool.query(sql)).rows,
+      column,
+      `to_char(${column}, 'YYYY-MM')`,
+      this.profileSource(tableName, options)
+    );
+  }
+
+  async explainQuery(sql: string): Promise<string[]> {
+    const rows = await this.inReadOnlyTransaction(async client => (await client.query(`EXPLAIN ${sql}`)).rows);
+    return rows.map(row => row['QUERY PLAN']);
+  }
+
+  async runReadOnlyQuery(sql: string, limit: number, timeoutMs: number): Promise<ReadOnlyQueryResult> {
+    return this.inReadOnlyTransaction(async client => {
+      await client.query(`SET LOCAL statement_timeout = ${Math.max(1, Math.floor(timeoutMs))}`);
+      // A cursor stops reading at the limit without rewriting the query
+      await client.query(`DECLARE generated_query NO SCROLL CURSOR FOR ${sql}`);
+      const result = await client.query(`FETCH ${limit + 1} FROM generated_query`);
+      return {
+        columns: result.fields.map(field => field.name),
+        rows: result.rows.slice(0, limit),
+        truncated: result.rows.length > limit
+      };
+    });
+  }
+
+  /**
+   * Run `fn` on a dedicated client inside a READ ONLY transaction that is always rolled back
+   */
+  private async inReadOnlyTransaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    if (!this.pool) throw new Error('Not connected to database');
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN READ ONLY');
+      return await fn(client);
+    } finally {
+      await client.query('ROLLBACK').catch(() => undefined);
+      client.release();
+    }
+  }
+
+  private profileSource(tableName: string, options: ProfileOptions): string {
+    const schemaName = options.schemaName || 'public';
+    const samplePercent = normalizeSamplePercent(options.samplePercent);
+    return `"${schemaName}"."${tableName}"` +
+      (samplePercent ? ` TABLESAMPLE SYSTEM (${samplePercent}) REPEATABLE (${SAMPLE_SEED})` : '');
+  }
+
+  private profileExpression(spec: ProfileColumnSpec): string {
+    const column = `"${spec.columnName.replace(/"/g, '""')}"`;
+    // Types without an equality operator can't be counted DISTINCT or grouped directly
+    const textOnlyTypes = ['json', 'xml', 'point', 'line', 'lseg', 'box', 'path', 'polygon', 'circle', 'USER-DEFINED'];
+    return textOnlyTypes.includes(spec.dataType) ? `${column}::text` : column;
+  }
+}
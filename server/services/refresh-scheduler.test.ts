@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from 'vitest';
+import { cronMatches, nextCronRun, parseCron } from './refresh-scheduler';
+
+vi.mock('../storage', () => ({ storage: {} }));
+
+// Local time, as the scheduler uses server time
+const at = (year: number, month: number, day: number, hour = 0, minute = 0) => new Date(year, month - 1, day, hour, minute);
+
+describe('parseCron', () => {
+  it('expands ranges, lists and steps', () => {
+    const schedule = parseCron('*/15 9-11 1,15 */6 1-5');
+    expect(Array.from(schedule.minutes)).toEqual([0, 15, 30, 45]);
+    expect(Array.from(schedule.hours)).toEqual([9, 10, 11]);
+    expect(Array.from(schedule.days)).toEqual([1, 15]);
+    expect(Array.from(schedule.months)).toEqual([1, 7]);
+    expect(Array.from(schedule.weekdays)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect(Array.from(parseCron('0 0 * * 7').weekdays)).toEqual([0]);
+  });
+
+  it.each([
+    ['0 0 * *', 'five fields'],
+    ['60 * * * *', 'minute'],
+    ['* 24 * * *', 'hour'],
+    ['* * 0 * *', 'day of month'],
+    ['* * * 13 *', 'month'],
+    ['* * * * 8', 'day of week'],
+    ['5-1 * * * *', 'minute'],
+    ['*/0 * * * *', 'minute'],
+    ['a * * * *', 'minute']
+  ])('rejects %s', (expression, message) => {
+    expect(() => parseCron(expression)).toThrow(message);
+  });
+
+  it('rejects schedules whose days never occur in their months', () => {
+    expect(() => parseCron('0 0 31 2 *')).toThrow('never runs');
+    expect(() => parseCron('0 0 31 4,6,9,11 *')).toThrow('never runs');
+    expect(() => parseCron('0 0 30,31 2 *')).toThrow('never runs');
+  });
+
+  it('accepts schedules that run only in some months or years', () => {
+    expect(() => parseCron('0 0 31 1-3 *')).not.toThrow();
+    expect(() => parseCron('0 0 29 2 *')).not.toThrow();
+    // A weekday can always match, so the impossible day alone doesn't matter
+    expect(() => parseCron('0 0 31 2 1')).not.toThrow();
+  });
+});
+
+describe('cronMatches', () => {
+  it('needs both day and weekday when only one is restricted', () => {
+    const schedule = parseCron('0 6 * * 1-5');
+    expect(cronMatches(schedule, at(2026, 10, 19, 6))).toBe(true); // Monday
+    expect(cronMatches(schedule, at(2026, 10, 18, 6))).toBe(false); // Sunday
+    expect(cronMatches(schedule, at(2026, 10, 19, 6, 1))).toBe(false);
+  });
+
+  it('matches either day or weekday when both are restricted', () => {
+    const schedule = parseCron('0 0 1 * 1');
+    expect(cronMatches(schedule, at(2026, 11, 1))).toBe(true); // The 1st, a Sunday
+    expect(cronMatches(schedule, at(2026, 10, 19))).toBe(true); // A Monday
+    expect(cronMatches(schedule, at(2026, 10, 20))).toBe(false);
+  });
+});
+
+describe('nextCronRun', () => {
+  it('finds the next matching minute after the given time', () => {
+    expect(nextCronRun(parseCron('0 2 * * *'), at(2026, 10, 19, 1, 30))).toEqual(at(2026, 10, 19, 2));
+    expect(nextCronRun(parseCron('0 2 * * *'), at(2026, 10, 19, 2))).toEqual(at(2026, 10, 20, 2));
+    expect(nextCronRun(parseCron('30 * * * *'), at(2026, 10, 19, 23, 45))).toEqual(at(2026, 10, 20, 0, 30));
+  });
+
+  it('reaches a 29 February years away', () => {
+    expect(nextCronRun(parseCron('0 0 29 2 *'), at(2026, 10, 19))).toEqual(at(2028, 2, 29));
+  });
+
+  it('finds the next weekday run across a weekend', () => {
+    expect(nextCronRun(parseCron('0 6 * * 1-5'), at(2026, 10, 16, 7))).toEqual(at(2026, 10, 19, 6)); // Friday to Monday
+  });
+});
@@ -0,0 +1,409 @@
+import type { AnalysisJob, Column, Table } from '@shared/schema';
+import { storage } from '../storage';
+import { connectionManager } from './connection-manager';
+import { enumValueTracker } from './enum-value-tracker';
+import { geminiService } from './gemini';
+import { incrementalJoinDiscovery } from './incremental-join-discovery';
+import type { Neo4jService } from './neo4j-service';
+import { schemaAnalyzer } from './schema-analyzer';
+import { statisticalAnalyzer } from './statistical-analyzer';
+
+const TICK_MS = 60_000;
+
+// A column is flagged when its distinct count at least doubles or halves...
+const CARDINALITY_JUMP_RATIO = 2;
+// ...and is large enough for that to mean something; smaller columns are covered by the new-value check
+const CARDINALITY_JUMP_MIN = 20;
+// Null rate increase, in percentage points
+const NULL_SPIKE_POINTS = 20;
+// Distinct values are only compared for columns small enough to hold their full value list
+const ENUM_CARDINALITY_LIMIT = 100;
+
+export interface RefreshResult {
+  trigger: 'schedule' | 'manual';
+  schemaChanges: number;
+  schemaVersion: number | null;
+  tablesProfiled: number;
+  tablesFailed: string[];
+  statisticalChanges: number;
+  enumValuesAdded: number;
+  enumValuesDeprecated: number;
+  smeQuestionIds: string[];
+  joinsDiscovered: number;
+}
+
+// Runs fn with the database's graph target when one is configured and reachable, else with null
+export type GraphAccess = <T>(fn: (graph: Neo4jService | null) => Promise<T>, databaseId?: string) => Promise<T>;
+
+// ---------------------------------------------------------------------------
+// Cron expressions: minute hour day-of-month month day-of-week, in server time.
+// Each field takes *, n, a-b, lists and /step.
+// ---------------------------------------------------------------------------
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 } // 0 and 7 are both Sunday
+];
+
+// Longest each month gets, counting leap years
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+function parseCronField(field: string, index: number): Set<number> {
+  const { name, min, max } = CRON_FIELDS[index];
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid ${name} field "${field}"`);
+    }
+    const start = match[1] === '*' ? min : parseInt(match[2], 10);
+    const end = match[1] === '*' ? max : match[3] !== undefined ? parseInt(match[3], 10) : match[4] ? max : start;
+    const step = match[4] ? parseInt(match[4], 10) : 1;
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid ${name} field "${field}": values must be within ${min}-${max}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(index === 4 && value === 7 ? 0 : value);
+    }
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('A schedule needs five fields: minute hour day-of-month month day-of-week');
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map(parseCronField);
+  const schedule = { minutes, hours, days, months, weekdays, anyDay: fields[2] === '*', anyWeekday: fields[4] === '*' };
+
+  // A day-of-month alone (weekday '*') must fall in one of the months, or e.g. "0 0 31 2 *" never runs
+  const daysOnly = !schedule.anyDay && schedule.anyWeekday;
+  if (daysOnly && !Array.from(months).some(month => Array.from(days).some(day => day <= DAYS_IN_MONTH[month - 1]))) {
+    throw new Error(`Schedule "${expression.trim()}" never runs: none of its days occur in its months`);
+  }
+  return schedule;
+}
+
+function cronDayMatches(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.months.has(date.getMonth() + 1)) return false;
+  const dayMatches = schedule.days.has(date.getDate());
+  const weekdayMatches = schedule.weekdays.has(date.getDay());
+  // As in cron, a restricted day-of-month and day-of-week match when either does
+  if (!schedule.anyDay && !schedule.anyWeekday) return dayMatches || weekdayMatches;
+  return dayMatches && weekdayMatches;
+}
+
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  return schedule.minutes.has(date.getMinutes()) && schedule.hours.has(date.getHours()) && cronDayMatches(schedule, date);
+}
+
+/**
+ * The first run after `after`. Steps a day at a time and only walks the minutes
+ * of matching days; eight years is enough to reach a 29 February.
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date): Date | null {
+  const day = new Date(after);
+  day.setSeconds(0, 0);
+  day.setMinutes(day.getMinutes() + 1);
+  for (let i = 0; i < 8 * 366; i++) {
+    if (cronDayMatches(schedule, day)) {
+      for (const candidate = new Date(day); candidate.getDate() === day.getDate(); candidate.setMinutes(candidate.getMinutes() + 1)) {
+        if (cronMatches(schedule, candidate)) return candidate;
+      }
+    }
+    day.setHours(24, 0, 0, 0);
+  }
+  return null;
+}
+
+interface ColumnSnapshot {
+  cardinality: number | null;
+  nullPercentage: number | null;
+  distinctValues: string[] | null;
+}
+
+function parseDistinctValues(value: unknown): string[] | null {
+  const values = typeof value === 'string' ? JSON.parse(value) : value;
+  return Array.isArray(values) ? values.map(v => String(v)) : null;
+}
+
+function snapshotColumn(column: Column): ColumnSnapshot {
+  return {
+    cardinality: column.cardinality,
+    nullPercentage: column.nullPercentage !== null ? parseFloat(column.nullPercentage) : null,
+    distinctValues: parseDistinctValues(column.distinctValues)
+  };
+}
+
+/**
+ * Re-runs schema analysis, column statistics and incremental join discovery for
+ * databases with a refresh schedule, and on demand. Significant statistical
+ * changes between the previous and new profile become SME questions.
+ */
+export class RefreshScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = new Set<string>();
+  private withGraph: GraphAccess = fn => fn(null);
+
+  start(withGraph: GraphAccess): void {
+    if (this.timer) return;
+    this.withGraph = withGraph;
+    // Align ticks to the start of a minute so each schedule fires once
+    const delay = TICK_MS - (Date.now() % TICK_MS);
+    this.timer = setTimeout(() => {
+      this.tick();
+      this.timer = setInterval(() => this.tick(), TICK_MS);
+      this.timer.unref();
+    }, delay);
+    this.timer.unref();
+    console.log('⏰ Refresh scheduler started');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(databaseId: string): boolean {
+    return this.running.has(databaseId);
+  }
+
+  /**
+   * Creates the refresh job and runs it in the background
+   */
+  async startRefresh(databaseId: string, trigger: RefreshResult['trigger'], withGraph: GraphAccess = this.withGraph): Promise<AnalysisJob> {
+    if (this.running.has(databaseId)) {
+      throw new Error('A refresh is already running for this database');
+    }
+    this.running.add(databaseId);
+
+    try {
+      const job = await storage.createAnalysisJob({
+        databaseId,
+        type: 'refresh',
+        status: 'running',
+        progress: 0,
+        result: null,
+        error: null,
+        startedAt: new Date(),
+        completedAt: null
+      });
+
+      setImmediate(() => {
+        this.refresh(databaseId, job.id, trigger, withGraph)
+          .then(result => storage.updateAnalysisJob(job.id, {
+            status: 'completed',
+            progress: 100,
+            result,
+            completedAt: new Date()
+          }))
+          .catch(error => {
+            console.error(`Refresh of database ${databaseId} failed:`, error);
+            return storage.updateAnalysisJob(job.id, {
+              status: 'failed',
+              error: error instanceof Error ? error.message : 'Refresh failed',
+              completedAt: new Date()
+            });
+          })
+          .catch(dbError => console.error(`Failed to update refresh job ${job.id}:`, dbError))
+          .finally(() => this.running.delete(databaseId));
+      });
+
+      return job;
+    } catch (error) {
+      this.running.delete(databaseId);
+      throw error;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    const now = new Date();
+    try {
+      for (const database of await storage.getScheduledDatabases()) {
+        let schedule: CronSchedule;
+        try {
+          schedule = parseCron(database.refreshSchedule!);
+        } catch (error) {
+          console.warn(`⚠️  Ignoring invalid refresh schedule for ${database.name}:`, error instanceof Error ? error.message : error);
+          continue;
+        }
+        if (!cronMatches(schedule, now) || this.running.has(database.id)) continue;
+
+        console.log(`⏰ Scheduled refresh of ${database.name}`);
+        await this.startRefresh(database.id, 'schedule');
+      }
+    } catch (error) {
+      console.error('Refresh scheduler tick failed:', error);
+    }
+  }
+
+  private async refresh(databaseId: string, jobId: string, trigger: RefreshResult['trigger'], withGraph: GraphAccess): Promise<RefreshResult> {
+    const database = await storage.getDatabase(databaseId);
+    if (!database) {
+      throw new Error('Database not found');
+    }
+    const connection = await storage.getConnection(database.connectionId);
+    if (!connection) {
+      throw new Error('Connection not found');
+    }
+
+    // Hold the pooled connection for the whole run so it isn't evicted between steps
+    return connectionManager.withConnection(connection, async () => {
+      const schema = await schemaAnalyzer.analyzeDatabase(databaseId);
+      await storage.updateAnalysisJob(jobId, { progress: 10 });
+
+      const tables = await storage.getSelectedTables(databaseId);
+      const llm = (await geminiService.forDatabase(databaseId)).forJob(jobId);
+      const smeQuestionIds: string[] = [];
+      const tablesFailed: string[] = [];
+      let statisticalChanges = 0;
+      let enumValuesAdded = 0;
+      let enumValuesDeprecated = 0;
+
+      await withGraph(async graph => {
+        for (let i = 0; i < tables.length; i++) {
+          const table = tables[i];
+          try {
+            const before = new Map((await storage.getColumnsByTableId(table.id))
+              .filter(column => column.profiledAt)
+              .map(column => [column.id, snapshotColumn(column)]));
+
+            await statisticalAnalyzer.analyzeTable(table.id);
+
+            const enums = await enumValueTracker.syncTable(table, llm, graph);
+            enums.changes.forEach(change => {
+              enumValuesAdded += change.added.length;
+              enumValuesDeprecated += change.deprecated.length;
+              smeQuestionIds.push(...change.smeQuestionIds);
+            });
+
+            const changes = this.detectChanges(table, before, await storage.getColumnsByTableId(table.id), enums.trackedColumnIds);
+            statisticalChanges += changes.length;
+            smeQuestionIds.push(...await this.recordChanges(databaseId, table, changes));
+          } catch (error) {
+            console.error(`Failed to re-profile table ${table.name}:`, error);
+            tablesFailed.push(table.name);
+          }
+          await storage.updateAnalysisJob(jobId, { progress: 10 + Math.round(((i + 1) / tables.length) * 80) });
+        }
+      }, databaseId);
+
+      const joins = tables.length > 0
+        ? await incrementalJoinDiscovery.discoverJoins(databaseId, tables.map(table => table.id))
+        : null;
+
+      await storage.updateDatabaseRefresh(databaseId, { lastRefreshedAt: new Date() });
+      console.log(`✅ Refreshed ${database.name}: ${schema.changes.length} schema change(s), ${tables.length - tablesFailed.length} table(s) profiled, ${statisticalChanges} statistical change(s)`);
+
+      return {
+        trigger,
+        schemaChanges: schema.changes.length,
+        schemaVersion: schema.schemaVersion?.version ?? null,
+        tablesProfiled: tables.length - tablesFailed.length,
+        tablesFailed,
+        statisticalChanges,
+        enumValuesAdded,
+        enumValuesDeprecated,
+        smeQuestionIds,
+        joinsDiscovered: joins?.persistedCount ?? 0
+      };
+    });
+  }
+
+  /**
+   * Compares each column's new profile with the one before it. Columns profiled
+   * for the first time have nothing to compare against and are skipped; new
+   * values of columns with stored enum values are left to the enum value tracker.
+   */
+  private detectChanges(
+    table: Table,
+    before: Map<string, ColumnSnapshot>,
+    columns: Column[],
+    enumTrackedColumnIds: Set<string>
+  ): Array<{ column: Column; question: string }> {
+    const changes: Array<{ column: Column; question: string }> = [];
+
+    for (const column of columns) {
+      const previous = before.get(column.id);
+      if (!previous) continue;
+      const current = snapshotColumn(column);
+      const name = `${table.name}.${column.name}`;
+
+      // Masked values would only show up as new tokens, so PII columns skip the value check
+      if (previous.distinctValues && current.distinctValues && !column.maskingStrategy && !enumTrackedColumnIds.has(column.id) &&
+          (previous.cardinality ?? 0) <= ENUM_CARDINALITY_LIMIT) {
+        const known = new Set(previous.distinctValues);
+        const added = current.distinctValues.filter(value => !known.has(value));
+        if (added.length > 0) {
+          changes.push({
+            column,
+            question: `${name} has new values since the last profile: ${added.slice(0, 10).map(value => `"${value}"`).join(', ')}${added.length > 10 ? ` and ${added.length - 10} more` : ''}. What do they mean?`
+          });
+        }
+      }
+
+      if (previous.cardinality !== null && current.cardinality !== null && previous.cardinality > 0 && current.cardinality > 0 &&
+          Math.max(previous.cardinality, current.cardinality) >= CARDINALITY_JUMP_MIN &&
+          Math.max(previous.cardinality, current.cardinality) / Math.min(previous.cardinality, current.cardinality) >= CARDINALITY_JUMP_RATIO) {
+        changes.push({
+          column,
+          question: `The number of distinct values in ${name} went from ${previous.cardinality.toLocaleString()} to ${current.cardinality.toLocaleString()} since the last profile. Is this expected, and does it change what the column means?`
+        });
+      }
+
+      if (previous.nullPercentage !== null && current.nullPercentage !== null &&
+          current.nullPercentage - previous.nullPercentage >= NULL_SPIKE_POINTS) {
+        changes.push({
+          column,
+          question: `The null rate of ${name} rose from ${previous.nullPercentage.toFixed(1)}% to ${current.nullPercentage.toFixed(1)}% since the last profile. Is data missing upstream, or has the column's use changed?`
+        });
+      }
+    }
+    return changes;
+  }
+
+  private async recordChanges(databaseId: string, table: Table, changes: Array<{ column: Column; question: string }>): Promise<string[]> {
+    if (changes.length === 0) return [];
+
+    const existing = new Set((await storage.getQuestionsByDatabaseId(databaseId))
+      .filter(question => question.tableId === table.id && !question.isAnswered)
+      .map(question => question.questionText));
+
+    const ids: string[] = [];
+    for (const change of changes) {
+      if (existing.has(change.question)) continue;
+      const created = await storage.createSmeQuestion({
+        tableId: table.id,
+        columnId: change.column.id,
+        questionType: 'statistical_change',
+        questionText: change.question,
+        priority: 'high'
+      });
+      ids.push(created.id);
+    }
+    if (ids.length > 0) {
+      console.log(`❓ Recorded ${ids.length} statistical-change SME question(s) on ${table.name}`);
+    }
+    return ids;
+  }
+}
+
+export const refreshScheduler = new RefreshScheduler();
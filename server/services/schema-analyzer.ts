@@ -1,6 +1,10 @@
-import { postgresAnalyzer, type TableInfo, type ColumnInfo, type ForeignKeyInfo } from './postgres-analyzer';
+import type { TableInfo, ColumnInfo, ForeignKeyInfo, RowCountMethod } from './postgres-analyzer';
+import { connectionManager } from './connection-manager';
+import type { SourceAdapter } from './source-adapter';
+import { piiMasker } from './pii-masker';
 import { storage } from '../storage';
-import type { Database, Table, Column } from '@shared/schema';
+import { diffSchemas, describeSchemaChange, tableKey, type LiveTableSnapshot, type StoredTableSnapshot } from './schema-drift';
+import type { Database, Table, Column, SchemaChange, SchemaVersion } from '@shared/schema';
 
 export interface SchemaAnalysisResult {
   totalTables: number;
@@ -8,6 +12,8 @@ export interface SchemaAnalysisResult {
   totalColumns: number;
   foreignKeys: number;
   tables: TableInfo[];
+  changes: SchemaChange[]; // Differences from the previous run; every table on the first run
+  schemaVersion: SchemaVersion | null; // Null when nothing changed
 }
 
 export interface ColumnStatistics {
@@ -19,6 +25,11 @@ export interface ColumnStatistics {
 }
 
 export class SchemaAnalyzer {
+  /**
+   * Reads the source catalog and reconciles it with the stored one. Differences
+   * from the last run are applied in place, recorded as a schema version, and
+   * the context descriptions and SME answers they invalidate are marked stale.
+   */
   async analyzeDatabase(databaseId: string): Promise<SchemaAnalysisResult> {
     const database = await storage.getDatabase(databaseId);
     if (!database) {
@@ -30,72 +41,51 @@ export class SchemaAnalyzer {
       throw new Error('Connection not found');
     }
 
-    // Connect to PostgreSQL
-    const config = connection.config as any;
-    const connected = await postgresAnalyzer.connect(config);
-    if (!connected) {
-      throw new Error('Failed to connect to PostgreSQL');
-    }
-
-    try {
-      // Get all tables
-      const tables = await postgresAnalyzer.getTables(database.schema || 'public');
-      
-      // Get existing tables to avoid duplicates
-      const existingTables = await storage.getTablesByDatabaseId(databaseId);
-      const existingTableNames = new Set(existingTables.map(t => `${t.schema}.${t.name}`));
+    // Borrow the pooled adapter for this connection
+    return connectionManager.withConnection(connection, async (adapter) => {
+      // Get all tables with their columns
+      const tables = await adapter.getTables(database.schema || 'public');
+      const live: LiveTableSnapshot[] = [];
+      for (const info of tables) {
+        live.push({ info, columns: await adapter.getColumns(info.tableName, info.schemaName) });
+      }
 
-      // Store tables in database and populate their columns
-      for (const tableInfo of tables) {
-        const tableKey = `${tableInfo.schemaName}.${tableInfo.tableName}`;
-        
-        // Skip if table already exists
-        if (existingTableNames.has(tableKey)) {
-          console.log(`Skipping existing table: ${tableKey}`);
-          continue;
-        }
+      const storedTables = await storage.getTablesByDatabaseId(databaseId);
+      const stored: StoredTableSnapshot[] = [];
+      for (const table of storedTables) {
+        stored.push({ table, columns: await storage.getColumnsByTableId(table.id) });
+      }
 
-        const createdTable = await storage.createTable({
+      const changes = diffSchemas(stored, live);
+      const liveByKey = new Map(live.map(snapshot => [tableKey(snapshot.info.schemaName, snapshot.info.tableName), snapshot]));
+      await this.applySchemaChanges(databaseId, changes, liveByKey);
+      const currentTables = (await storage.getTablesByDatabaseId(databaseId)).filter(t => !t.droppedAt);
+      await this.updateRowCounts(adapter, currentTables, liveByKey);
+
+      let schemaVersion: SchemaVersion | null = null;
+      if (changes.length > 0) {
+        const [latest] = await storage.getSchemaVersionsByDatabaseId(databaseId);
+        const version = (latest?.version ?? 0) + 1;
+        const stale = await this.markStale(databaseId, version, changes);
+        schemaVersion = await storage.createSchemaVersion({
           databaseId,
-          name: tableInfo.tableName,
-          schema: tableInfo.schemaName,
-          rowCount: tableInfo.rowCount,
-          columnCount: tableInfo.columnCount,
-          isSelected: false,
-          sampleSize: this.calculateDefaultSampleSize(tableInfo.rowCount)
+          version,
+          changes,
+          tableCount: tables.length,
+          columnCount: live.reduce((sum, snapshot) => sum + snapshot.columns.length, 0),
+          staleContextItems: stale.contextItems,
+          staleSmeAnswers: stale.smeAnswers
         });
-
-        // Get and store column information for this table
-        const columns = await postgresAnalyzer.getColumns(tableInfo.tableName, tableInfo.schemaName);
-        
-        for (const columnInfo of columns) {
-          await storage.createColumn({
-            tableId: createdTable.id,
-            name: columnInfo.columnName,
-            dataType: columnInfo.dataType,
-            isNullable: columnInfo.isNullable,
-            isUnique: columnInfo.isUnique,
-            cardinality: null,
-            nullPercentage: null,
-            minValue: null,
-            maxValue: null,
-            distinctValues: null,
-            aiDescription: null,
-            smeValidated: false
-          });
-        }
+        console.log(`📐 Schema v${version} for ${database.name}: ${changes.length} change(s), ${stale.contextItems} context item(s) and ${stale.smeAnswers} SME answer(s) marked stale`);
       }
 
       // Get foreign keys
-      const foreignKeys = await postgresAnalyzer.getForeignKeys(database.schema || 'public');
+      const foreignKeys = await adapter.getForeignKeys(database.schema || 'public');
 
-      // Store foreign key information
+      // Store foreign key information not already known from an earlier run
       for (const fk of foreignKeys) {
-        const fromTables = await storage.getTablesByDatabaseId(databaseId);
-        const toTables = await storage.getTablesByDatabaseId(databaseId);
-        
-        const fromTable = fromTables.find(t => t.name === fk.fromTable);
-        const toTable = toTables.find(t => t.name === fk.toTable);
+        const fromTable = currentTables.find(t => t.name === fk.fromTable);
+        const toTable = currentTables.find(t => t.name === fk.toTable);
         
         if (fromTable && toTable) {
           const fromColumns = await storage.getColumnsByTableId(fromTable.id);
@@ -105,6 +95,10 @@ export class SchemaAnalyzer {
           const toColumn = toColumns.find(c => c.name === fk.toColumn);
           
           if (fromColumn && toColumn) {
+            const existing = await storage.getForeignKeysByTableId(fromTable.id);
+            if (existing.some(e => e.fromColumnId === fromColumn.id && e.toColumnId === toColumn.id)) {
+              continue;
+            }
             await storage.createForeignKey({
               fromTableId: fromTable.id,
               fromColumnId: fromColumn.id,
@@ -122,11 +116,150 @@ export class SchemaAnalyzer {
         activeTables: tables.filter(t => t.rowCount > 0).length,
         totalColumns: tables.reduce((sum, t) => sum + t.columnCount, 0),
         foreignKeys: foreignKeys.length,
-        tables
+        tables,
+        changes,
+        schemaVersion
       };
-    } finally {
-      await postgresAnalyzer.disconnect();
+    });
+  }
+
+  private async applySchemaChanges(databaseId: string, changes: SchemaChange[], liveByKey: Map<string, LiveTableSnapshot>): Promise<void> {
+    for (const change of changes) {
+      const live = liveByKey.get(change.table);
+      const liveColumn = live?.columns.find(column => column.columnName === change.column);
+
+      switch (change.kind) {
+        case 'table_added':
+          if (change.tableId) {
+            await storage.updateTable(change.tableId, { droppedAt: null });
+          } else if (live) {
+            await this.createTableWithColumns(databaseId, live);
+          }
+          break;
+        case 'table_dropped':
+          // Kept for its history but taken out of every pipeline
+          await storage.updateTable(change.tableId!, { droppedAt: new Date(), isSelected: false });
+          break;
+        case 'table_renamed':
+          await storage.updateTable(change.tableId!, { name: change.to! });
+          break;
+        case 'column_added':
+          if (liveColumn) {
+            await storage.createColumn(this.newColumn(change.tableId!, liveColumn));
+          }
+          break;
+        case 'column_dropped':
+          await storage.deleteColumn(change.columnId!);
+          break;
+        case 'column_renamed':
+          await storage.updateColumnStats(change.columnId!, { name: change.to! });
+          break;
+        case 'column_type_changed':
+          await storage.updateColumnStats(change.columnId!, { dataType: change.to! });
+          break;
+        case 'column_nullability_changed':
+          await storage.updateColumnStats(change.columnId!, { isNullable: change.to === 'NULL' });
+          break;
+      }
+    }
+
+    const touchedTables = new Set(changes.filter(change => change.tableId && change.kind.startsWith('column_')).map(change => change.tableId!));
+    for (const tableId of Array.from(touchedTables)) {
+      const live = liveByKey.get(changes.find(change => change.tableId === tableId)!.table);
+      if (live) {
+        await storage.updateTable(tableId, { columnCount: live.columns.length });
+      }
+    }
+  }
+
+  /**
+   * Row counts of tables that were already stored drift between runs even when the
+   * schema doesn't; tables opted into exact counts are counted again.
+   */
+  private async updateRowCounts(adapter: SourceAdapter, currentTables: Table[], liveByKey: Map<string, LiveTableSnapshot>): Promise<void> {
+    for (const table of currentTables) {
+      const live = liveByKey.get(tableKey(table.schema, table.name));
+      if (!live) continue;
+      const counted = table.exactRowCount
+        ? { rowCount: await adapter.getTableRowCount(table.name, table.schema), rowCountMethod: 'exact' as const }
+        : { rowCount: live.info.rowCount, rowCountMethod: live.info.rowCountMethod };
+      await storage.updateTableRowCount(table.id, { ...counted, lastUpdated: new Date() });
+    }
+  }
+
+  /**
+   * Context descriptions of every changed table go stale, as do SME answers about
+   * a dropped or renamed table and answers about a changed column. Added columns
+   * leave existing answers valid but the table's descriptions incomplete.
+   */
+  private async markStale(databaseId: string, version: number, changes: SchemaChange[]): Promise<{ contextItems: number; smeAnswers: number }> {
+    const byTable = new Map<string, SchemaChange[]>();
+    for (const change of changes) {
+      if (!change.tableId || (change.kind === 'table_added')) continue;
+      byTable.set(change.tableId, [...(byTable.get(change.tableId) ?? []), change]);
+    }
+    if (byTable.size === 0) {
+      return { contextItems: 0, smeAnswers: 0 };
+    }
+
+    const answered = (await storage.getQuestionsByDatabaseId(databaseId)).filter(question => question.isAnswered);
+    let contextItems = 0;
+    let smeAnswers = 0;
+
+    for (const [tableId, tableChanges] of Array.from(byTable.entries())) {
+      const reason = `Schema v${version}: ${tableChanges.map(describeSchemaChange).join('; ')}`;
+      if (await storage.markContextStale(tableId, reason)) contextItems++;
+
+      const wholeTable = tableChanges.some(change => change.kind === 'table_dropped' || change.kind === 'table_renamed');
+      const changedColumns = new Set(tableChanges.filter(change => change.kind !== 'column_added' && change.columnId).map(change => change.columnId));
+      const stale = answered.filter(question => question.tableId === tableId &&
+        (wholeTable || (question.columnId !== null && changedColumns.has(question.columnId))));
+      await storage.markSmeAnswersStale(stale.map(question => question.id), reason);
+      smeAnswers += stale.length;
+    }
+    return { contextItems, smeAnswers };
+  }
+
+  private async createTableWithColumns(databaseId: string, live: LiveTableSnapshot): Promise<Table> {
+    const createdTable = await storage.createTable({
+      databaseId,
+      name: live.info.tableName,
+      schema: live.info.schemaName,
+      rowCount: live.info.rowCount,
+      rowCountMethod: live.info.rowCountMethod,
+      columnCount: live.info.columnCount,
+      isSelected: false,
+      sampleSize: this.calculateDefaultSampleSize(live.info.rowCount)
+    });
+
+    for (const columnInfo of live.columns) {
+      await storage.createColumn(this.newColumn(createdTable.id, columnInfo));
     }
+    return createdTable;
+  }
+
+  private newColumn(tableId: string, columnInfo: ColumnInfo): Omit<Column, 'id' | 'createdAt'> {
+    return {
+      tableId,
+      name: columnInfo.columnName,
+      dataType: columnInfo.dataType,
+      isNullable: columnInfo.isNullable,
+      isUnique: columnInfo.isUnique,
+      cardinality: null,
+      nullPercentage: null,
+      minValue: null,
+      maxValue: null,
+      distinctValues: null,
+      distribution: null,
+      semanticType: null,
+      semanticTypeConfidence: null,
+      piiCategory: null,
+      piiConfidence: null,
+      maskingStrategy: null,
+      aiDescription: null,
+      smeValidated: false,
+      profiledAt: null
+    };
   }
 
   async analyzeTableColumns(tableId: string): Promise<void> {
@@ -145,37 +278,53 @@ export class SchemaAnalyzer {
       throw new Error('Connection not found');
     }
 
-    // Connect to PostgreSQL
-    const config = connection.config as any;
-    const connected = await postgresAnalyzer.connect(config);
-    if (!connected) {
-      throw new Error('Failed to connect to PostgreSQL');
-    }
-
-    try {
+    // Borrow the pooled adapter for this connection
+    return connectionManager.withConnection(connection, async (adapter) => {
       // Get column information
-      const columns = await postgresAnalyzer.getColumns(table.name, table.schema);
+      const columns = await adapter.getColumns(table.name, table.schema);
       
       // Store columns in database
       for (const columnInfo of columns) {
-        await storage.createColumn({
-          tableId: table.id,
-          name: columnInfo.columnName,
-          dataType: columnInfo.dataType,
-          isNullable: columnInfo.isNullable,
-          isUnique: columnInfo.isUnique,
-          cardinality: null,
-          nullPercentage: null,
-          minValue: null,
-          maxValue: null,
-          distinctValues: null,
-          aiDescription: null,
-          smeValidated: false
-        });
+        await storage.createColumn(this.newColumn(table.id, columnInfo));
       }
-    } finally {
-      await postgresAnalyzer.disconnect();
+    });
+  }
+
+  /**
+   * Refresh a table's row count: COUNT(*) when the table opted into exact counts,
+   * otherwise the engine's cheap estimate.
+   */
+  async refreshRowCount(tableId: string): Promise<{ rowCount: number; rowCountMethod: RowCountMethod }> {
+    const table = await storage.getTable(tableId);
+    if (!table) {
+      throw new Error('Table not found');
+    }
+
+    const database = await storage.getDatabase(table.databaseId);
+    if (!database) {
+      throw new Error('Database not found');
+    }
+
+    const connection = await storage.getConnection(database.connectionId);
+    if (!connection) {
+      throw new Error('Connection not found');
     }
+
+    const result = await connectionManager.withConnection(connection, async (adapter) => {
+      if (table.exactRowCount) {
+        const rowCount = await adapter.getTableRowCount(table.name, table.schema);
+        return { rowCount, rowCountMethod: 'exact' as const };
+      }
+
+      const tableInfo = (await adapter.getTables(table.schema)).find(t => t.tableName === table.name);
+      if (!tableInfo) {
+        throw new Error(`Table ${table.schema}.${table.name} no longer exists in the source database`);
+      }
+      return { rowCount: tableInfo.rowCount, rowCountMethod: tableInfo.rowCountMethod };
+    });
+
+    await storage.updateTableRowCount(tableId, { ...result, lastUpdated: new Date() });
+    return result;
   }
 
   async getColumnStatistics(columnId: string): Promise<ColumnStatistics> {
@@ -200,22 +349,16 @@ export class SchemaAnalyzer {
       throw new Error('Connection not found');
     }
 
-    // Connect to PostgreSQL
-    const config = connection.config as any;
-    const connected = await postgresAnalyzer.connect(config);
-    if (!connected) {
-      throw new Error('Failed to connect to PostgreSQL');
-    }
-
-    try {
+    // Borrow the pooled adapter for this connection
+    return connectionManager.withConnection(connection, async (adapter) => {
       // Get column statistics
-      const cardinality = await postgresAnalyzer.getColumnCardinality(
+      const cardinality = await adapter.getColumnCardinality(
         table.name, 
         column.name, 
         table.schema
       );
 
-      const nullPercentage = await postgresAnalyzer.getColumnNullPercentage(
+      const nullPercentage = await adapter.getColumnNullPercentage(
         table.name, 
         column.name, 
         table.schema
@@ -225,14 +368,14 @@ export class SchemaAnalyzer {
 
       // Get range for numeric columns
       if (['integer', 'bigint', 'decimal', 'numeric', 'real', 'double precision'].includes(column.dataType)) {
-        const range = await postgresAnalyzer.getColumnRange(table.name, column.name, table.schema);
+        const range = await adapter.getColumnRange(table.name, column.name, table.schema);
         minValue = range.min;
         maxValue = range.max;
       }
 
       // Get distinct values for low cardinality columns
       if (cardinality <= 100) {
-        distinctValues = await postgresAnalyzer.getDistinctValues(
+        distinctValues = await adapter.getDistinctValues(
           table.name, 
           column.name, 
           100, 
@@ -256,9 +399,7 @@ export class SchemaAnalyzer {
         maxValue,
         distinctValues
       };
-    } finally {
-      await postgresAnalyzer.disconnect();
-    }
+    });
   }
 
   private calculateDefaultSampleSize(rowCount: number): number {
@@ -268,6 +409,9 @@ export class SchemaAnalyzer {
     return Math.min(rowCount, 1000);
   }
 
+  /**
+   * Sample rows for a table with PII columns masked (columns are classified during statistical analysis)
+   */
   async getSampleData(tableId: string, sampleSize?: number): Promise<any[]> {
     const table = await storage.getTable(tableId);
     if (!table) {
@@ -284,23 +428,19 @@ export class SchemaAnalyzer {
       throw new Error('Connection not found');
     }
 
-    // Connect to PostgreSQL
-    const config = connection.config as any;
-    const connected = await postgresAnalyzer.connect(config);
-    if (!connected) {
-      throw new Error('Failed to connect to PostgreSQL');
-    }
-
-    try {
+    // Borrow the pooled adapter for this connection
+    const rows = await connectionManager.withConnection(connection, async (adapter) => {
       const effectiveSampleSize = sampleSize || table.sampleSize || 1000;
-      return await postgresAnalyzer.getSampleData(
+      return await adapter.getSampleData(
         table.name,
         effectiveSampleSize,
         table.schema
       );
-    } finally {
-      await postgresAnalyzer.disconnect();
-    }
+    });
+
+    // Samples feed prompts and the UI, so PII columns are masked per the database's policy
+    const columns = await storage.getColumnsByTableId(tableId);
+    return piiMasker.maskRows(rows, columns, database.maskingPolicy);
   }
 }
 
@@ -0,0 +1,176 @@
+import type { Column, SchemaChange, Table } from '@shared/schema';
+import type { ColumnInfo, TableInfo } from './postgres-analyzer';
+
+export interface StoredTableSnapshot {
+  table: Table;
+  columns: Column[];
+}
+
+export interface LiveTableSnapshot {
+  info: TableInfo;
+  columns: ColumnInfo[];
+}
+
+export const tableKey = (schema: string, name: string) => `${schema}.${name}`;
+
+/**
+ * Pairs unmatched old and new entries that share a signature, but only when the
+ * pairing is unambiguous: one candidate on each side. Anything else stays a
+ * drop plus an add rather than a guessed rename.
+ */
+function pairRenames<Old, New>(
+  dropped: Old[],
+  added: New[],
+  oldSignature: (item: Old) => string,
+  newSignature: (item: New) => string
+): Array<[Old, New]> {
+  const count = <T>(items: T[], signature: (item: T) => string) => {
+    const counts = new Map<string, number>();
+    items.forEach(item => counts.set(signature(item), (counts.get(signature(item)) ?? 0) + 1));
+    return counts;
+  };
+  const oldCounts = count(dropped, oldSignature);
+  const newCounts = count(added, newSignature);
+
+  const pairs: Array<[Old, New]> = [];
+  for (const item of dropped) {
+    const signature = oldSignature(item);
+    if (oldCounts.get(signature) !== 1 || newCounts.get(signature) !== 1) continue;
+    pairs.push([item, added.find(candidate => newSignature(candidate) === signature)!]);
+  }
+  return pairs;
+}
+
+function diffColumns(key: string, table: Table, stored: Column[], live: ColumnInfo[]): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const liveByName = new Map(live.map(column => [column.columnName, column]));
+  const storedNames = new Set(stored.map(column => column.name));
+
+  const compare = (column: Column, info: ColumnInfo) => {
+    if (column.dataType !== info.dataType) {
+      changes.push({
+        kind: 'column_type_changed', table: key, column: info.columnName,
+        from: column.dataType, to: info.dataType, tableId: table.id, columnId: column.id
+      });
+    }
+    if ((column.isNullable ?? true) !== info.isNullable) {
+      changes.push({
+        kind: 'column_nullability_changed', table: key, column: info.columnName,
+        from: column.isNullable ?? true ? 'NULL' : 'NOT NULL', to: info.isNullable ? 'NULL' : 'NOT NULL',
+        tableId: table.id, columnId: column.id
+      });
+    }
+  };
+
+  const dropped: Column[] = [];
+  for (const column of stored) {
+    const info = liveByName.get(column.name);
+    if (info) {
+      compare(column, info);
+    } else {
+      dropped.push(column);
+    }
+  }
+  const added = live.filter(column => !storedNames.has(column.columnName));
+
+  const renames = pairRenames(dropped, added, column => column.dataType, column => column.dataType);
+  for (const [column, info] of renames) {
+    changes.push({
+      kind: 'column_renamed', table: key, column: info.columnName, from: column.name, to: info.columnName,
+      tableId: table.id, columnId: column.id
+    });
+    compare(column, info);
+  }
+  const renamedOld = new Set(renames.map(([column]) => column.id));
+  const renamedNew = new Set(renames.map(([, info]) => info.columnName));
+
+  dropped.filter(column => !renamedOld.has(column.id)).forEach(column => changes.push({
+    kind: 'column_dropped', table: key, column: column.name, tableId: table.id, columnId: column.id
+  }));
+  added.filter(column => !renamedNew.has(column.columnName)).forEach(column => changes.push({
+    kind: 'column_added', table: key, column: column.columnName, to: column.dataType, tableId: table.id
+  }));
+  return changes;
+}
+
+/**
+ * Diffs the stored catalog against what the source reports now. Tables match by
+ * schema-qualified name; a dropped and an added table in the same schema with
+ * the same column names are treated as a rename, and likewise a dropped and an
+ * added column of the same type within a table.
+ */
+export function diffSchemas(stored: StoredTableSnapshot[], live: LiveTableSnapshot[]): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const storedByKey = new Map<string, StoredTableSnapshot>();
+  for (const snapshot of stored) {
+    // Earlier runs could store duplicates; the first one stands in for the table
+    const key = tableKey(snapshot.table.schema, snapshot.table.name);
+    if (!storedByKey.has(key)) storedByKey.set(key, snapshot);
+  }
+  const liveKeys = new Set(live.map(snapshot => tableKey(snapshot.info.schemaName, snapshot.info.tableName)));
+
+  const added: LiveTableSnapshot[] = [];
+  for (const snapshot of live) {
+    const key = tableKey(snapshot.info.schemaName, snapshot.info.tableName);
+    const existing = storedByKey.get(key);
+    if (!existing) {
+      added.push(snapshot);
+      continue;
+    }
+    if (existing.table.droppedAt) {
+      // Dropped on an earlier run and back again
+      changes.push({ kind: 'table_added', table: key, tableId: existing.table.id });
+    }
+    changes.push(...diffColumns(key, existing.table, existing.columns, snapshot.columns));
+  }
+
+  const dropped = Array.from(storedByKey.entries())
+    .filter(([key, snapshot]) => !liveKeys.has(key) && !snapshot.table.droppedAt)
+    .map(([, snapshot]) => snapshot);
+
+  const columnSignature = (schema: string, names: string[]) => `${schema}:${names.slice().sort().join(',')}`;
+  const renames = pairRenames(
+    dropped,
+    added,
+    snapshot => columnSignature(snapshot.table.schema, snapshot.columns.map(column => column.name)),
+    snapshot => columnSignature(snapshot.info.schemaName, snapshot.columns.map(column => column.columnName))
+  ).filter(([snapshot]) => snapshot.columns.length > 0);
+
+  for (const [snapshot, to] of renames) {
+    const key = tableKey(to.info.schemaName, to.info.tableName);
+    changes.push({ kind: 'table_renamed', table: key, from: snapshot.table.name, to: to.info.tableName, tableId: snapshot.table.id });
+    changes.push(...diffColumns(key, snapshot.table, snapshot.columns, to.columns));
+  }
+  const renamedOld = new Set(renames.map(([snapshot]) => snapshot.table.id));
+  const renamedNew = new Set(renames.map(([, to]) => to));
+
+  dropped.filter(snapshot => !renamedOld.has(snapshot.table.id)).forEach(snapshot => changes.push({
+    kind: 'table_dropped', table: tableKey(snapshot.table.schema, snapshot.table.name), tableId: snapshot.table.id
+  }));
+  added.filter(snapshot => !renamedNew.has(snapshot)).forEach(snapshot => changes.push({
+    kind: 'table_added', table: tableKey(snapshot.info.schemaName, snapshot.info.tableName)
+  }));
+  return changes;
+}
+
+export function describeSchemaChange(change: SchemaChange): string {
+  const column = `${change.table}.${change.column}`;
+  switch (change.kind) {
+    case 'table_added':
+      return `Table ${change.table} added`;
+    case 'table_dropped':
+      return `Table ${change.table} dropped`;
+    case 'table_renamed':
+      return `Table ${change.from} renamed to ${change.to}`;
+    case 'column_added':
+      return `Column ${column} added (${change.to})`;
+    case 'column_dropped':
+      return `Column ${column} dropped`;
+    case 'column_renamed':
+      return `Column ${change.table}.${change.from} renamed to ${change.to}`;
+    case 'column_type_changed':
+      return `Column ${column} type changed from ${change.from} to ${change.to}`;
+    case 'column_nullability_changed':
+      return `Column ${column} changed from ${change.from} to ${change.to}`;
+  }
+}
@@ -1,4 +1,5 @@
-import { postgresAnalyzer } from './postgres-analyzer';
+import { connectionManager } from './connection-manager';
+import { compareSemanticTypes } from './semantic-type-detector';
 import { storage } from '../storage';
 import type { Table, Column, ForeignKey } from '@shared/schema';
 
@@ -92,65 +93,66 @@ export class SemanticAnalyzer {
     const connection = await storage.getConnection(database.connectionId);
     if (!connection) return candidates;
 
-    // Connect to PostgreSQL
-    const config = connection.config as any;
-    const connected = await postgresAnalyzer.connect(config);
-    if (!connected) return candidates;
-
+    // Borrow the pooled adapter for this connection
     try {
-      for (const col1 of columns1) {
-        for (const col2 of columns2) {
-          const similarity = this.calculateColumnSimilarity(
-            table1.name, col1.name,
-            table2.name, col2.name
-          );
+      await connectionManager.withConnection(connection, async (adapter) => {
+        for (const col1 of columns1) {
+          for (const col2 of columns2) {
+            const similarity = this.calculateColumnSimilarity(
+              table1.name, col1.name,
+              table2.name, col2.name
+            );
 
-          // Skip if similarity is too low
-          if (similarity < 0.5) continue;
+            // Skip if similarity is too low
+            if (similarity < 0.5) continue;
 
-          // Check data type compatibility
-          if (!this.areTypesCompatible(col1.dataType, col2.dataType)) continue;
+            // Check data type compatibility
+            if (!this.areTypesCompatible(col1.dataType, col2.dataType)) continue;
 
-          // Analyze value overlap
-          const overlap = await postgresAnalyzer.analyzeValueOverlap(
-            table1.name, col1.name,
-            table2.name, col2.name,
-            table1.schema
-          );
+            // Columns holding different kinds of values (email vs UUID, free text, ...) never join
+            if (compareSemanticTypes(col1.semanticType, col2.semanticType) === 'conflict') continue;
 
-          // Calculate overall confidence
-          const confidence = this.calculateJoinConfidence(
-            similarity, 
-            overlap.overlapPercentage,
-            col1, 
-            col2
-          );
+            // Analyze value overlap
+            const overlap = await adapter.analyzeValueOverlap(
+              table1.name, col1.name,
+              table2.name, col2.name,
+              table1.schema
+            );
 
-          if (confidence >= 0.6) {
-            const relationshipType = this.determineRelationshipType(
-              col1, col2, overlap
+            // Calculate overall confidence
+            const confidence = this.calculateJoinConfidence(
+              similarity, 
+              overlap.overlapPercentage,
+              col1, 
+              col2
             );
 
-            candidates.push({
-              fromTableId: table1.id,
-              fromTableName: table1.name,
-              fromColumnId: col1.id,
-              fromColumnName: col1.name,
-              toTableId: table2.id,
-              toTableName: table2.name,
-              toColumnId: col2.id,
-              toColumnName: col2.name,
-              confidence,
-              overlapPercentage: overlap.overlapPercentage,
-              similarity,
-              reasoning: this.generateReasoning(similarity, overlap, col1, col2),
-              relationshipType
-            });
+            if (confidence >= 0.6) {
+              const relationshipType = this.determineRelationshipType(
+                col1, col2, overlap
+              );
+
+              candidates.push({
+                fromTableId: table1.id,
+                fromTableName: table1.name,
+                fromColumnId: col1.id,
+                fromColumnName: col1.name,
+                toTableId: table2.id,
+                toTableName: table2.name,
+                toColumnId: col2.id,
+                toColumnName: col2.name,
+                confidence,
+                overlapPercentage: overlap.overlapPercentage,
+                similarity,
+                reasoning: this.generateReasoning(similarity, overlap, col1, col2),
+                relationshipType
+              });
+            }
           }
         }
-      }
-    } finally {
-      await postgresAnalyzer.disconnect();
+      });
+    } catch (error) {
+      console.error(`Join candidate analysis failed for ${table1.name} ↔ ${table2.name}:`, error);
     }
 
     return candidates;
@@ -296,6 +298,11 @@ export class SemanticAnalyzer {
       confidence += 0.1;
     }
 
+    // Same inferred semantic type (e.g. both UUIDs or both emails)
+    if (compareSemanticTypes(col1.semanticType, col2.semanticType) === 'match') {
+      confidence += 0.1;
+    }
+
     // Cardinality analysis (10%)
     if (col1.cardinality && col2.cardinality) {
       const cardinalityRatio = Math.min(col1.cardinality, col2.cardinality) / 
@@ -359,6 +366,10 @@ export class SemanticAnalyzer {
       reasons.push('Primary key relationship');
     }
 
+    if (compareSemanticTypes(col1.semanticType, col2.semanticType) === 'match') {
+      reasons.push(`Both hold ${col1.semanticType} values`);
+    }
+
     return reasons.join(', ');
   }
 
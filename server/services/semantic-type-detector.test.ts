@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { compareSemanticTypes, semanticTypeDetector } from './semantic-type-detector';
+
+const detect = (name: string, dataType: string, values: any[]) =>
+  semanticTypeDetector.detect({ name, dataType }, values)?.semanticType ?? null;
+
+describe('SemanticTypeDetector', () => {
+  it('recognises value shapes that need no name hint', () => {
+    expect(detect('contact', 'text', ['a@example.com', 'b@example.org', 'c@test.io'])).toBe('email');
+    expect(detect('ref', 'text', [
+      '3f2504e0-4f89-11d3-9a0c-0305e82c3301',
+      '6ba7b810-9dad-11d1-80b4-00c04fd430c8',
+      '6ba7b811-9dad-11d1-80b4-00c04fd430c8'
+    ])).toBe('uuid');
+    expect(detect('origin', 'varchar', ['10.0.0.1', '192.168.1.20', '::1'])).toBe('ip_address');
+    expect(detect('home', 'text', ['https://a.com', 'http://b.org/x', 'https://c.net/?q=1'])).toBe('url');
+    expect(detect('payload', 'text', ['{"a":1}', '[1,2]', '{}'])).toBe('json');
+  });
+
+  it('requires a name hint for generic shapes', () => {
+    const zips = ['12345', '90210', '10001'];
+    expect(detect('zip_code', 'text', zips)).toBe('postal_code');
+    expect(detect('batch', 'text', zips)).toBeNull();
+
+    expect(detect('currency', 'char', ['USD', 'EUR', 'GBP'])).toBe('currency_code');
+    expect(detect('code', 'char', ['USD', 'EUR', 'GBP'])).toBeNull();
+
+    expect(detect('country', 'text', ['US', 'GB', 'DE'])).toBe('country_code');
+    expect(detect('phone', 'text', ['+1 555 123 4567', '(555) 987-6543', '555-000-1111'])).toBe('phone');
+  });
+
+  it('needs most sampled values to match', () => {
+    expect(detect('email', 'text', ['a@example.com', 'not an email', 'also not', 'nope', 'b@example.com'])).toBeNull();
+  });
+
+  it('says nothing about thin samples', () => {
+    expect(detect('email', 'text', ['a@example.com', null, ''])).toBeNull();
+  });
+
+  it('only types numeric columns named like money', () => {
+    expect(detect('total_price', 'numeric(10,2)', [1, 2, 3])).toBe('monetary_amount');
+    expect(semanticTypeDetector.detect({ name: 'total_price', dataType: 'integer' }, [1])?.confidence).toBe(0.6);
+    expect(detect('balance', 'money', [])).toBe('monetary_amount');
+    expect(detect('quantity', 'integer', [1, 2, 3])).toBeNull();
+  });
+
+  it('treats json columns as json regardless of values', () => {
+    expect(detect('meta', 'jsonb', [])).toBe('json');
+  });
+
+  it('falls back to free text for long, wordy, distinct values', () => {
+    expect(detect('notes', 'text', [
+      'Customer asked for the delivery to be moved to next week',
+      'Left a voicemail about the overdue invoice for March',
+      'Requested a refund because the package arrived damaged',
+      'Upgraded to the annual plan after the trial period ended'
+    ])).toBe('free_text');
+    expect(detect('status', 'text', ['open', 'closed', 'pending'])).toBeNull();
+  });
+});
+
+describe('compareSemanticTypes', () => {
+  it('matches equal joinable types and conflicts on differing ones', () => {
+    expect(compareSemanticTypes('email', 'email')).toBe('match');
+    expect(compareSemanticTypes('email', 'uuid')).toBe('conflict');
+  });
+
+  it('never joins on free text, json or amounts', () => {
+    expect(compareSemanticTypes('free_text', 'free_text')).toBe('conflict');
+    expect(compareSemanticTypes('monetary_amount', null)).toBe('conflict');
+  });
+
+  it('is unknown when either side is untyped', () => {
+    expect(compareSemanticTypes('uuid', null)).toBe('unknown');
+    expect(compareSemanticTypes(undefined, undefined)).toBe('unknown');
+  });
+});
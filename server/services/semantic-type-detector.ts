@@ -0,0 +1,229 @@
+import type { SemanticType } from '@shared/schema';
+
+export interface SemanticTypeMatch {
+  semanticType: SemanticType;
+  confidence: number;
+  matchedValues: number;
+  sampledValues: number;
+}
+
+interface ValueSignature {
+  type: SemanticType;
+  test: (value: string) => boolean;
+  nameHint?: RegExp;
+  requiresNameHint?: boolean; // Shapes too generic to trust on values alone (e.g. 5-digit numbers)
+}
+
+// ISO 3166-1 alpha-2 / alpha-3 codes
+const COUNTRY_CODES = new Set([
+  'AD', 'AE', 'AF', 'AG', 'AI', 'AL', 'AM', 'AO', 'AQ', 'AR', 'AS', 'AT', 'AU', 'AW', 'AX', 'AZ',
+  'BA', 'BB', 'BD', 'BE', 'BF', 'BG', 'BH', 'BI', 'BJ', 'BL', 'BM', 'BN', 'BO', 'BQ', 'BR', 'BS',
+  'BT', 'BV', 'BW', 'BY', 'BZ', 'CA', 'CC', 'CD', 'CF', 'CG', 'CH', 'CI', 'CK', 'CL', 'CM', 'CN',
+  'CO', 'CR', 'CU', 'CV', 'CW', 'CX', 'CY', 'CZ', 'DE', 'DJ', 'DK', 'DM', 'DO', 'DZ', 'EC', 'EE',
+  'EG', 'EH', 'ER', 'ES', 'ET', 'FI', 'FJ', 'FK', 'FM', 'FO', 'FR', 'GA', 'GB', 'GD', 'GE', 'GF',
+  'GG', 'GH', 'GI', 'GL', 'GM', 'GN', 'GP', 'GQ', 'GR', 'GS', 'GT', 'GU', 'GW', 'GY', 'HK', 'HM',
+  'HN', 'HR', 'HT', 'HU', 'ID', 'IE', 'IL', 'IM', 'IN', 'IO', 'IQ', 'IR', 'IS', 'IT', 'JE', 'JM',
+  'JO', 'JP', 'KE', 'KG', 'KH', 'KI', 'KM', 'KN', 'KP', 'KR', 'KW', 'KY', 'KZ', 'LA', 'LB', 'LC',
+  'LI', 'LK', 'LR', 'LS', 'LT', 'LU', 'LV', 'LY', 'MA', 'MC', 'MD', 'ME', 'MF', 'MG', 'MH', 'MK',
+  'ML', 'MM', 'MN', 'MO', 'MP', 'MQ', 'MR', 'MS', 'MT', 'MU', 'MV', 'MW', 'MX', 'MY', 'MZ', 'NA',
+  'NC', 'NE', 'NF', 'NG', 'NI', 'NL', 'NO', 'NP', 'NR', 'NU', 'NZ', 'OM', 'PA', 'PE', 'PF', 'PG',
+  'PH', 'PK', 'PL', 'PM', 'PN', 'PR', 'PS', 'PT', 'PW', 'PY', 'QA', 'RE', 'RO', 'RS', 'RU', 'RW',
+  'SA', 'SB', 'SC', 'SD', 'SE', 'SG', 'SH', 'SI', 'SJ', 'SK', 'SL', 'SM', 'SN', 'SO', 'SR', 'SS',
+  'ST', 'SV', 'SX', 'SY', 'SZ', 'TC', 'TD', 'TF', 'TG', 'TH', 'TJ', 'TK', 'TL', 'TM', 'TN', 'TO',
+  'TR', 'TT', 'TV', 'TW', 'TZ', 'UA', 'UG', 'UM', 'US', 'UY', 'UZ', 'VA', 'VC', 'VE', 'VG', 'VI',
+  'VN', 'VU', 'WF', 'WS', 'YE', 'YT', 'ZA', 'ZM', 'ZW',
+  'USA', 'GBR', 'CAN', 'AUS', 'DEU', 'FRA', 'ITA', 'ESP', 'NLD', 'BEL', 'CHE', 'AUT', 'SWE', 'NOR',
+  'DNK', 'FIN', 'IRL', 'PRT', 'POL', 'CZE', 'HUN', 'ROU', 'GRC', 'TUR', 'RUS', 'UKR', 'CHN', 'JPN',
+  'KOR', 'IND', 'IDN', 'MYS', 'SGP', 'THA', 'VNM', 'PHL', 'NZL', 'BRA', 'ARG', 'CHL', 'COL', 'PER',
+  'MEX', 'ZAF', 'EGY', 'NGA', 'KEN', 'ISR', 'SAU', 'ARE', 'HKG', 'TWN'
+]);
+
+// ISO 4217 codes in common use
+const CURRENCY_CODES = new Set([
+  'AED', 'AFN', 'ALL', 'AMD', 'ANG', 'AOA', 'ARS', 'AUD', 'AWG', 'AZN', 'BAM', 'BBD', 'BDT', 'BGN',
+  'BHD', 'BIF', 'BMD', 'BND', 'BOB', 'BRL', 'BSD', 'BTN', 'BWP', 'BYN', 'BZD', 'CAD', 'CDF', 'CHF',
+  'CLP', 'CNY', 'COP', 'CRC', 'CUP', 'CVE', 'CZK', 'DJF', 'DKK', 'DOP', 'DZD', 'EGP', 'ERN', 'ETB',
+  'EUR', 'FJD', 'FKP', 'GBP', 'GEL', 'GHS', 'GIP', 'GMD', 'GNF', 'GTQ', 'GYD', 'HKD', 'HNL', 'HTG',
+  'HUF', 'IDR', 'ILS', 'INR', 'IQD', 'IRR', 'ISK', 'JMD', 'JOD', 'JPY', 'KES', 'KGS', 'KHR', 'KMF',
+  'KPW', 'KRW', 'KWD', 'KYD', 'KZT', 'LAK', 'LBP', 'LKR', 'LRD', 'LSL', 'LYD', 'MAD', 'MDL', 'MGA',
+  'MKD', 'MMK', 'MNT', 'MOP', 'MRU', 'MUR', 'MVR', 'MWK', 'MXN', 'MYR', 'MZN', 'NAD', 'NGN', 'NIO',
+  'NOK', 'NPR', 'NZD', 'OMR', 'PAB', 'PEN', 'PGK', 'PHP', 'PKR', 'PLN', 'PYG', 'QAR', 'RON', 'RSD',
+  'RUB', 'RWF', 'SAR', 'SBD', 'SCR', 'SDG', 'SEK', 'SGD', 'SHP', 'SLE', 'SOS', 'SRD', 'SSP', 'STN',
+  'SYP', 'SZL', 'THB', 'TJS', 'TMT', 'TND', 'TOP', 'TRY', 'TTD', 'TWD', 'TZS', 'UAH', 'UGX', 'USD',
+  'UYU', 'UZS', 'VES', 'VND', 'VUV', 'WST', 'XAF', 'XCD', 'XOF', 'XPF', 'YER', 'ZAR', 'ZMW', 'ZWL',
+  'BTC', 'ETH'
+]);
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+const URL = /^(https?|ftp):\/\/[^\s/$.?#].[^\s]*$/i;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const IPV4 = /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/;
+const IPV6 = /^(([0-9a-f]{1,4}:){7}[0-9a-f]{1,4}|([0-9a-f]{1,4}:){1,7}:|:(:[0-9a-f]{1,4}){1,7}|([0-9a-f]{1,4}:){1,6}:[0-9a-f]{1,4})$/i;
+const PHONE = /^\+?[\d\s\-().]{7,20}$/;
+const MONEY = /^[-+]?[$€£¥₹]\s?\d{1,3}(,?\d{3})*(\.\d{1,2})?$|^[-+]?\d{1,3}(,?\d{3})*(\.\d{1,2})?\s?(USD|EUR|GBP|JPY|CAD|AUD|CHF|CNY|INR)$/i;
+const POSTAL_CODE = [
+  /^\d{5}(-\d{4})?$/,                              // US ZIP / ZIP+4, DE, FR, ES, IT
+  /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i,           // UK
+  /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/i,                    // Canada
+  /^\d{4}$/,                                       // AU, NL (digits), CH, AT, DK, BE
+  /^\d{4} ?[A-Z]{2}$/i,                            // NL
+  /^\d{3}-?\d{4}$/                                 // Japan
+];
+
+const MONEY_NAME = /(price|amount|amt|cost|total|revenue|fee|salary|balance|payment|charge|spend|budget|subtotal|tax|discount|refund|income|wage)/i;
+
+const SIGNATURES: ValueSignature[] = [
+  { type: 'uuid', test: v => UUID.test(v) },
+  { type: 'email', test: v => EMAIL.test(v), nameHint: /e-?mail/i },
+  { type: 'url', test: v => URL.test(v), nameHint: /(url|link|website|href|uri)/i },
+  { type: 'ip_address', test: v => IPV4.test(v) || IPV6.test(v), nameHint: /(^|_)ip(_|$)|ip_?addr/i },
+  { type: 'json', test: isJsonObjectOrArray },
+  {
+    type: 'currency_code',
+    test: v => CURRENCY_CODES.has(v.toUpperCase()) && v.length === 3,
+    nameHint: /(currency|ccy|iso_?4217)/i,
+    requiresNameHint: true
+  },
+  {
+    type: 'country_code',
+    test: v => COUNTRY_CODES.has(v.toUpperCase()),
+    nameHint: /(country|nation|iso_?3166|cc$)/i,
+    requiresNameHint: true
+  },
+  {
+    type: 'postal_code',
+    test: v => POSTAL_CODE.some(pattern => pattern.test(v)),
+    nameHint: /(zip|postal|postcode|post_code)/i,
+    requiresNameHint: true
+  },
+  {
+    type: 'phone',
+    test: v => PHONE.test(v) && (v.match(/\d/g)?.length ?? 0) >= 7,
+    nameHint: /(phone|mobile|cell|fax|tel)/i,
+    requiresNameHint: true
+  },
+  { type: 'monetary_amount', test: v => MONEY.test(v), nameHint: MONEY_NAME }
+];
+
+// A signature must match at least this share of sampled values to count
+const MIN_MATCH_RATIO = 0.8;
+// Below this many non-null values the sample is too thin to say anything
+const MIN_SAMPLE_SIZE = 3;
+
+function isJsonObjectOrArray(value: string): boolean {
+  const trimmed = value.trim();
+  if (!(trimmed.startsWith('{') && trimmed.endsWith('}')) && !(trimmed.startsWith('[') && trimmed.endsWith(']'))) {
+    return false;
+  }
+  try {
+    JSON.parse(trimmed);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Classifies columns into semantic types (email, URL, UUID, country code, ...)
+ * from regex and value-shape signatures over sampled values, using the column
+ * name as a tie-breaker and as a requirement for shapes that are too generic
+ * on their own.
+ */
+export class SemanticTypeDetector {
+  detect(column: { name: string; dataType: string }, values: any[]): SemanticTypeMatch | null {
+    const dataType = column.dataType.toLowerCase();
+    const sample = values
+      .filter(value => value !== null && value !== undefined)
+      .map(value => (typeof value === 'object' && !(value instanceof Date) ? JSON.stringify(value) : String(value)))
+      .filter(value => value.trim().length > 0);
+
+    if (dataType === 'json' || dataType === 'jsonb') {
+      return { semanticType: 'json', confidence: 1, matchedValues: sample.length, sampledValues: sample.length };
+    }
+
+    // Numeric columns only carry a semantic type when the name says they hold money
+    if (this.isNumericType(dataType)) {
+      if (dataType === 'money') {
+        return { semanticType: 'monetary_amount', confidence: 1, matchedValues: sample.length, sampledValues: sample.length };
+      }
+      if (!MONEY_NAME.test(column.name)) {
+        return null;
+      }
+      // Fixed-point types are the usual choice for money; floats and integers are weaker evidence
+      const confidence = dataType.includes('numeric') || dataType.includes('decimal') ? 0.8 : 0.6;
+      return { semanticType: 'monetary_amount', confidence, matchedValues: sample.length, sampledValues: sample.length };
+    }
+
+    if (sample.length < MIN_SAMPLE_SIZE) {
+      return null;
+    }
+
+    let best: SemanticTypeMatch | null = null;
+    for (const signature of SIGNATURES) {
+      const nameMatches = signature.nameHint ? signature.nameHint.test(column.name) : false;
+      if (signature.requiresNameHint && !nameMatches) continue;
+
+      const matchedValues = sample.filter(value => signature.test(value.trim())).length;
+      const ratio = matchedValues / sample.length;
+      if (ratio < MIN_MATCH_RATIO) continue;
+
+      // Name hints nudge confidence up; thin samples pull it down
+      const sizeFactor = Math.min(1, sample.length / 20);
+      const confidence = Math.min(1, ratio * (0.85 + 0.15 * sizeFactor) + (nameMatches ? 0.1 : 0));
+      if (!best || confidence > best.confidence) {
+        best = { semanticType: signature.type, confidence, matchedValues, sampledValues: sample.length };
+      }
+    }
+
+    if (best) {
+      return best;
+    }
+
+    return this.detectFreeText(sample);
+  }
+
+  /**
+   * Long, mostly distinct values with several words are prose rather than codes
+   */
+  private detectFreeText(sample: string[]): SemanticTypeMatch | null {
+    const avgLength = sample.reduce((sum, value) => sum + value.length, 0) / sample.length;
+    const wordy = sample.filter(value => value.trim().split(/\s+/).length >= 4).length;
+    const distinctRatio = new Set(sample).size / sample.length;
+
+    if (avgLength < 30 || wordy / sample.length < 0.6 || distinctRatio < 0.5) {
+      return null;
+    }
+
+    return {
+      semanticType: 'free_text',
+      confidence: Math.min(1, (wordy / sample.length) * 0.7 + distinctRatio * 0.3),
+      matchedValues: wordy,
+      sampledValues: sample.length
+    };
+  }
+
+  private isNumericType(dataType: string): boolean {
+    return ['int', 'serial', 'decimal', 'numeric', 'real', 'double', 'float', 'money'].some(type => dataType.includes(type));
+  }
+}
+
+/**
+ * How two columns' semantic types bear on whether they can be joined.
+ * 'match' when both are the same joinable type, 'conflict' when both are typed
+ * differently or either holds free text / JSON, otherwise 'unknown'.
+ */
+export function compareSemanticTypes(
+  type1: string | null | undefined,
+  type2: string | null | undefined
+): 'match' | 'conflict' | 'unknown' {
+  const unjoinable = ['free_text', 'json', 'monetary_amount'];
+  if ((type1 && unjoinable.includes(type1)) || (type2 && unjoinable.includes(type2))) {
+    return 'conflict';
+  }
+  if (!type1 || !type2) {
+    return 'unknown';
+  }
+  return type1 === type2 ? 'match' : 'conflict';
+}
+
+export const semanticTypeDetector = new SemanticTypeDetector();
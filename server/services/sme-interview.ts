@@ -1,7 +1,6 @@
 import { geminiService, type SMEQuestionSet } from './gemini';
 import { schemaAnalyzer } from './schema-analyzer';
 import { statisticalAnalyzer } from './statistical-analyzer';
-import { postgresAnalyzer } from './postgres-analyzer';
 import { storage } from '../storage';
 import type { Table, Column, SmeQuestion } from '@shared/schema';
 
@@ -64,20 +63,21 @@ export class SMEInterviewService {
       throw new Error('Table not found');
     }
 
+    // Get statistical analysis (classifies PII columns before the sample is masked)
+    const statisticalResults = await statisticalAnalyzer.analyzeTable(tableId);
+
     // Get sample data
     const sampleData = await schemaAnalyzer.getSampleData(tableId, 1000);
     
-    // Get statistical analysis
-    const statisticalResults = await statisticalAnalyzer.analyzeTable(tableId);
-    
     // Get columns
     const columns = await storage.getColumnsByTableId(tableId);
     
     // Generate schema string
     const schema = this.generateSchemaString(table, columns);
     
-    // Use Gemini to generate SME questions
-    const questionSet = await geminiService.generateSMEQuestions(
+    // Use the database's LLM to generate SME questions
+    const llm = (await geminiService.forDatabase(table.databaseId)).forTable(tableId);
+    const questionSet = await llm.generateSMEQuestions(
       table.name,
       schema,
       sampleData,
@@ -191,7 +191,7 @@ export class SMEInterviewService {
     return questions;
   }
 
-  async getInterviewProgress(databaseId: string): Promise<{
+  async getInterviewProgress(databaseId: string, tableIds?: Set<string>): Promise<{
     totalQuestions: number;
     answeredQuestions: number;
     percentage: number;
@@ -202,7 +202,11 @@ export class SMEInterviewService {
       ambiguity: { total: number; answered: number };
     };
   }> {
-    const questions = await storage.getQuestionsByDatabaseId(databaseId);
+    const allQuestions = await storage.getQuestionsByDatabaseId(databaseId);
+    // An SME reviewer's progress covers only the tables they were asked about
+    const questions = tableIds
+      ? allQuestions.filter(q => q.tableId && tableIds.has(q.tableId))
+      : allQuestions;
     
     const totalQuestions = questions.length;
     const answeredQuestions = questions.filter(q => q.isAnswered).length;
@@ -0,0 +1,102 @@
+import { isSourceConnectionType, type SourceConnectionType } from '@shared/schema';
+import { PostgresAnalyzer, type TableInfo, type ColumnInfo, type ForeignKeyInfo, type ReadOnlyQueryResult } from './postgres-analyzer';
+import { MySQLAnalyzer } from './mysql-analyzer';
+import { SQLiteAnalyzer } from './sqlite-analyzer';
+import { DuckDBAnalyzer } from './duckdb-analyzer';
+import type { NumericDistribution, TemporalDistribution } from '@shared/schema';
+import type { ProfileColumnSpec, ProfileOptions, ColumnProfile } from './column-profiler';
+
+/**
+ * Common surface for every source database we can profile.
+ * Mirrors PostgresAnalyzer so the schema, statistical and semantic analyzers
+ * can work against any engine without knowing which one they talk to.
+ *
+ * Schema names are engine specific ('public' in PostgreSQL, the database name
+ * in MySQL, 'main' in SQLite/DuckDB). Adapters treat 'public' as "the default
+ * schema of this connection" so databases created with the default still work.
+ */
+export interface SourceAdapter {
+  connect(config: any): Promise<boolean>;
+  disconnect(): Promise<void>;
+  testConnection(): Promise<{ success: boolean; latency?: number; error?: string }>;
+
+  getSchemas(): Promise<string[]>;
+  getTables(schemaName?: string): Promise<TableInfo[]>;
+  getTableRowCount(tableName: string, schemaName?: string): Promise<number>;
+  getColumns(tableName: string, schemaName?: string): Promise<ColumnInfo[]>;
+  getForeignKeys(schemaName?: string): Promise<ForeignKeyInfo[]>;
+
+  getSampleData(tableName: string, sampleSize?: number, schemaName?: string): Promise<any[]>;
+  getColumnCardinality(tableName: string, columnName: string, schemaName?: string): Promise<number>;
+  getColumnNullPercentage(tableName: string, columnName: string, schemaName?: string): Promise<number>;
+  getColumnRange(tableName: string, columnName: string, schemaName?: string): Promise<{ min: any; max: any }>;
+  getDistinctValues(tableName: string, columnName: string, limit?: number, schemaName?: string): Promise<any[]>;
+  analyzeValueOverlap(
+    fromTable: string,
+    fromColumn: string,
+    toTable: string,
+    toColumn: string,
+    schemaName?: string
+  ): Promise<{ overlapPercentage: number; totalValues: number; matchingValues: number }>;
+
+  /**
+   * Profile many columns of one table together: one aggregate scan for
+   * cardinality/nulls/range plus one scan for low-cardinality distinct values.
+   */
+  profileColumns(tableName: string, columns: ProfileColumnSpec[], options?: ProfileOptions): Promise<ColumnProfile[]>;
+
+  /**
+   * Histogram, percentiles, mean/stddev and zero/negative counts for a numeric
+   * column whose min/max are already known from profileColumns.
+   */
+  profileNumericDistribution(
+    tableName: string,
+    columnName: string,
+    range: { min: number; max: number },
+    options?: ProfileOptions
+  ): Promise<NumericDistribution>;
+
+  /**
+   * First/last seen and monthly row counts for a date or timestamp column
+   */
+  profileTemporalDistribution(tableName: string, columnName: string, options?: ProfileOptions): Promise<TemporalDistribution>;
+
+  /**
+   * The engine's query plan for a statement, one line per entry. Nothing is executed;
+   * fails when the SQL does not parse or references unknown tables or columns.
+   */
+  explainQuery(sql: string): Promise<string[]>;
+
+  /**
+   * Execute a query without write access, reading at most `limit` rows.
+   * PostgreSQL and MySQL run it in a read-only transaction with a server-side
+   * statement timeout; SQLite and DuckDB files are opened read-only, DuckDB
+   * interrupts the query on timeout and SQLite runs it in a child process that
+   * is killed on timeout.
+   */
+  runReadOnlyQuery(sql: string, limit: number, timeoutMs: number): Promise<ReadOnlyQueryResult>;
+}
+
+function assertSourceType(type: string): asserts type is SourceConnectionType {
+  if (!isSourceConnectionType(type)) {
+    throw new Error(`Unsupported source connection type: ${type}`);
+  }
+}
+
+/**
+ * Create a fresh adapter instance for a connection type.
+ * Analysis code should go through connectionManager instead, which pools these per connection.
+ */
+export function createSourceAdapter(type: string): SourceAdapter {
+  assertSourceType(type);
+  switch (type) {
+    case 'postgresql':
+      return new PostgresAnalyzer();
+    case 'mysql':
+      return new MySQLAnalyzer();
+    case 'sqlite':
+      return new SQLiteAnalyzer();
+    case 'duckdb':
+      return new DuckDBAnalyzer();
+  }
+}
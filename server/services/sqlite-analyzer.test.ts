@@ -0,0 +1,48 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import Database from 'better-sqlite3';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { SQLiteAnalyzer } from './sqlite-analyzer';
+
+describe('SQLiteAnalyzer read-only queries', () => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'sqlite-analyzer-'));
+  const filePath = path.join(dir, 'source.sqlite');
+  const analyzer = new SQLiteAnalyzer();
+
+  beforeAll(async () => {
+    const db = new Database(filePath);
+    db.exec("CREATE TABLE orders (id INTEGER PRIMARY KEY, note TEXT); INSERT INTO orders (note) VALUES ('a'), ('b'), ('c')");
+    db.close();
+    expect(await analyzer.connect({ filePath })).toBe(true);
+  });
+
+  afterAll(async () => {
+    await analyzer.disconnect();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns rows up to the limit', async () => {
+    const result = await analyzer.runReadOnlyQuery('SELECT id, note FROM orders ORDER BY id', 2, 5_000);
+    expect(result).toEqual({ columns: ['id', 'note'], rows: [{ id: 1, note: 'a' }, { id: 2, note: 'b' }], truncated: true });
+  });
+
+  it('reports query errors', async () => {
+    await expect(analyzer.runReadOnlyQuery('SELECT missing FROM orders', 10, 5_000)).rejects.toThrow(/no such column/);
+    await expect(analyzer.runReadOnlyQuery("DELETE FROM orders", 10, 5_000)).rejects.toThrow();
+  });
+
+  it('stops a runaway query without blocking the event loop', async () => {
+    const runaway = 'WITH RECURSIVE n(x) AS (SELECT 1 UNION ALL SELECT x + 1 FROM n) SELECT COUNT(*) FROM n';
+    let ticks = 0;
+    const ticker = setInterval(() => ticks++, 50);
+    const start = Date.now();
+    try {
+      await expect(analyzer.runReadOnlyQuery(runaway, 10, 500)).rejects.toThrow('Query timed out after 500ms');
+    } finally {
+      clearInterval(ticker);
+    }
+    expect(Date.now() - start).toBeLessThan(3_000);
+    expect(ticks).toBeGreaterThan(3);
+  });
+});
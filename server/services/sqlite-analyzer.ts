@@ -0,0 +1,464 @@
+import Database from 'better-sqlite3';
+import { spawn } from 'child_process';
+import { createRequire } from 'module';
+import type { NumericDistribution, TemporalDistribution } from '@shared/schema';
+import type { TableInfo, ColumnInfo, ForeignKeyInfo, ReadOnlyQueryResult } from './postgres-analyzer';
+import type { SourceAdapter } from './source-adapter';
+import {
+  buildProfileAggregates,
+  readProfileAggregates,
+  buildUnionDistinctQuery,
+  attachDistinctValues,
+  lowCardinalityIndexes,
+  DEFAULT_DISTINCT_LIMIT,
+  computeNumericDistribution,
+  computeTemporalDistribution,
+  type ProfileColumnSpec,
+  type ProfileOptions,
+  type ColumnProfile
+} from './column-profiler';
+
+export interface FileSourceConfig {
+  filePath: string;
+}
+
+const DRIVER_PATH = createRequire(import.meta.url).resolve('better-sqlite3');
+
+// better-sqlite3 blocks the thread it runs on, and a worker thread cannot be
+// stopped inside a long SQLite step, so generated queries run in a child process
+// with its own read-only handle that is killed on timeout.
+const QUERY_SCRIPT = `
+process.once('message', ({ driverPath, filePath, sql, limit }) => {
+  let reply;
+  try {
+    const Database = require(driverPath);
+    const db = new Database(filePath, { readonly: true, fileMustExist: true });
+    const statement = db.prepare(sql);
+    if (!statement.reader) {
+      throw new Error('Only queries that return rows can be executed');
+    }
+    const rows = [];
+    const iterator = statement.iterate();
+    let next = iterator.next();
+    while (!next.done && rows.length < limit) {
+      rows.push(next.value);
+      next = iterator.next();
+    }
+    const truncated = !next.done;
+    iterator.return();
+    reply = { columns: statement.columns().map(column => column.name), rows, truncated };
+    db.close();
+  } catch (error) {
+    reply = { error: error instanceof Error ? error.message : String(error) };
+  }
+  process.send(reply, () => process.exit(0));
+});
+`;
+
+export class SQLiteAnalyzer implements SourceAdapter {
+  private db: Database.Database | null = null;
+  private filePath: string | null = null;
+
+  async connect(config: FileSourceConfig): Promise<boolean> {
+    try {
+      // Source files are only ever read, never modified
+      this.db = new Database(config.filePath, { readonly: true, fileMustExist: true });
+      this.db.prepare('SELECT 1').get();
+      this.filePath = config.filePath;
+      return true;
+    } catch (error) {
+      console.error('SQLite connection failed:', error);
+      this.db = null;
+      return false;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (!this.db) {
+      return;
+    }
+
+    try {
+      this.db.close();
+    } finally {
+      this.db = null;
+      this.filePath = null;
+    }
+  }
+
+  async testConnection(): Promise<{ success: boolean; latency?: number; error?: string }> {
+    if (!this.db) {
+      return { success: false, error: 'Not connected' };
+    }
+
+    const start = Date.now();
+    try {
+      this.db.prepare('SELECT 1').get();
+      const latency = Date.now() - start;
+      return { success: true, latency };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  async getSchemas(): Promise<string[]> {
+    const db = this.getDb();
+
+    const rows = db.prepare('PRAGMA database_list').all() as Array<{ name: string }>;
+    return rows.map(row => row.name).filter(name => name !== 'temp');
+  }
+
+  async getTables(schemaName: string = 'public'): Promise<TableInfo[]> {
+    const db = this.getDb();
+    const schema = this.resolveSchema(schemaName);
+
+    const tableNames = await this.getTableNames(schema);
+
+    // SQLite keeps no row estimates, so count exactly (files are extracts, not warehouses)
+    const tables = tableNames.map(tableName => {
+      const columns = db.prepare(`PRAGMA ${this.quote(schema)}.table_info(${this.quote(tableName)})`).all();
+      const count = db.prepare(`SELECT COUNT(*) AS count FROM ${this.qualify(schema, tableName)}`).get() as { count: number };
+      return {
+        tableName,
+        schemaName: schema,
+        rowCount: Number(count.count) || 0,
+        rowCountMethod: 'exact' as const,
+        columnCount: columns.length
+      };
+    });
+
+    return tables.sort((a, b) => b.rowCount - a.rowCount);
+  }
+
+  async getTableRowCount(tableName: string, schemaName: string = 'public'): Promise<number> {
+    const db = this.getDb();
+
+    const row = db.prepare(`SELECT COUNT(*) AS count FROM ${this.qualify(schemaName, tableName)}`).get() as { count: number };
+    return Number(row.count);
+  }
+
+  async getColumns(tableName: string, schemaName: string = 'public'): Promise<ColumnInfo[]> {
+    const db = this.getDb();
+    const schema = this.quote(this.resolveSchema(schemaName));
+    const table = this.quote(tableName);
+
+    const rows = db.prepare(`PRAGMA ${schema}.table_info(${table})`).all() as Array<{
+      name: string;
+      type: string;
+      notnull: number;
+      dflt_value: string | null;
+    }>;
+
+    // Single-column UNIQUE constraints (origin 'u'), matching what the PostgreSQL analyzer reports
+    const uniqueColumns = new Set<string>();
+    const indexes = db.prepare(`PRAGMA ${schema}.index_list(${table})`).all() as Array<{ name: string; unique: number; origin: string }>;
+    for (const index of indexes) {
+      if (!index.unique || index.origin !== 'u') continue;
+      const indexColumns = db.prepare(`PRAGMA ${schema}.index_info(${this.quote(index.name)})`).all() as Array<{ name: string }>;
+      if (indexColumns.length === 1) {
+        uniqueColumns.add(indexColumns[0].name);
+      }
+    }
+
+    return rows.map(row => {
+      const lengthMatch = row.type.match(/\((\d+)\)/);
+      return {
+        columnName: row.name,
+        // Untyped SQLite columns have BLOB affinity and an empty declared type
+        dataType: (row.type || 'blob').toLowerCase(),
+        isNullable: row.notnull === 0,
+        isUnique: uniqueColumns.has(row.name),
+        defaultValue: row.dflt_value ?? undefined,
+        maxLength: lengthMatch ? parseInt(lengthMatch[1]) : undefined
+      };
+    });
+  }
+
+  async getForeignKeys(schemaName: string = 'public'): Promise<ForeignKeyInfo[]> {
+    const db = this.getDb();
+    const schema = this.resolveSchema(schemaName);
+    const tables = await this.getTableNames(schema);
+
+    const foreignKeys: ForeignKeyInfo[] = [];
+    for (const tableName of tables) {
+      const rows = db.prepare(`PRAGMA ${this.quote(schema)}.foreign_key_list(${this.quote(tableName)})`).all() as Array<{
+        id: number;
+        table: string;
+        from: string;
+        to: string | null;
+      }>;
+
+      for (const row of rows) {
+        foreignKeys.push({
+          constraintName: `${tableName}_fk_${row.id}`,
+          fromTable: tableName,
+          fromColumn: row.from,
+          toTable: row.table,
+          // A NULL target column means the referenced table's primary key
+          toColumn: row.to ?? this.getPrimaryKeyColumn(schema, row.table) ?? 'rowid'
+        });
+      }
+    }
+
+    return foreignKeys;
+  }
+
+  async getSampleData(
+    tableName: string,
+    sampleSize: number = 1000,
+    schemaName: string = 'public'
+  ): Promise<any[]> {
+    const db = this.getDb();
+    const table = this.qualify(schemaName, tableName);
+
+    // Try to get recent data first, fall back to random sample
+    const queries = [
+      `SELECT * FROM ${table} ORDER BY created_at DESC LIMIT ?`,
+      `SELECT * FROM ${table} ORDER BY updated_at DESC LIMIT ?`,
+      `SELECT * FROM ${table} ORDER BY "timestamp" DESC LIMIT ?`,
+      `SELECT * FROM ${table} ORDER BY RANDOM() LIMIT ?`
+    ];
+
+    for (const query of queries) {
+      try {
+        const rows = db.prepare(query).all(sampleSize);
+        if (rows.length > 0) {
+          return rows;
+        }
+      } catch (error) {
+        // Continue to next query if this one fails
+        continue;
+      }
+    }
+
+    return [];
+  }
+
+  async getColumnCardinality(
+    tableName: string,
+    columnName: string,
+    schemaName: string = 'public'
+  ): Promise<number> {
+    const db = this.getDb();
+
+    const row = db.prepare(
+      `SELECT COUNT(DISTINCT ${this.quote(columnName)}) AS cardinality FROM ${this.qualify(schemaName, tableName)}`
+    ).get() as { cardinality: number };
+    return Number(row.cardinality);
+  }
+
+  async getColumnNullPercentage(
+    tableName: string,
+    columnName: string,
+    schemaName: string = 'public'
+  ): Promise<number> {
+    const db = this.getDb();
+
+    const row = db.prepare(`
+      SELECT
+        (SUM(CASE WHEN ${this.quote(columnName)} IS NULL THEN 1 ELSE 0 END) * 100.0 / COUNT(*)) AS null_percentage
+      FROM ${this.qualify(schemaName, tableName)}
+    `).get() as { null_percentage: number | null };
+    return Number(row.null_percentage) || 0;
+  }
+
+  async getColumnRange(
+    tableName: string,
+    columnName: string,
+    schemaName: string = 'public'
+  ): Promise<{ min: any; max: any }> {
+    const db = this.getDb();
+    const column = this.quote(columnName);
+
+    const row = db.prepare(`
+      SELECT MIN(${column}) AS min_value, MAX(${column}) AS max_value
+      FROM ${this.qualify(schemaName, tableName)}
+    `).get() as { min_value: any; max_value: any };
+    return {
+      min: row.min_value,
+      max: row.max_value
+    };
+  }
+
+  async getDistinctValues(
+    tableName: string,
+    columnName: string,
+    limit: number = 100,
+    schemaName: string = 'public'
+  ): Promise<any[]> {
+    const db = this.getDb();
+    const column = this.quote(columnName);
+
+    const rows = db.prepare(`
+      SELECT ${column} AS value, COUNT(*) AS frequency
+      FROM ${this.qualify(schemaName, tableName)}
+      WHERE ${column} IS NOT NULL
+      GROUP BY ${column}
+      ORDER BY frequency DESC
+      LIMIT ?
+    `).all(limit) as Array<{ value: any }>;
+    return rows.map(row => row.value);
+  }
+
+  async analyzeValueOverlap(
+    fromTable: string,
+    fromColumn: string,
+    toTable: string,
+    toColumn: string,
+    schemaName: string = 'public'
+  ): Promise<{ overlapPercentage: number; totalValues: number; matchingValues: number }> {
+    const db = this.getDb();
+
+    const row = db.prepare(`
+      WITH
+      source_values AS (
+        SELECT DISTINCT ${this.quote(fromColumn)} AS value FROM ${this.qualify(schemaName, fromTable)} WHERE ${this.quote(fromColumn)} IS NOT NULL
+      ),
+      target_values AS (
+        SELECT DISTINCT ${this.quote(toColumn)} AS value FROM ${this.qualify(schemaName, toTable)} WHERE ${this.quote(toColumn)} IS NOT NULL
+      ),
+      intersection AS (
+        SELECT value FROM source_values INTERSECT SELECT value FROM target_values
+      )
+      SELECT
+        (SELECT COUNT(*) FROM source_values) AS total_values,
+        (SELECT COUNT(*) FROM intersection) AS matching_values
+    `).get() as { total_values: number; matching_values: number };
+
+    const totalValues = Number(row.total_values) || 0;
+    const matchingValues = Number(row.matching_values) || 0;
+
+    return {
+      totalValues,
+      matchingValues,
+      overlapPercentage: totalValues === 0 ? 0 : (matchingValues * 100.0) / totalValues
+    };
+  }
+
+  async profileColumns(
+    tableName: string,
+    columns: ProfileColumnSpec[],
+    options: ProfileOptions = {}
+  ): Promise<ColumnProfile[]> {
+    const db = this.getDb();
+
+    // SQLite has no block sampling, so options.samplePercent is ignored and the table is scanned in full
+    const source = this.qualify(options.schemaName || 'public', tableName);
+    const expr = (spec: ProfileColumnSpec) => this.quote(spec.columnName);
+
+    const aggregateRow = db.prepare(`
+      SELECT
+        ${buildProfileAggregates(columns, expr)}
+      FROM ${source}
+    `).get() as Record<string, any>;
+    const profiles = readProfileAggregates(aggregateRow, columns);
+
+    const indexes = lowCardinalityIndexes(profiles, options.distinctLimit ?? DEFAULT_DISTINCT_LIMIT);
+    if (indexes.length > 0) {
+      const distinctRows = db.prepare(buildUnionDistinctQuery(indexes, columns, expr, source)).all() as Record<string, any>[];
+      attachDistinctValues(profiles, distinctRows);
+    }
+
+    return profiles;
+  }
+
+  async profileNumericDistribution(
+    tableName: string,
+    columnName: string,
+    range: { min: number; max: number },
+    options: ProfileOptions = {}
+  ): Promise<NumericDistribution> {
+    const db = this.getDb();
+    // No percentile aggregate in SQLite; computeNumericDistribution falls back to ROW_NUMBER() ranks
+    return computeNumericDistribution(
+      async sql => db.prepare(sql).all() as Record<string, any>[],
+      `CAST(${this.quote(columnName)} AS REAL)`,
+      range,
+      this.qualify(options.schemaName || 'public', tableName)
+    );
+  }
+
+  async profileTemporalDistribution(
+    tableName: string,
+    columnName: string,
+    options: ProfileOptions = {}
+  ): Promise<TemporalDistribution> {
+    const db = this.getDb();
+    const column = this.quote(columnName);
+    // Dates stored as unix epochs format to NULL here and are skipped
+    return computeTemporalDistribution(
+      async sql => db.prepare(sql).all() as Record<string, any>[],
+      column,
+      `strftime('%Y-%m', ${column})`,
+      this.qualify(options.schemaName || 'public', tableName)
+    );
+  }
+
+  async explainQuery(sql: string): Promise<string[]> {
+    const rows = this.getDb().prepare(`EXPLAIN QUERY PLAN ${sql}`).all() as Array<{ detail: string }>;
+    return rows.map(row => row.detail);
+  }
+
+  async runReadOnlyQuery(sql: string, limit: number, timeoutMs: number): Promise<ReadOnlyQueryResult> {
+    if (!this.filePath) throw new Error('Not connected to database');
+    const child = spawn(process.execPath, ['-e', QUERY_SCRIPT], {
+      stdio: ['ignore', 'ignore', 'inherit', 'ipc'],
+      serialization: 'advanced' // Keeps BLOBs as buffers
+    });
+
+    return new Promise<ReadOnlyQueryResult>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        reject(new Error(`Query timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+      child.once('message', (reply: ReadOnlyQueryResult & { error?: string }) => {
+        clearTimeout(timer);
+        if (reply.error) {
+          reject(new Error(reply.error));
+        } else {
+          resolve(reply);
+        }
+      });
+      child.once('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      child.once('exit', (code, signal) => {
+        clearTimeout(timer);
+        reject(new Error(`Query process exited unexpectedly (${signal ?? `code ${code}`})`));
+      });
+      child.send({ driverPath: DRIVER_PATH, filePath: this.filePath, sql, limit });
+    });
+  }
+
+  private getDb(): Database.Database {
+    if (!this.db) throw new Error('Not connected to database');
+    return this.db;
+  }
+
+  private async getTableNames(schema: string): Promise<string[]> {
+    const rows = this.getDb().prepare(`
+      SELECT name FROM ${this.quote(schema)}.sqlite_master
+      WHERE type = 'table' AND name NOT LIKE 'sqlite_%'
+    `).all() as Array<{ name: string }>;
+    return rows.map(row => row.name);
+  }
+
+  private getPrimaryKeyColumn(schema: string, tableName: string): string | undefined {
+    const rows = this.getDb().prepare(`PRAGMA ${this.quote(schema)}.table_info(${this.quote(tableName)})`).all() as Array<{ name: string; pk: number }>;
+    const pkColumns = rows.filter(row => row.pk > 0);
+    return pkColumns.length === 1 ? pkColumns[0].name : undefined;
+  }
+
+  private resolveSchema(schemaName: string): string {
+    return schemaName === 'public' ? 'main' : schemaName;
+  }
+
+  private quote(identifier: string): string {
+    return `"${identifier.replace(/"/g, '""')}"`;
+  }
+
+  private qualify(schemaName: string, tableName: string): string {
+    return `${this.quote(this.resolveSchema(schemaName))}.${this.quote(tableName)}`;
+  }
+}
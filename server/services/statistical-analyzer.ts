@@ -1,6 +1,10 @@
-import { postgresAnalyzer } from './postgres-analyzer';
+import type { SourceAdapter } from './source-adapter';
+import { connectionManager } from './connection-manager';
+import { PROFILE_BATCH_SIZE, DEFAULT_DISTINCT_LIMIT, type ColumnProfile, type ProfileColumnSpec } from './column-profiler';
+import { semanticTypeDetector, type SemanticTypeMatch } from './semantic-type-detector';
+import { piiMasker, type PiiMatch } from './pii-masker';
 import { storage } from '../storage';
-import type { Table, Column } from '@shared/schema';
+import type { Table, Column, ColumnDistribution, MaskingPolicy } from '@shared/schema';
 
 export interface StatisticalAnalysisResult {
   tableId: string;
@@ -10,6 +14,7 @@ export interface StatisticalAnalysisResult {
   lowCardinalityColumns: Column[];
   highNullColumns: Column[];
   numericColumns: Column[];
+  temporalColumns: Column[];
   categoricalColumns: Column[];
   progress: number;
 }
@@ -23,15 +28,22 @@ export interface ColumnAnalysis {
   minValue?: any;
   maxValue?: any;
   distinctValues?: any[];
+  distribution?: ColumnDistribution;
+  semanticType?: SemanticTypeMatch;
   patterns: string[];
   recommendations: string[];
 }
 
+// Rows sampled for semantic type detection, and the confidence needed to record a type
+const SEMANTIC_SAMPLE_SIZE = 200;
+const MIN_SEMANTIC_CONFIDENCE = 0.6;
+const MIN_PII_CONFIDENCE = 0.6;
+
 export class StatisticalAnalyzer {
   async analyzeTable(
     tableId: string, 
-    onProgress?: (progress: number) => void, 
-    manageConnection: boolean = true
+    onProgress?: (progress: number) => void,
+    options: { samplePercent?: number } = {}
   ): Promise<StatisticalAnalysisResult> {
     const table = await storage.getTable(tableId);
     if (!table) {
@@ -48,16 +60,8 @@ export class StatisticalAnalyzer {
       throw new Error('Connection not found');
     }
 
-    // Connect to PostgreSQL (only if managing connection)
-    if (manageConnection) {
-      const config = connection.config as any;
-      const connected = await postgresAnalyzer.connect(config);
-      if (!connected) {
-        throw new Error('Failed to connect to PostgreSQL');
-      }
-    }
-
-    try {
+    // Pooled per connection, so callers analyzing many tables reuse the same pool
+    return connectionManager.withConnection(connection, async (adapter) => {
       const columns = await storage.getColumnsByTableId(tableId);
       const totalColumns = columns.length;
       let analyzedColumns = 0;
@@ -65,20 +69,28 @@ export class StatisticalAnalyzer {
       const lowCardinalityColumns: Column[] = [];
       const highNullColumns: Column[] = [];
       const numericColumns: Column[] = [];
+      const temporalColumns: Column[] = [];
       const categoricalColumns: Column[] = [];
 
+      // Profile every column up front in batched aggregate scans, reporting progress per batch
+      const profiles = await this.profileColumns(adapter, table, columns, options.samplePercent, (profiled) => {
+        if (onProgress) {
+          onProgress(Math.round((profiled / Math.max(totalColumns, 1)) * 100));
+        }
+      });
+      const distributions = await this.profileDistributions(adapter, table, columns, profiles, options.samplePercent);
+      const sampleRows = await this.sampleRows(adapter, table);
+      const semanticTypes = await this.detectSemanticTypes(table, columns, profiles, sampleRows);
+      await this.classifyPii(table, columns, profiles, semanticTypes, sampleRows, database.maskingPolicy);
+
       for (const column of columns) {
+        const profile = profiles.get(column.id);
+        if (!profile) continue;
+
         try {
-          const analysis = await this.analyzeColumn(table, column);
-          
-          // Update column with analysis results
-          await storage.updateColumnStats(column.id, {
-            cardinality: analysis.cardinality,
-            nullPercentage: analysis.nullPercentage.toString(),
-            minValue: analysis.minValue?.toString(),
-            maxValue: analysis.maxValue?.toString(),
-            distinctValues: analysis.distinctValues ? JSON.stringify(analysis.distinctValues) : null
-          });
+          const analysis = this.analyzeColumn(
+            table, column, profile, distributions.get(column.id), semanticTypes.get(column.id)
+          );
 
           // Categorize columns
           if (analysis.cardinality <= 100) {
@@ -103,7 +115,16 @@ export class StatisticalAnalyzer {
               ...column,
               cardinality: analysis.cardinality,
               minValue: analysis.minValue?.toString(),
-              maxValue: analysis.maxValue?.toString()
+              maxValue: analysis.maxValue?.toString(),
+              distribution: analysis.distribution ?? null
+            });
+          }
+
+          if (this.isTemporalType(column.dataType)) {
+            temporalColumns.push({
+              ...column,
+              cardinality: analysis.cardinality,
+              distribution: analysis.distribution ?? null
             });
           }
 
@@ -116,14 +137,11 @@ export class StatisticalAnalyzer {
           }
 
           analyzedColumns++;
-          const progress = Math.round((analyzedColumns / totalColumns) * 100);
-          if (onProgress) {
-            onProgress(progress);
-          }
         } catch (error) {
           console.error(`Failed to analyze column ${column.name}:`, error);
         }
       }
+      await storage.updateTable(tableId, { profiledAt: new Date() });
 
       return {
         tableId,
@@ -133,42 +151,248 @@ export class StatisticalAnalyzer {
         lowCardinalityColumns,
         highNullColumns,
         numericColumns,
+        temporalColumns,
         categoricalColumns,
         progress: 100
       };
-    } finally {
-      // Only disconnect if we managed the connection
-      if (manageConnection) {
-        await postgresAnalyzer.disconnect();
+    });
+  }
+
+  /**
+   * Profile columns in batches of PROFILE_BATCH_SIZE (one aggregate scan each) and
+   * persist the stats. A batch that fails as a whole is retried column by column.
+   */
+  private async profileColumns(
+    adapter: SourceAdapter,
+    table: Table,
+    columns: Column[],
+    samplePercent: number | undefined,
+    onBatch: (profiledColumns: number) => void
+  ): Promise<Map<string, ColumnProfile>> {
+    const profiles = new Map<string, ColumnProfile>();
+
+    for (let start = 0; start < columns.length; start += PROFILE_BATCH_SIZE) {
+      const batch = columns.slice(start, start + PROFILE_BATCH_SIZE);
+      const specs: ProfileColumnSpec[] = batch.map(column => ({
+        columnName: column.name,
+        dataType: column.dataType,
+        includeRange: this.isNumericType(column.dataType)
+      }));
+
+      let batchProfiles: Array<ColumnProfile | undefined>;
+      try {
+        batchProfiles = await adapter.profileColumns(table.name, specs, {
+          schemaName: table.schema,
+          samplePercent,
+          distinctLimit: DEFAULT_DISTINCT_LIMIT
+        });
+      } catch (error) {
+        // One unsupported column type fails the whole statement
+        console.warn(`⚠️  Batch profiling failed for ${table.name}, falling back to per-column queries:`, error);
+        batchProfiles = await this.profileColumnsIndividually(adapter, table, specs);
+      }
+
+      for (let i = 0; i < batch.length; i++) {
+        const profile = batchProfiles[i];
+        if (!profile) continue;
+
+        await storage.updateColumnStats(batch[i].id, {
+          cardinality: profile.cardinality,
+          nullPercentage: profile.nullPercentage.toString(),
+          minValue: profile.minValue?.toString(),
+          maxValue: profile.maxValue?.toString(),
+          profiledAt: new Date()
+          // distinctValues are stored by classifyPii once we know whether they need masking
+        });
+        profiles.set(batch[i].id, profile);
+      }
+
+      onBatch(Math.min(start + PROFILE_BATCH_SIZE, columns.length));
+    }
+
+    return profiles;
+  }
+
+  /**
+   * Histograms/percentiles for numeric columns and monthly counts for temporal ones.
+   * Runs after profileColumns because the histogram buckets need each column's min/max.
+   */
+  private async profileDistributions(
+    adapter: SourceAdapter,
+    table: Table,
+    columns: Column[],
+    profiles: Map<string, ColumnProfile>,
+    samplePercent: number | undefined
+  ): Promise<Map<string, ColumnDistribution>> {
+    const distributions = new Map<string, ColumnDistribution>();
+    const options = { schemaName: table.schema, samplePercent };
+
+    for (const column of columns) {
+      const profile = profiles.get(column.id);
+      if (!profile) continue;
+
+      try {
+        let distribution: ColumnDistribution | undefined;
+        if (this.isNumericType(column.dataType)) {
+          const min = Number(profile.minValue);
+          const max = Number(profile.maxValue);
+          if (profile.minValue === null || profile.minValue === undefined || !Number.isFinite(min) || !Number.isFinite(max)) {
+            continue;
+          }
+          distribution = await adapter.profileNumericDistribution(table.name, column.name, { min, max }, options);
+        } else if (this.isTemporalType(column.dataType)) {
+          distribution = await adapter.profileTemporalDistribution(table.name, column.name, options);
+        }
+
+        if (distribution) {
+          await storage.updateColumnStats(column.id, { distribution });
+          distributions.set(column.id, distribution);
+        }
+      } catch (error) {
+        console.error(`Failed to profile distribution for ${table.name}.${column.name}:`, error);
+      }
+    }
+
+    return distributions;
+  }
+
+  /**
+   * Raw rows for semantic type and PII detection. These never leave the analyzer unmasked.
+   */
+  private async sampleRows(adapter: SourceAdapter, table: Table): Promise<any[]> {
+    try {
+      return await adapter.getSampleData(table.name, SEMANTIC_SAMPLE_SIZE, table.schema);
+    } catch (error) {
+      console.warn(`⚠️  Could not sample ${table.name} for semantic type detection:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Infer each column's semantic type from a row sample plus its distinct values,
+   * persisting the type and confidence (or clearing a stale one)
+   */
+  private async detectSemanticTypes(
+    table: Table,
+    columns: Column[],
+    profiles: Map<string, ColumnProfile>,
+    sampleRows: any[]
+  ): Promise<Map<string, SemanticTypeMatch>> {
+    const matches = new Map<string, SemanticTypeMatch>();
+
+    for (const column of columns) {
+      const values = sampleRows.map(row => row[column.name]);
+      const distinctValues = profiles.get(column.id)?.distinctValues;
+      const match = semanticTypeDetector.detect(column, distinctValues && distinctValues.length > values.length ? distinctValues : values);
+
+      try {
+        if (match && match.confidence >= MIN_SEMANTIC_CONFIDENCE) {
+          await storage.updateColumnStats(column.id, {
+            semanticType: match.semanticType,
+            semanticTypeConfidence: match.confidence.toFixed(2)
+          });
+          matches.set(column.id, match);
+        } else if (column.semanticType) {
+          await storage.updateColumnStats(column.id, { semanticType: null, semanticTypeConfidence: null });
+        }
+      } catch (error) {
+        console.error(`Failed to store semantic type for ${table.name}.${column.name}:`, error);
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Tag PII columns and store distinct values, masked per the database's policy.
+   * Profiles are updated in place so the analysis result carries masked values too.
+   */
+  private async classifyPii(
+    table: Table,
+    columns: Column[],
+    profiles: Map<string, ColumnProfile>,
+    semanticTypes: Map<string, SemanticTypeMatch>,
+    sampleRows: any[],
+    policy: MaskingPolicy | null
+  ): Promise<void> {
+    for (const column of columns) {
+      const profile = profiles.get(column.id);
+      if (!profile) continue;
+
+      const values = sampleRows.map(row => row[column.name]);
+      const match: PiiMatch | null = piiMasker.classify(
+        { name: column.name, semanticType: semanticTypes.get(column.id)?.semanticType },
+        profile.distinctValues && profile.distinctValues.length > values.length ? profile.distinctValues : values
+      );
+      const piiCategory = match && match.confidence >= MIN_PII_CONFIDENCE ? match.category : null;
+      const maskingStrategy = piiMasker.resolveStrategy({ id: column.id, name: column.name, piiCategory }, policy);
+
+      if (profile.distinctValues && maskingStrategy) {
+        profile.distinctValues = piiMasker.maskValues(profile.distinctValues, maskingStrategy, piiCategory);
+      }
+      if (piiCategory) {
+        console.log(`🔒 ${table.name}.${column.name} tagged as ${piiCategory}${maskingStrategy ? ` (${maskingStrategy})` : ' (unmasked by policy)'}`);
+      }
+
+      try {
+        await storage.updateColumnStats(column.id, {
+          piiCategory,
+          piiConfidence: piiCategory && match ? match.confidence.toFixed(2) : null,
+          maskingStrategy,
+          distinctValues: profile.distinctValues ? JSON.stringify(profile.distinctValues) : null
+        });
+      } catch (error) {
+        console.error(`Failed to store PII classification for ${table.name}.${column.name}:`, error);
       }
     }
   }
 
-  private async analyzeColumn(table: Table, column: Column): Promise<ColumnAnalysis> {
-    // Get cardinality
-    const cardinality = await postgresAnalyzer.getColumnCardinality(
-      table.name, 
-      column.name, 
-      table.schema
-    );
-
-    // Get null percentage
-    const nullPercentage = await postgresAnalyzer.getColumnNullPercentage(
-      table.name, 
-      column.name, 
-      table.schema
-    );
-
-    let minValue, maxValue, distinctValues;
+  private async profileColumnsIndividually(
+    adapter: SourceAdapter,
+    table: Table,
+    specs: ProfileColumnSpec[]
+  ): Promise<Array<ColumnProfile | undefined>> {
+    const profiles: Array<ColumnProfile | undefined> = [];
+    for (const spec of specs) {
+      try {
+        const cardinality = await adapter.getColumnCardinality(table.name, spec.columnName, table.schema);
+        const nullPercentage = await adapter.getColumnNullPercentage(table.name, spec.columnName, table.schema);
+        const range = spec.includeRange
+          ? await adapter.getColumnRange(table.name, spec.columnName, table.schema)
+          : undefined;
+        const distinctValues = cardinality <= DEFAULT_DISTINCT_LIMIT
+          ? await adapter.getDistinctValues(table.name, spec.columnName, DEFAULT_DISTINCT_LIMIT, table.schema)
+          : undefined;
+
+        profiles.push({
+          columnName: spec.columnName,
+          cardinality,
+          nullPercentage,
+          minValue: range?.min,
+          maxValue: range?.max,
+          distinctValues
+        });
+      } catch (error) {
+        console.error(`Failed to analyze column ${spec.columnName}:`, error);
+        profiles.push(undefined);
+      }
+    }
+    return profiles;
+  }
+
+  private analyzeColumn(
+    table: Table,
+    column: Column,
+    profile: ColumnProfile,
+    distribution?: ColumnDistribution,
+    semanticType?: SemanticTypeMatch
+  ): ColumnAnalysis {
+    const { cardinality, nullPercentage, minValue, maxValue, distinctValues } = profile;
     const patterns: string[] = [];
     const recommendations: string[] = [];
 
     // Analyze numeric columns
     if (this.isNumericType(column.dataType)) {
-      const range = await postgresAnalyzer.getColumnRange(table.name, column.name, table.schema);
-      minValue = range.min;
-      maxValue = range.max;
-      
       patterns.push(`Numeric range: ${minValue} to ${maxValue}`);
       
       if (minValue !== null && maxValue !== null) {
@@ -180,17 +404,24 @@ export class StatisticalAnalyzer {
           patterns.push('Sparse numeric distribution');
         }
       }
+
+      if (distribution?.kind === 'numeric') {
+        const { p1, p50, p99 } = distribution.percentiles;
+        if (p50 !== null) {
+          patterns.push(`Median ${p50}, middle 98% between ${p1} and ${p99}`);
+        }
+        if (distribution.negativeCount > 0) {
+          patterns.push(`${distribution.negativeCount} negative values`);
+        }
+      }
+    }
+
+    if (distribution?.kind === 'temporal' && distribution.firstSeen) {
+      patterns.push(`Dates from ${distribution.firstSeen} to ${distribution.lastSeen}`);
     }
 
     // Analyze categorical columns
     if (cardinality <= 100) {
-      distinctValues = await postgresAnalyzer.getDistinctValues(
-        table.name, 
-        column.name, 
-        100, 
-        table.schema
-      );
-      
       if (cardinality <= 10) {
         patterns.push('Low cardinality - likely categorical');
         recommendations.push('Consider creating enum values for knowledge graph');
@@ -231,15 +462,10 @@ export class StatisticalAnalyzer {
         patterns.push('Long text content');
         recommendations.push('Consider if this should be analyzed differently');
       }
+    }
 
-      // Check for patterns in text
-      const hasEmailPattern = distinctValues.some(val => String(val).includes('@'));
-      const hasUrlPattern = distinctValues.some(val => String(val).startsWith('http'));
-      const hasPhonePattern = distinctValues.some(val => /^\+?[\d\s\-\(\)]+$/.test(String(val)));
-      
-      if (hasEmailPattern) patterns.push('Email addresses detected');
-      if (hasUrlPattern) patterns.push('URLs detected');
-      if (hasPhonePattern) patterns.push('Phone numbers detected');
+    if (semanticType) {
+      patterns.push(`Semantic type: ${semanticType.semanticType} (${Math.round(semanticType.confidence * 100)}% confidence)`);
     }
 
     return {
@@ -251,6 +477,8 @@ export class StatisticalAnalyzer {
       minValue,
       maxValue,
       distinctValues,
+      distribution,
+      semanticType,
       patterns,
       recommendations
     };
@@ -259,11 +487,18 @@ export class StatisticalAnalyzer {
   private isNumericType(dataType: string): boolean {
     const numericTypes = [
       'integer', 'bigint', 'smallint', 'decimal', 'numeric', 
-      'real', 'double precision', 'serial', 'bigserial'
+      'real', 'double precision', 'serial', 'bigserial',
+      // MySQL / SQLite / DuckDB spellings
+      'int', 'tinyint', 'mediumint', 'hugeint', 'float', 'double'
     ];
     return numericTypes.includes(dataType.toLowerCase());
   }
 
+  private isTemporalType(dataType: string): boolean {
+    const type = dataType.toLowerCase();
+    return type === 'date' || type.startsWith('timestamp') || type.startsWith('datetime');
+  }
+
   private isCategoricalType(dataType: string): boolean {
     const categoricalTypes = [
       'character varying', 'varchar', 'char', 'text', 'enum'
@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from 'vitest';
+import { checkReadOnlySql } from './text-to-sql';
+
+// Importing the service must not open a database connection
+vi.mock('../storage', () => ({ storage: {} }));
+
+describe('checkReadOnlySql', () => {
+  it('accepts a single SELECT or WITH query', () => {
+    expect(checkReadOnlySql('SELECT 1;').error).toBeUndefined();
+    expect(checkReadOnlySql('-- totals\nWITH t AS (SELECT 1) SELECT * FROM t').error).toBeUndefined();
+  });
+
+  it('drops a trailing semicolon', () => {
+    expect(checkReadOnlySql('  SELECT 1 ;  ').sql).toBe('SELECT 1');
+  });
+
+  it('refuses writes and empty input', () => {
+    expect(checkReadOnlySql('DELETE FROM orders').error).toBe('Only SELECT queries can be run');
+    expect(checkReadOnlySql('/* SELECT */ UPDATE orders SET total = 0').error).toBe('Only SELECT queries can be run');
+    expect(checkReadOnlySql(' ; ').error).toBe('Empty query');
+  });
+
+  it('refuses more than one statement', () => {
+    expect(checkReadOnlySql('SELECT 1; DROP TABLE orders').error).toBe('Only a single statement can be run');
+  });
+
+  it('ignores semicolons inside literals, quoted identifiers and comments', () => {
+    expect(checkReadOnlySql("SELECT * FROM notes WHERE body LIKE '%;%'").error).toBeUndefined();
+    expect(checkReadOnlySql("SELECT 'it''s; fine' AS \"a;b\"").error).toBeUndefined();
+    expect(checkReadOnlySql('SELECT 1 -- first; second\nFROM t').error).toBeUndefined();
+    expect(checkReadOnlySql('SELECT /* a; b */ 1').error).toBeUndefined();
+  });
+
+  it('refuses table functions and scans that read server files', () => {
+    const fileError = 'Queries can only read the connected database, not files';
+    for (const sql of [
+      "SELECT * FROM read_text('/proc/self/environ')",
+      "SELECT content FROM READ_BLOB ('/etc/passwd')",
+      "SELECT * FROM read_csv_auto('/tmp/x.csv')",
+      "SELECT * FROM glob('/etc/*')",
+      "SELECT pg_read_file('/etc/passwd')",
+      "SELECT LOAD_FILE('/etc/passwd')",
+      "SELECT * FROM '/etc/passwd'",
+      "SELECT * FROM orders o JOIN 'secrets.parquet' s ON s.id = o.id",
+      // MySQL reads \' as an escaped quote, so the call is live there
+      "SELECT 'a\\'' , load_file('/etc/passwd'), ''"
+    ]) {
+      expect(checkReadOnlySql(sql).error, sql).toBe(fileError);
+    }
+  });
+
+  it('still allows ordinary functions and literals', () => {
+    expect(checkReadOnlySql("SELECT readings, 'from' FROM sensor_reads WHERE name = ''").error).toBeUndefined();
+  });
+});
@@ -0,0 +1,244 @@
+import type { AgentPersona, ContextQueryResult, SourceConnectionType, Table, TextToSqlResult } from '@shared/schema';
+import { storage } from '../storage';
+import { connectionManager } from './connection-manager';
+import { contextRetriever } from './context-retriever';
+import { geminiService, type GeminiService, type SqlGeneration } from './gemini';
+import type { Neo4jService } from './neo4j-service';
+import { piiMasker } from './pii-masker';
+
+export const DEFAULT_SQL_ROW_LIMIT = 100;
+const SQL_CONTEXT_TOKEN_BUDGET = 6000;
+export const SQL_TIMEOUT_MS = parseInt(process.env.TEXT_TO_SQL_TIMEOUT_MS || '', 10) || 15_000;
+
+const DIALECTS: Record<SourceConnectionType, string> = {
+  postgresql: 'PostgreSQL',
+  mysql: 'MySQL',
+  sqlite: 'SQLite',
+  duckdb: 'DuckDB'
+};
+
+export interface TextToSqlOptions {
+  personaId?: string;
+  rowLimit?: number;
+  graph?: Neo4jService | null; // The database's connected graph, overlaid on the catalog context
+  llm?: GeminiService; // Defaults to the database's provider
+  recordGaps?: boolean; // Record failures as SME questions (default true)
+  maskResults?: boolean; // Mask PII in returned rows (default true); only for callers that never show or store them
+}
+
+// Functions that read server files or extensions rather than the connected database
+const FILE_ACCESS_FUNCTION = new RegExp(
+  '\\b(' + [
+    'read_text', 'read_blob', 'read_csv(_auto)?', 'read_json(_auto|_objects(_auto)?)?', 'read_ndjson(_auto|_objects)?',
+    'read_parquet', 'parquet_\\w+', 'read_xlsx', 'sniff_csv', 'glob', 'st_read', 'iceberg_\\w+', 'delta_scan',
+    'pg_read_file', 'pg_read_binary_file', 'pg_ls_\\w+', 'pg_stat_file', 'lo_import', 'load_file', 'readfile', 'load_extension'
+  ].join('|') + ')\\s*\\(',
+  'i'
+);
+
+/**
+ * The query with string literals and quoted identifiers emptied and comments
+ * blanked, so only the SQL itself is inspected. Quotes follow the SQL standard
+ * (doubled to escape); a backslash-escaped quote ends the literal early, which
+ * can only make the check stricter.
+ */
+function stripLiterals(sql: string): string {
+  return sql.replace(/'(?:[^']|'')*'|"(?:[^"]|"")*"|`(?:[^`]|``)*`|--[^\n]*|\/\*[\s\S]*?\*\//g, match =>
+    match.startsWith('--') || match.startsWith('/*') ? ' ' : match[0] + match[0]
+  );
+}
+
+/**
+ * Cheap guard before anything reaches the database: one statement, and it must
+ * read. The adapters enforce read-only access as well; this gives a clear error.
+ */
+export function checkReadOnlySql(sql: string): { sql: string; error?: string } {
+  const statement = sql.trim().replace(/;\s*$/, '').trim();
+  const body = stripLiterals(statement).trim().replace(/;\s*$/, '');
+
+  if (!statement) {
+    return { sql: statement, error: 'Empty query' };
+  }
+  if (body.includes(';')) {
+    return { sql: statement, error: 'Only a single statement can be run' };
+  }
+  if (!/^(select|with)\b/i.test(body)) {
+    return { sql: statement, error: 'Only SELECT queries can be run' };
+  }
+  // Checked against the raw text too, so a function hidden by a dialect's quoting still counts.
+  // A quoted path after FROM/JOIN is a DuckDB scan of that file.
+  if (FILE_ACCESS_FUNCTION.test(statement) || /\b(from|join)\s*''/i.test(body)) {
+    return { sql: statement, error: 'Queries can only read the connected database, not files' };
+  }
+  return { sql: statement };
+}
+
+/**
+ * Checks that the context we build is enough to write correct SQL: generates a
+ * query from the persona's context bundle, EXPLAINs it and runs it read-only
+ * with a row limit on the source database. Failed attempts are recorded as
+ * 'missing_context' SME questions so the gap gets filled.
+ */
+export class TextToSqlService {
+  async answer(
+    databaseId: string,
+    question: string,
+    personas: AgentPersona[],
+    personaTableMap: Map<string, Table[]>,
+    options: TextToSqlOptions = {}
+  ): Promise<TextToSqlResult> {
+    const database = await storage.getDatabase(databaseId);
+    if (!database) {
+      throw new Error(`Database ${databaseId} not found`);
+    }
+    const connection = await storage.getConnection(database.connectionId);
+    if (!connection) {
+      throw new Error(`Source connection for database ${database.name} not found`);
+    }
+    const dialect = DIALECTS[connection.type as SourceConnectionType];
+    if (!dialect) {
+      throw new Error(`Connection ${connection.name} is not a source database`);
+    }
+
+    const context = await contextRetriever.retrieve(databaseId, question, personas, personaTableMap, {
+      personaId: options.personaId,
+      tokenBudget: SQL_CONTEXT_TOKEN_BUDGET,
+      graph: options.graph
+    });
+    const rowLimit = options.rowLimit ?? DEFAULT_SQL_ROW_LIMIT;
+    const fileBased = connection.type === 'sqlite' || connection.type === 'duckdb';
+
+    const llm = options.llm ?? await geminiService.forDatabase(databaseId);
+    const generation: SqlGeneration = await llm.generateSql(question, context.markdown, dialect, context.tables.map(table => ({
+      // File databases name their default schema 'main'; tables created under the default are stored as 'public'
+      schema: fileBased && table.schema === 'public' ? 'main' : table.schema,
+      name: table.name,
+      columns: table.columns.map(column => column.name)
+    })));
+
+    const recordGaps = async (gaps: string[]) => options.recordGaps === false
+      ? []
+      : this.recordGaps(databaseId, context, generation.tables_used, gaps);
+
+    const base = {
+      question,
+      persona: context.persona,
+      explanation: generation.explanation,
+      tablesUsed: generation.tables_used
+    };
+
+    if (!generation.sql.trim()) {
+      const gaps = generation.missing_context.length > 0
+        ? generation.missing_context
+        : [`What data answers "${question}"? The generated context was not enough to write a query.`];
+      return {
+        ...base,
+        status: 'no_sql',
+        sql: null,
+        error: 'The model could not write a query from the available context',
+        smeQuestionIds: await recordGaps(gaps)
+      };
+    }
+
+    const checked = checkReadOnlySql(generation.sql);
+    if (checked.error) {
+      return { ...base, status: 'rejected', sql: checked.sql, error: checked.error, smeQuestionIds: [] };
+    }
+
+    return connectionManager.withConnection(connection, async adapter => {
+      let plan: string[];
+      try {
+        plan = await adapter.explainQuery(checked.sql);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return {
+          ...base,
+          status: 'explain_failed' as const,
+          sql: checked.sql,
+          error: message,
+          smeQuestionIds: await recordGaps([
+            `A query for "${question}" failed to plan (${message}). Which tables and columns hold this data, and how are they named?`,
+            ...generation.missing_context
+          ])
+        };
+      }
+
+      const start = Date.now();
+      try {
+        const result = await adapter.runReadOnlyQuery(checked.sql, rowLimit, SQL_TIMEOUT_MS);
+        return {
+          ...base,
+          status: 'succeeded' as const,
+          sql: checked.sql,
+          plan,
+          result: {
+            columns: result.columns,
+            rows: options.maskResults === false ? result.rows : await this.maskResultRows(databaseId, context, result.rows),
+            rowLimit,
+            truncated: result.truncated,
+            durationMs: Date.now() - start
+          },
+          smeQuestionIds: []
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return {
+          ...base,
+          status: 'execution_failed' as const,
+          sql: checked.sql,
+          plan,
+          error: message,
+          smeQuestionIds: await recordGaps([
+            `A query for "${question}" failed when run (${message}). What should an analyst know about these columns' types and values to query them correctly?`,
+            ...generation.missing_context
+          ])
+        };
+      }
+    });
+  }
+
+  /**
+   * Missing-context SME questions, attached to the first table the model used (or
+   * the top-ranked table) since questions belong to a database through their table.
+   * Unanswered duplicates are not asked twice.
+   */
+  private async recordGaps(databaseId: string, context: ContextQueryResult, tablesUsed: string[], gaps: string[]): Promise<string[]> {
+    const table = tablesUsed
+      .map(used => used.toLowerCase())
+      .map(used => context.tables.find(table => used === table.name.toLowerCase() || used.endsWith(`.${table.name.toLowerCase()}`)))
+      .find(Boolean) ?? context.tables[0];
+    if (!table) return [];
+
+    const existing = new Set((await storage.getQuestionsByDatabaseId(databaseId))
+      .filter(question => question.tableId === table.id && !question.isAnswered)
+      .map(question => question.questionText));
+
+    const ids: string[] = [];
+    for (const gap of Array.from(new Set(gaps))) {
+      if (existing.has(gap)) continue;
+      const created = await storage.createSmeQuestion({
+        tableId: table.id,
+        columnId: null,
+        questionType: 'missing_context',
+        questionText: gap,
+        priority: 'high'
+      });
+      ids.push(created.id);
+    }
+    if (ids.length > 0) {
+      console.log(`❓ Recorded ${ids.length} missing-context SME question(s) on ${table.name} for "${context.question}"`);
+    }
+    return ids;
+  }
+
+  /**
+   * Result columns are matched to catalog columns by name, so aliases of PII columns are not caught
+   */
+  private async maskResultRows(databaseId: string, context: ContextQueryResult, rows: Record<string, any>[]): Promise<Record<string, any>[]> {
+    const database = await storage.getDatabase(databaseId);
+    const columns = (await Promise.all(context.tables.map(table => storage.getColumnsByTableId(table.id)))).flat();
+    return piiMasker.maskRows(rows, columns, database?.maskingPolicy);
+  }
+}
+
+export const textToSql = new TextToSqlService();
@@ -1,44 +1,114 @@
 import { 
   connections, databases, tables, columns, foreignKeys, 
-  agentPersonas, personaTables, smeQuestions, analysisJobs, contextItems, enumValues, users,
+  agentPersonas, personaTables, smeQuestions, analysisJobs, contextItems, enumValues, users, llmCalls, embeddings,
+  evalCases, evalRuns, evalResults, schemaVersions, workspaces, workspaceMembers,
   type Connection, type InsertConnection, type Database, type InsertDatabase,
   type Table, type InsertTable, type Column, type ForeignKey,
-  type AgentPersona, type InsertAgentPersona, type SmeQuestion, type InsertSmeQuestion,
+  type AgentPersona, type InsertAgentPersona, type PersonaTable, type SmeQuestion, type InsertSmeQuestion,
   type AnalysisJob, type InsertAnalysisJob, type ContextItem, type InsertContextItem,
-  type EnumValue, type InsertEnumValue, type User, type InsertUser
+  type EnumValue, type InsertEnumValue, type User, type InsertUser, type MaskingPolicy,
+  type LlmCall, type InsertLlmCall, type Embedding, type InsertEmbedding,
+  type EvalCase, type InsertEvalCase, type EvalRun, type EvalResult, type InsertEvalResult, type SchemaVersion,
+  type Workspace, type WorkspaceMember, type WorkspaceMembership, type WorkspaceRole, type SmeScope, type SecretEnvelope
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, desc } from "drizzle-orm";
+import { db, pool } from "./db";
+import { credentialVault } from "./services/credential-vault";
+import { eq, and, or, desc, inArray, isNotNull, isNull } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+
+const PostgresSessionStore = connectPg(session);
+
+// The database or an open transaction on it
+type Executor = Pick<typeof db, 'select' | 'update' | 'delete'>;
+
+// Connections leave storage with their secrets decrypted, ready for adapters;
+// routes must pass them through redactConnection before responding
+function openConnection(connection: Connection): Connection {
+  return { ...connection, config: credentialVault.open(connection.config, connection.secrets) };
+}
+
+// Rows that deleting a connection would remove, and places that point at it
+export interface ConnectionDependents {
+  databases: number;
+  tables: number;
+  columns: number;
+  foreignKeys: number;
+  smeQuestions: number;
+  contextItems: number;
+  enumValues: number;
+  analysisJobs: number;
+  personas: number;
+  embeddings: number;
+  evalCases: number;
+  llmCalls: number;
+  // Connections, databases and workspaces using it as their LLM or graph target
+  references: number;
+}
+
+export type WorkspaceMemberDetail = Pick<WorkspaceMember, 'userId' | 'role' | 'smeScope'> & { username: string; joinedAt: Date | null };
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   // User methods
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  createUser(user: InsertUser & { isAdmin?: boolean }): Promise<User>;
+  getUsers(): Promise<User[]>;
+  setUserAdmin(id: string, isAdmin: boolean): Promise<User | undefined>;
+
+  // Workspace methods
+  createWorkspace(workspace: { name: string; createdBy: string }): Promise<Workspace>;
+  getWorkspace(id: string): Promise<Workspace | undefined>;
+  updateWorkspaceGraphConnection(id: string, graphConnectionId: string | null): Promise<Workspace | undefined>;
+  getWorkspacesByUserId(userId: string): Promise<WorkspaceMembership[]>;
+  addWorkspaceMember(workspaceId: string, userId: string, role: WorkspaceRole, smeScope?: SmeScope | null): Promise<WorkspaceMember>;
+  getWorkspaceMember(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined>;
+  updateWorkspaceMember(workspaceId: string, userId: string, updates: Pick<Partial<WorkspaceMember>, 'role' | 'smeScope'>): Promise<WorkspaceMember | undefined>;
+  removeWorkspaceMember(workspaceId: string, userId: string): Promise<void>;
+  getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberDetail[]>;
 
   // Connection methods
-  createConnection(connection: InsertConnection & { userId: string }): Promise<Connection>;
+  createConnection(connection: InsertConnection & { userId: string; workspaceId: string }): Promise<Connection>;
   getConnection(id: string): Promise<Connection | undefined>;
   getConnectionsByUserId(userId: string): Promise<Connection[]>;
+  getAccessibleConnections(userId: string, workspaceIds: string[]): Promise<Connection[]>;
   updateConnectionStatus(id: string, status: string, lastTested?: Date): Promise<void>;
+  updateConnectionLlmConnection(id: string, llmConnectionId: string | null): Promise<Connection | undefined>;
+  getStoredConnections(): Promise<Connection[]>;
+  updateConnection(id: string, updates: { name?: string; config?: unknown }): Promise<Connection | undefined>;
+  cloneConnection(id: string, clone: { name: string; userId: string }): Promise<Connection | undefined>;
+  getConnectionDependents(id: string): Promise<ConnectionDependents>;
+  deleteConnection(id: string, options?: { cascade?: boolean }): Promise<void>;
+  updateConnectionSecrets(id: string, config: unknown, secrets: SecretEnvelope | null): Promise<void>;
+  adoptLegacyConnections(workspaceId: string, userId: string): Promise<number>;
 
   // Database methods
   createDatabase(database: InsertDatabase): Promise<Database>;
   getDatabasesByConnectionId(connectionId: string): Promise<Database[]>;
   getDatabase(id: string): Promise<Database | undefined>;
+  updateDatabaseMaskingPolicy(id: string, maskingPolicy: MaskingPolicy): Promise<Database | undefined>;
+  updateDatabaseLlmConnection(id: string, llmConnectionId: string | null): Promise<Database | undefined>;
+  updateDatabaseGraphConnection(id: string, graphConnectionId: string | null): Promise<Database | undefined>;
+  updateDatabaseRefresh(id: string, updates: Pick<Partial<Database>, 'refreshSchedule' | 'lastRefreshedAt'>): Promise<Database | undefined>;
+  getScheduledDatabases(): Promise<Database[]>;
 
   // Table methods
   createTable(table: InsertTable): Promise<Table>;
   getTablesByDatabaseId(databaseId: string): Promise<Table[]>;
   getTable(id: string): Promise<Table | undefined>;
   updateTableSelection(id: string, isSelected: boolean, sampleSize?: number): Promise<void>;
+  updateTableRowCount(id: string, updates: Pick<Partial<Table>, 'rowCount' | 'rowCountMethod' | 'exactRowCount' | 'lastUpdated'>): Promise<void>;
   getSelectedTables(databaseId: string): Promise<Table[]>;
+  updateTable(id: string, updates: Pick<Partial<Table>, 'name' | 'columnCount' | 'isSelected' | 'droppedAt' | 'profiledAt'>): Promise<void>;
 
   // Column methods
   createColumn(column: Omit<Column, 'id' | 'createdAt'>): Promise<Column>;
   getColumnsByTableId(tableId: string): Promise<Column[]>;
   getColumnById(columnId: string): Promise<Column | null>;
   updateColumnStats(columnId: string, stats: Partial<Column>): Promise<void>;
+  deleteColumn(columnId: string): Promise<void>;
 
   // Foreign key methods
   createForeignKey(foreignKey: Omit<ForeignKey, 'id' | 'createdAt'>): Promise<ForeignKey>;
@@ -49,13 +119,22 @@ export interface IStorage {
   // Agent persona methods
   createAgentPersona(persona: InsertAgentPersona): Promise<AgentPersona>;
   getPersonasByDatabaseId(databaseId: string): Promise<AgentPersona[]>;
+  getAgentPersona(id: string): Promise<AgentPersona | undefined>;
+  updateAgentPersona(id: string, updates: Partial<InsertAgentPersona>): Promise<AgentPersona | undefined>;
+  deleteAgentPersona(id: string): Promise<void>;
   addTableToPersona(personaId: string, tableId: string): Promise<void>;
+  removeTableFromPersona(personaId: string, tableId: string): Promise<void>;
+  setPersonaTables(personaId: string, tableIds: string[]): Promise<void>;
+  getTablesByPersonaId(personaId: string): Promise<Table[]>;
+  getPersonaTablesByDatabaseId(databaseId: string): Promise<PersonaTable[]>;
 
   // SME question methods
   createSmeQuestion(question: InsertSmeQuestion): Promise<SmeQuestion>;
   getQuestionsByDatabaseId(databaseId: string): Promise<SmeQuestion[]>;
   getSmeQuestionById(questionId: string): Promise<SmeQuestion | undefined>;
   answerSmeQuestion(questionId: string, response: string): Promise<void>;
+  deleteSmeQuestion(questionId: string): Promise<void>;
+  markSmeAnswersStale(questionIds: string[], reason: string): Promise<void>;
 
   // Analysis job methods
   createAnalysisJob(job: InsertAnalysisJob): Promise<AnalysisJob>;
@@ -67,15 +146,50 @@ export interface IStorage {
   upsertContextForTable(contextItem: InsertContextItem): Promise<ContextItem>;
   getContextByTableId(tableId: string): Promise<ContextItem | undefined>;
   getContextsByDatabaseId(databaseId: string): Promise<ContextItem[]>;
+  markContextStale(tableId: string, reason: string): Promise<boolean>;
+
+  // LLM call accounting
+  createLlmCall(call: InsertLlmCall): Promise<LlmCall>;
+  getLlmCallsByJobId(jobId: string): Promise<LlmCall[]>;
+  getLlmCallsByDatabaseId(databaseId: string): Promise<LlmCall[]>;
+
+  // Semantic search index
+  getEmbeddingsByDatabaseId(databaseId: string): Promise<Embedding[]>;
+  upsertEmbedding(embedding: InsertEmbedding): Promise<Embedding>;
+  deleteEmbeddings(embeddingIds: string[]): Promise<void>;
+
+  // Evaluation harness
+  getEvalCasesByDatabaseId(databaseId: string): Promise<EvalCase[]>;
+  getEvalCase(id: string): Promise<EvalCase | undefined>;
+  createEvalCase(evalCase: InsertEvalCase): Promise<EvalCase>;
+  updateEvalCase(id: string, updates: Partial<InsertEvalCase>): Promise<EvalCase>;
+  deleteEvalCase(id: string): Promise<void>;
+  createEvalRun(run: Omit<EvalRun, 'id' | 'startedAt'>): Promise<EvalRun>;
+  updateEvalRun(id: string, updates: Partial<EvalRun>): Promise<EvalRun>;
+  getEvalRun(id: string): Promise<EvalRun | undefined>;
+  getEvalRunsByDatabaseId(databaseId: string): Promise<EvalRun[]>;
+  createEvalResult(result: InsertEvalResult): Promise<EvalResult>;
+  getEvalResultsByRunId(runId: string): Promise<EvalResult[]>;
+
+  // Schema versions (drift between analysis runs)
+  createSchemaVersion(version: Omit<SchemaVersion, 'id' | 'createdAt'>): Promise<SchemaVersion>;
+  getSchemaVersionsByDatabaseId(databaseId: string): Promise<SchemaVersion[]>;
   
   // Enum value methods
   createEnumValue(enumValue: InsertEnumValue): Promise<EnumValue>;
   getEnumValuesByColumnId(columnId: string): Promise<EnumValue[]>;
   getEnumValuesByDatabaseId(databaseId: string): Promise<EnumValue[]>;
   updateEnumValueContext(enumValueId: string, aiContext: string, aiHypothesis: string): Promise<void>;
+  setEnumValuesDeprecated(enumValueIds: string[], deprecatedAt: Date | null): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user || undefined;
@@ -86,7 +200,7 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async createUser(insertUser: InsertUser & { isAdmin?: boolean }): Promise<User> {
     const [user] = await db
       .insert(users)
       .values(insertUser)
@@ -94,28 +208,135 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async createConnection(connection: InsertConnection & { userId: string }): Promise<Connection> {
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.username);
+  }
+
+  async setUserAdmin(id: string, isAdmin: boolean): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ isAdmin })
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
+  async createWorkspace(workspace: { name: string; createdBy: string }): Promise<Workspace> {
     const [result] = await db
-      .insert(connections)
-      .values(connection)
+      .insert(workspaces)
+      .values(workspace)
       .returning();
+    await this.addWorkspaceMember(result.id, workspace.createdBy, 'admin');
     return result;
   }
 
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    const [workspace] = await db.select().from(workspaces).where(eq(workspaces.id, id));
+    return workspace || undefined;
+  }
+
+  async updateWorkspaceGraphConnection(id: string, graphConnectionId: string | null): Promise<Workspace | undefined> {
+    const [workspace] = await db
+      .update(workspaces)
+      .set({ graphConnectionId })
+      .where(eq(workspaces.id, id))
+      .returning();
+    return workspace || undefined;
+  }
+
+  async getWorkspacesByUserId(userId: string): Promise<WorkspaceMembership[]> {
+    const rows = await db
+      .select({ workspace: workspaces, role: workspaceMembers.role, smeScope: workspaceMembers.smeScope })
+      .from(workspaceMembers)
+      .innerJoin(workspaces, eq(workspaceMembers.workspaceId, workspaces.id))
+      .where(eq(workspaceMembers.userId, userId))
+      .orderBy(workspaces.createdAt);
+    return rows.map(row => ({ ...row.workspace, role: row.role, smeScope: row.smeScope }));
+  }
+
+  async addWorkspaceMember(workspaceId: string, userId: string, role: WorkspaceRole, smeScope: SmeScope | null = null): Promise<WorkspaceMember> {
+    const existing = await this.getWorkspaceMember(workspaceId, userId);
+    if (existing) return existing;
+
+    const [member] = await db
+      .insert(workspaceMembers)
+      .values({ workspaceId, userId, role, smeScope })
+      .returning();
+    return member;
+  }
+
+  async getWorkspaceMember(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+    return member || undefined;
+  }
+
+  async updateWorkspaceMember(workspaceId: string, userId: string, updates: Pick<Partial<WorkspaceMember>, 'role' | 'smeScope'>): Promise<WorkspaceMember | undefined> {
+    const [member] = await db
+      .update(workspaceMembers)
+      .set(updates)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+      .returning();
+    return member || undefined;
+  }
+
+  async removeWorkspaceMember(workspaceId: string, userId: string): Promise<void> {
+    await db
+      .delete(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+  }
+
+  async getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberDetail[]> {
+    return await db
+      .select({
+        userId: users.id,
+        username: users.username,
+        role: workspaceMembers.role,
+        smeScope: workspaceMembers.smeScope,
+        joinedAt: workspaceMembers.createdAt
+      })
+      .from(workspaceMembers)
+      .innerJoin(users, eq(workspaceMembers.userId, users.id))
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(workspaceMembers.createdAt);
+  }
+
+  async createConnection(connection: InsertConnection & { userId: string; workspaceId: string }): Promise<Connection> {
+    const { config, secrets } = credentialVault.seal(connection.config);
+    const [result] = await db
+      .insert(connections)
+      .values({ ...connection, config, secrets })
+      .returning();
+    return openConnection(result);
+  }
+
   async getConnection(id: string): Promise<Connection | undefined> {
     const [connection] = await db
       .select()
       .from(connections)
       .where(eq(connections.id, id));
-    return connection || undefined;
+    return connection ? openConnection(connection) : undefined;
   }
 
   async getConnectionsByUserId(userId: string): Promise<Connection[]> {
-    return await db
+    const rows = await db
       .select()
       .from(connections)
       .where(eq(connections.userId, userId))
       .orderBy(desc(connections.createdAt));
+    return rows.map(openConnection);
+  }
+
+  async getAccessibleConnections(userId: string, workspaceIds: string[]): Promise<Connection[]> {
+    const ownLegacy = and(isNull(connections.workspaceId), eq(connections.userId, userId));
+    const rows = await db
+      .select()
+      .from(connections)
+      .where(workspaceIds.length > 0 ? or(inArray(connections.workspaceId, workspaceIds), ownLegacy) : ownLegacy)
+      .orderBy(desc(connections.createdAt));
+    return rows.map(openConnection);
   }
 
   async updateConnectionStatus(id: string, status: string, lastTested?: Date): Promise<void> {
@@ -128,6 +349,233 @@ export class DatabaseStorage implements IStorage {
       .where(eq(connections.id, id));
   }
 
+  async updateConnectionLlmConnection(id: string, llmConnectionId: string | null): Promise<Connection | undefined> {
+    const [connection] = await db
+      .update(connections)
+      .set({ llmConnectionId })
+      .where(eq(connections.id, id))
+      .returning();
+    return connection ? openConnection(connection) : undefined;
+  }
+
+  // Rows exactly as stored, without decrypting, for key rotation
+  async getStoredConnections(): Promise<Connection[]> {
+    return await db.select().from(connections);
+  }
+
+  async updateConnectionSecrets(id: string, config: unknown, secrets: SecretEnvelope | null): Promise<void> {
+    await db
+      .update(connections)
+      .set({ config, secrets })
+      .where(eq(connections.id, id));
+  }
+
+  async adoptLegacyConnections(workspaceId: string, userId: string): Promise<number> {
+    const adopted = await db
+      .update(connections)
+      .set({ workspaceId, userId })
+      .where(isNull(connections.workspaceId))
+      .returning({ id: connections.id });
+    return adopted.length;
+  }
+
+  async updateConnection(id: string, updates: { name?: string; config?: unknown }): Promise<Connection | undefined> {
+    const [stored] = await db.select().from(connections).where(eq(connections.id, id));
+    if (!stored) return undefined;
+
+    const changes: Partial<Connection> = {};
+    if (updates.name !== undefined) changes.name = updates.name;
+    if (updates.config !== undefined) {
+      Object.assign(changes, credentialVault.update(stored.config, stored.secrets, updates.config));
+      // The last test says nothing about the new settings
+      changes.status = "pending";
+      changes.lastTested = null;
+    }
+    if (Object.keys(changes).length === 0) return openConnection(stored);
+
+    const [connection] = await db
+      .update(connections)
+      .set(changes)
+      .where(eq(connections.id, id))
+      .returning();
+    return openConnection(connection);
+  }
+
+  async cloneConnection(id: string, clone: { name: string; userId: string }): Promise<Connection | undefined> {
+    const [stored] = await db.select().from(connections).where(eq(connections.id, id));
+    if (!stored) return undefined;
+
+    // Copied as stored, so environment references stay references
+    const [connection] = await db
+      .insert(connections)
+      .values({
+        name: clone.name,
+        userId: clone.userId,
+        workspaceId: stored.workspaceId,
+        type: stored.type,
+        config: stored.config,
+        secrets: stored.secrets,
+        llmConnectionId: stored.llmConnectionId
+      })
+      .returning();
+    return openConnection(connection);
+  }
+
+  /**
+   * Ids of everything profiled from a connection, for counting and cascading deletes
+   */
+  private async getConnectionScope(connectionId: string, executor: Executor = db) {
+    const databaseIds = (await executor.select({ id: databases.id }).from(databases).where(eq(databases.connectionId, connectionId)))
+      .map(row => row.id);
+    const tableIds = databaseIds.length > 0
+      ? (await executor.select({ id: tables.id }).from(tables).where(inArray(tables.databaseId, databaseIds))).map(row => row.id)
+      : [];
+    const columnIds = tableIds.length > 0
+      ? (await executor.select({ id: columns.id }).from(columns).where(inArray(columns.tableId, tableIds))).map(row => row.id)
+      : [];
+    return { databaseIds, tableIds, columnIds };
+  }
+
+  async getConnectionDependents(id: string): Promise<ConnectionDependents> {
+    const { databaseIds, tableIds, columnIds } = await this.getConnectionScope(id);
+    const hasDatabases = databaseIds.length > 0;
+    const hasTables = tableIds.length > 0;
+
+    const foreignKeyRows = hasTables
+      ? await db.select({ id: foreignKeys.id }).from(foreignKeys)
+          .where(or(inArray(foreignKeys.fromTableId, tableIds), inArray(foreignKeys.toTableId, tableIds)))
+      : [];
+    const smeQuestionRows = hasTables
+      ? await db.select({ id: smeQuestions.id }).from(smeQuestions).where(inArray(smeQuestions.tableId, tableIds))
+      : [];
+    const contextItemRows = hasDatabases
+      ? await db.select({ id: contextItems.id }).from(contextItems).where(inArray(contextItems.databaseId, databaseIds))
+      : [];
+    const enumValueRows = columnIds.length > 0
+      ? await db.select({ id: enumValues.id }).from(enumValues).where(inArray(enumValues.columnId, columnIds))
+      : [];
+    const jobRows = hasDatabases
+      ? await db.select({ id: analysisJobs.id }).from(analysisJobs).where(inArray(analysisJobs.databaseId, databaseIds))
+      : [];
+    const personaRows = hasDatabases
+      ? await db.select({ id: agentPersonas.id }).from(agentPersonas).where(inArray(agentPersonas.databaseId, databaseIds))
+      : [];
+    const embeddingRows = hasDatabases
+      ? await db.select({ id: embeddings.id }).from(embeddings).where(inArray(embeddings.databaseId, databaseIds))
+      : [];
+    const evalCaseRows = hasDatabases
+      ? await db.select({ id: evalCases.id }).from(evalCases).where(inArray(evalCases.databaseId, databaseIds))
+      : [];
+    const llmCallRows = hasDatabases
+      ? await db.select({ id: llmCalls.id }).from(llmCalls)
+          .where(this.connectionLlmCalls(databaseIds, jobRows.map(row => row.id), tableIds))
+      : [];
+
+    const connectionRefs = await db.select({ id: connections.id }).from(connections).where(eq(connections.llmConnectionId, id));
+    const databaseRefs = await db.select({ id: databases.id }).from(databases)
+      .where(or(eq(databases.llmConnectionId, id), eq(databases.graphConnectionId, id)));
+    const workspaceRefs = await db.select({ id: workspaces.id }).from(workspaces).where(eq(workspaces.graphConnectionId, id));
+
+    return {
+      databases: databaseIds.length,
+      tables: tableIds.length,
+      columns: columnIds.length,
+      foreignKeys: foreignKeyRows.length,
+      smeQuestions: smeQuestionRows.length,
+      contextItems: contextItemRows.length,
+      enumValues: enumValueRows.length,
+      analysisJobs: jobRows.length,
+      personas: personaRows.length,
+      embeddings: embeddingRows.length,
+      evalCases: evalCaseRows.length,
+      llmCalls: llmCallRows.length,
+      references: connectionRefs.length + databaseRefs.length + workspaceRefs.length
+    };
+  }
+
+  /**
+   * Deletes everything profiled from a connection. Children go first and the
+   * databases last. LLM call records are kept for usage reporting.
+   */
+  // llm_calls has no foreign keys, so a call is matched by any of the ids it recorded
+  private connectionLlmCalls(databaseIds: string[], jobIds: string[], tableIds: string[]) {
+    return or(
+      inArray(llmCalls.databaseId, databaseIds),
+      jobIds.length > 0 ? inArray(llmCalls.jobId, jobIds) : undefined,
+      tableIds.length > 0 ? inArray(llmCalls.tableId, tableIds) : undefined
+    );
+  }
+
+  private async deleteConnectionData(tx: Executor, id: string): Promise<void> {
+    const { databaseIds, tableIds, columnIds } = await this.getConnectionScope(id, tx);
+    if (databaseIds.length === 0) return;
+
+    const runIds = (await tx.select({ id: evalRuns.id }).from(evalRuns).where(inArray(evalRuns.databaseId, databaseIds)))
+      .map(row => row.id);
+    if (runIds.length > 0) {
+      await tx.delete(evalResults).where(inArray(evalResults.runId, runIds));
+    }
+    await tx.delete(evalRuns).where(inArray(evalRuns.databaseId, databaseIds));
+    await tx.delete(evalCases).where(inArray(evalCases.databaseId, databaseIds));
+    await tx.delete(embeddings).where(inArray(embeddings.databaseId, databaseIds));
+    await tx.delete(contextItems).where(inArray(contextItems.databaseId, databaseIds));
+
+    const personaIds = (await tx.select({ id: agentPersonas.id }).from(agentPersonas).where(inArray(agentPersonas.databaseId, databaseIds)))
+      .map(row => row.id);
+    if (personaIds.length > 0) {
+      await tx.delete(personaTables).where(inArray(personaTables.personaId, personaIds));
+    }
+    await tx.delete(agentPersonas).where(inArray(agentPersonas.databaseId, databaseIds));
+
+    // SME scopes keep table and persona ids in JSON, so nothing else drops the deleted ones
+    const scopedMembers = await tx.select({ id: workspaceMembers.id, smeScope: workspaceMembers.smeScope })
+      .from(workspaceMembers).where(isNotNull(workspaceMembers.smeScope));
+    for (const member of scopedMembers) {
+      const scope = member.smeScope!;
+      const remaining = {
+        tableIds: scope.tableIds.filter(tableId => !tableIds.includes(tableId)),
+        personaIds: scope.personaIds.filter(personaId => !personaIds.includes(personaId))
+      };
+      if (remaining.tableIds.length === scope.tableIds.length && remaining.personaIds.length === scope.personaIds.length) continue;
+      await tx.update(workspaceMembers).set({ smeScope: remaining }).where(eq(workspaceMembers.id, member.id));
+    }
+
+    if (columnIds.length > 0) {
+      await tx.delete(enumValues).where(inArray(enumValues.columnId, columnIds));
+    }
+    if (tableIds.length > 0) {
+      await tx.delete(smeQuestions).where(inArray(smeQuestions.tableId, tableIds));
+      await tx.delete(foreignKeys).where(or(inArray(foreignKeys.fromTableId, tableIds), inArray(foreignKeys.toTableId, tableIds)));
+      await tx.delete(columns).where(inArray(columns.tableId, tableIds));
+    }
+    const jobIds = (await tx.select({ id: analysisJobs.id }).from(analysisJobs).where(inArray(analysisJobs.databaseId, databaseIds)))
+      .map(row => row.id);
+    await tx.delete(llmCalls).where(this.connectionLlmCalls(databaseIds, jobIds, tableIds));
+
+    await tx.delete(tables).where(inArray(tables.databaseId, databaseIds));
+    await tx.delete(schemaVersions).where(inArray(schemaVersions.databaseId, databaseIds));
+    await tx.delete(analysisJobs).where(inArray(analysisJobs.databaseId, databaseIds));
+    await tx.delete(databases).where(inArray(databases.id, databaseIds));
+  }
+
+  /**
+   * Deletes the connection, and with `cascade` everything profiled from it, in
+   * one transaction. Whatever used it as an LLM or graph target falls back to
+   * its default.
+   */
+  async deleteConnection(id: string, options: { cascade?: boolean } = {}): Promise<void> {
+    await db.transaction(async tx => {
+      if (options.cascade) {
+        await this.deleteConnectionData(tx, id);
+      }
+      await tx.update(connections).set({ llmConnectionId: null }).where(eq(connections.llmConnectionId, id));
+      await tx.update(databases).set({ llmConnectionId: null }).where(eq(databases.llmConnectionId, id));
+      await tx.update(databases).set({ graphConnectionId: null }).where(eq(databases.graphConnectionId, id));
+      await tx.update(workspaces).set({ graphConnectionId: null }).where(eq(workspaces.graphConnectionId, id));
+      await tx.delete(connections).where(eq(connections.id, id));
+    });
+  }
+
   async createDatabase(database: InsertDatabase): Promise<Database> {
     const [result] = await db
       .insert(databases)
@@ -152,10 +600,53 @@ export class DatabaseStorage implements IStorage {
     return database || undefined;
   }
 
+  async updateDatabaseMaskingPolicy(id: string, maskingPolicy: MaskingPolicy): Promise<Database | undefined> {
+    const [database] = await db
+      .update(databases)
+      .set({ maskingPolicy })
+      .where(eq(databases.id, id))
+      .returning();
+    return database || undefined;
+  }
+
+  async updateDatabaseLlmConnection(id: string, llmConnectionId: string | null): Promise<Database | undefined> {
+    const [database] = await db
+      .update(databases)
+      .set({ llmConnectionId })
+      .where(eq(databases.id, id))
+      .returning();
+    return database || undefined;
+  }
+
+  async updateDatabaseGraphConnection(id: string, graphConnectionId: string | null): Promise<Database | undefined> {
+    const [database] = await db
+      .update(databases)
+      .set({ graphConnectionId })
+      .where(eq(databases.id, id))
+      .returning();
+    return database || undefined;
+  }
+
+  async updateDatabaseRefresh(id: string, updates: Pick<Partial<Database>, 'refreshSchedule' | 'lastRefreshedAt'>): Promise<Database | undefined> {
+    const [database] = await db
+      .update(databases)
+      .set(updates)
+      .where(eq(databases.id, id))
+      .returning();
+    return database || undefined;
+  }
+
+  async getScheduledDatabases(): Promise<Database[]> {
+    return await db
+      .select()
+      .from(databases)
+      .where(isNotNull(databases.refreshSchedule));
+  }
+
   async createTable(table: InsertTable): Promise<Table> {
     const [result] = await db
       .insert(tables)
-      .values(table)
+      .values({ ...table, lastUpdated: new Date() })
       .returning();
     return result;
   }
@@ -188,6 +679,13 @@ export class DatabaseStorage implements IStorage {
       .where(eq(tables.id, id));
   }
 
+  async updateTableRowCount(id: string, updates: Pick<Partial<Table>, 'rowCount' | 'rowCountMethod' | 'exactRowCount' | 'lastUpdated'>): Promise<void> {
+    await db
+      .update(tables)
+      .set(updates)
+      .where(eq(tables.id, id));
+  }
+
   async getSelectedTables(databaseId: string): Promise<Table[]> {
     return await db
       .select()
@@ -198,6 +696,13 @@ export class DatabaseStorage implements IStorage {
       ));
   }
 
+  async updateTable(id: string, updates: Pick<Partial<Table>, 'name' | 'columnCount' | 'isSelected' | 'droppedAt' | 'profiledAt'>): Promise<void> {
+    await db
+      .update(tables)
+      .set(updates)
+      .where(eq(tables.id, id));
+  }
+
   async createColumn(column: Omit<Column, 'id' | 'createdAt'>): Promise<Column> {
     const [result] = await db
       .insert(columns)
@@ -228,6 +733,14 @@ export class DatabaseStorage implements IStorage {
       .where(eq(columns.id, columnId));
   }
 
+  async deleteColumn(columnId: string): Promise<void> {
+    // Joins and enum values hang off the column; SME questions keep their table and are marked stale instead
+    await db.delete(foreignKeys).where(eq(foreignKeys.fromColumnId, columnId));
+    await db.delete(foreignKeys).where(eq(foreignKeys.toColumnId, columnId));
+    await db.delete(enumValues).where(eq(enumValues.columnId, columnId));
+    await db.delete(columns).where(eq(columns.id, columnId));
+  }
+
   async createForeignKey(foreignKey: Omit<ForeignKey, 'id' | 'createdAt'>): Promise<ForeignKey> {
     const [result] = await db
       .insert(foreignKeys)
@@ -271,12 +784,81 @@ export class DatabaseStorage implements IStorage {
       .where(eq(agentPersonas.databaseId, databaseId));
   }
 
+  async getAgentPersona(id: string): Promise<AgentPersona | undefined> {
+    const [persona] = await db
+      .select()
+      .from(agentPersonas)
+      .where(eq(agentPersonas.id, id));
+    return persona || undefined;
+  }
+
+  async updateAgentPersona(id: string, updates: Partial<InsertAgentPersona>): Promise<AgentPersona | undefined> {
+    const [persona] = await db
+      .update(agentPersonas)
+      .set(updates)
+      .where(eq(agentPersonas.id, id))
+      .returning();
+    return persona || undefined;
+  }
+
+  async deleteAgentPersona(id: string): Promise<void> {
+    await db
+      .delete(personaTables)
+      .where(eq(personaTables.personaId, id));
+    await db
+      .delete(agentPersonas)
+      .where(eq(agentPersonas.id, id));
+  }
+
   async addTableToPersona(personaId: string, tableId: string): Promise<void> {
+    const [existing] = await db
+      .select()
+      .from(personaTables)
+      .where(and(eq(personaTables.personaId, personaId), eq(personaTables.tableId, tableId)));
+    if (existing) return;
+
     await db
       .insert(personaTables)
       .values({ personaId, tableId });
   }
 
+  async removeTableFromPersona(personaId: string, tableId: string): Promise<void> {
+    await db
+      .delete(personaTables)
+      .where(and(eq(personaTables.personaId, personaId), eq(personaTables.tableId, tableId)));
+  }
+
+  async setPersonaTables(personaId: string, tableIds: string[]): Promise<void> {
+    await db
+      .delete(personaTables)
+      .where(eq(personaTables.personaId, personaId));
+
+    const uniqueTableIds = Array.from(new Set(tableIds));
+    if (uniqueTableIds.length > 0) {
+      await db
+        .insert(personaTables)
+        .values(uniqueTableIds.map(tableId => ({ personaId, tableId })));
+    }
+  }
+
+  async getTablesByPersonaId(personaId: string): Promise<Table[]> {
+    const rows = await db
+      .select({ table: tables })
+      .from(personaTables)
+      .innerJoin(tables, eq(personaTables.tableId, tables.id))
+      .where(eq(personaTables.personaId, personaId));
+    return rows.map(row => row.table);
+  }
+
+  async getPersonaTablesByDatabaseId(databaseId: string): Promise<PersonaTable[]> {
+    const rows = await db
+      .select({ personaTable: personaTables })
+      .from(personaTables)
+      .innerJoin(agentPersonas, eq(personaTables.personaId, agentPersonas.id))
+      .where(eq(agentPersonas.databaseId, databaseId));
+    return rows.map(row => row.personaTable);
+  }
+
   async createSmeQuestion(question: InsertSmeQuestion): Promise<SmeQuestion> {
     const [result] = await db
       .insert(smeQuestions)
@@ -298,6 +880,8 @@ export class DatabaseStorage implements IStorage {
         response: smeQuestions.response,
         isAnswered: smeQuestions.isAnswered,
         priority: smeQuestions.priority,
+        isStale: smeQuestions.isStale,
+        staleReason: smeQuestions.staleReason,
         createdAt: smeQuestions.createdAt
       })
       .from(smeQuestions)
@@ -318,11 +902,27 @@ export class DatabaseStorage implements IStorage {
       .update(smeQuestions)
       .set({ 
         response,
-        isAnswered: true
+        isAnswered: true,
+        isStale: false,
+        staleReason: null
       })
       .where(eq(smeQuestions.id, questionId));
   }
 
+  async deleteSmeQuestion(questionId: string): Promise<void> {
+    await db
+      .delete(smeQuestions)
+      .where(eq(smeQuestions.id, questionId));
+  }
+
+  async markSmeAnswersStale(questionIds: string[], reason: string): Promise<void> {
+    if (questionIds.length === 0) return;
+    await db
+      .update(smeQuestions)
+      .set({ isStale: true, staleReason: reason })
+      .where(inArray(smeQuestions.id, questionIds));
+  }
+
   async createAnalysisJob(job: InsertAnalysisJob): Promise<AnalysisJob> {
     const [result] = await db
       .insert(analysisJobs)
@@ -354,6 +954,174 @@ export class DatabaseStorage implements IStorage {
     return job || undefined;
   }
 
+  async createLlmCall(call: InsertLlmCall): Promise<LlmCall> {
+    const [result] = await db
+      .insert(llmCalls)
+      .values(call)
+      .returning();
+    return result;
+  }
+
+  async getLlmCallsByJobId(jobId: string): Promise<LlmCall[]> {
+    return await db
+      .select()
+      .from(llmCalls)
+      .where(eq(llmCalls.jobId, jobId))
+      .orderBy(desc(llmCalls.createdAt));
+  }
+
+  async getLlmCallsByDatabaseId(databaseId: string): Promise<LlmCall[]> {
+    return await db
+      .select()
+      .from(llmCalls)
+      .where(eq(llmCalls.databaseId, databaseId))
+      .orderBy(desc(llmCalls.createdAt));
+  }
+
+  async getEmbeddingsByDatabaseId(databaseId: string): Promise<Embedding[]> {
+    return await db
+      .select()
+      .from(embeddings)
+      .where(eq(embeddings.databaseId, databaseId));
+  }
+
+  async upsertEmbedding(embedding: InsertEmbedding): Promise<Embedding> {
+    const [existing] = await db
+      .select({ id: embeddings.id })
+      .from(embeddings)
+      .where(and(
+        eq(embeddings.databaseId, embedding.databaseId),
+        eq(embeddings.entityType, embedding.entityType),
+        eq(embeddings.entityId, embedding.entityId)
+      ));
+
+    if (existing) {
+      const [updated] = await db
+        .update(embeddings)
+        .set({ ...embedding, updatedAt: new Date() })
+        .where(eq(embeddings.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await db
+      .insert(embeddings)
+      .values(embedding)
+      .returning();
+    return created;
+  }
+
+  async deleteEmbeddings(embeddingIds: string[]): Promise<void> {
+    if (embeddingIds.length === 0) return;
+    await db
+      .delete(embeddings)
+      .where(inArray(embeddings.id, embeddingIds));
+  }
+
+  async getEvalCasesByDatabaseId(databaseId: string): Promise<EvalCase[]> {
+    return await db
+      .select()
+      .from(evalCases)
+      .where(eq(evalCases.databaseId, databaseId))
+      .orderBy(evalCases.createdAt);
+  }
+
+  async getEvalCase(id: string): Promise<EvalCase | undefined> {
+    const [evalCase] = await db
+      .select()
+      .from(evalCases)
+      .where(eq(evalCases.id, id));
+    return evalCase || undefined;
+  }
+
+  async createEvalCase(evalCase: InsertEvalCase): Promise<EvalCase> {
+    const [created] = await db
+      .insert(evalCases)
+      .values(evalCase)
+      .returning();
+    return created;
+  }
+
+  async updateEvalCase(id: string, updates: Partial<InsertEvalCase>): Promise<EvalCase> {
+    const [updated] = await db
+      .update(evalCases)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(evalCases.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteEvalCase(id: string): Promise<void> {
+    // Past results for the case go too, so run history only compares cases that still exist
+    await db.delete(evalResults).where(eq(evalResults.caseId, id));
+    await db.delete(evalCases).where(eq(evalCases.id, id));
+  }
+
+  async createEvalRun(run: Omit<EvalRun, 'id' | 'startedAt'>): Promise<EvalRun> {
+    const [created] = await db
+      .insert(evalRuns)
+      .values(run)
+      .returning();
+    return created;
+  }
+
+  async updateEvalRun(id: string, updates: Partial<EvalRun>): Promise<EvalRun> {
+    const [updated] = await db
+      .update(evalRuns)
+      .set(updates)
+      .where(eq(evalRuns.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getEvalRun(id: string): Promise<EvalRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(evalRuns)
+      .where(eq(evalRuns.id, id));
+    return run || undefined;
+  }
+
+  async getEvalRunsByDatabaseId(databaseId: string): Promise<EvalRun[]> {
+    return await db
+      .select()
+      .from(evalRuns)
+      .where(eq(evalRuns.databaseId, databaseId))
+      .orderBy(desc(evalRuns.startedAt));
+  }
+
+  async createEvalResult(result: InsertEvalResult): Promise<EvalResult> {
+    const [created] = await db
+      .insert(evalResults)
+      .values(result)
+      .returning();
+    return created;
+  }
+
+  async getEvalResultsByRunId(runId: string): Promise<EvalResult[]> {
+    return await db
+      .select()
+      .from(evalResults)
+      .where(eq(evalResults.runId, runId))
+      .orderBy(evalResults.createdAt);
+  }
+
+  async createSchemaVersion(version: Omit<SchemaVersion, 'id' | 'createdAt'>): Promise<SchemaVersion> {
+    const [result] = await db
+      .insert(schemaVersions)
+      .values(version)
+      .returning();
+    return result;
+  }
+
+  async getSchemaVersionsByDatabaseId(databaseId: string): Promise<SchemaVersion[]> {
+    return await db
+      .select()
+      .from(schemaVersions)
+      .where(eq(schemaVersions.databaseId, databaseId))
+      .orderBy(desc(schemaVersions.version));
+  }
+
   async upsertContextForTable(contextItem: InsertContextItem): Promise<ContextItem> {
     // Check if context already exists for this table
     const [existing] = await db
@@ -367,6 +1135,8 @@ export class DatabaseStorage implements IStorage {
         .update(contextItems)
         .set({
           ...contextItem,
+          isStale: false,
+          staleReason: null,
           updatedAt: new Date()
         })
         .where(eq(contextItems.tableId, contextItem.tableId))
@@ -398,6 +1168,15 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(contextItems.createdAt));
   }
 
+  async markContextStale(tableId: string, reason: string): Promise<boolean> {
+    const updated = await db
+      .update(contextItems)
+      .set({ isStale: true, staleReason: reason })
+      .where(eq(contextItems.tableId, tableId))
+      .returning({ id: contextItems.id });
+    return updated.length > 0;
+  }
+
   async createEnumValue(enumValue: InsertEnumValue): Promise<EnumValue> {
     const [result] = await db
       .insert(enumValues)
@@ -424,6 +1203,7 @@ export class DatabaseStorage implements IStorage {
         aiContext: enumValues.aiContext,
         aiHypothesis: enumValues.aiHypothesis,
         smeValidated: enumValues.smeValidated,
+        deprecatedAt: enumValues.deprecatedAt,
         createdAt: enumValues.createdAt,
         updatedAt: enumValues.updatedAt
       })
@@ -445,6 +1225,14 @@ export class DatabaseStorage implements IStorage {
       .where(eq(enumValues.id, enumValueId));
   }
 
+  async setEnumValuesDeprecated(enumValueIds: string[], deprecatedAt: Date | null): Promise<void> {
+    if (enumValueIds.length === 0) return;
+    await db
+      .update(enumValues)
+      .set({ deprecatedAt, updatedAt: new Date() })
+      .where(inArray(enumValues.id, enumValueIds));
+  }
+
   async deduplicateTablesForDatabase(databaseId: string): Promise<number> {
     // Get all tables grouped by schema.name
     const allTables = await db
@@ -1,30 +1,264 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, jsonb, boolean, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, bigint, timestamp, jsonb, boolean, decimal } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  password: text("password").notNull(), // scrypt hash, see server/auth.ts
+  isAdmin: boolean("is_admin").default(false), // Instance admin: maintenance of the shared knowledge graph
+});
+
+// Workspace roles, most privileged first. Engineers run the pipeline, SME reviewers
+// only answer questions (optionally for a subset of tables), viewers only read.
+export const WORKSPACE_ROLES = ['admin', 'engineer', 'sme_reviewer', 'viewer'] as const;
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number];
+
+export function roleAtLeast(role: WorkspaceRole, required: WorkspaceRole): boolean {
+  return WORKSPACE_ROLES.indexOf(role) <= WORKSPACE_ROLES.indexOf(required);
+}
+
+// Limits an SME reviewer to the questions of these tables, plus the tables of these personas
+export const smeScopeSchema = z.object({
+  tableIds: z.array(z.string()).default([]),
+  personaIds: z.array(z.string()).default([])
+});
+export type SmeScope = z.infer<typeof smeScopeSchema>;
+
+// Teams share connections, and everything profiled from them, through a workspace
+export const workspaces = pgTable("workspaces", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  createdBy: varchar("created_by").notNull(),
+  graphConnectionId: varchar("graph_connection_id"), // Neo4j connection for databases that don't choose one
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const workspaceMembers = pgTable("workspace_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  role: text("role").$type<WorkspaceRole>().notNull().default("viewer"),
+  smeScope: jsonb("sme_scope").$type<SmeScope>(), // Null: every question in the workspace
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const connections = pgTable("connections", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull(),
+  workspaceId: varchar("workspace_id"), // Null for connections saved before workspaces; only their creator can use them
   name: text("name").notNull(),
-  type: text("type").notNull(), // 'postgresql', 'gemini', 'neo4j'
-  config: jsonb("config").notNull(),
+  type: text("type").notNull(), // 'postgresql', 'mysql', 'sqlite', 'duckdb', 'gemini', 'llm', 'neo4j'
+  config: jsonb("config").notNull(), // Secret fields are moved to `secrets`; ${ENV_VAR} references stay here
+  secrets: jsonb("secrets").$type<SecretEnvelope>(), // Encrypted password/apiKey fields, see server/services/credential-vault.ts
+  llmConnectionId: varchar("llm_connection_id"), // 'llm' connection used for databases on this source, unless the database sets its own
   status: text("status").default("pending"), // 'connected', 'failed', 'pending'
   lastTested: timestamp("last_tested"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Envelope-encrypted connection secrets: a random data key encrypts the fields and a
+// server-side master key wraps the data key, so rotating the master key only re-wraps
+export interface SecretEnvelope {
+  version: 1;
+  keyId: string; // Master key that wrapped the data key
+  wrappedKey: string; // base64 iv + tag + ciphertext (AES-256-GCM)
+  payload: string; // Secret config fields as JSON, encrypted with the data key
+}
+
+// Connection types that point at a source database we can profile
+export const SOURCE_CONNECTION_TYPES = ['postgresql', 'mysql', 'sqlite', 'duckdb'] as const;
+export type SourceConnectionType = typeof SOURCE_CONNECTION_TYPES[number];
+
+export function isSourceConnectionType(type: string): type is SourceConnectionType {
+  return (SOURCE_CONNECTION_TYPES as readonly string[]).includes(type);
+}
+
+// Roll-up of llm_calls rows for a job or a database
+export interface LlmUsageSummary {
+  calls: number; // Provider calls actually made
+  reusedCalls: number; // Calls avoided by reusing existing context
+  failedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalLatencyMs: number;
+  avgLatencyMs: number;
+  estimatedCost: number; // USD
+  estimatedSavings: number; // USD the reused calls would have cost
+  byModel: Array<{ provider: string; model: string; calls: number; inputTokens: number; outputTokens: number; estimatedCost: number }>;
+  byTask: Array<{ task: string; calls: number; reusedCalls: number; estimatedCost: number }>;
+}
+
+// Persona proposed from a cluster of the foreign-key graph, not yet saved
+export interface PersonaSuggestion {
+  name: string;
+  description: string;
+  keywords: string[];
+  tableIds: string[];
+  tableNames: string[];
+  cohesion: number; // Share of the cluster's FK edges that stay inside it (0-1)
+  namedBy: 'llm' | 'heuristic';
+}
+
+export interface PersonaSuggestionResult {
+  suggestions: PersonaSuggestion[];
+  unclusteredTableIds: string[]; // Selected tables with no validated FK to another selected table
+}
+
+// Context bundle for one natural-language question, ranked and trimmed to a token budget
+export interface ContextBundleColumn {
+  name: string;
+  dataType: string;
+  description?: string;
+  values?: Array<{ value: string; meaning?: string }>;
+}
+
+export interface ContextBundleTable {
+  id: string;
+  schema: string;
+  name: string;
+  description?: string;
+  rowCount?: number | null;
+  relevance: number;
+  columns: ContextBundleColumn[];
+}
+
+export interface ContextBundleJoin {
+  fromTable: string;
+  fromColumn: string;
+  toTable: string;
+  toColumn: string;
+}
+
+export interface ContextBundleSmeAnswer {
+  table: string;
+  column?: string;
+  question: string;
+  answer: string;
+}
+
+export interface ContextQueryResult {
+  question: string;
+  persona: { id: string; name: string; description: string; score: number } | null;
+  source: 'graph' | 'catalog'; // Whether column and value context came from Neo4j or straight from Postgres
+  tables: ContextBundleTable[];
+  joins: ContextBundleJoin[];
+  smeAnswers: ContextBundleSmeAnswer[];
+  tokenBudget: number;
+  tokenEstimate: number;
+  truncated: boolean; // Some relevant context did not fit the budget
+  markdown: string;
+}
+
+export interface SemanticSearchResult {
+  entityType: EmbeddingEntityType;
+  entityId: string;
+  tableId: string | null;
+  columnId: string | null;
+  label: string;
+  content: string;
+  score: number; // Cosine similarity to the query
+}
+
+// Outcome of generating SQL from context and checking it against the source database
+export type TextToSqlStatus = 'succeeded' | 'no_sql' | 'rejected' | 'explain_failed' | 'execution_failed';
+
+export interface TextToSqlResult {
+  question: string;
+  persona: ContextQueryResult['persona'];
+  status: TextToSqlStatus;
+  sql: string | null;
+  explanation: string;
+  tablesUsed: string[];
+  error?: string;
+  plan?: string[]; // EXPLAIN output
+  result?: {
+    columns: string[];
+    rows: Record<string, any>[];
+    rowLimit: number;
+    truncated: boolean;
+    durationMs: number;
+  };
+  smeQuestionIds: string[]; // Missing-context questions recorded for a failed attempt
+}
+
+// LLM backends selectable through an 'llm' connection
+export const LLM_PROVIDERS = ['gemini', 'openai', 'ollama', 'mock'] as const;
+export type LLMProviderName = typeof LLM_PROVIDERS[number];
+
+export interface LLMConnectionConfig {
+  provider: LLMProviderName;
+  apiKey?: string;
+  baseUrl?: string; // OpenAI-compatible or Ollama endpoint
+  model?: string; // Model for heavier tasks (and for everything when fastModel is unset)
+  fastModel?: string; // Model for short, high-volume tasks
+  fixturesDir?: string; // Mock provider: directory of recorded responses
+  embeddingModel?: string; // Semantic search embeddings; unset uses the local hashing embedder
+}
+
+// Distribution profiles computed for numeric and temporal columns during statistical analysis
+export interface HistogramBucket {
+  lower: number;
+  upper: number;
+  count: number;
+}
+
+export interface NumericDistribution {
+  kind: 'numeric';
+  mean: number | null;
+  stddev: number | null;
+  percentiles: { p1: number | null; p25: number | null; p50: number | null; p75: number | null; p99: number | null };
+  zeroCount: number;
+  negativeCount: number;
+  histogram: HistogramBucket[];
+}
+
+export interface TemporalDistribution {
+  kind: 'temporal';
+  firstSeen: string | null;
+  lastSeen: string | null;
+  monthlyCounts: Array<{ month: string; count: number }>; // month is YYYY-MM, oldest first
+}
+
+export type ColumnDistribution = NumericDistribution | TemporalDistribution;
+
+// Semantic types inferred from column names and value shapes
+export const SEMANTIC_TYPES = [
+  'email', 'url', 'phone', 'uuid', 'country_code', 'currency_code', 'postal_code',
+  'ip_address', 'json', 'free_text', 'monetary_amount'
+] as const;
+export type SemanticType = typeof SEMANTIC_TYPES[number];
+
+// PII classification and the masking applied before values reach prompts, exports or the graph
+export const PII_CATEGORIES = ['person_name', 'email', 'phone', 'card_number', 'national_id', 'address'] as const;
+export type PiiCategory = typeof PII_CATEGORIES[number];
+
+export const MASKING_STRATEGIES = ['redact', 'hash', 'synthesize'] as const;
+export type MaskingStrategy = typeof MASKING_STRATEGIES[number];
+
+export const maskingPolicySchema = z.object({
+  enabled: z.boolean(),
+  defaultStrategy: z.enum(MASKING_STRATEGIES),
+  // Per-category strategy; 'none' leaves that category unmasked
+  categoryStrategies: z.record(z.enum(PII_CATEGORIES), z.enum([...MASKING_STRATEGIES, 'none'])).optional(),
+  // Per-column override keyed by column id, e.g. to unmask a false positive
+  columnOverrides: z.record(z.string(), z.enum([...MASKING_STRATEGIES, 'none'])).optional(),
+});
+export type MaskingPolicy = z.infer<typeof maskingPolicySchema>;
+
+export const DEFAULT_MASKING_POLICY: MaskingPolicy = { enabled: true, defaultStrategy: 'redact' };
+
 export const databases = pgTable("databases", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   connectionId: varchar("connection_id").notNull(),
   name: text("name").notNull(),
   schema: text("schema").default("public"),
+  maskingPolicy: jsonb("masking_policy").$type<MaskingPolicy>(),
+  llmConnectionId: varchar("llm_connection_id"), // Overrides the source connection's LLM choice
+  graphConnectionId: varchar("graph_connection_id"), // Neo4j connection for this database's graph; overrides the workspace's
+  refreshSchedule: text("refresh_schedule"), // Cron expression for scheduled re-profiling; null refreshes on demand only
+  lastRefreshedAt: timestamp("last_refreshed_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -33,11 +267,15 @@ export const tables = pgTable("tables", {
   databaseId: varchar("database_id").notNull(),
   name: text("name").notNull(),
   schema: text("schema").notNull(),
-  rowCount: integer("row_count"),
+  rowCount: bigint("row_count", { mode: "number" }), // Estimates of large tables overflow an integer
+  rowCountMethod: text("row_count_method"), // 'estimated' (planner statistics) or 'exact' (COUNT(*))
+  exactRowCount: boolean("exact_row_count").default(false), // Opt-in: refresh with COUNT(*) instead of the estimate
   columnCount: integer("column_count"),
-  lastUpdated: timestamp("last_updated"),
+  lastUpdated: timestamp("last_updated"), // When rowCount was last read from the source
   isSelected: boolean("is_selected").default(false),
   sampleSize: integer("sample_size").default(1000),
+  droppedAt: timestamp("dropped_at"), // Set when re-analysis no longer finds the table; kept so its history survives
+  profiledAt: timestamp("profiled_at"), // Last statistical profile of the table's columns
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -53,8 +291,15 @@ export const columns = pgTable("columns", {
   minValue: text("min_value"),
   maxValue: text("max_value"),
   distinctValues: jsonb("distinct_values"),
+  distribution: jsonb("distribution").$type<ColumnDistribution>(),
+  semanticType: text("semantic_type").$type<SemanticType>(),
+  semanticTypeConfidence: decimal("semantic_type_confidence"),
+  piiCategory: text("pii_category").$type<PiiCategory>(),
+  piiConfidence: decimal("pii_confidence"),
+  maskingStrategy: text("masking_strategy").$type<MaskingStrategy>(), // Strategy applied to stored distinct values, null when unmasked
   aiDescription: text("ai_description"),
   smeValidated: boolean("sme_validated").default(false),
+  profiledAt: timestamp("profiled_at"), // When cardinality, null rate and distinct values were last measured
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -90,19 +335,21 @@ export const smeQuestions = pgTable("sme_questions", {
   tableId: varchar("table_id"),
   columnId: varchar("column_id"),
   enumValueId: varchar("enum_value_id"), // New field for enum value questions
-  questionType: text("question_type").notNull(), // 'table', 'column', 'relationship', 'ambiguity', 'enum_value'
+  questionType: text("question_type").notNull(), // 'table', 'column', 'relationship', 'ambiguity', 'enum_value', 'missing_context', 'statistical_change'
   questionText: text("question_text").notNull(),
   options: jsonb("options"),
   response: text("response"),
   isAnswered: boolean("is_answered").default(false),
   priority: text("priority").default("medium"), // 'high', 'medium', 'low'
+  isStale: boolean("is_stale").default(false), // The answer predates a schema change to its table or column
+  staleReason: text("stale_reason"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const analysisJobs = pgTable("analysis_jobs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   databaseId: varchar("database_id").notNull(),
-  type: text("type").notNull(), // 'schema', 'statistical', 'ai_context', 'join_detection'
+  type: text("type").notNull(), // 'schema', 'statistical', 'ai_context', 'join_detection', 'refresh'
   status: text("status").default("pending"), // 'pending', 'running', 'completed', 'failed'
   progress: integer("progress").default(0),
   result: jsonb("result"),
@@ -127,10 +374,31 @@ export const contextItems = pgTable("context_items", {
   tableDesc: jsonb("table_desc"),
   columnDescs: jsonb("column_descs"),
   questionsGenerated: integer("questions_generated").default(0),
+  isStale: boolean("is_stale").default(false), // The descriptions predate a schema change; cleared when regenerated
+  staleReason: text("stale_reason"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// One row per LLM provider call, or per call avoided by reusing knowledge-graph context
+export const llmCalls = pgTable("llm_calls", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  databaseId: varchar("database_id"),
+  jobId: varchar("job_id"),
+  tableId: varchar("table_id"),
+  task: text("task").notNull(), // 'table_description', 'context_and_questions', 'enum_value_context', ...
+  provider: text("provider").notNull(), // 'gemini', 'openai', 'ollama', 'mock'
+  model: text("model"),
+  inputTokens: integer("input_tokens").default(0),
+  outputTokens: integer("output_tokens").default(0),
+  latencyMs: integer("latency_ms").default(0),
+  reused: boolean("reused").default(false), // Served from existing context; no provider call was made
+  success: boolean("success").default(true),
+  error: text("error"),
+  estimatedCost: decimal("estimated_cost", { precision: 12, scale: 6 }).default("0"), // USD
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const enumValues = pgTable("enum_values", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   columnId: varchar("column_id").notNull(),
@@ -139,10 +407,123 @@ export const enumValues = pgTable("enum_values", {
   aiContext: text("ai_context"),
   aiHypothesis: text("ai_hypothesis"), 
   smeValidated: boolean("sme_validated").default(false),
+  deprecatedAt: timestamp("deprecated_at"), // Set when re-profiling no longer finds the value; cleared if it returns
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Semantic search index: one embedded text per table, column, enum value or answered SME question
+export const EMBEDDING_ENTITY_TYPES = ['table', 'column', 'enum_value', 'sme_answer'] as const;
+export type EmbeddingEntityType = typeof EMBEDDING_ENTITY_TYPES[number];
+
+export const embeddings = pgTable("embeddings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  databaseId: varchar("database_id").notNull(),
+  entityType: text("entity_type").notNull(), // One of EMBEDDING_ENTITY_TYPES
+  entityId: varchar("entity_id").notNull(),
+  tableId: varchar("table_id"),
+  columnId: varchar("column_id"),
+  label: text("label").notNull(), // e.g. orders.status = 'shipped'
+  content: text("content").notNull(), // The text that was embedded
+  contentHash: text("content_hash").notNull(), // Unchanged content with the same model is not re-embedded
+  provider: text("provider").notNull(), // 'local', 'gemini', 'openai', 'ollama'
+  model: text("model").notNull(),
+  vector: jsonb("vector").$type<number[]>().notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Evaluation harness: golden questions scored against generated SQL, run after run
+export interface EvalExpectedResult {
+  columns?: string[];
+  rows: Array<Array<string | number | boolean | null>>;
+}
+
+export interface EvalContextSnapshot {
+  personas: number;
+  answeredSmeQuestions: number;
+  validatedJoins: number;
+  graphConnected: boolean;
+}
+
+export interface EvalRunDetail {
+  run: EvalRun;
+  results: EvalResult[];
+  baselineRunId: string | null; // Previous completed run the regressions are measured against
+  regressions: string[]; // Case ids that passed in the baseline and fail now
+  fixes: string[]; // Case ids that failed in the baseline and pass now
+}
+
+export const evalCases = pgTable("eval_cases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  databaseId: varchar("database_id").notNull(),
+  question: text("question").notNull(),
+  expectedSql: text("expected_sql"), // Run against the source at evaluation time
+  expectedResult: jsonb("expected_result").$type<EvalExpectedResult>(), // Used when there is no expectedSql
+  personaId: varchar("persona_id"), // Unset lets retrieval pick the persona
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const evalRuns = pgTable("eval_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  databaseId: varchar("database_id").notNull(),
+  status: text("status").default("running"), // 'running', 'completed', 'failed'
+  llmConnectionId: varchar("llm_connection_id"), // Provider override; unset uses the database's provider
+  provider: text("provider"),
+  totalCases: integer("total_cases").default(0),
+  completedCases: integer("completed_cases").default(0),
+  passedCases: integer("passed_cases").default(0),
+  contextSnapshot: jsonb("context_snapshot").$type<EvalContextSnapshot>(),
+  error: text("error"),
+  startedAt: timestamp("started_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const evalResults = pgTable("eval_results", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  runId: varchar("run_id").notNull(),
+  caseId: varchar("case_id").notNull(),
+  status: text("status").notNull(), // TextToSqlStatus, or 'expected_failed' when the golden SQL itself errors
+  passed: boolean("passed").notNull(),
+  personaName: text("persona_name"),
+  generatedSql: text("generated_sql"),
+  expectedRowCount: integer("expected_row_count"),
+  actualRowCount: integer("actual_row_count"),
+  mismatch: text("mismatch"), // Why the result sets differ, or the error
+  durationMs: integer("duration_ms"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Schema drift: what changed in the source between two analysis runs
+export const SCHEMA_CHANGE_KINDS = [
+  'table_added', 'table_dropped', 'table_renamed',
+  'column_added', 'column_dropped', 'column_renamed', 'column_type_changed', 'column_nullability_changed'
+] as const;
+export type SchemaChangeKind = typeof SCHEMA_CHANGE_KINDS[number];
+
+export interface SchemaChange {
+  kind: SchemaChangeKind;
+  table: string; // schema.name; the new name for renames
+  column?: string; // The new name for column renames
+  from?: string; // Previous name, data type or nullability
+  to?: string;
+  tableId?: string; // Stored table the change applies to, unset for added tables
+  columnId?: string;
+}
+
+export const schemaVersions = pgTable("schema_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  databaseId: varchar("database_id").notNull(),
+  version: integer("version").notNull(), // 1 is the first analysis; each re-analysis that finds changes adds one
+  changes: jsonb("changes").$type<SchemaChange[]>().notNull(),
+  tableCount: integer("table_count").default(0),
+  columnCount: integer("column_count").default(0),
+  staleContextItems: integer("stale_context_items").default(0),
+  staleSmeAnswers: integer("stale_sme_answers").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Insert schemas
 export const insertConnectionSchema = createInsertSchema(connections).pick({
   name: true,
@@ -161,6 +542,7 @@ export const insertTableSchema = createInsertSchema(tables).pick({
   name: true,
   schema: true,
   rowCount: true,
+  rowCountMethod: true,
   columnCount: true,
   isSelected: true,
   sampleSize: true,
@@ -209,6 +591,64 @@ export const insertAnalysisJobSchema = createInsertSchema(analysisJobs).pick({
   lastError: true,
 });
 
+export const insertLlmCallSchema = createInsertSchema(llmCalls).pick({
+  databaseId: true,
+  jobId: true,
+  tableId: true,
+  task: true,
+  provider: true,
+  model: true,
+  inputTokens: true,
+  outputTokens: true,
+  latencyMs: true,
+  reused: true,
+  success: true,
+  error: true,
+  estimatedCost: true,
+});
+
+export const insertEmbeddingSchema = createInsertSchema(embeddings, {
+  vector: z.array(z.number()),
+}).pick({
+  databaseId: true,
+  entityType: true,
+  entityId: true,
+  tableId: true,
+  columnId: true,
+  label: true,
+  content: true,
+  contentHash: true,
+  provider: true,
+  model: true,
+  vector: true,
+});
+
+export const insertEvalCaseSchema = createInsertSchema(evalCases, {
+  expectedResult: z.object({
+    columns: z.array(z.string()).optional(),
+    rows: z.array(z.array(z.union([z.string(), z.number(), z.boolean(), z.null()])))
+  }).nullable().optional(),
+}).pick({
+  databaseId: true,
+  question: true,
+  expectedSql: true,
+  expectedResult: true,
+  personaId: true,
+});
+
+export const insertEvalResultSchema = createInsertSchema(evalResults).pick({
+  runId: true,
+  caseId: true,
+  status: true,
+  passed: true,
+  personaName: true,
+  generatedSql: true,
+  expectedRowCount: true,
+  actualRowCount: true,
+  mismatch: true,
+  durationMs: true,
+});
+
 export const insertContextItemSchema = createInsertSchema(contextItems).pick({
   databaseId: true,
   tableId: true,
@@ -228,12 +668,23 @@ export type Column = typeof columns.$inferSelect;
 export type ForeignKey = typeof foreignKeys.$inferSelect;
 export type AgentPersona = typeof agentPersonas.$inferSelect;
 export type InsertAgentPersona = z.infer<typeof insertAgentPersonaSchema>;
+export type PersonaTable = typeof personaTables.$inferSelect;
 export type SmeQuestion = typeof smeQuestions.$inferSelect;
 export type InsertSmeQuestion = z.infer<typeof insertSmeQuestionSchema>;
 export type AnalysisJob = typeof analysisJobs.$inferSelect;
 export type InsertAnalysisJob = z.infer<typeof insertAnalysisJobSchema>;
 export type ContextItem = typeof contextItems.$inferSelect;
 export type InsertContextItem = z.infer<typeof insertContextItemSchema>;
+export type LlmCall = typeof llmCalls.$inferSelect;
+export type InsertLlmCall = z.infer<typeof insertLlmCallSchema>;
+export type Embedding = typeof embeddings.$inferSelect;
+export type InsertEmbedding = z.infer<typeof insertEmbeddingSchema>;
+export type EvalCase = typeof evalCases.$inferSelect;
+export type InsertEvalCase = z.infer<typeof insertEvalCaseSchema>;
+export type EvalRun = typeof evalRuns.$inferSelect;
+export type EvalResult = typeof evalResults.$inferSelect;
+export type InsertEvalResult = z.infer<typeof insertEvalResultSchema>;
+export type SchemaVersion = typeof schemaVersions.$inferSelect;
 export type EnumValue = typeof enumValues.$inferSelect;
 export type InsertEnumValue = z.infer<typeof insertEnumValueSchema>;
 export type User = typeof users.$inferSelect;
@@ -243,3 +694,12 @@ export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
 });
+
+export const insertWorkspaceSchema = createInsertSchema(workspaces).pick({
+  name: true,
+});
+export type Workspace = typeof workspaces.$inferSelect;
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+// A workspace as seen by one of its members
+export type WorkspaceMembership = Workspace & Pick<WorkspaceMember, 'role' | 'smeScope'>;